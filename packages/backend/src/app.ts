@@ -17,6 +17,11 @@ import { router as sourcesRoutes } from './routes/sources.routes.js';
 import { router as scansRoutes } from './routes/scans.routes.js';
 import { router as dashboardRoutes } from './routes/dashboard.routes.js';
 import { router as topicsRoutes } from './routes/topics.routes.js';
+import { router as storiesRoutes } from './routes/stories.routes.js';
+import { router as budgetsRoutes } from './routes/budgets.routes.js';
+import { router as promptsRoutes } from './routes/prompts.routes.js';
+import { router as evaluationRoutes } from './routes/evaluation.routes.js';
+import { router as entitiesRoutes } from './routes/entities.routes.js';
 
 export const app: Express = express(); // Explicitly add ': Express'
 
@@ -81,6 +86,11 @@ app.use('/api/sources', sourcesRoutes);
 app.use('/api/scans', scansRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/topics', topicsRoutes);
+app.use('/api/stories', storiesRoutes);
+app.use('/api/budgets', budgetsRoutes);
+app.use('/api/prompts', promptsRoutes);
+app.use('/api/evaluation', evaluationRoutes);
+app.use('/api/entities', entitiesRoutes);
 
 // 404 handler
 app.use((_req, res) => {
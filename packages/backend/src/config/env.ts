@@ -34,13 +34,44 @@ const envSchema = z.object({
   GOOGLE_CLIENT_SECRET: z.string(),
   GOOGLE_CALLBACK_URL: z.string().default('http://localhost:3001/api/auth/google/callback'),
 
-  // Claude API
-  ANTHROPIC_API_KEY: z.string(),
+  // LLM provider: anthropic, openai (any OpenAI-compatible server such as llama.cpp
+  // or Ollama) or replay (recorded responses, no API key nor network)
+  LLM_PROVIDER: z.enum(['anthropic', 'openai', 'replay']).default('anthropic'),
+  LLM_MODEL: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  OPENAI_COMPAT_BASE_URL: z.string().default('http://localhost:11434/v1'),
+  OPENAI_COMPAT_API_KEY: z.string().optional(),
+  // Replay fixtures (defaults to packages/backend/fixtures/llm), recorded from real calls when enabled
+  LLM_FIXTURES_DIR: z.string().optional(),
+  LLM_RECORD_FIXTURES: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
 
   // Social APIs (optional)
   TWITTER_BEARER_TOKEN: z.string().optional(),
   BLUESKY_IDENTIFIER: z.string().optional(),
   BLUESKY_PASSWORD: z.string().optional(),
+  BLUESKY_SERVICE_URL: z.string().default('https://bsky.social'),
+
+  // AI budgets: when restricted, articles from other than national sources need this many keyword matches
+  AI_BUDGET_MIN_KEYWORD_MATCHES: z.coerce.number().int().positive().default(2),
+
+  // Scheduler: sources queued per minute at most, and random delay spreading their fetches
+  SCAN_MAX_SOURCES_PER_MINUTE: z.coerce.number().int().positive().default(10),
+  SCAN_JITTER_SECONDS: z.coerce.number().int().min(0).default(120),
+
+  // Extra query parameters stripped from article URLs, comma separated ('utm_*' matches a prefix)
+  URL_TRACKING_PARAMS: z.string().default('').transform((v) =>
+    v.split(',').map((p) => p.trim()).filter(Boolean)
+  ),
+
+  // Download article pages to extract the full text (optional)
+  ARTICLE_EXTRACTION_ENABLED: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+
+  // Share of the articles no topic keywords matched that are analyzed anyway to measure recall (0 disables)
+  KEYWORD_MISS_SAMPLE_RATE: z.coerce.number().min(0).max(1).default(0),
+  KEYWORD_MISS_SAMPLE_MAX_PER_RUN: z.coerce.number().int().positive().default(20),
+
+  // INSEE commune reference (defaults to the bundled COG 2026 file), a newer COG commune file can replace it
+  COMMUNES_FILE: z.string().optional(),
 
   // Domain restriction for OAuth (optional, defaults to partiliberalfrancais.fr)
   ALLOWED_EMAIL_DOMAIN: z.string().optional(),
@@ -50,6 +81,9 @@ const envSchema = z.object({
 
   // Logging
   LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
+}).refine((e) => e.LLM_PROVIDER !== 'anthropic' || !!e.ANTHROPIC_API_KEY, {
+  message: 'Required when LLM_PROVIDER is anthropic',
+  path: ['ANTHROPIC_API_KEY'],
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -2,7 +2,7 @@ import { config } from 'dotenv';
 import pg from 'pg';
 import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,6 +26,9 @@ const pool = new Pool({
 
 const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
 
+// Data migrations run as .ts under tsx and as compiled .js from dist
+const SCRIPT_EXT = path.extname(__filename);
+
 interface Migration {
   id: number;
   name: string;
@@ -49,28 +52,41 @@ async function getAppliedMigrations(): Promise<string[]> {
   return result.rows.map((row) => row.name);
 }
 
+// Data migrations are recorded under their .ts name whichever file ran
+function migrationName(filename: string): string {
+  return filename.endsWith(SCRIPT_EXT) ? `${path.basename(filename, SCRIPT_EXT)}.ts` : filename;
+}
+
 async function getMigrationFiles(): Promise<string[]> {
   const files = fs.readdirSync(MIGRATIONS_DIR);
   return files
-    .filter((file) => file.endsWith('.sql'))
-    .sort((a, b) => a.localeCompare(b));
+    .filter((file) => file.endsWith('.sql') || (file.endsWith(SCRIPT_EXT) && !file.endsWith('.d.ts')))
+    // A data migration runs after the SQL migration it completes (.sql < .ts)
+    .sort((a, b) => migrationName(a).localeCompare(migrationName(b)));
 }
 
 async function runMigration(filename: string): Promise<void> {
   const filepath = path.join(MIGRATIONS_DIR, filename);
-  const sql = fs.readFileSync(filepath, 'utf-8');
 
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
-    // Execute the migration SQL
-    await client.query(sql);
+    if (filename.endsWith(SCRIPT_EXT)) {
+      // Data migrations that need shared code export up(client)
+      const migration = await import(pathToFileURL(filepath).href) as {
+        up: (client: pg.PoolClient) => Promise<void>;
+      };
+      await migration.up(client);
+    } else {
+      // Execute the migration SQL
+      await client.query(fs.readFileSync(filepath, 'utf-8'));
+    }
 
     // Record the migration
     await client.query(
       'INSERT INTO schema_migrations (name) VALUES ($1)',
-      [filename]
+      [migrationName(filename)]
     );
 
     await client.query('COMMIT');
@@ -99,7 +115,7 @@ async function migrate(): Promise<void> {
     console.log(`📁 Migration files found: ${files.length}\n`);
 
     // Find pending migrations
-    const pending = files.filter((file) => !applied.includes(file));
+    const pending = files.filter((file) => !applied.includes(migrationName(file)));
 
     if (pending.length === 0) {
       console.log('✨ Database is up to date. No migrations to run.');
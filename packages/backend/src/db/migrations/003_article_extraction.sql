@@ -0,0 +1,18 @@
+-- Full-Text Extraction Migration
+-- Version: 1.2.0
+
+-- =========================================
+-- ARTICLE EXTRACTION
+-- =========================================
+
+CREATE TYPE extraction_status AS ENUM (
+    'extracted',
+    'paywalled',
+    'failed'
+);
+
+-- NULL means the article page was never downloaded
+ALTER TABLE articles ADD COLUMN extraction_status extraction_status;
+ALTER TABLE articles ADD COLUMN extracted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_articles_extraction_status ON articles(extraction_status);
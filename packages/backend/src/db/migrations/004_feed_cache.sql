@@ -0,0 +1,14 @@
+-- Feed Caching Migration
+-- Version: 1.3.0
+
+-- =========================================
+-- CONDITIONAL GET VALIDATORS
+-- =========================================
+
+-- Validators from the last successfully processed response
+ALTER TABLE sources ADD COLUMN feed_etag TEXT;
+ALTER TABLE sources ADD COLUMN feed_last_modified TEXT;
+ALTER TABLE sources ADD COLUMN feed_content_hash VARCHAR(64);
+
+-- Scans short-circuited on a 304 or an identical body
+ALTER TYPE scan_status ADD VALUE IF NOT EXISTS 'unchanged';
@@ -0,0 +1,46 @@
+-- Source Feeds Migration
+-- Version: 1.4.0
+
+-- =========================================
+-- FEEDS OWNED BY A SOURCE
+-- =========================================
+
+-- An outlet can publish several feeds (front page, politics, economy...).
+-- Articles stay attributed to the source, fetch state is tracked per feed.
+CREATE TABLE source_feeds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_id UUID NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    label VARCHAR(100),
+    is_primary BOOLEAN DEFAULT false,
+    is_active BOOLEAN DEFAULT true,
+    last_fetched_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    error_count INT DEFAULT 0,
+    feed_etag TEXT,
+    feed_last_modified TEXT,
+    feed_content_hash VARCHAR(64),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(source_id, url)
+);
+
+CREATE INDEX idx_source_feeds_source ON source_feeds(source_id);
+CREATE UNIQUE INDEX idx_source_feeds_primary ON source_feeds(source_id) WHERE is_primary;
+
+CREATE TRIGGER update_source_feeds_updated_at BEFORE UPDATE ON source_feeds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The current URL of each RSS source becomes its primary feed
+INSERT INTO source_feeds (
+    source_id, url, is_primary, last_fetched_at,
+    feed_etag, feed_last_modified, feed_content_hash
+)
+SELECT id, url, true, last_fetched_at, feed_etag, feed_last_modified, feed_content_hash
+FROM sources
+WHERE type = 'rss';
+
+-- Validators now live on the feed they were received for
+ALTER TABLE sources DROP COLUMN feed_etag;
+ALTER TABLE sources DROP COLUMN feed_last_modified;
+ALTER TABLE sources DROP COLUMN feed_content_hash;
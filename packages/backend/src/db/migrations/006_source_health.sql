@@ -0,0 +1,21 @@
+-- Source Health Migration
+-- Version: 1.5.0
+
+-- =========================================
+-- HEALTH STATE AND CIRCUIT BREAKING
+-- =========================================
+
+CREATE TYPE source_health AS ENUM ('healthy', 'degraded', 'suspended');
+
+-- error_count already counts consecutive failures (reset on success)
+ALTER TABLE sources ADD COLUMN health_status source_health NOT NULL DEFAULT 'healthy';
+-- Earliest time a failing source is fetched again (exponential backoff)
+ALTER TABLE sources ADD COLUMN next_fetch_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sources ADD COLUMN suspended_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sources ADD COLUMN suspended_reason TEXT;
+ALTER TABLE sources ADD COLUMN last_probe_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_sources_health ON sources(health_status);
+
+-- Sources already failing start degraded, the policy suspends them on their next failures
+UPDATE sources SET health_status = 'degraded' WHERE error_count > 0;
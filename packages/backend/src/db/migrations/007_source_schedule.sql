@@ -0,0 +1,21 @@
+-- Source Scheduling Migration
+-- Version: 1.6.0
+
+-- =========================================
+-- PER-SOURCE SCHEDULE
+-- =========================================
+
+-- Hours (Europe/Paris, 0-23) during which a source is not scanned.
+-- A start after the end wraps around midnight (22 -> 6).
+ALTER TABLE sources ADD COLUMN quiet_hours_start SMALLINT
+    CHECK (quiet_hours_start BETWEEN 0 AND 23);
+ALTER TABLE sources ADD COLUMN quiet_hours_end SMALLINT
+    CHECK (quiet_hours_end BETWEEN 0 AND 23);
+ALTER TABLE sources ADD CONSTRAINT sources_quiet_hours_pair
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+-- When the scheduler last queued the source, so a slow scan is not queued twice
+ALTER TABLE sources ADD COLUMN last_enqueued_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE sources ADD CONSTRAINT sources_fetch_interval_range
+    CHECK (fetch_interval_minutes BETWEEN 5 AND 1440);
@@ -0,0 +1,42 @@
+-- Near-Duplicate Detection Migration
+-- Version: 1.7.0
+
+-- =========================================
+-- STORIES
+-- =========================================
+
+-- A story groups the copies of one piece (e.g. an AFP dispatch republished
+-- by several outlets) around the first article seen
+CREATE TABLE stories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    canonical_article_id UUID REFERENCES articles(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    article_count INT DEFAULT 1,
+    first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_story_canonical UNIQUE (canonical_article_id)
+);
+
+CREATE INDEX idx_stories_last_seen ON stories(last_seen_at DESC);
+
+CREATE TRIGGER update_stories_updated_at BEFORE UPDATE ON stories
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =========================================
+-- ARTICLE FINGERPRINTS
+-- =========================================
+
+-- Syndicated copies are stored but never analyzed
+ALTER TYPE article_status ADD VALUE IF NOT EXISTS 'duplicate';
+
+-- 64-bit SimHash of the title and lede shingles
+ALTER TABLE articles ADD COLUMN simhash BIGINT;
+ALTER TABLE articles ADD COLUMN story_id UUID REFERENCES stories(id) ON DELETE SET NULL;
+-- Set on syndicated copies, points to the canonical article of the story
+ALTER TABLE articles ADD COLUMN duplicate_of UUID REFERENCES articles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_articles_story ON articles(story_id) WHERE story_id IS NOT NULL;
+CREATE INDEX idx_articles_duplicate_of ON articles(duplicate_of) WHERE duplicate_of IS NOT NULL;
+CREATE INDEX idx_articles_fingerprinted ON articles(created_at DESC) WHERE simhash IS NOT NULL;
@@ -0,0 +1,12 @@
+-- URL Canonicalization Migration
+-- Version: 1.8.0
+
+-- =========================================
+-- ORIGINAL URL
+-- =========================================
+
+-- url now holds the canonical URL that url_hash is computed from,
+-- the URL found in the feed is kept when it differs.
+-- Existing articles are re-hashed by 009_url_canonicalization.ts, which
+-- calls canonicalizeUrl() itself so the hashes match those of ingestion.
+ALTER TABLE articles ADD COLUMN original_url TEXT;
@@ -0,0 +1,139 @@
+import type pg from 'pg';
+import { canonicalizeUrl, hashUrl, DEFAULT_URL_RULES } from '@media-scanner/shared';
+
+// Rows sent to the database per INSERT
+const BATCH_SIZE = 5000;
+
+/**
+ * Re-hash existing articles with their canonical URL and merge the articles
+ * that turn out to share one. Runs after 009_url_canonicalization.sql.
+ */
+export async function up(client: pg.PoolClient): Promise<void> {
+  // Same rules as the urlCanonicalizer service, without loading the whole app config
+  const rules = {
+    trackingParams: [
+      ...DEFAULT_URL_RULES.trackingParams,
+      ...(process.env.URL_TRACKING_PARAMS || '').split(',').map((p) => p.trim()).filter(Boolean),
+    ],
+    domainRules: DEFAULT_URL_RULES.domainRules,
+  };
+
+  // The feed URL is the reference when a previous run already rewrote url
+  const { rows } = await client.query<{ id: string; original_url: string }>(
+    'SELECT id, COALESCE(original_url, url) AS original_url FROM articles'
+  );
+
+  await client.query(`
+    CREATE TEMP TABLE canonical_urls (
+      id UUID PRIMARY KEY,
+      original_url TEXT NOT NULL,
+      url TEXT NOT NULL,
+      url_hash VARCHAR(64) NOT NULL
+    ) ON COMMIT DROP
+  `);
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const urls = batch.map((row) => canonicalizeUrl(row.original_url, rules));
+
+    await client.query(
+      `INSERT INTO canonical_urls (id, original_url, url, url_hash)
+       SELECT * FROM unnest($1::uuid[], $2::text[], $3::text[], $4::varchar[])`,
+      [batch.map((row) => row.id), batch.map((row) => row.original_url), urls, urls.map(hashUrl)]
+    );
+  }
+
+  // In each group of articles sharing a canonical URL, keep the analyzed one, then the oldest
+  await client.query(`
+    CREATE TEMP TABLE merged_articles ON COMMIT DROP AS
+    SELECT id, keep_id
+    FROM (
+      SELECT
+        c.id,
+        first_value(c.id) OVER (
+          PARTITION BY c.url_hash
+          ORDER BY (a.analyzed_at IS NOT NULL) DESC, a.created_at, a.id
+        ) AS keep_id
+      FROM canonical_urls c
+      JOIN articles a ON a.id = c.id
+    ) ranked
+    WHERE id <> keep_id
+  `);
+
+  await client.query(`
+    UPDATE generated_posts gp SET article_id = m.keep_id
+    FROM merged_articles m WHERE gp.article_id = m.id
+  `);
+
+  await client.query(`
+    UPDATE social_posts sp SET linked_article_id = m.keep_id
+    FROM merged_articles m WHERE sp.linked_article_id = m.id
+  `);
+
+  await client.query(`
+    DELETE FROM article_topics t
+    USING merged_articles m
+    WHERE t.article_id = m.id
+      AND EXISTS (
+        SELECT 1 FROM article_topics kept
+        WHERE kept.article_id = m.keep_id AND kept.topic_id = t.topic_id
+      )
+  `);
+
+  await client.query(`
+    UPDATE article_topics t SET article_id = m.keep_id
+    FROM merged_articles m WHERE t.article_id = m.id
+  `);
+
+  await client.query(`
+    UPDATE articles a SET story_id = d.story_id
+    FROM merged_articles m
+    JOIN articles d ON d.id = m.id
+    WHERE a.id = m.keep_id AND a.story_id IS NULL AND d.story_id IS NOT NULL
+  `);
+
+  await client.query(`
+    UPDATE articles a SET duplicate_of = m.keep_id
+    FROM merged_articles m WHERE a.duplicate_of = m.id AND a.id <> m.keep_id
+  `);
+
+  // A story per kept article: when merged articles led several stories, or the
+  // kept one already leads a story, the others lose their canonical article
+  // (set to NULL by the foreign key) instead of breaking unique_story_canonical
+  await client.query(`
+    UPDATE stories s SET canonical_article_id = pick.keep_id
+    FROM (
+      SELECT DISTINCT ON (m.keep_id) st.id AS story_id, m.keep_id
+      FROM merged_articles m
+      JOIN stories st ON st.canonical_article_id = m.id
+      WHERE NOT EXISTS (SELECT 1 FROM stories k WHERE k.canonical_article_id = m.keep_id)
+      ORDER BY m.keep_id, st.created_at, st.id
+    ) pick
+    WHERE s.id = pick.story_id
+  `);
+
+  await client.query('DELETE FROM articles a USING merged_articles m WHERE a.id = m.id');
+
+  await client.query(`
+    UPDATE stories s SET article_count = (
+      SELECT COUNT(*) FROM articles a WHERE a.story_id = s.id
+    )
+  `);
+
+  // Unique url_hash is checked row by row, clear the changing hashes first so two can swap
+  await client.query(`
+    UPDATE articles a SET url_hash = a.id::text
+    FROM canonical_urls c
+    WHERE a.id = c.id AND a.url_hash <> c.url_hash
+  `);
+
+  await client.query(`
+    UPDATE articles a SET
+      url = c.url,
+      url_hash = c.url_hash,
+      original_url = NULLIF(c.original_url, c.url)
+    FROM canonical_urls c
+    WHERE a.id = c.id
+      AND (a.url <> c.url OR a.url_hash <> c.url_hash OR a.original_url IS DISTINCT FROM NULLIF(c.original_url, c.url))
+  `);
+}
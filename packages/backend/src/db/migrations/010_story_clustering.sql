@@ -0,0 +1,26 @@
+-- Story Clustering Migration
+-- Version: 1.9.0
+
+-- =========================================
+-- STORY SIGNATURES
+-- =========================================
+
+-- Stories now follow an affair over several weeks, not only the copies of
+-- one dispatch. Each new article is compared to the signature of recent
+-- stories: salient words and named entities of the articles it holds.
+ALTER TABLE stories ADD COLUMN terms TEXT[] DEFAULT '{}';
+ALTER TABLE stories ADD COLUMN entities TEXT[] DEFAULT '{}';
+-- Set once an editor merged, split or renamed the story
+ALTER TABLE stories ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_stories_terms ON stories USING GIN(terms);
+CREATE INDEX idx_stories_entities ON stories USING GIN(entities);
+
+-- =========================================
+-- POSTS ABOUT A STORY
+-- =========================================
+
+-- Posts generated with the story timeline as context
+ALTER TABLE generated_posts ADD COLUMN story_id UUID REFERENCES stories(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_generated_posts_story ON generated_posts(story_id) WHERE story_id IS NOT NULL;
@@ -0,0 +1,31 @@
+-- AI Usage Migration
+-- Version: 1.10.0
+
+-- =========================================
+-- AI USAGE
+-- =========================================
+
+-- One row per call to a language model, kept after the article is cleaned
+-- up so that monthly costs can still be broken down per source
+CREATE TABLE ai_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    purpose VARCHAR(50),
+    article_id UUID REFERENCES articles(id) ON DELETE SET NULL,
+    source_id UUID REFERENCES sources(id) ON DELETE SET NULL,
+    -- Topics the call evaluated, its cost is shared evenly between them
+    topic_ids UUID[] DEFAULT '{}',
+    input_tokens INT NOT NULL DEFAULT 0,
+    output_tokens INT NOT NULL DEFAULT 0,
+    latency_ms INT NOT NULL,
+    -- Estimated from list prices, NULL when the model's price is unknown
+    cost_usd NUMERIC(12,6),
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('success', 'error', 'invalid_response')),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_ai_usage_created ON ai_usage(created_at DESC);
+CREATE INDEX idx_ai_usage_article ON ai_usage(article_id) WHERE article_id IS NOT NULL;
+CREATE INDEX idx_ai_usage_source ON ai_usage(source_id) WHERE source_id IS NOT NULL;
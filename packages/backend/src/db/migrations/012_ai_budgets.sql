@@ -0,0 +1,62 @@
+-- AI Budgets Migration
+-- Version: 1.11.0
+
+-- =========================================
+-- BUDGETS
+-- =========================================
+
+-- Spending limits on AI calls, for every call or for one purpose.
+-- As the spending of a period nears a limit the pipeline degrades:
+-- no post generation, then only national or strongly matched articles,
+-- then every article held in 'pending' until the period resets.
+CREATE TABLE ai_budgets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- NULL: every AI call
+    purpose VARCHAR(50),
+    period VARCHAR(10) NOT NULL CHECK (period IN ('day', 'month')),
+    limit_usd NUMERIC(10,2) NOT NULL CHECK (limit_usd > 0),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX unique_ai_budget_scope ON ai_budgets(COALESCE(purpose, ''), period);
+
+CREATE TRIGGER update_ai_budgets_updated_at BEFORE UPDATE ON ai_budgets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =========================================
+-- ALERTS
+-- =========================================
+
+-- Raised once per budget, period and degradation step
+CREATE TABLE ai_budget_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    budget_id UUID NOT NULL REFERENCES ai_budgets(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    level VARCHAR(20) NOT NULL,
+    spent_usd NUMERIC(12,6) NOT NULL,
+    limit_usd NUMERIC(10,2) NOT NULL,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_ai_budget_alert UNIQUE (budget_id, period_start, level)
+);
+
+CREATE INDEX idx_ai_budget_alerts_open ON ai_budget_alerts(created_at DESC) WHERE acknowledged_at IS NULL;
+
+-- =========================================
+-- OVERRIDES
+-- =========================================
+
+-- An admin forcing a degradation step until a deadline, whatever the spending
+CREATE TABLE ai_budget_overrides (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    level VARCHAR(20) NOT NULL CHECK (level IN ('normal', 'no_generation', 'restricted', 'paused')),
+    reason TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_ai_budget_overrides_expires ON ai_budget_overrides(expires_at DESC);
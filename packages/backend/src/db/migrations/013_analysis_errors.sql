@@ -0,0 +1,10 @@
+-- Analysis Errors Migration
+-- Version: 1.12.0
+
+-- =========================================
+-- ANALYSIS ERROR
+-- =========================================
+
+-- Why an article ended in 'error': the model never returned a valid analysis,
+-- even after being asked to fix its reply. Cleared once an analysis succeeds.
+ALTER TABLE articles ADD COLUMN analysis_error TEXT;
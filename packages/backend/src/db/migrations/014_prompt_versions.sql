@@ -0,0 +1,35 @@
+-- Prompt Versions Migration
+-- Version: 1.13.0
+
+-- =========================================
+-- PROMPT VERSIONS
+-- =========================================
+
+-- Every saved edit of a prompt is a new version, one version per prompt is active.
+-- Version 1 of each prompt is the template shipped in @media-scanner/shared,
+-- inserted by the backend the first time the prompt is used.
+CREATE TABLE prompt_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prompt_key VARCHAR(50) NOT NULL,
+    version INTEGER NOT NULL,
+    system_prompt TEXT NOT NULL,
+    user_template TEXT NOT NULL,
+    note TEXT,
+    is_active BOOLEAN DEFAULT false,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_prompt_version UNIQUE (prompt_key, version)
+);
+
+CREATE UNIQUE INDEX unique_active_prompt_version ON prompt_versions(prompt_key) WHERE is_active;
+
+-- =========================================
+-- PROVENANCE
+-- =========================================
+
+-- Prompt version that produced a score or a post, NULL for those produced before versioning
+ALTER TABLE article_topics ADD COLUMN prompt_version_id UUID REFERENCES prompt_versions(id) ON DELETE SET NULL;
+ALTER TABLE generated_posts ADD COLUMN prompt_version_id UUID REFERENCES prompt_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_article_topics_prompt_version ON article_topics(prompt_version_id);
+CREATE INDEX idx_generated_posts_prompt_version ON generated_posts(prompt_version_id);
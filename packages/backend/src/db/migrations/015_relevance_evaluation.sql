@@ -0,0 +1,63 @@
+-- Relevance Evaluation Migration
+-- Version: 1.14.0
+
+-- =========================================
+-- GOLDEN SET
+-- =========================================
+
+-- What a person judged an article to be for a topic, one label per pair
+CREATE TABLE relevance_labels (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    is_relevant BOOLEAN NOT NULL,
+    labelled_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_relevance_label UNIQUE (article_id, topic_id)
+);
+
+CREATE INDEX idx_relevance_labels_topic ON relevance_labels(topic_id);
+
+CREATE TRIGGER update_relevance_labels_updated_at BEFORE UPDATE ON relevance_labels
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =========================================
+-- EVALUATION RUNS
+-- =========================================
+
+-- The golden set re-scored with a given prompt version, model and threshold
+CREATE TABLE evaluation_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- NULL: every labelled topic
+    topic_id UUID REFERENCES topics(id) ON DELETE SET NULL,
+    prompt_version_id UUID NOT NULL REFERENCES prompt_versions(id),
+    model VARCHAR(100) NOT NULL,
+    threshold NUMERIC(3,2) NOT NULL CHECK (threshold >= 0 AND threshold <= 1),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    sample_count INTEGER NOT NULL DEFAULT 0,
+    scored_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    -- Precision, recall, F1, calibration and breakdowns, set once completed
+    metrics JSONB,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_evaluation_runs_created ON evaluation_runs(created_at DESC);
+
+-- One score per labelled pair, with the label as it was when the run started
+CREATE TABLE evaluation_results (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES evaluation_runs(id) ON DELETE CASCADE,
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    expected BOOLEAN NOT NULL,
+    score NUMERIC(3,2),
+    reasoning TEXT,
+    error TEXT
+);
+
+CREATE INDEX idx_evaluation_results_run ON evaluation_results(run_id);
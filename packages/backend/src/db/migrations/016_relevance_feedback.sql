@@ -0,0 +1,30 @@
+-- Relevance Feedback Migration
+-- Version: 1.15.0
+
+-- =========================================
+-- RELEVANCE FEEDBACK
+-- =========================================
+
+-- A reviewer's verdict on the score the model gave an article for a topic
+CREATE TABLE relevance_feedback (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    -- Score being judged, kept as it was even if the article is analyzed again
+    model_score NUMERIC(3,2) NOT NULL,
+    is_correct BOOLEAN NOT NULL,
+    -- Score the reviewer would have given, set when the model was wrong
+    corrected_score NUMERIC(3,2) CHECK (corrected_score >= 0 AND corrected_score <= 1),
+    comment TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_relevance_feedback UNIQUE (article_id, topic_id),
+    CONSTRAINT correction_has_score CHECK (is_correct OR corrected_score IS NOT NULL)
+);
+
+-- Corrections of a topic are looked up on every analysis, for few-shot examples
+CREATE INDEX idx_relevance_feedback_corrections ON relevance_feedback(topic_id) WHERE NOT is_correct;
+
+CREATE TRIGGER update_relevance_feedback_updated_at BEFORE UPDATE ON relevance_feedback
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
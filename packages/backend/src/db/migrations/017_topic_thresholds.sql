@@ -0,0 +1,26 @@
+-- Topic Thresholds Migration
+-- Version: 1.16.0
+
+-- =========================================
+-- TOPICS
+-- =========================================
+
+-- Score from which posts are generated for the topic, the default one when NULL
+ALTER TABLE topics ADD COLUMN auto_generate_score DECIMAL(3,2)
+    CHECK (auto_generate_score >= 0 AND auto_generate_score <= 1);
+
+-- =========================================
+-- ARTICLES
+-- =========================================
+
+-- Articles analyzed per topic were judged against a fixed 0.5, apply each topic's own threshold
+UPDATE articles a SET status = CASE
+        WHEN EXISTS (
+            SELECT 1 FROM article_topics at
+            JOIN topics t ON t.id = at.topic_id
+            WHERE at.article_id = a.id AND t.is_active AND at.relevance_score >= t.min_relevance_score
+        ) THEN 'relevant'::article_status
+        ELSE 'irrelevant'::article_status
+    END
+WHERE a.status IN ('relevant', 'irrelevant')
+    AND EXISTS (SELECT 1 FROM article_topics at WHERE at.article_id = a.id);
@@ -0,0 +1,37 @@
+-- Topic Backfills Migration
+-- Version: 1.17.0
+
+-- =========================================
+-- TOPIC BACKFILLS
+-- =========================================
+
+-- Keyword matching re-run over recent articles for one topic, the matches queued for analysis
+CREATE TABLE topic_backfills (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    days INTEGER NOT NULL CHECK (days > 0),
+    -- Also score again the articles already scored for the topic, after its prompt changed
+    rescore BOOLEAN NOT NULL DEFAULT false,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'scanning', 'analyzing', 'completed', 'failed', 'cancelled')),
+    -- What was shown before launch
+    estimated_analyses INTEGER NOT NULL DEFAULT 0,
+    estimated_cost_usd NUMERIC(10,4),
+    scanned_count INTEGER NOT NULL DEFAULT 0,
+    matched_count INTEGER NOT NULL DEFAULT 0,
+    rescored_count INTEGER NOT NULL DEFAULT 0,
+    queued_count INTEGER NOT NULL DEFAULT 0,
+    analyzed_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_topic_backfills_topic ON topic_backfills(topic_id, created_at DESC);
+
+-- One backfill at a time per topic
+CREATE UNIQUE INDEX idx_topic_backfills_in_progress ON topic_backfills(topic_id)
+    WHERE status IN ('pending', 'scanning', 'analyzing');
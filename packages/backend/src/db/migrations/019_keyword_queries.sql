@@ -0,0 +1,18 @@
+-- Keyword Queries Migration
+-- Version: 1.18.0
+
+-- =========================================
+-- TOPICS
+-- =========================================
+
+-- Keywords are now queries where juxtaposed words are all required anywhere in the text.
+-- Multi-word keywords were matched as a whole, quote them to keep them phrases.
+UPDATE topics SET keywords = ARRAY(
+    SELECT CASE
+        WHEN k ~ '\s' AND k !~ '["()]' THEN '"' || k || '"'
+        ELSE k
+    END
+    FROM unnest(keywords) WITH ORDINALITY AS u(k, i)
+    ORDER BY i
+)
+WHERE EXISTS (SELECT 1 FROM unnest(keywords) AS k WHERE k ~ '\s');
@@ -0,0 +1,35 @@
+-- Keyword Audit Migration
+-- Version: 1.19.0
+
+-- =========================================
+-- KEYWORD AUDIT RUNS
+-- =========================================
+
+-- Each run checks the articles inserted since the previous one against the topic keywords
+CREATE TABLE keyword_audit_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    sample_rate NUMERIC(5,4) NOT NULL,
+    scanned_count INTEGER NOT NULL DEFAULT 0,
+    -- Articles no active topic keywords matched
+    miss_count INTEGER NOT NULL DEFAULT 0,
+    sampled_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_keyword_audit_runs_window ON keyword_audit_runs(window_end DESC);
+
+-- =========================================
+-- KEYWORD MISS SAMPLES
+-- =========================================
+
+-- Misses sent through the multi-topic analysis, their scores land in article_topics
+CREATE TABLE keyword_miss_samples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES keyword_audit_runs(id) ON DELETE CASCADE,
+    article_id UUID NOT NULL UNIQUE REFERENCES articles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_keyword_miss_samples_run ON keyword_miss_samples(run_id);
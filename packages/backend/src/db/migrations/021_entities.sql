@@ -0,0 +1,38 @@
+-- Entities Migration
+-- Version: 1.20.0
+
+-- =========================================
+-- ENTITIES
+-- =========================================
+
+-- People, public bodies, companies and communes named by relevant articles
+CREATE TABLE entities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type VARCHAR(20) NOT NULL CHECK (type IN ('politician', 'public_body', 'company', 'commune')),
+    name VARCHAR(255) NOT NULL,
+    -- Lowercase without accents, how mentions of the same entity are merged
+    normalized_name VARCHAR(255) NOT NULL,
+    -- Communes found in the INSEE reference, homonyms told apart by their code
+    insee_code VARCHAR(5),
+    departement_code VARCHAR(3),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX unique_entity ON entities(type, normalized_name, COALESCE(insee_code, ''));
+CREATE INDEX idx_entities_departement ON entities(departement_code) WHERE departement_code IS NOT NULL;
+
+-- =========================================
+-- ARTICLE ENTITIES
+-- =========================================
+
+CREATE TABLE article_entities (
+    article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+    entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (article_id, entity_id)
+);
+
+CREATE INDEX idx_article_entities_entity ON article_entities(entity_id);
+
+-- Set once the extraction ran, even when it found nothing
+ALTER TABLE articles ADD COLUMN entities_extracted_at TIMESTAMP WITH TIME ZONE;
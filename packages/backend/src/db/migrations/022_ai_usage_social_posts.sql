@@ -0,0 +1,12 @@
+-- AI Usage Social Posts Migration
+-- Version: 1.21.0
+
+-- =========================================
+-- SOCIAL POST ANALYSES
+-- =========================================
+
+-- Calls about a social post are recorded against it, article_id only
+-- references articles
+ALTER TABLE ai_usage ADD COLUMN social_post_id UUID REFERENCES social_posts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_ai_usage_social_post ON ai_usage(social_post_id) WHERE social_post_id IS NOT NULL;
@@ -0,0 +1,39 @@
+-- Keyword Audit Topic Misses Migration
+-- Version: 1.22.0
+
+-- =========================================
+-- MISSED TOPICS OF EACH SAMPLE
+-- =========================================
+
+-- Runs now count as a miss any article some active topic's keywords let through,
+-- a sample stands for the topics that missed it and its run's miss_count for all of them
+ALTER TABLE keyword_miss_samples
+    ADD COLUMN missed_topic_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Earlier samples matched no topic, every topic they were scored for missed them
+UPDATE keyword_miss_samples ms
+SET missed_topic_ids = COALESCE(
+    (SELECT array_agg(at.topic_id) FROM article_topics at WHERE at.article_id = ms.article_id),
+    '{}'
+);
+
+-- =========================================
+-- MISSES PER TOPIC AND RUN
+-- =========================================
+
+CREATE TABLE keyword_audit_topic_misses (
+    run_id UUID NOT NULL REFERENCES keyword_audit_runs(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    miss_count INTEGER NOT NULL,
+    PRIMARY KEY (run_id, topic_id)
+);
+
+CREATE INDEX idx_keyword_audit_topic_misses_topic ON keyword_audit_topic_misses(topic_id);
+
+-- Earlier runs only counted the articles no topic matched, a lower bound for each topic
+INSERT INTO keyword_audit_topic_misses (run_id, topic_id, miss_count)
+SELECT DISTINCT r.id, mt.topic_id, r.miss_count
+FROM keyword_audit_runs r
+JOIN keyword_miss_samples ms ON ms.run_id = r.id
+CROSS JOIN LATERAL unnest(ms.missed_topic_ids) AS mt(topic_id)
+JOIN topics t ON t.id = mt.topic_id;
@@ -0,0 +1,11 @@
+-- Entity Departements Migration
+-- Version: 1.23.0
+
+-- =========================================
+-- ENTITIES
+-- =========================================
+
+-- Communes missing from the INSEE reference are told apart by their département,
+-- a linked commune's code already implies its own
+DROP INDEX unique_entity;
+CREATE UNIQUE INDEX unique_entity ON entities(type, normalized_name, COALESCE(insee_code, ''), COALESCE(departement_code, ''));
@@ -0,0 +1,28 @@
+-- Seed data for source feeds
+-- Primary feed of every RSS source, plus the section feeds of outlets that have them
+
+-- Follow URL changes made by the sources seed
+UPDATE source_feeds sf SET url = s.url
+FROM sources s
+WHERE sf.source_id = s.id AND sf.is_primary AND sf.url <> s.url;
+
+INSERT INTO source_feeds (source_id, url, is_primary)
+SELECT s.id, s.url, true FROM sources s
+WHERE s.type = 'rss'
+  AND NOT EXISTS (SELECT 1 FROM source_feeds sf WHERE sf.source_id = s.id AND sf.is_primary)
+ON CONFLICT (source_id, url) DO NOTHING;
+
+INSERT INTO source_feeds (source_id, url, label)
+SELECT s.id, f.url, f.label
+FROM (VALUES
+    ('le-monde', 'https://www.lemonde.fr/politique/rss_full.xml', 'Politique'),
+    ('le-monde', 'https://www.lemonde.fr/economie/rss_full.xml', 'Économie'),
+    ('le-monde', 'https://www.lemonde.fr/societe/rss_full.xml', 'Société'),
+    ('le-figaro', 'https://www.lefigaro.fr/rss/figaro_politique.xml', 'Politique'),
+    ('le-figaro', 'https://www.lefigaro.fr/rss/figaro_economie.xml', 'Économie')
+) AS f(slug, url, label)
+JOIN sources s ON s.slug = f.slug
+
+ON CONFLICT (source_id, url) DO UPDATE SET
+    label = EXCLUDED.label,
+    updated_at = NOW();
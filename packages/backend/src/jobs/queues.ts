@@ -1,4 +1,4 @@
-import { Queue, QueueEvents } from 'bullmq';
+import { Queue, QueueEvents, DelayedError, type Job } from 'bullmq';
 import { createBullMQConnection } from '../config/redis.js';
 import { logger } from '../utils/logger.js';
 
@@ -8,10 +8,14 @@ const connection = createBullMQConnection();
 export const QUEUE_NAMES = {
   RSS_SCAN: 'rss-scan',
   SOCIAL_SCAN: 'social-scan',
+  CONTENT_EXTRACTION: 'content-extraction',
   AI_ANALYSIS: 'ai-analysis',
   POST_GENERATION: 'post-generation',
   DAILY_SUMMARY: 'daily-summary',
   SCAN_ORCHESTRATOR: 'scan-orchestrator',
+  EVALUATION: 'evaluation',
+  TOPIC_BACKFILL: 'topic-backfill',
+  ENTITY_EXTRACTION: 'entity-extraction',
 } as const;
 
 // Create queues
@@ -36,6 +40,16 @@ export const queues = {
     },
   }),
 
+  contentExtraction: new Queue(QUEUE_NAMES.CONTENT_EXTRACTION, {
+    connection,
+    defaultJobOptions: {
+      attempts: 2,
+      backoff: { type: 'exponential', delay: 10000 },
+      removeOnComplete: { count: 500 },
+      removeOnFail: { count: 500 },
+    },
+  }),
+
   aiAnalysis: new Queue(QUEUE_NAMES.AI_ANALYSIS, {
     connection,
     defaultJobOptions: {
@@ -74,6 +88,36 @@ export const queues = {
       removeOnFail: { count: 100 },
     },
   }),
+
+  // A failed run is recorded as such, re-running it would score the set twice
+  evaluation: new Queue(QUEUE_NAMES.EVALUATION, {
+    connection,
+    defaultJobOptions: {
+      attempts: 1,
+      removeOnComplete: { count: 50 },
+      removeOnFail: { count: 100 },
+    },
+  }),
+
+  // Same for backfills, a retry would queue the matches again
+  topicBackfill: new Queue(QUEUE_NAMES.TOPIC_BACKFILL, {
+    connection,
+    defaultJobOptions: {
+      attempts: 1,
+      removeOnComplete: { count: 50 },
+      removeOnFail: { count: 100 },
+    },
+  }),
+
+  entityExtraction: new Queue(QUEUE_NAMES.ENTITY_EXTRACTION, {
+    connection,
+    defaultJobOptions: {
+      attempts: 2,
+      backoff: { type: 'exponential', delay: 10000 },
+      removeOnComplete: { count: 500 },
+      removeOnFail: { count: 500 },
+    },
+  }),
 };
 
 // Queue events for monitoring
@@ -103,17 +147,26 @@ export function setupQueueEventListeners() {
 
 // Job data types
 export interface RssScanJobData {
-  sourceId: string;
-  feedUrl: string;
+  sourceId: string; // All active feeds of the source are fetched
   sourceName: string;
 }
 
 export interface SocialScanJobData {
   platform: 'twitter' | 'mastodon' | 'bluesky';
-  query?: string;
+  instance?: string; // Mastodon instance host, e.g. "piaille.fr"
+  query?: string; // Hashtag or search query; all configured hashtags when omitted
   accountId?: string;
 }
 
+export interface ContentExtractionJobData {
+  articleId: string;
+  title: string;
+  lede: string;
+  sourceName: string;
+  url: string;
+  topicIds?: string[]; // Keyword matches on the feed snippet, may be empty
+}
+
 export interface AiAnalysisJobData {
   articleId: string;
   title: string;
@@ -121,6 +174,17 @@ export interface AiAnalysisJobData {
   sourceName: string;
   url: string;
   topicIds?: string[]; // IDs of topics to analyze against
+  backfillId?: string; // Set when queued by a topic backfill
+  keywordAudit?: boolean; // Sampled among the articles some topic keywords missed
+}
+
+export interface SocialPostAnalysisJobData {
+  socialPostId: string;
+  content: string;
+  authorHandle: string;
+  platform: 'twitter' | 'mastodon' | 'bluesky';
+  url: string;
+  topicIds?: string[];
 }
 
 export interface PostGenerationJobData {
@@ -138,18 +202,67 @@ export interface DailySummaryJobData {
 }
 
 export interface ScanOrchestratorJobData {
-  type: 'full' | 'incremental' | 'cleanup';
+  type: 'full' | 'incremental' | 'probe' | 'cleanup' | 'audit';
   triggeredBy: 'scheduler' | 'manual';
   sourceId?: string;
 }
 
+export interface EvaluationJobData {
+  runId: string;
+}
+
+export interface TopicBackfillJobData {
+  backfillId: string;
+}
+
+export interface EntityExtractionJobData {
+  articleId: string;
+}
+
 // Helper to add jobs to queues
+export async function addContentExtractionJob(data: ContentExtractionJobData) {
+  return queues.contentExtraction.add('extract-article', data, {
+    // Keyword matches go first, the rest may not be worth analyzing at all
+    priority: data.topicIds && data.topicIds.length > 0 ? 1 : 2,
+  });
+}
+
 export async function addAiAnalysisJob(data: AiAnalysisJobData) {
   return queues.aiAnalysis.add('analyze-article', data, {
     priority: 1,
   });
 }
 
+/**
+ * Backfilled articles wait behind live ones, one job per article and backfill
+ */
+export async function addBackfillAnalysisJob(data: AiAnalysisJobData & { backfillId: string }) {
+  return queues.aiAnalysis.add('analyze-article', data, {
+    jobId: `backfill-${data.backfillId}-${data.articleId}`,
+    priority: 3,
+  });
+}
+
+/**
+ * Sampled keyword misses wait behind live articles, each one is analyzed once
+ */
+export async function addKeywordAuditAnalysisJob(data: AiAnalysisJobData) {
+  return queues.aiAnalysis.add('analyze-article', { ...data, keywordAudit: true }, {
+    jobId: `audit-${data.articleId}`,
+    priority: 3,
+  });
+}
+
+export async function addSocialPostAnalysisJob(data: SocialPostAnalysisJobData) {
+  return queues.aiAnalysis.add('analyze-social-post', data, {
+    priority: 2,
+  });
+}
+
+export async function addSocialScanJob(data: SocialScanJobData) {
+  return queues.socialScan.add(`scan-${data.platform}`, data);
+}
+
 export async function addPostGenerationJob(data: PostGenerationJobData) {
   return queues.postGeneration.add('generate-posts', data, {
     priority: 2,
@@ -162,10 +275,69 @@ export async function addDailySummaryJob(date: string) {
   });
 }
 
+export async function addEvaluationJob(runId: string) {
+  return queues.evaluation.add('evaluate', { runId }, {
+    jobId: `evaluation-${runId}`,
+  });
+}
+
+export async function addTopicBackfillJob(backfillId: string) {
+  return queues.topicBackfill.add('backfill', { backfillId }, {
+    jobId: `backfill-${backfillId}`,
+  });
+}
+
+/**
+ * Extract the entities of a relevant article, one job per article at a time
+ */
+export async function addEntityExtractionJob(articleId: string) {
+  return queues.entityExtraction.add('extract-entities', { articleId }, {
+    jobId: `entities-${articleId}`,
+  });
+}
+
 export async function addScanJob(data: ScanOrchestratorJobData) {
   return queues.scanOrchestrator.add(`scan-${data.type}`, data);
 }
 
+// Jobs held by the AI budget are looked at again after this delay
+const BUDGET_HOLD_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * Put a job back until the AI budget allows it, without using up an attempt.
+ * The job keeps its attempt count at the time, a retry backoff later on no longer matches it.
+ */
+export async function holdForBudget(job: Job, token?: string): Promise<never> {
+  await job.updateData({ ...job.data, heldForBudgetAt: job.attemptsMade });
+  await job.moveToDelayed(Date.now() + BUDGET_HOLD_DELAY_MS, token);
+  throw new DelayedError();
+}
+
+function isHeldForBudget(job: Job): boolean {
+  return job.data?.heldForBudgetAt === job.attemptsMade;
+}
+
+/**
+ * Run the jobs held by the AI budget now, after an override or a raised limit
+ */
+export async function releaseHeldJobs(): Promise<number> {
+  let released = 0;
+
+  for (const queue of [queues.aiAnalysis, queues.postGeneration, queues.entityExtraction]) {
+    // Jobs waiting on a retry backoff keep their delay
+    for (const job of (await queue.getDelayed()).filter(isHeldForBudget)) {
+      await job.promote();
+      released++;
+    }
+  }
+
+  if (released > 0) {
+    logger.info({ released }, 'Jobs held by the AI budget released');
+  }
+
+  return released;
+}
+
 // Get queue stats
 export async function getQueueStats() {
   const stats = await Promise.all([
@@ -173,6 +345,11 @@ export async function getQueueStats() {
     queues.postGeneration.getJobCounts(),
     queues.rssScan.getJobCounts(),
     queues.dailySummary.getJobCounts(),
+    queues.socialScan.getJobCounts(),
+    queues.contentExtraction.getJobCounts(),
+    queues.evaluation.getJobCounts(),
+    queues.topicBackfill.getJobCounts(),
+    queues.entityExtraction.getJobCounts(),
   ]);
 
   return {
@@ -180,6 +357,11 @@ export async function getQueueStats() {
     postGeneration: stats[1],
     rssScan: stats[2],
     dailySummary: stats[3],
+    socialScan: stats[4],
+    contentExtraction: stats[5],
+    evaluation: stats[6],
+    topicBackfill: stats[7],
+    entityExtraction: stats[8],
   };
 }
 
@@ -188,10 +370,14 @@ export async function closeQueues() {
   await Promise.all([
     queues.rssScan.close(),
     queues.socialScan.close(),
+    queues.contentExtraction.close(),
     queues.aiAnalysis.close(),
     queues.postGeneration.close(),
     queues.dailySummary.close(),
     queues.scanOrchestrator.close(),
+    queues.evaluation.close(),
+    queues.topicBackfill.close(),
+    queues.entityExtraction.close(),
     queueEvents.aiAnalysis.close(),
     queueEvents.postGeneration.close(),
   ]);
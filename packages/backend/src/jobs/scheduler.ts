@@ -1,87 +1,94 @@
 import cron from 'node-cron';
 import { addScanJob, addDailySummaryJob } from './queues.js';
+import { env } from '../config/env.js';
 import { logger } from '../utils/logger.js';
 
-// Track scheduled tasks for cleanup
-const scheduledTasks: cron.ScheduledTask[] = [];
+const TIMEZONE = 'Europe/Paris';
+
+interface ScheduledTaskInfo {
+  name: string;
+  schedule: string;
+  task: cron.ScheduledTask;
+}
+
+// Track scheduled tasks for cleanup and status reporting
+const scheduledTasks: ScheduledTaskInfo[] = [];
 
 /**
- * Initialize all scheduled jobs
- * All times are in Paris timezone (Europe/Paris)
+ * Register a cron task, logging failures of the handler instead of throwing
  */
-export function initializeScheduler() {
-  logger.info('Initializing scheduler...');
-
-  // Scans at 6:00 and 18:00 Paris time
-  const scanTask = cron.schedule(
-    '0 6,18 * * *',
+function scheduleTask(name: string, schedule: string, handler: () => Promise<unknown>) {
+  const task = cron.schedule(
+    schedule,
     async () => {
-      logger.info('Triggering scheduled scan');
       try {
-        await addScanJob({
-          type: 'full',
-          triggeredBy: 'scheduler',
-        });
+        await handler();
       } catch (error) {
         logger.error({
+          task: name,
           error: error instanceof Error ? error.message : 'Unknown error',
-        }, 'Failed to trigger scan');
+        }, 'Failed to trigger scheduled task');
       }
     },
     {
-      timezone: 'Europe/Paris',
+      timezone: TIMEZONE,
     }
   );
-  scheduledTasks.push(scanTask);
 
-  // Daily summary generation at 6:00 AM Paris (after main scan completes)
-  const dailySummaryTask = cron.schedule(
-    '0 6 * * *',
-    async () => {
-      logger.info('Triggering daily summary generation');
-      try {
-        const today = new Date().toISOString().split('T')[0];
-        await addDailySummaryJob(today);
-      } catch (error) {
-        logger.error({
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }, 'Failed to trigger daily summary');
-      }
-    },
-    {
-      timezone: 'Europe/Paris',
-    }
+  scheduledTasks.push({ name, schedule, task });
+}
+
+/**
+ * Initialize all scheduled jobs
+ * All times are in Paris timezone (Europe/Paris)
+ */
+export function initializeScheduler() {
+  logger.info('Initializing scheduler...');
+
+  // Every minute, queue the sources whose fetch interval has elapsed
+  scheduleTask('Source Scan', '* * * * *', () =>
+    addScanJob({
+      type: 'incremental',
+      triggeredBy: 'scheduler',
+    })
   );
-  scheduledTasks.push(dailySummaryTask);
 
-  // Cleanup old data weekly (Sunday 3 AM Paris)
-  const cleanupTask = cron.schedule(
-    '0 3 * * 0',
-    async () => {
-      logger.info('Triggering weekly cleanup');
-      try {
-        await addScanJob({
-          type: 'cleanup',
-          triggeredBy: 'scheduler',
-        });
-      } catch (error) {
-        logger.error({
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }, 'Failed to trigger cleanup');
-      }
-    },
-    {
-      timezone: 'Europe/Paris',
-    }
+  // Daily summary generation at 6:00 AM Paris
+  scheduleTask('Daily Summary', '0 6 * * *', () => {
+    logger.info('Triggering daily summary generation');
+    const today = new Date().toISOString().split('T')[0];
+    return addDailySummaryJob(today);
+  });
+
+  // Probe suspended sources every hour, each one at most every 6 hours
+  scheduleTask('Health Probe', '30 * * * *', () =>
+    addScanJob({
+      type: 'probe',
+      triggeredBy: 'scheduler',
+    })
   );
-  scheduledTasks.push(cleanupTask);
+
+  // Sample the articles no topic keywords matched, to estimate what the keywords miss
+  if (env.KEYWORD_MISS_SAMPLE_RATE > 0) {
+    scheduleTask('Keyword Audit', '15 * * * *', () =>
+      addScanJob({
+        type: 'audit',
+        triggeredBy: 'scheduler',
+      })
+    );
+  }
+
+  // Cleanup old data weekly (Sunday 3 AM Paris)
+  scheduleTask('Weekly Cleanup', '0 3 * * 0', () => {
+    logger.info('Triggering weekly cleanup');
+    return addScanJob({
+      type: 'cleanup',
+      triggeredBy: 'scheduler',
+    });
+  });
 
   logger.info({
-    tasks: [
-      'Full scan: 6:00 AM and 6:00 PM daily',
-      'Daily summary: 6:00 AM daily',
-      'Cleanup: Sunday 3:00 AM weekly',
-    ],
+    tasks: scheduledTasks.map((t) => `${t.name}: ${t.schedule}`),
   }, 'Scheduler initialized');
 }
 
@@ -89,7 +96,7 @@ export function initializeScheduler() {
  * Stop all scheduled tasks
  */
 export function stopScheduler() {
-  for (const task of scheduledTasks) {
+  for (const { task } of scheduledTasks) {
     task.stop();
   }
   scheduledTasks.length = 0;
@@ -102,12 +109,11 @@ export function stopScheduler() {
 export function getSchedulerStatus() {
   return {
     tasksCount: scheduledTasks.length,
-    tasks: [
-      { name: 'Full Scan', schedule: '0 4 * * *', timezone: 'Europe/Paris' },
-      { name: 'Incremental Scan', schedule: '0 8,10,12,14,16,18,20,22 * * *', timezone: 'Europe/Paris' },
-      { name: 'Daily Summary', schedule: '0 6 * * *', timezone: 'Europe/Paris' },
-      { name: 'Weekly Cleanup', schedule: '0 3 * * 0', timezone: 'Europe/Paris' },
-    ],
+    tasks: scheduledTasks.map(({ name, schedule }) => ({ name, schedule, timezone: TIMEZONE })),
+    sourceScan: {
+      maxSourcesPerMinute: env.SCAN_MAX_SOURCES_PER_MINUTE,
+      jitterSeconds: env.SCAN_JITTER_SECONDS,
+    },
   };
 }
 
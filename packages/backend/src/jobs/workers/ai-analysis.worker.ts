@@ -1,28 +1,88 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, UnrecoverableError } from 'bullmq';
 import { createBullMQConnection } from '../../config/redis.js';
-import { QUEUE_NAMES, addPostGenerationJob, type AiAnalysisJobData } from '../queues.js';
+import {
+  QUEUE_NAMES,
+  addEntityExtractionJob,
+  addPostGenerationJob,
+  holdForBudget,
+  type AiAnalysisJobData,
+  type SocialPostAnalysisJobData,
+} from '../queues.js';
 import { relevanceAnalyzer } from '../../services/ai/relevance-analyzer.service.js';
+import { aiBudget, BudgetExceededError } from '../../services/ai/ai-budget.service.js';
+import { InvalidLlmResponseError } from '../../services/ai/llm.service.js';
+import { rssNormalizer } from '../../services/rss/rss-normalizer.service.js';
 import { ArticleRepository } from '../../repositories/article.repository.js';
 import { TopicRepository } from '../../repositories/topic.repository.js';
 import { ArticleTopicRepository } from '../../repositories/article-topic.repository.js';
+import { SocialPostRepository } from '../../repositories/social-post.repository.js';
+import { TopicBackfillRepository } from '../../repositories/topic-backfill.repository.js';
+import { EntityRepository } from '../../repositories/entity.repository.js';
 import { logger } from '../../utils/logger.js';
+import {
+  DEFAULT_AUTO_GENERATE_SCORE,
+  DEFAULT_MIN_RELEVANCE_SCORE,
+  autoGenerateThreshold,
+  meetsTopicThreshold,
+} from '@media-scanner/shared';
+import type { SourceCategory, TopicRelevanceResult } from '@media-scanner/shared';
 
 const connection = createBullMQConnection();
 const articleRepo = new ArticleRepository();
 const topicRepo = new TopicRepository();
 const articleTopicRepo = new ArticleTopicRepository();
+const socialPostRepo = new SocialPostRepository();
+const backfillRepo = new TopicBackfillRepository();
+const entityRepo = new EntityRepository();
 
-// Minimum relevance score to trigger post generation
-const POST_GENERATION_THRESHOLD = 0.6;
+/**
+ * Whether the AI budget lets this content be analyzed now: under a restricted
+ * budget only national sources and strong keyword matches go through
+ */
+async function admittedByBudget(
+  content: { title: string; lede: string },
+  findSourceCategory: () => Promise<SourceCategory | null>
+): Promise<boolean> {
+  const admission = await aiBudget.articleAdmission();
+  if (admission !== 'priority') return admission === 'all';
 
-async function processAiAnalysis(job: Job<AiAnalysisJobData>) {
-  const { articleId, title, lede, sourceName, url, topicIds } = job.data;
+  const topics = await topicRepo.findActive();
+
+  return aiBudget.isPriority({
+    sourceCategory: await findSourceCategory(),
+    // Per topic, an exclusion only cancels the matches of its own topic
+    keywordMatches: topics.reduce((sum, t) => sum + rssNormalizer.countKeywordMatches(content, t.keywords), 0),
+  });
+}
+
+async function processAiAnalysis(job: Job<AiAnalysisJobData>, token?: string) {
+  const { articleId, title, lede, sourceName, url, topicIds, backfillId, keywordAudit } = job.data;
+
+  // Jobs of a cancelled backfill are dropped without touching the article
+  if (backfillId && await backfillRepo.isCancelled(backfillId)) {
+    logger.info({ articleId, backfillId, jobId: job.id }, 'AI analysis skipped, backfill cancelled');
+    return { articleId, skipped: true };
+  }
+
+  const admitted = await admittedByBudget(
+    { title, lede },
+    async () => (await articleRepo.findById(articleId))?.source?.category ?? null
+  );
+
+  if (!admitted) {
+    // Stays pending until the budget resets or an admin overrides it
+    logger.info({ articleId, jobId: job.id }, 'AI analysis held by AI budget');
+    return holdForBudget(job, token);
+  }
 
   logger.info({ articleId, jobId: job.id, topicCount: topicIds?.length }, 'Processing AI analysis job');
 
   // Update article status to analyzing
   await articleRepo.update(articleId, { status: 'analyzing' });
 
+  // Extracted body, if the extraction stage ran for this article
+  const fullText = (await articleRepo.findExtractedText(articleId)) || undefined;
+
   try {
     // Determine which topics to analyze against
     let topicsToAnalyze = [];
@@ -46,6 +106,7 @@ async function processAiAnalysis(job: Job<AiAnalysisJobData>) {
         id: articleId,
         title,
         lede,
+        fullText,
         source: sourceName,
         url,
       });
@@ -56,9 +117,16 @@ async function processAiAnalysis(job: Job<AiAnalysisJobData>) {
         keywords: result.keywords,
         categories: result.categories,
         potentialAngle: result.potentialAngle,
+        isRelevant: result.relevanceScore >= DEFAULT_MIN_RELEVANCE_SCORE,
       });
 
-      if (result.relevanceScore >= POST_GENERATION_THRESHOLD) {
+      if (result.relevanceScore >= DEFAULT_MIN_RELEVANCE_SCORE && !(await entityRepo.isExtracted(articleId))) {
+        await addEntityExtractionJob(articleId);
+      }
+
+      const queuedForPostGeneration = result.relevanceScore >= DEFAULT_AUTO_GENERATE_SCORE;
+
+      if (queuedForPostGeneration) {
         await addPostGenerationJob({
           articleId,
           title,
@@ -73,7 +141,7 @@ async function processAiAnalysis(job: Job<AiAnalysisJobData>) {
       return {
         articleId,
         relevanceScore: result.relevanceScore,
-        queuedForPostGeneration: result.relevanceScore >= POST_GENERATION_THRESHOLD,
+        queuedForPostGeneration,
       };
     }
 
@@ -83,20 +151,47 @@ async function processAiAnalysis(job: Job<AiAnalysisJobData>) {
         id: articleId,
         title,
         lede,
+        fullText,
         source: sourceName,
         url,
       },
-      topicsToAnalyze
+      topicsToAnalyze,
+      { purpose: keywordAudit ? 'keyword_audit' : undefined }
     );
 
     // Save topic-specific results to article_topics table
     await articleTopicRepo.saveAnalysisResults(articleId, topicResults);
 
-    // Find the best score across all topics
-    const bestResult = topicResults.reduce(
+    // Scores stored for the article's other active topics still count, e.g. when a backfill adds one
+    const topicsById = new Map(topicsToAnalyze.map((t) => [t.id, t]));
+    const storedResults: TopicRelevanceResult[] = [];
+
+    for (const stored of await articleTopicRepo.findByArticle(articleId)) {
+      if (topicsById.has(stored.topicId) || !stored.topic.isActive) continue;
+
+      topicsById.set(stored.topicId, stored.topic);
+      storedResults.push({
+        topicId: stored.topicId,
+        topicName: stored.topic.name,
+        relevanceScore: stored.relevanceScore,
+        reasoning: stored.reasoning || '',
+        potentialAngle: stored.potentialAngle || '',
+        promptVersionId: stored.promptVersionId,
+      });
+    }
+
+    // Each topic judges against its own thresholds
+    const judgedResults = [...topicResults, ...storedResults];
+    const relevantResults = judgedResults.filter(
+      (r) => meetsTopicThreshold(topicsById.get(r.topicId)!, r.relevanceScore)
+    );
+
+    // Find the best score among the topics the article is relevant to, or across all topics
+    const candidates = relevantResults.length > 0 ? relevantResults : judgedResults;
+    const bestResult = candidates.reduce(
       (best, current) =>
         current.relevanceScore > best.relevanceScore ? current : best,
-      topicResults[0]
+      candidates[0]
     );
 
     // Update article with best result (for backward compatibility)
@@ -104,8 +199,11 @@ async function processAiAnalysis(job: Job<AiAnalysisJobData>) {
       relevanceScore: bestResult.relevanceScore,
       relevanceReasoning: `[${bestResult.topicName}] ${bestResult.reasoning}`,
       keywords: [], // Topic-specific, stored in article_topics
-      categories: [bestResult.topicName],
+      categories: relevantResults.length > 0
+        ? relevantResults.map((r) => r.topicName)
+        : [bestResult.topicName],
       potentialAngle: bestResult.potentialAngle,
+      isRelevant: relevantResults.length > 0,
     });
 
     logger.info({
@@ -116,24 +214,41 @@ async function processAiAnalysis(job: Job<AiAnalysisJobData>) {
       allScores: topicResults.map((r) => ({ topic: r.topicName, score: r.relevanceScore })),
     }, 'Multi-topic AI analysis completed');
 
-    // If any topic has high relevance, queue for post generation
-    const highRelevanceResults = topicResults.filter(
-      (r) => r.relevanceScore >= POST_GENERATION_THRESHOLD
+    // If any topic just analyzed reached its auto-generation threshold, queue for post generation
+    const generationResults = relevantResults.filter(
+      (r) => topicResults.includes(r) && r.relevanceScore >= autoGenerateThreshold(topicsById.get(r.topicId)!)
     );
 
-    if (highRelevanceResults.length > 0) {
-      // Use the best result for post generation
+    // A backfilled article may already have its posts
+    const hasPosts = backfillId !== undefined
+      && (await articleRepo.findPostsForArticle(articleId)).length > 0;
+
+    if (generationResults.length > 0 && !hasPosts) {
+      // Use the best of those topics for post generation
+      const generationResult = generationResults.reduce(
+        (best, current) => current.relevanceScore > best.relevanceScore ? current : best
+      );
+
       await addPostGenerationJob({
         articleId,
         title,
         lede,
         url,
-        relevanceReasoning: bestResult.reasoning,
-        potentialAngle: bestResult.potentialAngle,
+        relevanceReasoning: generationResult.reasoning,
+        potentialAngle: generationResult.potentialAngle,
         sourceName,
       });
 
-      logger.info({ articleId, topic: bestResult.topicName }, 'Queued for post generation');
+      logger.info({ articleId, topic: generationResult.topicName }, 'Queued for post generation');
+    }
+
+    // Entities are extracted once per relevant article, a rescore does not redo it
+    if (relevantResults.length > 0 && !(await entityRepo.isExtracted(articleId))) {
+      await addEntityExtractionJob(articleId);
+    }
+
+    if (backfillId) {
+      await backfillRepo.recordAnalysis(backfillId, false);
     }
 
     return {
@@ -144,25 +259,138 @@ async function processAiAnalysis(job: Job<AiAnalysisJobData>) {
         topicName: r.topicName,
         score: r.relevanceScore,
       })),
-      queuedForPostGeneration: highRelevanceResults.length > 0,
+      relevantTopics: relevantResults.map((r) => r.topicName),
+      queuedForPostGeneration: generationResults.length > 0 && !hasPosts,
     };
   } catch (error) {
-    // Mark article as error
-    await articleRepo.update(articleId, { status: 'error' });
+    // The budget ran out since the admission check
+    if (error instanceof BudgetExceededError) {
+      await articleRepo.update(articleId, { status: 'pending' });
+      return holdForBudget(job, token);
+    }
+
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+
+    // Mark article as error, keeping why
+    await articleRepo.markAnalysisFailed(articleId, reason);
 
     logger.error({
       articleId,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: reason,
     }, 'AI analysis failed');
 
+    // The model was already asked to fix its reply, another attempt would not do better
+    const finalAttempt = error instanceof InvalidLlmResponseError
+      || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    if (backfillId && finalAttempt) {
+      await backfillRepo.recordAnalysis(backfillId, true);
+    }
+
+    if (error instanceof InvalidLlmResponseError) {
+      throw new UnrecoverableError(reason);
+    }
+
+    throw error;
+  }
+}
+
+async function processSocialPostAnalysis(job: Job<SocialPostAnalysisJobData>, token?: string) {
+  const { socialPostId, content, authorHandle, platform, url, topicIds } = job.data;
+
+  if (!(await admittedByBudget({ title: content, lede: '' }, async () => 'social'))) {
+    logger.info({ socialPostId, jobId: job.id }, 'Social post analysis held by AI budget');
+    return holdForBudget(job, token);
+  }
+
+  logger.info({ socialPostId, platform, jobId: job.id, topicCount: topicIds?.length }, 'Processing social post analysis job');
+
+  await socialPostRepo.updateStatus(socialPostId, 'analyzing');
+
+  try {
+    const topicsToAnalyze = topicIds && topicIds.length > 0
+      ? (await Promise.all(topicIds.map((id) => topicRepo.findById(id)))).filter((t) => t !== null)
+      : await topicRepo.findActive();
+
+    if (topicsToAnalyze.length === 0) {
+      logger.warn({ socialPostId }, 'No topics to analyze social post against');
+      await socialPostRepo.updateStatus(socialPostId, 'pending');
+      return { socialPostId, relevanceScore: null };
+    }
+
+    // Social posts have no title, the opening of the post stands in for it
+    const topicResults = await relevanceAnalyzer.analyzeArticleForTopics(
+      {
+        id: socialPostId,
+        title: content.slice(0, 120),
+        lede: content,
+        source: `${authorHandle} (${platform})`,
+        url,
+      },
+      topicsToAnalyze,
+      { usageSubject: { socialPostId } }
+    );
+
+    const bestResult = topicResults.reduce(
+      (best, current) =>
+        current.relevanceScore > best.relevanceScore ? current : best,
+      topicResults[0]
+    );
+
+    const topicsById = new Map(topicsToAnalyze.map((t) => [t.id, t]));
+
+    await socialPostRepo.updateAnalysis(socialPostId, {
+      relevanceScore: bestResult.relevanceScore,
+      relevanceReasoning: `[${bestResult.topicName}] ${bestResult.reasoning}`,
+      isRelevant: topicResults.some(
+        (r) => meetsTopicThreshold(topicsById.get(r.topicId)!, r.relevanceScore)
+      ),
+    });
+
+    logger.info({
+      socialPostId,
+      platform,
+      bestScore: bestResult.relevanceScore,
+      bestTopic: bestResult.topicName,
+    }, 'Social post AI analysis completed');
+
+    return {
+      socialPostId,
+      relevanceScore: bestResult.relevanceScore,
+    };
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      await socialPostRepo.updateStatus(socialPostId, 'pending');
+      return holdForBudget(job, token);
+    }
+
+    await socialPostRepo.updateStatus(socialPostId, 'error');
+
+    logger.error({
+      socialPostId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'Social post AI analysis failed');
+
+    if (error instanceof InvalidLlmResponseError) {
+      throw new UnrecoverableError(error.message);
+    }
+
     throw error;
   }
 }
 
+async function processAnalysisJob(job: Job<AiAnalysisJobData | SocialPostAnalysisJobData>, token?: string) {
+  if (job.name === 'analyze-social-post') {
+    return processSocialPostAnalysis(job as Job<SocialPostAnalysisJobData>, token);
+  }
+
+  return processAiAnalysis(job as Job<AiAnalysisJobData>, token);
+}
+
 // Create and export the worker
-export const aiAnalysisWorker = new Worker<AiAnalysisJobData>(
+export const aiAnalysisWorker = new Worker<AiAnalysisJobData | SocialPostAnalysisJobData>(
   QUEUE_NAMES.AI_ANALYSIS,
-  processAiAnalysis,
+  processAnalysisJob,
   {
     connection,
     concurrency: 3, // Process 3 articles in parallel
@@ -0,0 +1,152 @@
+import { Worker, Job } from 'bullmq';
+import { createBullMQConnection } from '../../config/redis.js';
+import { QUEUE_NAMES, addAiAnalysisJob, type ContentExtractionJobData } from '../queues.js';
+import { articleExtractor } from '../../services/rss/article-extractor.service.js';
+import { rssNormalizer } from '../../services/rss/rss-normalizer.service.js';
+import { urlCanonicalizer } from '../../services/rss/url-canonicalizer.service.js';
+import { deduplicator } from '../../services/scanner/deduplicator.service.js';
+import { ArticleRepository } from '../../repositories/article.repository.js';
+import { TopicRepository } from '../../repositories/topic.repository.js';
+import { logger } from '../../utils/logger.js';
+import type { ExtractionStatus } from '@media-scanner/shared';
+
+const connection = createBullMQConnection();
+const articleRepo = new ArticleRepository();
+const topicRepo = new TopicRepository();
+
+interface ContentExtractionResult {
+  articleId: string;
+  status: ExtractionStatus;
+  textLength: number;
+  queuedForAnalysis: boolean;
+  mergedInto?: string; // Article already stored under the page's canonical URL
+}
+
+async function processContentExtraction(job: Job<ContentExtractionJobData>): Promise<ContentExtractionResult> {
+  const { articleId, title, lede, sourceName, topicIds } = job.data;
+  let url = job.data.url;
+
+  logger.info({ articleId, url, jobId: job.id }, 'Processing content extraction job');
+
+  // Step 1: Download the page and extract the article body
+  const result = await articleExtractor.extract(url);
+
+  await articleRepo.updateExtraction(articleId, {
+    status: result.status,
+    fullText: result.text,
+  });
+
+  job.updateProgress(50);
+
+  // Step 2: The page may name another URL of the same site as canonical (AMP page, section alias…)
+  const canonicalUrl = result.canonicalLink
+    ? urlCanonicalizer.resolveCanonicalLink(result.canonicalLink, url)
+    : null;
+
+  if (canonicalUrl && canonicalUrl !== url) {
+    const existingId = await articleRepo.moveToCanonicalUrl(articleId, canonicalUrl);
+
+    if (existingId) {
+      // Same article reached through two URLs, the first one stored wins
+      await articleRepo.delete(articleId);
+      await deduplicator.markAsStored(url);
+
+      logger.info({ articleId, existingId, url, canonicalUrl }, 'Article merged into its canonical URL');
+
+      return {
+        articleId,
+        status: result.status,
+        textLength: result.text?.length || 0,
+        queuedForAnalysis: false,
+        mergedInto: existingId,
+      };
+    }
+
+    await deduplicator.markAsStored(canonicalUrl);
+    url = canonicalUrl;
+  }
+
+  job.updateProgress(60);
+
+  // Step 3: Snippets that missed the keyword filter get a second chance on the full text
+  let matchedTopicIds = topicIds || [];
+
+  if (matchedTopicIds.length === 0 && result.text) {
+    const activeTopics = await topicRepo.findActive();
+    matchedTopicIds = rssNormalizer.checkAgainstTopics(
+      { title, lede: result.text },
+      activeTopics.map((t) => ({ id: t.id, keywords: t.keywords }))
+    );
+  }
+
+  // Step 4: Hand over to AI analysis, which reads the extracted text from the database
+  if (matchedTopicIds.length > 0) {
+    await addAiAnalysisJob({
+      articleId,
+      title,
+      lede,
+      sourceName,
+      url,
+      topicIds: matchedTopicIds,
+    });
+  }
+
+  job.updateProgress(100);
+
+  logger.info({
+    articleId,
+    status: result.status,
+    textLength: result.text?.length || 0,
+    matchedTopics: matchedTopicIds.length,
+    duration: result.duration,
+  }, 'Content extraction completed');
+
+  return {
+    articleId,
+    status: result.status,
+    textLength: result.text?.length || 0,
+    queuedForAnalysis: matchedTopicIds.length > 0,
+  };
+}
+
+// Create and export the worker
+export const contentExtractionWorker = new Worker<ContentExtractionJobData, ContentExtractionResult>(
+  QUEUE_NAMES.CONTENT_EXTRACTION,
+  processContentExtraction,
+  {
+    connection,
+    concurrency: 3, // Publishers are rate limited per host by the extractor
+    limiter: {
+      max: 60,        // Max 60 pages per minute
+      duration: 60000,
+    },
+  }
+);
+
+// Worker event handlers
+contentExtractionWorker.on('completed', (job, result) => {
+  logger.debug({
+    jobId: job.id,
+    articleId: result.articleId,
+    status: result.status,
+    queuedForAnalysis: result.queuedForAnalysis,
+  }, 'Content extraction worker: job completed');
+});
+
+contentExtractionWorker.on('failed', (job, err) => {
+  logger.error({
+    jobId: job?.id,
+    articleId: job?.data.articleId,
+    error: err.message,
+  }, 'Content extraction worker: job failed');
+});
+
+contentExtractionWorker.on('error', (err) => {
+  logger.error({ error: err.message }, 'Content extraction worker error');
+});
+
+// Graceful shutdown
+export async function closeContentExtractionWorker() {
+  await contentExtractionWorker.close();
+  logger.info('Content extraction worker closed');
+}
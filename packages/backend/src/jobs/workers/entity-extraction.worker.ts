@@ -0,0 +1,108 @@
+import { Worker, Job, UnrecoverableError } from 'bullmq';
+import { createBullMQConnection } from '../../config/redis.js';
+import { QUEUE_NAMES, holdForBudget, type EntityExtractionJobData } from '../queues.js';
+import { entityExtractor } from '../../services/ai/entity-extractor.service.js';
+import { aiBudget, BudgetExceededError } from '../../services/ai/ai-budget.service.js';
+import { InvalidLlmResponseError } from '../../services/ai/llm.service.js';
+import { entityResolver } from '../../services/entities/entity-resolver.service.js';
+import { ArticleRepository } from '../../repositories/article.repository.js';
+import { EntityRepository } from '../../repositories/entity.repository.js';
+import { logger } from '../../utils/logger.js';
+
+const connection = createBullMQConnection();
+const articleRepo = new ArticleRepository();
+const entityRepo = new EntityRepository();
+
+async function processEntityExtraction(job: Job<EntityExtractionJobData>, token?: string) {
+  const { articleId } = job.data;
+
+  if (!(await aiBudget.allows('entity_extraction'))) {
+    logger.info({ articleId, jobId: job.id }, 'Entity extraction held by AI budget');
+    return holdForBudget(job, token);
+  }
+
+  const article = await articleRepo.findById(articleId);
+
+  // Cleaned up, or judged irrelevant again since the job was queued
+  if (!article || article.status !== 'relevant') {
+    logger.info({ articleId, jobId: job.id }, 'Entity extraction skipped, article no longer relevant');
+    return { articleId, skipped: true };
+  }
+
+  logger.info({ articleId, jobId: job.id }, 'Processing entity extraction job');
+
+  try {
+    const mentions = await entityExtractor.extract({
+      id: article.id,
+      title: article.title,
+      lede: article.lede || '',
+      fullText: (await articleRepo.findExtractedText(articleId)) || undefined,
+      source: article.source?.name || '',
+    });
+
+    const entities = entityResolver.resolve(mentions);
+    await entityRepo.saveForArticle(articleId, entities);
+
+    logger.info({
+      articleId,
+      entities: entities.length,
+      communes: entities.filter((e) => e.type === 'commune').length,
+      unlinkedCommunes: entities.filter((e) => e.type === 'commune' && !e.inseeCode).length,
+    }, 'Entity extraction completed');
+
+    return { articleId, entities: entities.length };
+  } catch (error) {
+    // The budget ran out since the check above
+    if (error instanceof BudgetExceededError) {
+      return holdForBudget(job, token);
+    }
+
+    logger.error({
+      articleId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'Entity extraction failed');
+
+    // Already given a repair round-trip, retrying the job would not help
+    if (error instanceof InvalidLlmResponseError) {
+      throw new UnrecoverableError(error.message);
+    }
+
+    throw error;
+  }
+}
+
+// Create and export the worker
+export const entityExtractionWorker = new Worker<EntityExtractionJobData>(
+  QUEUE_NAMES.ENTITY_EXTRACTION,
+  processEntityExtraction,
+  {
+    connection,
+    concurrency: 2,
+    limiter: {
+      max: 20,        // Max 20 jobs per minute, behind relevance analysis
+      duration: 60000,
+    },
+  }
+);
+
+// Worker event handlers
+entityExtractionWorker.on('completed', (job) => {
+  logger.debug({ jobId: job.id }, 'Entity extraction worker: job completed');
+});
+
+entityExtractionWorker.on('failed', (job, err) => {
+  logger.error({
+    jobId: job?.id,
+    error: err.message,
+  }, 'Entity extraction worker: job failed');
+});
+
+entityExtractionWorker.on('error', (err) => {
+  logger.error({ error: err.message }, 'Entity extraction worker error');
+});
+
+// Graceful shutdown
+export async function closeEntityExtractionWorker() {
+  await entityExtractionWorker.close();
+  logger.info('Entity extraction worker closed');
+}
@@ -0,0 +1,54 @@
+import { Worker, Job } from 'bullmq';
+import { createBullMQConnection } from '../../config/redis.js';
+import { QUEUE_NAMES, type EvaluationJobData } from '../queues.js';
+import { relevanceEvaluation } from '../../services/ai/relevance-evaluation.service.js';
+import { logger } from '../../utils/logger.js';
+
+const connection = createBullMQConnection();
+
+async function processEvaluation(job: Job<EvaluationJobData>) {
+  const { runId } = job.data;
+
+  logger.info({ runId, jobId: job.id }, 'Processing evaluation job');
+
+  // Failures while scoring are recorded on the run itself
+  const run = await relevanceEvaluation.run(runId);
+
+  return {
+    runId,
+    status: run.status,
+    f1: run.metrics?.f1 ?? null,
+  };
+}
+
+// Create and export the worker
+export const evaluationWorker = new Worker<EvaluationJobData>(
+  QUEUE_NAMES.EVALUATION,
+  processEvaluation,
+  {
+    connection,
+    concurrency: 1, // Runs are long and share the AI budget with live analysis
+  }
+);
+
+// Worker event handlers
+evaluationWorker.on('completed', (job) => {
+  logger.info({ jobId: job.id }, 'Evaluation worker: job completed');
+});
+
+evaluationWorker.on('failed', (job, err) => {
+  logger.error({
+    jobId: job?.id,
+    error: err.message,
+  }, 'Evaluation worker: job failed');
+});
+
+evaluationWorker.on('error', (err) => {
+  logger.error({ error: err.message }, 'Evaluation worker error');
+});
+
+// Graceful shutdown
+export async function closeEvaluationWorker() {
+  await evaluationWorker.close();
+  logger.info('Evaluation worker closed');
+}
@@ -3,6 +3,11 @@ import { postGenerationWorker, closePostGenerationWorker } from './post-generati
 import { dailySummaryWorker, closeDailySummaryWorker } from './daily-summary.worker.js';
 import { rssScanWorker, closeRssScanWorker } from './rss-scan.worker.js';
 import { scanOrchestratorWorker, closeScanOrchestratorWorker } from './scan-orchestrator.worker.js';
+import { socialScanWorker, closeSocialScanWorker } from './social-scan.worker.js';
+import { contentExtractionWorker, closeContentExtractionWorker } from './content-extraction.worker.js';
+import { evaluationWorker, closeEvaluationWorker } from './evaluation.worker.js';
+import { topicBackfillWorker, closeTopicBackfillWorker } from './topic-backfill.worker.js';
+import { entityExtractionWorker, closeEntityExtractionWorker } from './entity-extraction.worker.js';
 import { logger } from '../../utils/logger.js';
 
 // Export workers for external access if needed
@@ -12,6 +17,11 @@ export {
   dailySummaryWorker,
   rssScanWorker,
   scanOrchestratorWorker,
+  socialScanWorker,
+  contentExtractionWorker,
+  evaluationWorker,
+  topicBackfillWorker,
+  entityExtractionWorker,
 };
 
 /**
@@ -26,6 +36,11 @@ export function initializeWorkers() {
       { name: 'Daily Summary', concurrency: 1 },
       { name: 'RSS Scan', concurrency: 5 },
       { name: 'Scan Orchestrator', concurrency: 1 },
+      { name: 'Social Scan', concurrency: 2 },
+      { name: 'Content Extraction', concurrency: 3 },
+      { name: 'Evaluation', concurrency: 1 },
+      { name: 'Topic Backfill', concurrency: 1 },
+      { name: 'Entity Extraction', concurrency: 2 },
     ],
   }, 'Workers initialized');
 }
@@ -42,6 +57,11 @@ export async function closeAllWorkers() {
     closeDailySummaryWorker(),
     closeRssScanWorker(),
     closeScanOrchestratorWorker(),
+    closeSocialScanWorker(),
+    closeContentExtractionWorker(),
+    closeEvaluationWorker(),
+    closeTopicBackfillWorker(),
+    closeEntityExtractionWorker(),
   ]);
 
   logger.info('All workers closed');
@@ -72,6 +92,26 @@ export async function getWorkersStatus() {
       running: scanOrchestratorWorker.isRunning(),
       paused: scanOrchestratorWorker.isPaused(),
     },
+    socialScan: {
+      running: socialScanWorker.isRunning(),
+      paused: socialScanWorker.isPaused(),
+    },
+    contentExtraction: {
+      running: contentExtractionWorker.isRunning(),
+      paused: contentExtractionWorker.isPaused(),
+    },
+    evaluation: {
+      running: evaluationWorker.isRunning(),
+      paused: evaluationWorker.isPaused(),
+    },
+    topicBackfill: {
+      running: topicBackfillWorker.isRunning(),
+      paused: topicBackfillWorker.isPaused(),
+    },
+    entityExtraction: {
+      running: entityExtractionWorker.isRunning(),
+      paused: entityExtractionWorker.isPaused(),
+    },
   };
 }
 
@@ -85,6 +125,11 @@ export async function pauseAllWorkers() {
     dailySummaryWorker.pause(),
     rssScanWorker.pause(),
     scanOrchestratorWorker.pause(),
+    socialScanWorker.pause(),
+    contentExtractionWorker.pause(),
+    evaluationWorker.pause(),
+    topicBackfillWorker.pause(),
+    entityExtractionWorker.pause(),
   ]);
   logger.info('All workers paused');
 }
@@ -99,6 +144,11 @@ export async function resumeAllWorkers() {
     dailySummaryWorker.resume(),
     rssScanWorker.resume(),
     scanOrchestratorWorker.resume(),
+    socialScanWorker.resume(),
+    contentExtractionWorker.resume(),
+    evaluationWorker.resume(),
+    topicBackfillWorker.resume(),
+    entityExtractionWorker.resume(),
   ]);
   logger.info('All workers resumed');
 }
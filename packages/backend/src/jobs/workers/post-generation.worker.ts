@@ -1,14 +1,47 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, UnrecoverableError } from 'bullmq';
 import { createBullMQConnection } from '../../config/redis.js';
-import { QUEUE_NAMES, type PostGenerationJobData } from '../queues.js';
+import { QUEUE_NAMES, holdForBudget, type PostGenerationJobData } from '../queues.js';
 import { postGenerator } from '../../services/ai/post-generator.service.js';
+import { aiBudget, BudgetExceededError } from '../../services/ai/ai-budget.service.js';
+import { InvalidLlmResponseError } from '../../services/ai/llm.service.js';
 import { GeneratedPostRepository } from '../../repositories/generated-post.repository.js';
+import { ArticleRepository } from '../../repositories/article.repository.js';
+import { StoryRepository } from '../../repositories/story.repository.js';
 import { logger } from '../../utils/logger.js';
 
 const connection = createBullMQConnection();
 const postRepo = new GeneratedPostRepository();
+const articleRepo = new ArticleRepository();
+const storyRepo = new StoryRepository();
 
-async function processPostGeneration(job: Job<PostGenerationJobData>) {
+// Earlier articles of the story given to the model as context
+const MAX_STORY_CONTEXT = 8;
+
+/**
+ * Earlier articles of the story the article belongs to, when it has any
+ */
+async function findStoryContext(articleId: string) {
+  const article = await articleRepo.findById(articleId);
+  if (!article?.storyId) return null;
+
+  const story = await storyRepo.findWithTimeline(article.storyId);
+  const timeline = story?.timeline || [];
+  const position = timeline.findIndex((entry) => entry.articleId === articleId);
+  const earlier = (position >= 0 ? timeline.slice(0, position) : timeline).slice(-MAX_STORY_CONTEXT);
+
+  if (earlier.length === 0) return null;
+
+  return {
+    storyId: article.storyId,
+    timeline: earlier.map((entry) => ({
+      date: entry.publishedAt ? new Date(entry.publishedAt).toLocaleDateString('fr-FR') : 's.d.',
+      title: entry.title,
+      source: entry.sourceName,
+    })),
+  };
+}
+
+async function processPostGeneration(job: Job<PostGenerationJobData>, token?: string) {
   const {
     articleId,
     title,
@@ -19,22 +52,33 @@ async function processPostGeneration(job: Job<PostGenerationJobData>) {
     sourceName,
   } = job.data;
 
+  // Post generation is the first thing to stop when the AI budget runs low
+  if (!(await aiBudget.allows('post_generation'))) {
+    logger.info({ articleId, jobId: job.id }, 'Post generation held by AI budget');
+    return holdForBudget(job, token);
+  }
+
   logger.info({ articleId, jobId: job.id }, 'Processing post generation job');
 
   try {
+    const fullText = (await articleRepo.findExtractedText(articleId)) || undefined;
+    const story = await findStoryContext(articleId);
+
     // Generate social media posts
     const result = await postGenerator.generatePosts({
       id: articleId,
       title,
       lede,
+      fullText,
       url,
       relevanceReasoning,
       potentialAngle,
       sourceName,
+      storyTimeline: story?.timeline,
     });
 
     // Save generated posts to database
-    const generatedPost = await postRepo.create(articleId, result);
+    const generatedPost = await postRepo.create(articleId, result, story?.storyId);
 
     logger.info({
       articleId,
@@ -50,11 +94,21 @@ async function processPostGeneration(job: Job<PostGenerationJobData>) {
       qualityScore: result.qualityScore,
     };
   } catch (error) {
+    // The budget ran out since the check above
+    if (error instanceof BudgetExceededError) {
+      return holdForBudget(job, token);
+    }
+
     logger.error({
       articleId,
       error: error instanceof Error ? error.message : 'Unknown error',
     }, 'Post generation failed');
 
+    // Already given a repair round-trip, retrying the job would not help
+    if (error instanceof InvalidLlmResponseError) {
+      throw new UnrecoverableError(error.message);
+    }
+
     throw error;
   }
 }
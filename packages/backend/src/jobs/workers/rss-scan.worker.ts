@@ -1,83 +1,170 @@
 import { Worker, Job } from 'bullmq';
 import { createBullMQConnection } from '../../config/redis.js';
-import { QUEUE_NAMES, addAiAnalysisJob, type RssScanJobData } from '../queues.js';
-import { rssFetcher } from '../../services/rss/rss-fetcher.service.js';
-import { rssNormalizer } from '../../services/rss/rss-normalizer.service.js';
+import {
+  QUEUE_NAMES,
+  addAiAnalysisJob,
+  addContentExtractionJob,
+  type RssScanJobData,
+} from '../queues.js';
+import { rssFetcher, type RSSItem } from '../../services/rss/rss-fetcher.service.js';
+import { rssNormalizer, type NormalizedArticle } from '../../services/rss/rss-normalizer.service.js';
 import { deduplicator } from '../../services/scanner/deduplicator.service.js';
+import { sourceHealth } from '../../services/scanner/source-health.service.js';
+import { nearDuplicates } from '../../services/scanner/near-duplicate.service.js';
+import { storyClusterer } from '../../services/scanner/story-clusterer.service.js';
 import { ArticleRepository } from '../../repositories/article.repository.js';
 import { SourceRepository } from '../../repositories/source.repository.js';
+import {
+  SourceFeedRepository,
+  type SourceFeedWithValidators,
+} from '../../repositories/source-feed.repository.js';
 import { ScanRepository } from '../../repositories/scan.repository.js';
 import { TopicRepository } from '../../repositories/topic.repository.js';
+import { env } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
+import type { FeedValidators } from '@media-scanner/shared';
 
 const connection = createBullMQConnection();
 const articleRepo = new ArticleRepository();
 const sourceRepo = new SourceRepository();
+const sourceFeedRepo = new SourceFeedRepository();
 const scanRepo = new ScanRepository();
 const topicRepo = new TopicRepository();
 
+// Feeds shorter than this are one-line teasers, worth extracting even without a keyword match
+const SHORT_LEDE_LENGTH = 200;
+
 interface RssScanResult {
   sourceId: string;
   sourceName: string;
+  feeds: number;
   fetched: number;
   normalized: number;
+  merged: number; // Items found in several feeds of the source
   newArticles: number;
   duplicates: number;
+  syndicated: number; // Copies of an article already published by another outlet
   queued: number;
+  extracting: number;
+  unchanged: boolean;
   errors: string[];
 }
 
 async function processRssScan(job: Job<RssScanJobData>): Promise<RssScanResult> {
-  const { sourceId, feedUrl, sourceName } = job.data;
+  const { sourceId, sourceName } = job.data;
 
-  logger.info({ sourceId, sourceName, feedUrl, jobId: job.id }, 'Processing RSS scan job');
+  logger.info({ sourceId, sourceName, jobId: job.id }, 'Processing RSS scan job');
 
   const errors: string[] = [];
+  let feedCount = 0;
   let fetched = 0;
   let normalized = 0;
+  let merged = 0;
   let newArticles = 0;
   let duplicates = 0;
+  let syndicated = 0;
   let queued = 0;
+  let extracting = 0;
+
+  const emptyResult = (unchanged: boolean): RssScanResult => ({
+    sourceId,
+    sourceName,
+    feeds: feedCount,
+    fetched: 0,
+    normalized: 0,
+    merged: 0,
+    newArticles: 0,
+    duplicates: 0,
+    syndicated: 0,
+    queued: 0,
+    extracting: 0,
+    unchanged,
+    errors,
+  });
 
   try {
     // Create scan log entry
     const scanLog = await scanRepo.create(sourceId, 'scheduled');
 
-    // Step 1: Fetch RSS feed
-    const fetchResult = await rssFetcher.fetchFeed(feedUrl, sourceName);
-
-    if (!fetchResult.success || !fetchResult.feed) {
-      errors.push(`Fetch failed: ${fetchResult.error}`);
-      await sourceRepo.updateError(sourceId, fetchResult.error || 'Unknown fetch error');
-      await scanRepo.fail(scanLog.id, fetchResult.error || 'Fetch failed');
-
-      return {
-        sourceId,
-        sourceName,
-        fetched: 0,
-        normalized: 0,
-        newArticles: 0,
-        duplicates: 0,
-        queued: 0,
-        errors,
-      };
+    // Step 1: Fetch every active feed of the source, conditionally on the last processed response
+    const feeds = await sourceFeedRepo.findActiveBySource(sourceId);
+    feedCount = feeds.length;
+
+    if (feeds.length === 0) {
+      errors.push('No active feed');
+      await sourceHealth.recordFailure(sourceId, 'No active feed');
+      await scanRepo.fail(scanLog.id, 'No active feed');
+
+      return emptyResult(false);
+    }
+
+    const changedFeeds: Array<{ feed: SourceFeedWithValidators; items: RSSItem[]; validators?: FeedValidators }> = [];
+    let failedFeeds = 0;
+
+    for (const feed of feeds) {
+      const fetchResult = await rssFetcher.fetchFeed(feed.url, sourceName, feed.validators);
+
+      if (!fetchResult.success) {
+        failedFeeds++;
+        errors.push(`Fetch failed for ${feed.url}: ${fetchResult.error}`);
+        await sourceFeedRepo.updateError(feed.id, fetchResult.error || 'Unknown fetch error');
+        continue;
+      }
+
+      if (fetchResult.unchanged || !fetchResult.feed) {
+        if (fetchResult.validators) {
+          await sourceFeedRepo.updateValidators(feed.id, fetchResult.validators);
+        }
+        await sourceFeedRepo.updateLastFetched(feed.id);
+        continue;
+      }
+
+      changedFeeds.push({ feed, items: fetchResult.feed.items, validators: fetchResult.validators });
+    }
+
+    if (failedFeeds === feeds.length) {
+      const errorMsg = errors[0] || 'Fetch failed';
+      await sourceHealth.recordFailure(sourceId, errorMsg);
+      await scanRepo.fail(scanLog.id, errorMsg);
+
+      return emptyResult(false);
+    }
+
+    // Nothing new on any feed, skip normalize → dedupe → insert entirely
+    if (changedFeeds.length === 0) {
+      await sourceRepo.updateLastFetched(sourceId);
+      await scanRepo.complete(scanLog.id, failedFeeds > 0 ? 'partial' : 'unchanged');
+
+      logger.info({ sourceId, sourceName, feeds: feeds.length, failedFeeds }, 'RSS feeds unchanged, scan skipped');
+
+      return emptyResult(true);
     }
 
-    fetched = fetchResult.itemCount;
+    const items = changedFeeds.flatMap((f) => f.items);
+    fetched = items.length;
     job.updateProgress(20);
 
     // Step 2: Normalize RSS items to articles
     const normalizeResult = rssNormalizer.normalizeItems(
-      fetchResult.feed.items,
+      items,
       sourceId,
       sourceName
     );
 
-    normalized = normalizeResult.articles.length;
+    // Section feeds repeat front-page stories, keep one article per URL (primary feed first)
+    const uniqueArticles = new Map<string, NormalizedArticle>();
+    for (const article of normalizeResult.articles) {
+      if (!uniqueArticles.has(article.urlHash)) {
+        uniqueArticles.set(article.urlHash, article);
+      }
+    }
+
+    normalized = uniqueArticles.size;
+    merged = normalizeResult.articles.length - uniqueArticles.size;
     job.updateProgress(40);
 
     // Step 3: Filter duplicates
-    const dedupeResult = await deduplicator.filterDuplicates(normalizeResult.articles);
+    const dedupeResult = await deduplicator.filterDuplicates([...uniqueArticles.values()]);
 
     newArticles = dedupeResult.newArticles.length;
     duplicates = dedupeResult.duplicates;
@@ -101,6 +188,7 @@ async function processRssScan(job: Job<RssScanJobData>): Promise<RssScanResult>
           sourceId: article.sourceId,
           externalId: article.externalId,
           url: article.url,
+          originalUrl: article.originalUrl,
           title: article.title,
           lede: article.lede,
           fullText: article.fullText,
@@ -111,10 +199,43 @@ async function processRssScan(job: Job<RssScanJobData>): Promise<RssScanResult>
         if (created) {
           insertedArticles.push(created.id);
 
+          // Syndicated copies only list the outlet on the story, the original gets analyzed
+          const syndication = await nearDuplicates.assign(created.id, {
+            title: article.title,
+            lede: article.lede,
+            publishedAt: article.publishedAt,
+          });
+
+          if (syndication) {
+            syndicated++;
+            continue;
+          }
+
+          await storyClusterer.assign(created.id, {
+            title: article.title,
+            lede: article.lede,
+            publishedAt: article.publishedAt,
+          });
+
           // Queue for AI analysis if it matches any topic's keywords
           const matchedTopicIds = rssNormalizer.checkAgainstTopics(article, topicsForMatching);
 
-          if (matchedTopicIds.length > 0) {
+          const needsExtraction = env.ARTICLE_EXTRACTION_ENABLED && (
+            matchedTopicIds.length > 0 || (article.lede || '').length < SHORT_LEDE_LENGTH
+          );
+
+          if (needsExtraction) {
+            // The extraction worker queues the analysis once the full text is stored
+            await addContentExtractionJob({
+              articleId: created.id,
+              title: article.title,
+              lede: article.lede || '',
+              sourceName,
+              url: article.url,
+              topicIds: matchedTopicIds,
+            });
+            extracting++;
+          } else if (matchedTopicIds.length > 0) {
             await addAiAnalysisJob({
               articleId: created.id,
               title: article.title,
@@ -145,9 +266,17 @@ async function processRssScan(job: Job<RssScanJobData>): Promise<RssScanResult>
     // Update source last fetched timestamp
     await sourceRepo.updateLastFetched(sourceId);
 
+    // Remember the validators only once the items are stored, so a failed run is retried in full
+    for (const { feed, validators } of changedFeeds) {
+      if (validators) {
+        await sourceFeedRepo.updateValidators(feed.id, validators);
+      }
+      await sourceFeedRepo.updateLastFetched(feed.id);
+    }
+
     // Update scan log
     await scanRepo.updateProgress(scanLog.id, {
-      itemsFound: fetched,
+      itemsFound: fetched - merged,
       itemsNew: newArticles,
       itemsAnalyzed: 0,
       itemsRelevant: 0,
@@ -159,29 +288,38 @@ async function processRssScan(job: Job<RssScanJobData>): Promise<RssScanResult>
     logger.info({
       sourceId,
       sourceName,
+      feeds: feedCount,
       fetched,
       normalized,
+      merged,
       newArticles,
       duplicates,
+      syndicated,
       queued,
+      extracting,
       errors: errors.length,
     }, 'RSS scan completed');
 
     return {
       sourceId,
       sourceName,
+      feeds: feedCount,
       fetched,
       normalized,
+      merged,
       newArticles,
       duplicates,
+      syndicated,
       queued,
+      extracting,
+      unchanged: false,
       errors,
     };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
     logger.error({ sourceId, sourceName, error: errorMsg }, 'RSS scan failed');
 
-    await sourceRepo.updateError(sourceId, errorMsg);
+    await sourceHealth.recordFailure(sourceId, errorMsg);
 
     throw error;
   }
@@ -206,6 +344,7 @@ rssScanWorker.on('completed', (job, result) => {
   logger.info({
     jobId: job.id,
     sourceName: result.sourceName,
+    unchanged: result.unchanged,
     newArticles: result.newArticles,
     queued: result.queued,
   }, 'RSS scan worker: job completed');
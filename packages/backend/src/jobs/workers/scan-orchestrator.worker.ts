@@ -1,9 +1,23 @@
 import { Worker, Job } from 'bullmq';
 import { createBullMQConnection } from '../../config/redis.js';
-import { queues, QUEUE_NAMES, type ScanOrchestratorJobData, type RssScanJobData } from '../queues.js';
+import {
+  queues,
+  QUEUE_NAMES,
+  addSocialScanJob,
+  addKeywordAuditAnalysisJob,
+  type ScanOrchestratorJobData,
+  type RssScanJobData,
+} from '../queues.js';
 import { SourceRepository } from '../../repositories/source.repository.js';
 import { ArticleRepository } from '../../repositories/article.repository.js';
 import { query } from '../../config/database.js';
+import { blueskyService } from '../../services/social/bluesky.service.js';
+import { sourceHealth } from '../../services/scanner/source-health.service.js';
+import { keywordAudit } from '../../services/scanner/keyword-audit.service.js';
+import { MASTODON_INSTANCES } from '@media-scanner/shared';
+import type { Source } from '@media-scanner/shared';
+import { slugify } from '@media-scanner/shared/utils';
+import { env } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
 
 const connection = createBullMQConnection();
@@ -46,6 +60,22 @@ async function processScanOrchestrator(
         errors.push(...incrementalResult.errors);
         break;
 
+      case 'probe':
+        // Probe suspended sources and scan the ones that recovered
+        const probeResult = await runHealthProbe();
+        sourcesProcessed = probeResult.sourcesProcessed;
+        jobsQueued = probeResult.jobsQueued;
+        errors.push(...probeResult.errors);
+        break;
+
+      case 'audit':
+        // Keyword audit: analyze a random share of the keyword misses
+        const auditResult = await runKeywordAudit();
+        sourcesProcessed = auditResult.sourcesProcessed;
+        jobsQueued = auditResult.jobsQueued;
+        errors.push(...auditResult.errors);
+        break;
+
       case 'cleanup':
         // Cleanup: remove old data
         const cleanupResult = await runCleanup(job);
@@ -89,13 +119,13 @@ async function runFullScan(job: Job): Promise<{
   logger.info({ count: sources.length }, 'Starting full scan of all RSS sources');
 
   let jobsQueued = 0;
+  const queuedIds: string[] = [];
 
   // Queue scan jobs for each source
   for (const source of sources) {
     try {
       const jobData: RssScanJobData = {
         sourceId: source.id,
-        feedUrl: source.url,
         sourceName: source.name,
       };
 
@@ -103,6 +133,7 @@ async function runFullScan(job: Job): Promise<{
         priority: source.category === 'national' ? 1 : 2,
       });
 
+      queuedIds.push(source.id);
       jobsQueued++;
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -113,13 +144,107 @@ async function runFullScan(job: Job): Promise<{
     job.updateProgress(Math.round((jobsQueued / sources.length) * 100));
   }
 
+  await sourceRepo.markEnqueued(queuedIds);
+
+  const socialResult = await queueSocialScans({ dueOnly: false });
+  jobsQueued += socialResult.jobsQueued;
+  errors.push(...socialResult.errors);
+
   return {
-    sourcesProcessed: sources.length,
+    sourcesProcessed: sources.length + socialResult.jobsQueued,
     jobsQueued,
     errors,
   };
 }
 
+/**
+ * Queue one social scan per Mastodon instance and one for Bluesky,
+ * skipping platforms deactivated by an admin, suspended or backing off.
+ * With dueOnly, platforms scanned or queued within their interval or in their
+ * quiet hours are skipped too, as due RSS sources are.
+ */
+async function queueSocialScans(options: { dueOnly: boolean }): Promise<{ jobsQueued: number; errors: string[] }> {
+  const errors: string[] = [];
+  let jobsQueued = 0;
+
+  const now = Date.now();
+  const socialSources = await sourceRepo.findAll({ category: 'social' });
+  const inactiveSlugs = new Set(
+    socialSources
+      .filter((s) =>
+        !s.isActive
+        || s.healthStatus === 'suspended'
+        || (s.nextFetchAt !== null && new Date(s.nextFetchAt).getTime() > now)
+        || (options.dueOnly && (!isDue(s, now) || isInQuietHours(s, now)))
+      )
+      .map((s) => s.slug)
+  );
+  // Platform sources are created by their first scan, so only known ones can be marked
+  const sourceIdsBySlug = new Map(socialSources.map((s) => [s.slug, s.id]));
+  const queuedIds: string[] = [];
+
+  for (const instance of MASTODON_INSTANCES) {
+    if (inactiveSlugs.has(`mastodon-${slugify(instance)}`)) {
+      continue;
+    }
+
+    try {
+      await addSocialScanJob({ platform: 'mastodon', instance });
+      queuedIds.push(sourceIdsBySlug.get(`mastodon-${slugify(instance)}`) || '');
+      jobsQueued++;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`Failed to queue Mastodon ${instance}: ${errorMsg}`);
+    }
+  }
+
+  // Bluesky needs an account, even for search
+  if (blueskyService.isConfigured() && !inactiveSlugs.has('bluesky')) {
+    try {
+      await addSocialScanJob({ platform: 'bluesky' });
+      queuedIds.push(sourceIdsBySlug.get('bluesky') || '');
+      jobsQueued++;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`Failed to queue Bluesky: ${errorMsg}`);
+    }
+  }
+
+  await sourceRepo.markEnqueued(queuedIds.filter(Boolean));
+
+  if (jobsQueued > 0) {
+    logger.info({ count: jobsQueued }, 'Queued social scans');
+  }
+
+  return { jobsQueued, errors };
+}
+
+/**
+ * Whether the Paris hour falls in the quiet hours of a source, which may wrap past midnight
+ */
+function isInQuietHours(source: Source, now: number): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = source;
+  if (start === null || end === null) return false;
+
+  const hour = parseInt(
+    new Intl.DateTimeFormat('fr-FR', { hour: 'numeric', hourCycle: 'h23', timeZone: 'Europe/Paris' }).format(now)
+  );
+
+  return start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Whether the interval of a source has elapsed since its last fetch or enqueue
+ */
+function isDue(source: Source, now: number): boolean {
+  const last = Math.max(
+    source.lastFetchedAt ? new Date(source.lastFetchedAt).getTime() : 0,
+    source.lastEnqueuedAt ? new Date(source.lastEnqueuedAt).getTime() : 0
+  );
+
+  return now - last >= source.fetchIntervalMinutes * 60000;
+}
+
 async function runIncrementalScan(
   job: Job,
   specificSourceId?: string
@@ -140,7 +265,6 @@ async function runIncrementalScan(
 
     const jobData: RssScanJobData = {
       sourceId: source.id,
-      feedUrl: source.url,
       sourceName: source.name,
     };
 
@@ -153,46 +277,29 @@ async function runIncrementalScan(
     };
   }
 
-  // Otherwise, find sources due for refresh based on their fetch interval
-  const result = await query<{
-    id: string;
-    name: string;
-    slug: string;
-    url: string;
-    category: string;
-  }>(
-    `SELECT id, name, slug, url, category
-     FROM sources
-     WHERE type = 'rss'
-       AND is_active = true
-       AND (
-         last_fetched_at IS NULL
-         OR last_fetched_at < NOW() - (fetch_interval_minutes || ' minutes')::INTERVAL
-       )
-     ORDER BY
-       CASE WHEN last_fetched_at IS NULL THEN 0 ELSE 1 END,
-       last_fetched_at ASC
-     LIMIT 20`
-  );
-
-  const sources = result.rows;
+  // Otherwise, queue the sources whose interval has elapsed, capped per tick
+  const sources = await sourceRepo.findDueRssSources(env.SCAN_MAX_SOURCES_PER_MINUTE);
 
-  logger.info({ count: sources.length }, 'Starting incremental scan of due sources');
+  // Runs every minute, only worth an info line when something is due
+  logger[sources.length > 0 ? 'info' : 'debug']({ count: sources.length }, 'Starting incremental scan of due sources');
 
   let jobsQueued = 0;
+  const queuedIds: string[] = [];
 
   for (const source of sources) {
     try {
       const jobData: RssScanJobData = {
         sourceId: source.id,
-        feedUrl: source.url,
         sourceName: source.name,
       };
 
+      // Spread the fetches so sources sharing an interval don't hit their servers in lockstep
       await queues.rssScan.add(`scan-${source.slug}`, jobData, {
         priority: source.category === 'national' ? 1 : 2,
+        delay: Math.floor(Math.random() * env.SCAN_JITTER_SECONDS * 1000),
       });
 
+      queuedIds.push(source.id);
       jobsQueued++;
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -202,8 +309,97 @@ async function runIncrementalScan(
     job.updateProgress(Math.round((jobsQueued / sources.length) * 100));
   }
 
+  await sourceRepo.markEnqueued(queuedIds);
+
+  const socialResult = await queueSocialScans({ dueOnly: true });
+  jobsQueued += socialResult.jobsQueued;
+  errors.push(...socialResult.errors);
+
+  return {
+    sourcesProcessed: sources.length + socialResult.jobsQueued,
+    jobsQueued,
+    errors,
+  };
+}
+
+async function runHealthProbe(): Promise<{
+  sourcesProcessed: number;
+  jobsQueued: number;
+  errors: string[];
+}> {
+  const errors: string[] = [];
+  let jobsQueued = 0;
+
+  const { probed, restored } = await sourceHealth.probeSuspended();
+
+  // Social sources are half-open, their next regular scan decides
+  for (const source of restored.filter((s) => s.type === 'rss')) {
+    try {
+      const jobData: RssScanJobData = {
+        sourceId: source.id,
+        sourceName: source.name,
+      };
+
+      await queues.rssScan.add(`scan-${source.slug}`, jobData, {
+        priority: source.category === 'national' ? 1 : 2,
+      });
+
+      jobsQueued++;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`Failed to queue ${source.name}: ${errorMsg}`);
+    }
+  }
+
+  logger.info({ probed, restored: restored.length }, 'Health probe of suspended sources completed');
+
+  return {
+    sourcesProcessed: probed,
+    jobsQueued,
+    errors,
+  };
+}
+
+async function runKeywordAudit(): Promise<{
+  sourcesProcessed: number;
+  jobsQueued: number;
+  errors: string[];
+}> {
+  const errors: string[] = [];
+  let jobsQueued = 0;
+
+  const run = await keywordAudit.sampleMisses();
+  if (!run) {
+    return { sourcesProcessed: 0, jobsQueued, errors };
+  }
+
+  // Only the topics whose keywords missed a sample are asked about it
+  for (const article of run.samples) {
+    try {
+      await addKeywordAuditAnalysisJob({
+        articleId: article.id,
+        title: article.title,
+        lede: article.lede,
+        sourceName: article.sourceName || '',
+        url: article.url,
+        topicIds: article.missedTopicIds,
+      });
+      jobsQueued++;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`Failed to queue sample ${article.id}: ${errorMsg}`);
+    }
+  }
+
+  logger.info({
+    runId: run.runId,
+    scanned: run.scanned,
+    misses: run.misses,
+    sampled: run.samples.length,
+  }, 'Keyword miss sampling completed');
+
   return {
-    sourcesProcessed: sources.length,
+    sourcesProcessed: run.scanned,
     jobsQueued,
     errors,
   };
@@ -217,11 +413,31 @@ async function runCleanup(job: Job): Promise<{ itemsDeleted: number }> {
   // Delete articles older than 90 days that are not relevant
   const articlesResult = await query(
     `DELETE FROM articles
-     WHERE status IN ('irrelevant', 'error')
+     WHERE status IN ('irrelevant', 'error', 'duplicate')
        AND created_at < NOW() - INTERVAL '90 days'`
   );
   totalDeleted += articlesResult.rowCount || 0;
 
+  // Stories left without articles go, the others are recounted
+  const storiesResult = await query(
+    `DELETE FROM stories s
+     WHERE NOT EXISTS (SELECT 1 FROM articles a WHERE a.story_id = s.id)`
+  );
+  totalDeleted += storiesResult.rowCount || 0;
+
+  await query(
+    `UPDATE stories s SET article_count = counts.total
+     FROM (SELECT story_id, COUNT(*)::int AS total FROM articles WHERE story_id IS NOT NULL GROUP BY story_id) counts
+     WHERE counts.story_id = s.id AND counts.total <> s.article_count`
+  );
+
+  // Entities no remaining article names
+  const entitiesResult = await query(
+    `DELETE FROM entities e
+     WHERE NOT EXISTS (SELECT 1 FROM article_entities ae WHERE ae.entity_id = e.id)`
+  );
+  totalDeleted += entitiesResult.rowCount || 0;
+
   job.updateProgress(33);
 
   // Delete old scan logs (keep last 30 days)
@@ -0,0 +1,428 @@
+import { Worker, Job } from 'bullmq';
+import { createBullMQConnection } from '../../config/redis.js';
+import { QUEUE_NAMES, addSocialPostAnalysisJob, type SocialScanJobData } from '../queues.js';
+import { mastodonService, type MastodonFetchResult } from '../../services/social/mastodon.service.js';
+import { blueskyService, type BlueskyFetchResult } from '../../services/social/bluesky.service.js';
+import { socialNormalizer, type NormalizedSocialPost } from '../../services/social/social-normalizer.service.js';
+import { rssNormalizer } from '../../services/rss/rss-normalizer.service.js';
+import { urlCanonicalizer } from '../../services/rss/url-canonicalizer.service.js';
+import { sourceHealth } from '../../services/scanner/source-health.service.js';
+import { SocialPostRepository } from '../../repositories/social-post.repository.js';
+import { SourceRepository } from '../../repositories/source.repository.js';
+import { ScanRepository } from '../../repositories/scan.repository.js';
+import { TopicRepository } from '../../repositories/topic.repository.js';
+import { ArticleRepository } from '../../repositories/article.repository.js';
+import { RELEVANT_HASHTAGS_FR, SEARCH_KEYWORDS_FR, SOCIAL_SOURCES } from '@media-scanner/shared';
+import type { SocialPlatform } from '@media-scanner/shared';
+import { slugify } from '@media-scanner/shared/utils';
+import { logger } from '../../utils/logger.js';
+
+const connection = createBullMQConnection();
+const socialPostRepo = new SocialPostRepository();
+const sourceRepo = new SourceRepository();
+const scanRepo = new ScanRepository();
+const topicRepo = new TopicRepository();
+const articleRepo = new ArticleRepository();
+
+const BLUESKY_SOURCE_SLUG = 'bluesky';
+
+interface SocialScanResult {
+  platform: string;
+  instance?: string;
+  fetched: number;
+  normalized: number;
+  newPosts: number;
+  duplicates: number;
+  queued: number;
+  linked: number;
+  errors: string[];
+}
+
+/**
+ * Find the `sources` row that owns posts from a Mastodon instance,
+ * registering it on first scan so the social category is populated
+ */
+async function ensureMastodonSource(instance: string): Promise<string> {
+  const slug = `mastodon-${slugify(instance)}`;
+  const existing = await sourceRepo.findBySlug(slug);
+
+  if (existing) {
+    return existing.id;
+  }
+
+  const created = await sourceRepo.create({
+    name: `Mastodon (${instance})`,
+    slug,
+    type: 'mastodon',
+    category: 'social',
+    url: `https://${instance}`,
+    fetchIntervalMinutes: 30,
+  });
+
+  logger.info({ instance, sourceId: created.id }, 'Registered Mastodon instance as source');
+  return created.id;
+}
+
+/**
+ * Mastodon accounts from SOCIAL_SOURCES hosted on the given instance
+ */
+function accountsForInstance(instance: string): string[] {
+  return SOCIAL_SOURCES
+    .filter((s) => s.platform === 'mastodon')
+    .map((s) => s.identifier.replace(/^@/, ''))
+    .filter((acct) => acct.split('@')[1]?.toLowerCase() === instance.toLowerCase());
+}
+
+/**
+ * Find an article we already hold among the links embedded in a post
+ */
+async function findLinkedArticleId(urls: string[]): Promise<string | undefined> {
+  for (const url of urls) {
+    let href: string;
+    try {
+      href = new URL(url.trim()).href;
+    } catch {
+      continue;
+    }
+
+    // Same canonicalization as the RSS normalizer, so the hashes line up
+    const article = await articleRepo.findByUrlHash(urlCanonicalizer.hash(href));
+    if (article) {
+      return article.id;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Store normalized posts and queue keyword matches for AI analysis
+ */
+async function ingestPosts(
+  posts: NormalizedSocialPost[],
+  platform: SocialPlatform,
+  errors: string[]
+): Promise<{ newPosts: number; duplicates: number; queued: number; linked: number }> {
+  let newPosts = 0;
+  let duplicates = 0;
+  let queued = 0;
+  let linked = 0;
+
+  // Fetch active topics for keyword checking
+  const activeTopics = await topicRepo.findActive();
+  const topicsForMatching = activeTopics.map((t) => ({
+    id: t.id,
+    keywords: t.keywords,
+  }));
+
+  for (const { embeddedUrls, ...post } of posts) {
+    try {
+      const linkedArticleId = await findLinkedArticleId(embeddedUrls);
+      if (linkedArticleId) {
+        linked++;
+      }
+
+      const { post: saved, inserted } = await socialPostRepo.upsert({ ...post, linkedArticleId });
+
+      if (!inserted) {
+        duplicates++;
+        continue;
+      }
+
+      newPosts++;
+
+      // Queue for AI analysis if it matches any topic's keywords
+      const matchedTopicIds = rssNormalizer.checkAgainstTopics(
+        { title: post.content.slice(0, 120), lede: post.content },
+        topicsForMatching
+      );
+
+      if (matchedTopicIds.length > 0) {
+        await addSocialPostAnalysisJob({
+          socialPostId: saved.id,
+          content: saved.content,
+          authorHandle: saved.authorHandle || 'inconnu',
+          platform,
+          url: saved.url || '',
+          topicIds: matchedTopicIds,
+        });
+        queued++;
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown insert error';
+      errors.push(`Insert error for ${post.externalId}: ${errorMsg}`);
+    }
+  }
+
+  return { newPosts, duplicates, queued, linked };
+}
+
+async function processMastodonScan(job: Job<SocialScanJobData>): Promise<SocialScanResult> {
+  const { instance, query, accountId } = job.data;
+
+  if (!instance) {
+    throw new Error('Mastodon scan job requires an instance');
+  }
+
+  logger.info({ instance, query, accountId, jobId: job.id }, 'Processing Mastodon scan job');
+
+  const errors: string[] = [];
+
+  const sourceId = await ensureMastodonSource(instance);
+  const scanLog = await scanRepo.create(sourceId, 'scheduled');
+
+  try {
+    // Step 1: Poll hashtag timelines and account statuses
+    const hashtags = query ? [query] : accountId ? [] : RELEVANT_HASHTAGS_FR;
+    const accounts = accountId ? [accountId] : query ? [] : accountsForInstance(instance);
+
+    const fetchResults: MastodonFetchResult[] = [];
+
+    for (const hashtag of hashtags) {
+      fetchResults.push(await mastodonService.fetchHashtagTimeline(instance, hashtag));
+    }
+
+    for (const acct of accounts) {
+      fetchResults.push(await mastodonService.fetchAccountStatuses(instance, acct));
+    }
+
+    for (const result of fetchResults) {
+      if (!result.success) {
+        errors.push(`Fetch failed: ${result.error}`);
+      }
+    }
+
+    if (fetchResults.length > 0 && fetchResults.every((r) => !r.success)) {
+      const errorMsg = errors[0] || 'Fetch failed';
+      await sourceHealth.recordFailure(sourceId, errorMsg);
+      await scanRepo.fail(scanLog.id, errorMsg);
+
+      return { platform: 'mastodon', instance, fetched: 0, normalized: 0, newPosts: 0, duplicates: 0, queued: 0, linked: 0, errors };
+    }
+
+    const statuses = fetchResults.flatMap((r) => r.statuses);
+    const fetched = statuses.length;
+    job.updateProgress(30);
+
+    // Step 2: Normalize statuses (the same status shows up under several hashtags)
+    const normalizeResult = socialNormalizer.normalizeMastodonStatuses(statuses, sourceId);
+    const uniquePosts = [...new Map(normalizeResult.posts.map((p) => [p.externalId, p])).values()];
+
+    const normalized = uniquePosts.length;
+    job.updateProgress(50);
+
+    // Step 3: Insert posts, deduplicating on (platform, external_id)
+    const { newPosts, duplicates, queued, linked } = await ingestPosts(uniquePosts, 'mastodon', errors);
+
+    job.updateProgress(90);
+
+    await sourceRepo.updateLastFetched(sourceId);
+
+    await scanRepo.updateProgress(scanLog.id, {
+      itemsFound: fetched,
+      itemsNew: newPosts,
+      itemsAnalyzed: 0,
+      itemsRelevant: 0,
+    });
+    await scanRepo.complete(scanLog.id, errors.length > 0 ? 'partial' : 'completed');
+
+    job.updateProgress(100);
+
+    logger.info({
+      instance,
+      fetched,
+      normalized,
+      newPosts,
+      duplicates,
+      queued,
+      linked,
+      errors: errors.length,
+    }, 'Mastodon scan completed');
+
+    return { platform: 'mastodon', instance, fetched, normalized, newPosts, duplicates, queued, linked, errors };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    logger.error({ instance, error: errorMsg }, 'Mastodon scan failed');
+
+    await sourceHealth.recordFailure(sourceId, errorMsg);
+    await scanRepo.fail(scanLog.id, errorMsg);
+
+    throw error;
+  }
+}
+
+/**
+ * Find the `sources` row that owns Bluesky posts, registering it on first scan
+ */
+async function ensureBlueskySource(): Promise<string> {
+  const existing = await sourceRepo.findBySlug(BLUESKY_SOURCE_SLUG);
+
+  if (existing) {
+    return existing.id;
+  }
+
+  const created = await sourceRepo.create({
+    name: 'Bluesky',
+    slug: BLUESKY_SOURCE_SLUG,
+    type: 'bluesky',
+    category: 'social',
+    url: blueskyService.getServiceUrl(),
+    fetchIntervalMinutes: 30,
+  });
+
+  logger.info({ sourceId: created.id }, 'Registered Bluesky as source');
+  return created.id;
+}
+
+async function processBlueskyScan(job: Job<SocialScanJobData>): Promise<SocialScanResult> {
+  const { query, accountId } = job.data;
+
+  if (!blueskyService.isConfigured()) {
+    throw new Error('Bluesky scan requires BLUESKY_IDENTIFIER and BLUESKY_PASSWORD');
+  }
+
+  logger.info({ query, accountId, jobId: job.id }, 'Processing Bluesky scan job');
+
+  const errors: string[] = [];
+
+  const sourceId = await ensureBlueskySource();
+  const scanLog = await scanRepo.create(sourceId, 'scheduled');
+
+  try {
+    // Step 1: Run keyword searches and poll author feeds
+    const searches = query ? [query] : accountId ? [] : SEARCH_KEYWORDS_FR;
+    const actors = accountId
+      ? [accountId]
+      : query
+        ? []
+        : SOCIAL_SOURCES.filter((s) => s.platform === 'bluesky').map((s) => s.identifier);
+
+    const fetchResults: BlueskyFetchResult[] = [];
+
+    for (const q of searches) {
+      fetchResults.push(await blueskyService.searchPosts(q));
+    }
+
+    for (const actor of actors) {
+      fetchResults.push(await blueskyService.getAuthorFeed(actor));
+    }
+
+    for (const result of fetchResults) {
+      if (!result.success) {
+        errors.push(`Fetch failed: ${result.error}`);
+      }
+    }
+
+    if (fetchResults.length > 0 && fetchResults.every((r) => !r.success)) {
+      const errorMsg = errors[0] || 'Fetch failed';
+      await sourceHealth.recordFailure(sourceId, errorMsg);
+      await scanRepo.fail(scanLog.id, errorMsg);
+
+      return { platform: 'bluesky', fetched: 0, normalized: 0, newPosts: 0, duplicates: 0, queued: 0, linked: 0, errors };
+    }
+
+    const posts = fetchResults.flatMap((r) => r.posts);
+    const fetched = posts.length;
+    job.updateProgress(30);
+
+    // Step 2: Normalize posts (searches overlap, so dedupe on the AT URI)
+    const normalizeResult = socialNormalizer.normalizeBlueskyPosts(posts, sourceId);
+    const uniquePosts = [...new Map(normalizeResult.posts.map((p) => [p.externalId, p])).values()];
+
+    const normalized = uniquePosts.length;
+    job.updateProgress(50);
+
+    // Step 3: Insert posts, linking them to articles they embed
+    const { newPosts, duplicates, queued, linked } = await ingestPosts(uniquePosts, 'bluesky', errors);
+
+    job.updateProgress(90);
+
+    await sourceRepo.updateLastFetched(sourceId);
+
+    await scanRepo.updateProgress(scanLog.id, {
+      itemsFound: fetched,
+      itemsNew: newPosts,
+      itemsAnalyzed: 0,
+      itemsRelevant: 0,
+    });
+    await scanRepo.complete(scanLog.id, errors.length > 0 ? 'partial' : 'completed');
+
+    job.updateProgress(100);
+
+    logger.info({
+      fetched,
+      normalized,
+      newPosts,
+      duplicates,
+      queued,
+      linked,
+      errors: errors.length,
+    }, 'Bluesky scan completed');
+
+    return { platform: 'bluesky', fetched, normalized, newPosts, duplicates, queued, linked, errors };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    logger.error({ error: errorMsg }, 'Bluesky scan failed');
+
+    await sourceHealth.recordFailure(sourceId, errorMsg);
+    await scanRepo.fail(scanLog.id, errorMsg);
+
+    throw error;
+  }
+}
+
+async function processSocialScan(job: Job<SocialScanJobData>): Promise<SocialScanResult> {
+  switch (job.data.platform) {
+    case 'mastodon':
+      return processMastodonScan(job);
+
+    case 'bluesky':
+      return processBlueskyScan(job);
+
+    default:
+      throw new Error(`Unsupported social platform: ${job.data.platform}`);
+  }
+}
+
+// Create and export the worker
+export const socialScanWorker = new Worker<SocialScanJobData, SocialScanResult>(
+  QUEUE_NAMES.SOCIAL_SCAN,
+  processSocialScan,
+  {
+    connection,
+    concurrency: 2, // Instances are polled one request at a time
+    limiter: {
+      max: 10,        // Max 10 jobs per minute
+      duration: 60000,
+    },
+  }
+);
+
+// Worker event handlers
+socialScanWorker.on('completed', (job, result) => {
+  logger.info({
+    jobId: job.id,
+    platform: result.platform,
+    instance: result.instance,
+    newPosts: result.newPosts,
+    queued: result.queued,
+    linked: result.linked,
+  }, 'Social scan worker: job completed');
+});
+
+socialScanWorker.on('failed', (job, err) => {
+  logger.error({
+    jobId: job?.id,
+    error: err.message,
+  }, 'Social scan worker: job failed');
+});
+
+socialScanWorker.on('error', (err) => {
+  logger.error({ error: err.message }, 'Social scan worker error');
+});
+
+// Graceful shutdown
+export async function closeSocialScanWorker() {
+  await socialScanWorker.close();
+  logger.info('Social scan worker closed');
+}
@@ -0,0 +1,119 @@
+import { Worker, Job } from 'bullmq';
+import { createBullMQConnection } from '../../config/redis.js';
+import { QUEUE_NAMES, addBackfillAnalysisJob, type TopicBackfillJobData } from '../queues.js';
+import { topicBackfill } from '../../services/scanner/topic-backfill.service.js';
+import { TopicBackfillRepository } from '../../repositories/topic-backfill.repository.js';
+import { TopicRepository } from '../../repositories/topic.repository.js';
+import { logger } from '../../utils/logger.js';
+
+const connection = createBullMQConnection();
+const backfillRepo = new TopicBackfillRepository();
+const topicRepo = new TopicRepository();
+
+// Cancellation is checked every so many queued articles
+const CANCEL_CHECK_EVERY = 50;
+
+async function processTopicBackfill(job: Job<TopicBackfillJobData>) {
+  const { backfillId } = job.data;
+
+  const backfill = await backfillRepo.findById(backfillId);
+  if (!backfill || backfill.status !== 'pending') {
+    logger.info({ backfillId, status: backfill?.status }, 'Topic backfill no longer pending, skipped');
+    return { backfillId, queued: 0 };
+  }
+
+  const topic = await topicRepo.findById(backfill.topicId);
+  if (!topic) {
+    throw new Error(`Topic ${backfill.topicId} not found`);
+  }
+
+  logger.info({ backfillId, topic: topic.name, days: backfill.days, rescore: backfill.rescore }, 'Processing topic backfill job');
+
+  try {
+    await backfillRepo.markScanning(backfillId);
+
+    // Step 1: Keyword matching over the articles of the last days
+    let cancelled = false;
+    const scan = await topicBackfill.scan(topic, backfill.days, backfill.rescore, async (progress) => {
+      await backfillRepo.updateScanProgress(backfillId, progress);
+      cancelled = await backfillRepo.isCancelled(backfillId);
+      return !cancelled;
+    });
+
+    if (cancelled || !(await backfillRepo.markAnalyzing(backfillId, scan.articles.length))) {
+      logger.info({ backfillId }, 'Topic backfill cancelled while scanning');
+      return { backfillId, queued: 0 };
+    }
+
+    job.updateProgress(50);
+
+    // Step 2: Queue the analysis of each article for this topic only, progress is counted by the analysis worker
+    let queued = 0;
+    for (const article of scan.articles) {
+      if (queued % CANCEL_CHECK_EVERY === 0 && queued > 0 && await backfillRepo.isCancelled(backfillId)) {
+        logger.info({ backfillId, queued }, 'Topic backfill cancelled while queuing');
+        break;
+      }
+
+      await addBackfillAnalysisJob({
+        articleId: article.id,
+        title: article.title,
+        lede: article.lede,
+        sourceName: article.sourceName || '',
+        url: article.url,
+        topicIds: [topic.id],
+        backfillId,
+      });
+      queued++;
+    }
+
+    job.updateProgress(100);
+
+    logger.info({
+      backfillId,
+      topic: topic.name,
+      scanned: scan.scanned,
+      matched: scan.matched,
+      rescored: scan.rescored,
+      queued,
+    }, 'Topic backfill queued');
+
+    return { backfillId, queued };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await backfillRepo.fail(backfillId, message);
+    throw error;
+  }
+}
+
+// Create and export the worker
+export const topicBackfillWorker = new Worker<TopicBackfillJobData>(
+  QUEUE_NAMES.TOPIC_BACKFILL,
+  processTopicBackfill,
+  {
+    connection,
+    concurrency: 1, // Scans read every recent article
+  }
+);
+
+// Worker event handlers
+topicBackfillWorker.on('completed', (job) => {
+  logger.info({ jobId: job.id }, 'Topic backfill worker: job completed');
+});
+
+topicBackfillWorker.on('failed', (job, err) => {
+  logger.error({
+    jobId: job?.id,
+    error: err.message,
+  }, 'Topic backfill worker: job failed');
+});
+
+topicBackfillWorker.on('error', (err) => {
+  logger.error({ error: err.message }, 'Topic backfill worker error');
+});
+
+// Graceful shutdown
+export async function closeTopicBackfillWorker() {
+  await topicBackfillWorker.close();
+  logger.info('Topic backfill worker closed');
+}
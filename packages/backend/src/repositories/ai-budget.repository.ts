@@ -0,0 +1,245 @@
+import { query } from '../config/database.js';
+import type {
+  AiBudget,
+  AiBudgetAlert,
+  AiBudgetLevel,
+  AiBudgetOverride,
+  AiBudgetPeriod,
+  AiPurpose,
+  CreateAiBudgetInput,
+  UpdateAiBudgetInput,
+} from '@media-scanner/shared';
+
+interface DbAiBudget {
+  id: string;
+  purpose: AiPurpose | null;
+  period: AiBudgetPeriod;
+  limit_usd: string;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface DbAiBudgetAlert {
+  id: string;
+  budget_id: string;
+  purpose: AiPurpose | null;
+  period: AiBudgetPeriod;
+  period_start: string;
+  level: AiBudgetLevel;
+  spent_usd: string;
+  limit_usd: string;
+  created_at: Date;
+}
+
+interface DbAiBudgetOverride {
+  id: string;
+  level: AiBudgetLevel;
+  reason: string | null;
+  expires_at: Date;
+  created_by: string | null;
+  created_at: Date;
+}
+
+function mapDbToBudget(row: DbAiBudget): AiBudget {
+  return {
+    id: row.id,
+    purpose: row.purpose,
+    period: row.period,
+    limitUsd: parseFloat(row.limit_usd),
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapDbToAlert(row: DbAiBudgetAlert): AiBudgetAlert {
+  return {
+    id: row.id,
+    budgetId: row.budget_id,
+    purpose: row.purpose,
+    period: row.period,
+    periodStart: row.period_start,
+    level: row.level,
+    spentUsd: parseFloat(row.spent_usd),
+    limitUsd: parseFloat(row.limit_usd),
+    createdAt: row.created_at,
+  };
+}
+
+function mapDbToOverride(row: DbAiBudgetOverride): AiBudgetOverride {
+  return {
+    id: row.id,
+    level: row.level,
+    reason: row.reason,
+    expiresAt: row.expires_at,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+export interface AiBudgetSpending {
+  budget: AiBudget;
+  periodStart: string;
+  spentUsd: number;
+}
+
+export class AiBudgetRepository {
+  async findById(id: string): Promise<AiBudget | null> {
+    const result = await query<DbAiBudget>('SELECT * FROM ai_budgets WHERE id = $1', [id]);
+    return result.rows[0] ? mapDbToBudget(result.rows[0]) : null;
+  }
+
+  async findByScope(purpose: AiPurpose | null, period: AiBudgetPeriod): Promise<AiBudget | null> {
+    const result = await query<DbAiBudget>(
+      `SELECT * FROM ai_budgets WHERE COALESCE(purpose, '') = COALESCE($1, '') AND period = $2`,
+      [purpose, period]
+    );
+
+    return result.rows[0] ? mapDbToBudget(result.rows[0]) : null;
+  }
+
+  async create(input: CreateAiBudgetInput): Promise<AiBudget> {
+    const result = await query<DbAiBudget>(
+      `INSERT INTO ai_budgets (purpose, period, limit_usd)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [input.purpose || null, input.period, input.limitUsd]
+    );
+
+    return mapDbToBudget(result.rows[0]);
+  }
+
+  async update(id: string, input: UpdateAiBudgetInput): Promise<AiBudget | null> {
+    const result = await query<DbAiBudget>(
+      `UPDATE ai_budgets
+       SET limit_usd = COALESCE($2, limit_usd),
+           is_active = COALESCE($3, is_active)
+       WHERE id = $1
+       RETURNING *`,
+      [id, input.limitUsd ?? null, input.isActive ?? null]
+    );
+
+    return result.rows[0] ? mapDbToBudget(result.rows[0]) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await query('DELETE FROM ai_budgets WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Active budgets with what was spent in their current period
+   */
+  async findSpending(): Promise<AiBudgetSpending[]> {
+    const result = await query<DbAiBudget & { period_start: string; spent_usd: string }>(
+      `SELECT b.*,
+        TO_CHAR(p.start, 'YYYY-MM-DD') as period_start,
+        (
+          SELECT COALESCE(SUM(u.cost_usd), 0)
+          FROM ai_usage u
+          WHERE u.created_at >= p.start
+            AND (b.purpose IS NULL OR u.purpose = b.purpose)
+        ) as spent_usd
+      FROM ai_budgets b
+      CROSS JOIN LATERAL (
+        SELECT CASE WHEN b.period = 'day' THEN CURRENT_DATE ELSE DATE_TRUNC('month', CURRENT_DATE)::date END as start
+      ) p
+      WHERE b.is_active = true
+      ORDER BY b.period, b.purpose NULLS FIRST`
+    );
+
+    return result.rows.map((row) => ({
+      budget: mapDbToBudget(row),
+      periodStart: row.period_start,
+      spentUsd: parseFloat(row.spent_usd),
+    }));
+  }
+
+  /**
+   * Record an alert, once per budget, period and level.
+   * Returns whether it was new.
+   */
+  async recordAlert(input: {
+    budgetId: string;
+    periodStart: string;
+    level: AiBudgetLevel;
+    spentUsd: number;
+    limitUsd: number;
+  }): Promise<boolean> {
+    const result = await query(
+      `INSERT INTO ai_budget_alerts (budget_id, period_start, level, spent_usd, limit_usd)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT ON CONSTRAINT unique_ai_budget_alert DO NOTHING`,
+      [input.budgetId, input.periodStart, input.level, input.spentUsd, input.limitUsd]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findOpenAlerts(): Promise<AiBudgetAlert[]> {
+    const result = await query<DbAiBudgetAlert>(
+      `SELECT al.id, al.budget_id, b.purpose, b.period,
+        TO_CHAR(al.period_start, 'YYYY-MM-DD') as period_start,
+        al.level, al.spent_usd, al.limit_usd, al.created_at
+      FROM ai_budget_alerts al
+      JOIN ai_budgets b ON b.id = al.budget_id
+      WHERE al.acknowledged_at IS NULL
+      ORDER BY al.created_at DESC`
+    );
+
+    return result.rows.map(mapDbToAlert);
+  }
+
+  async acknowledgeAlert(id: string, userId: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE ai_budget_alerts
+       SET acknowledged_at = NOW(), acknowledged_by = $2
+       WHERE id = $1 AND acknowledged_at IS NULL`,
+      [id, userId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Latest override still in force
+   */
+  async findActiveOverride(): Promise<AiBudgetOverride | null> {
+    const result = await query<DbAiBudgetOverride>(
+      `SELECT * FROM ai_budget_overrides
+       WHERE expires_at > NOW()
+       ORDER BY created_at DESC
+       LIMIT 1`
+    );
+
+    return result.rows[0] ? mapDbToOverride(result.rows[0]) : null;
+  }
+
+  async createOverride(input: {
+    level: AiBudgetLevel;
+    hours: number;
+    reason?: string;
+    createdBy: string;
+  }): Promise<AiBudgetOverride> {
+    const result = await query<DbAiBudgetOverride>(
+      `INSERT INTO ai_budget_overrides (level, reason, expires_at, created_by)
+       VALUES ($1, $2, NOW() + make_interval(hours => $3), $4)
+       RETURNING *`,
+      [input.level, input.reason || null, input.hours, input.createdBy]
+    );
+
+    return mapDbToOverride(result.rows[0]);
+  }
+
+  /**
+   * End every override in force
+   */
+  async endOverrides(): Promise<number> {
+    const result = await query(
+      'UPDATE ai_budget_overrides SET expires_at = NOW() WHERE expires_at > NOW()'
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
@@ -0,0 +1,183 @@
+import { query } from '../config/database.js';
+import type { AiCallOutcome, AiPurpose, AiUsageSummary, AiUsageTotals } from '@media-scanner/shared';
+
+export interface CreateAiUsageInput {
+  provider: string;
+  model: string;
+  purpose?: AiPurpose;
+  articleId?: string;
+  socialPostId?: string;
+  topicIds?: string[];
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number | null;
+  outcome: AiCallOutcome;
+  error?: string;
+}
+
+interface DbUsageTotals {
+  calls: string;
+  failed_calls: string;
+  input_tokens: string | null;
+  output_tokens: string | null;
+  cost_usd: string | null;
+}
+
+function mapDbToTotals(row: DbUsageTotals | undefined): AiUsageTotals {
+  return {
+    calls: parseInt(row?.calls || '0'),
+    failedCalls: parseInt(row?.failed_calls || '0'),
+    inputTokens: Math.round(parseFloat(row?.input_tokens || '0')),
+    outputTokens: Math.round(parseFloat(row?.output_tokens || '0')),
+    costUsd: parseFloat(row?.cost_usd || '0'),
+  };
+}
+
+const TOTALS_COLUMNS = `
+  COUNT(*) as calls,
+  COUNT(*) FILTER (WHERE u.outcome <> 'success') as failed_calls,
+  SUM(u.input_tokens) as input_tokens,
+  SUM(u.output_tokens) as output_tokens,
+  COALESCE(SUM(u.cost_usd), 0) as cost_usd`;
+
+// Topic breakdown: each call counts once per topic, tokens and cost are split
+const TOPIC_SHARE_COLUMNS = `
+  COUNT(*) as calls,
+  COUNT(*) FILTER (WHERE u.outcome <> 'success') as failed_calls,
+  SUM(u.input_tokens::numeric / cardinality(u.topic_ids)) as input_tokens,
+  SUM(u.output_tokens::numeric / cardinality(u.topic_ids)) as output_tokens,
+  COALESCE(SUM(u.cost_usd / cardinality(u.topic_ids)), 0) as cost_usd`;
+
+const MAX_BREAKDOWN_ROWS = 20;
+
+export class AiUsageRepository {
+  async create(input: CreateAiUsageInput): Promise<void> {
+    await query(
+      `INSERT INTO ai_usage (
+        provider, model, purpose, article_id, social_post_id, source_id, topic_ids,
+        input_tokens, output_tokens, latency_ms, cost_usd, outcome, error
+      )
+      VALUES (
+        $1, $2, $3, $4, $12,
+        COALESCE(
+          (SELECT source_id FROM articles WHERE id = $4),
+          (SELECT source_id FROM social_posts WHERE id = $12)
+        ),
+        $5, $6, $7, $8, $9, $10, $11
+      )`,
+      [
+        input.provider,
+        input.model,
+        input.purpose || null,
+        input.articleId || null,
+        input.topicIds || [],
+        input.inputTokens,
+        input.outputTokens,
+        input.latencyMs,
+        input.costUsd,
+        input.outcome,
+        input.error || null,
+        input.socialPostId || null,
+      ]
+    );
+  }
+
+  /**
+   * Average cost of the successful priced calls for a purpose over the last days, null without any
+   */
+  async getAverageCost(purpose: AiPurpose, days: number): Promise<number | null> {
+    const result = await query<{ avg_cost_usd: string | null }>(
+      `SELECT AVG(u.cost_usd) as avg_cost_usd
+       FROM ai_usage u
+       WHERE u.purpose = $1
+         AND u.outcome = 'success'
+         AND u.cost_usd IS NOT NULL
+         AND u.created_at >= CURRENT_DATE - make_interval(days => $2)`,
+      [purpose, days]
+    );
+
+    const avg = result.rows[0]?.avg_cost_usd;
+    return avg ? parseFloat(avg) : null;
+  }
+
+  /**
+   * Usage over the last days, with breakdowns by day, purpose, model, topic and source
+   */
+  async getSummary(days: number): Promise<AiUsageSummary> {
+    const since = `u.created_at >= CURRENT_DATE - make_interval(days => $1)`;
+
+    const totalsResult = await query<DbUsageTotals>(
+      `SELECT ${TOTALS_COLUMNS} FROM ai_usage u WHERE ${since}`,
+      [days]
+    );
+
+    const byDayResult = await query<DbUsageTotals & { date: string }>(
+      `SELECT TO_CHAR(DATE(u.created_at), 'YYYY-MM-DD') as date, ${TOTALS_COLUMNS}
+       FROM ai_usage u
+       WHERE ${since}
+       GROUP BY DATE(u.created_at)
+       ORDER BY DATE(u.created_at)`,
+      [days]
+    );
+
+    const byPurposeResult = await query<DbUsageTotals & { purpose: AiPurpose | null }>(
+      `SELECT u.purpose, ${TOTALS_COLUMNS}
+       FROM ai_usage u
+       WHERE ${since}
+       GROUP BY u.purpose
+       ORDER BY cost_usd DESC, calls DESC`,
+      [days]
+    );
+
+    const byModelResult = await query<DbUsageTotals & { model: string }>(
+      `SELECT u.model, ${TOTALS_COLUMNS}
+       FROM ai_usage u
+       WHERE ${since}
+       GROUP BY u.model
+       ORDER BY cost_usd DESC, calls DESC`,
+      [days]
+    );
+
+    const byTopicResult = await query<DbUsageTotals & { topic_id: string; topic_name: string }>(
+      `SELECT t.id as topic_id, t.name as topic_name, ${TOPIC_SHARE_COLUMNS}
+       FROM ai_usage u
+       CROSS JOIN LATERAL unnest(u.topic_ids) AS ut(topic_id)
+       JOIN topics t ON t.id = ut.topic_id
+       WHERE ${since}
+       GROUP BY t.id, t.name
+       ORDER BY cost_usd DESC, calls DESC
+       LIMIT ${MAX_BREAKDOWN_ROWS}`,
+      [days]
+    );
+
+    const bySourceResult = await query<DbUsageTotals & { source_id: string; source_name: string }>(
+      `SELECT s.id as source_id, s.name as source_name, ${TOTALS_COLUMNS}
+       FROM ai_usage u
+       JOIN sources s ON s.id = u.source_id
+       WHERE ${since}
+       GROUP BY s.id, s.name
+       ORDER BY cost_usd DESC, calls DESC
+       LIMIT ${MAX_BREAKDOWN_ROWS}`,
+      [days]
+    );
+
+    return {
+      days,
+      totals: mapDbToTotals(totalsResult.rows[0]),
+      byDay: byDayResult.rows.map((row) => ({ date: row.date, ...mapDbToTotals(row) })),
+      byPurpose: byPurposeResult.rows.map((row) => ({ purpose: row.purpose, ...mapDbToTotals(row) })),
+      byModel: byModelResult.rows.map((row) => ({ model: row.model, ...mapDbToTotals(row) })),
+      byTopic: byTopicResult.rows.map((row) => ({
+        topicId: row.topic_id,
+        topicName: row.topic_name,
+        ...mapDbToTotals(row),
+      })),
+      bySource: bySourceResult.rows.map((row) => ({
+        sourceId: row.source_id,
+        sourceName: row.source_name,
+        ...mapDbToTotals(row),
+      })),
+    };
+  }
+}
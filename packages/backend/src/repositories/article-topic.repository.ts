@@ -8,6 +8,7 @@ interface DbArticleTopic {
   relevance_score: string;
   reasoning: string | null;
   potential_angle: string | null;
+  prompt_version_id: string | null;
   analyzed_at: Date;
 }
 
@@ -18,6 +19,7 @@ interface DbArticleTopicWithTopic extends DbArticleTopic {
   topic_keywords: string[];
   topic_ai_prompt: string;
   topic_min_relevance_score: string;
+  topic_auto_generate_score: string | null;
   topic_is_active: boolean;
   topic_is_system: boolean;
 }
@@ -30,6 +32,7 @@ function mapDbToArticleTopic(row: DbArticleTopic): ArticleTopic {
     relevanceScore: parseFloat(row.relevance_score),
     reasoning: row.reasoning,
     potentialAngle: row.potential_angle,
+    promptVersionId: row.prompt_version_id,
     analyzedAt: row.analyzed_at,
   };
 }
@@ -43,12 +46,13 @@ export class ArticleTopicRepository {
 
     for (const result of results) {
       const dbResult = await query<DbArticleTopic>(
-        `INSERT INTO article_topics (article_id, topic_id, relevance_score, reasoning, potential_angle)
-         VALUES ($1, $2, $3, $4, $5)
+        `INSERT INTO article_topics (article_id, topic_id, relevance_score, reasoning, potential_angle, prompt_version_id)
+         VALUES ($1, $2, $3, $4, $5, $6)
          ON CONFLICT (article_id, topic_id) DO UPDATE SET
            relevance_score = EXCLUDED.relevance_score,
            reasoning = EXCLUDED.reasoning,
            potential_angle = EXCLUDED.potential_angle,
+           prompt_version_id = EXCLUDED.prompt_version_id,
            analyzed_at = NOW()
          RETURNING *`,
         [
@@ -57,6 +61,7 @@ export class ArticleTopicRepository {
           result.relevanceScore,
           result.reasoning,
           result.potentialAngle,
+          result.promptVersionId,
         ]
       );
 
@@ -78,6 +83,7 @@ export class ArticleTopicRepository {
         t.keywords as topic_keywords,
         t.ai_prompt as topic_ai_prompt,
         t.min_relevance_score as topic_min_relevance_score,
+        t.auto_generate_score as topic_auto_generate_score,
         t.is_active as topic_is_active,
         t.is_system as topic_is_system
        FROM article_topics at
@@ -94,6 +100,7 @@ export class ArticleTopicRepository {
       relevanceScore: parseFloat(row.relevance_score),
       reasoning: row.reasoning,
       potentialAngle: row.potential_angle,
+      promptVersionId: row.prompt_version_id,
       analyzedAt: row.analyzed_at,
       topic: {
         id: row.topic_id,
@@ -103,6 +110,7 @@ export class ArticleTopicRepository {
         keywords: row.topic_keywords,
         aiPrompt: row.topic_ai_prompt,
         minRelevanceScore: parseFloat(row.topic_min_relevance_score),
+        autoGenerateScore: row.topic_auto_generate_score !== null ? parseFloat(row.topic_auto_generate_score) : null,
         isActive: row.topic_is_active,
         isSystem: row.topic_is_system,
         createdBy: null,
@@ -112,6 +120,15 @@ export class ArticleTopicRepository {
     }));
   }
 
+  async findOne(articleId: string, topicId: string): Promise<ArticleTopic | null> {
+    const result = await query<DbArticleTopic>(
+      'SELECT * FROM article_topics WHERE article_id = $1 AND topic_id = $2',
+      [articleId, topicId]
+    );
+
+    return result.rows[0] ? mapDbToArticleTopic(result.rows[0]) : null;
+  }
+
   async findByTopic(
     topicId: string,
     options?: { limit?: number; offset?: number; minScore?: number }
@@ -1,8 +1,9 @@
 import { query } from '../config/database.js';
-import { hashUrl } from '@media-scanner/shared';
+import { hashUrl, DEFAULT_AUTO_GENERATE_SCORE } from '@media-scanner/shared';
 import type {
   Article,
   ArticleWithSource,
+  ExtractionStatus,
   ArticleQueryParams,
   PaginatedResponse,
   GeneratedPost,
@@ -34,6 +35,11 @@ export class ArticleRepository {
       values.push(status);
     }
 
+    // Syndicated copies are listed under their canonical article
+    if (status !== 'duplicate') {
+      conditions.push('a.duplicate_of IS NULL');
+    }
+
     if (sourceId) {
       conditions.push(`a.source_id = $${paramIndex++}`);
       values.push(sourceId);
@@ -81,13 +87,22 @@ export class ArticleRepository {
     const dataResult = await query<ArticleWithSource>(
       `SELECT
         a.*,
+        a.story_id AS "storyId",
+        a.duplicate_of AS "duplicateOf",
+        a.analysis_error AS "analysisError",
         json_build_object(
           'id', s.id,
           'name', s.name,
           'slug', s.slug,
           'type', s.type,
           'category', s.category
-        ) as source
+        ) as source,
+        (
+          SELECT json_agg(DISTINCT cs.name)
+          FROM articles c
+          JOIN sources cs ON c.source_id = cs.id
+          WHERE c.duplicate_of = a.id
+        ) AS "syndicatedBy"
       FROM articles a
       LEFT JOIN sources s ON a.source_id = s.id
       ${whereClause}
@@ -111,6 +126,9 @@ export class ArticleRepository {
     const result = await query<ArticleWithSource>(
       `SELECT
         a.*,
+        a.story_id AS "storyId",
+        a.duplicate_of AS "duplicateOf",
+        a.analysis_error AS "analysisError",
         json_build_object(
           'id', s.id,
           'name', s.name,
@@ -142,15 +160,16 @@ export class ArticleRepository {
 
     const result = await query<Article>(
       `INSERT INTO articles (
-        source_id, external_id, url, url_hash, title, lede, full_text,
+        source_id, external_id, url, original_url, url_hash, title, lede, full_text,
         author, published_at, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending')
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending')
       ON CONFLICT (url_hash) DO NOTHING
       RETURNING *`,
       [
         input.sourceId,
         input.externalId || null,
         input.url,
+        input.originalUrl || null,
         urlHash,
         input.title,
         input.lede || null,
@@ -163,6 +182,36 @@ export class ArticleRepository {
     return result.rows[0];
   }
 
+  /**
+   * Move an article to the canonical URL declared by its page, keeping the
+   * feed URL as original. Returns the id of the article already stored
+   * under that URL instead, if any.
+   */
+  async moveToCanonicalUrl(id: string, url: string): Promise<string | null> {
+    const urlHash = hashUrl(url);
+
+    const existing = await query<{ id: string }>(
+      'SELECT id FROM articles WHERE url_hash = $1 AND id <> $2',
+      [urlHash, id]
+    );
+
+    if (existing.rows[0]) {
+      return existing.rows[0].id;
+    }
+
+    await query(
+      `UPDATE articles SET
+        original_url = COALESCE(original_url, url),
+        url = $1,
+        url_hash = $2,
+        updated_at = NOW()
+      WHERE id = $3`,
+      [url, urlHash, id]
+    );
+
+    return null;
+  }
+
   async update(id: string, data: Partial<Article>): Promise<Article | null> {
     const fields: string[] = [];
     const values: unknown[] = [];
@@ -195,8 +244,9 @@ export class ArticleRepository {
     keywords: string[];
     categories: string[];
     potentialAngle: string;
+    isRelevant: boolean; // Whether the score meets the threshold of a topic
   }): Promise<Article | null> {
-    const status = analysis.relevanceScore >= 0.5 ? 'relevant' : 'irrelevant';
+    const status = analysis.isRelevant ? 'relevant' : 'irrelevant';
 
     const result = await query<Article>(
       `UPDATE articles SET
@@ -206,6 +256,7 @@ export class ArticleRepository {
         keywords = $4,
         categories = $5,
         potential_angle = $6,
+        analysis_error = NULL,
         analyzed_at = NOW(),
         updated_at = NOW()
       WHERE id = $7
@@ -224,6 +275,119 @@ export class ArticleRepository {
     return result.rows[0] || null;
   }
 
+  /**
+   * Judge analyzed articles again against the current topic thresholds,
+   * after a threshold changed. Returns how many changed status.
+   */
+  async refreshRelevanceStatus(topicId: string): Promise<number> {
+    const result = await query(
+      `WITH judged AS (
+        SELECT a.id, EXISTS (
+          SELECT 1 FROM article_topics at
+          JOIN topics t ON t.id = at.topic_id
+          WHERE at.article_id = a.id AND t.is_active AND at.relevance_score >= t.min_relevance_score
+        ) AS is_relevant
+        FROM articles a
+        WHERE a.status IN ('relevant', 'irrelevant')
+          AND EXISTS (SELECT 1 FROM article_topics at WHERE at.article_id = a.id AND at.topic_id = $1)
+      )
+      UPDATE articles a SET
+        status = CASE WHEN j.is_relevant THEN 'relevant'::article_status ELSE 'irrelevant'::article_status END,
+        updated_at = NOW()
+      FROM judged j
+      WHERE a.id = j.id AND (a.status = 'relevant') <> j.is_relevant`,
+      [topicId]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Give up on analyzing an article, keeping why
+   */
+  async markAnalysisFailed(id: string, reason: string): Promise<void> {
+    await query(
+      `UPDATE articles SET
+        status = 'error',
+        analysis_error = $2,
+        updated_at = NOW()
+      WHERE id = $1`,
+      [id, reason]
+    );
+  }
+
+  async updateExtraction(id: string, extraction: {
+    status: ExtractionStatus;
+    fullText?: string;
+  }): Promise<void> {
+    // A failed extraction keeps whatever text the feed provided
+    await query(
+      `UPDATE articles SET
+        extraction_status = $1,
+        full_text = COALESCE($2, full_text),
+        extracted_at = NOW(),
+        updated_at = NOW()
+      WHERE id = $3`,
+      [extraction.status, extraction.fullText || null, id]
+    );
+  }
+
+  /**
+   * Full text of an article, only when it comes from the extraction stage
+   */
+  async findExtractedText(id: string): Promise<string | null> {
+    const result = await query<{ full_text: string | null }>(
+      `SELECT full_text FROM articles
+       WHERE id = $1 AND extraction_status IN ('extracted', 'paywalled')`,
+      [id]
+    );
+
+    return result.rows[0]?.full_text || null;
+  }
+
+  async updateSimhash(id: string, simhash: string): Promise<void> {
+    await query('UPDATE articles SET simhash = $1 WHERE id = $2', [simhash, id]);
+  }
+
+  /**
+   * Closest canonical article seen recently whose SimHash is within the given Hamming distance
+   */
+  async findNearDuplicate(id: string, simhash: string, options: {
+    maxDistance: number;
+    windowHours: number;
+  }): Promise<{ id: string; storyId: string | null; distance: number } | null> {
+    const result = await query<{ id: string; story_id: string | null; distance: number }>(
+      `SELECT id, story_id, bit_count((simhash # $2::bigint)::bit(64))::int AS distance
+       FROM articles
+       WHERE id <> $1
+         AND duplicate_of IS NULL
+         AND simhash IS NOT NULL
+         AND created_at > NOW() - make_interval(hours => $3::int)
+         AND bit_count((simhash # $2::bigint)::bit(64)) <= $4
+       ORDER BY distance, created_at
+       LIMIT 1`,
+      [id, simhash, options.windowHours, options.maxDistance]
+    );
+
+    const row = result.rows[0];
+    return row ? { id: row.id, storyId: row.story_id, distance: row.distance } : null;
+  }
+
+  /**
+   * Park a syndicated copy: it stays listed as an outlet of the story but is never analyzed
+   */
+  async markSyndicatedCopy(id: string, canonicalId: string, storyId: string): Promise<void> {
+    await query(
+      `UPDATE articles SET
+        status = 'duplicate',
+        duplicate_of = $2,
+        story_id = $3,
+        updated_at = NOW()
+      WHERE id = $1`,
+      [id, canonicalId, storyId]
+    );
+  }
+
   async markForReanalysis(id: string): Promise<void> {
     await query(
       `UPDATE articles SET status = 'pending', analyzed_at = NULL WHERE id = $1`,
@@ -245,6 +409,39 @@ export class ArticleRepository {
     return result.rows;
   }
 
+  /**
+   * Title and lede of the latest articles, syndicated copies left out, for keyword previews
+   */
+  async findRecentSnippets(days: number, limit: number): Promise<Array<{
+    id: string;
+    title: string;
+    lede: string;
+    url: string;
+    sourceName: string | null;
+    publishedAt: Date | null;
+  }>> {
+    const result = await query<{
+      id: string;
+      title: string;
+      lede: string;
+      url: string;
+      sourceName: string | null;
+      publishedAt: Date | null;
+    }>(
+      `SELECT a.id, a.title, COALESCE(a.lede, '') AS lede, a.url,
+        s.name AS "sourceName", a.published_at AS "publishedAt"
+      FROM articles a
+      LEFT JOIN sources s ON s.id = a.source_id
+      WHERE a.created_at >= NOW() - make_interval(days => $1)
+        AND a.duplicate_of IS NULL
+      ORDER BY a.created_at DESC
+      LIMIT $2`,
+      [days, limit]
+    );
+
+    return result.rows;
+  }
+
   async findPendingForAnalysis(limit = 100): Promise<Article[]> {
     const result = await query<Article>(
       `SELECT * FROM articles
@@ -257,16 +454,24 @@ export class ArticleRepository {
     return result.rows;
   }
 
+  /**
+   * Relevant articles without posts that reached the auto-generation threshold of a topic
+   */
   async findRelevantForPostGeneration(limit = 50): Promise<Article[]> {
     const result = await query<Article>(
       `SELECT a.* FROM articles a
        LEFT JOIN generated_posts gp ON a.id = gp.article_id
        WHERE a.status = 'relevant'
-         AND a.relevance_score >= 0.6
+         AND EXISTS (
+           SELECT 1 FROM article_topics at
+           JOIN topics t ON t.id = at.topic_id
+           WHERE at.article_id = a.id
+             AND at.relevance_score >= GREATEST(t.min_relevance_score, COALESCE(t.auto_generate_score, $2))
+         )
          AND gp.id IS NULL
        ORDER BY a.relevance_score DESC, a.published_at DESC
        LIMIT $1`,
-      [limit]
+      [limit, DEFAULT_AUTO_GENERATE_SCORE]
     );
 
     return result.rows;
@@ -60,6 +60,27 @@ export class DashboardRepository {
       LEFT JOIN generated_posts gp ON TRUE`
     );
 
+    const byTopicResult = await query<{
+      topic_id: string;
+      topic_name: string;
+      today: string;
+      week: string;
+      month: string;
+    }>(
+      `SELECT t.id as topic_id, t.name as topic_name,
+        COUNT(a.id) FILTER (WHERE DATE(a.created_at) = CURRENT_DATE) as today,
+        COUNT(a.id) FILTER (WHERE a.created_at >= CURRENT_DATE - INTERVAL '7 days') as week,
+        COUNT(a.id) as month
+      FROM topics t
+      LEFT JOIN article_topics at ON at.topic_id = t.id AND at.relevance_score >= t.min_relevance_score
+      LEFT JOIN articles a ON a.id = at.article_id
+        AND a.created_at >= CURRENT_DATE - INTERVAL '30 days'
+        AND a.status = 'relevant'
+      WHERE t.is_active = true
+      GROUP BY t.id, t.name
+      ORDER BY t.name`
+    );
+
     return {
       today: {
         articles: parseInt(todayResult.rows[0]?.articles || '0'),
@@ -76,6 +97,13 @@ export class DashboardRepository {
         relevant: parseInt(monthResult.rows[0]?.relevant || '0'),
         postsGenerated: parseInt(monthResult.rows[0]?.posts || '0'),
       },
+      relevantByTopic: byTopicResult.rows.map((row) => ({
+        topicId: row.topic_id,
+        topicName: row.topic_name,
+        today: parseInt(row.today),
+        week: parseInt(row.week),
+        month: parseInt(row.month),
+      })),
     };
   }
 
@@ -141,7 +169,7 @@ export class DashboardRepository {
     const redisHealthy = await redisHealthCheck();
 
     const lastScanResult = await query<{ completed_at: Date }>(
-      `SELECT completed_at FROM scan_logs WHERE status = 'completed' ORDER BY completed_at DESC LIMIT 1`
+      `SELECT completed_at FROM scan_logs WHERE status IN ('completed', 'unchanged') ORDER BY completed_at DESC LIMIT 1`
     );
 
     const pendingResult = await query<{ count: string }>(
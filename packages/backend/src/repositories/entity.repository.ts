@@ -0,0 +1,262 @@
+import { query, transaction } from '../config/database.js';
+import { DEPARTEMENTS, DEFAULT_ENTITY_DAYS } from '@media-scanner/shared';
+import type {
+  DepartementActivity,
+  Entity,
+  EntityArticle,
+  EntityQueryParams,
+  EntitySummary,
+  EntityType,
+  PaginatedResponse,
+} from '@media-scanner/shared';
+
+interface DbEntity {
+  id: string;
+  type: EntityType;
+  name: string;
+  normalized_name: string;
+  insee_code: string | null;
+  departement_code: string | null;
+  created_at: Date;
+}
+
+interface DbEntitySummary extends DbEntity {
+  article_count: string;
+  last_seen_at: Date | null;
+}
+
+interface DbEntityArticle {
+  id: string;
+  title: string;
+  url: string;
+  source_name: string | null;
+  published_at: Date | null;
+  relevance_score: string | null;
+  categories: string[] | null;
+}
+
+// An entity named by an article, before it is stored
+export interface NewEntity {
+  type: EntityType;
+  name: string;
+  normalizedName: string; // Mentions of the same entity share it
+  inseeCode: string | null;
+  departementCode: string | null;
+}
+
+function mapDbToEntity(row: DbEntity): Entity {
+  return {
+    id: row.id,
+    type: row.type,
+    name: row.name,
+    inseeCode: row.insee_code,
+    departementCode: row.departement_code,
+    createdAt: row.created_at,
+  };
+}
+
+// Relevant articles of the last days, dated by publication when the feed gave one
+const RELEVANT_IN_PERIOD = `a.status = 'relevant'
+  AND COALESCE(a.published_at, a.created_at) >= NOW() - make_interval(days => $1)`;
+
+export class EntityRepository {
+  /**
+   * Replace the entities of an article, creating those not seen before
+   */
+  async saveForArticle(articleId: string, entities: NewEntity[]): Promise<void> {
+    await transaction(async (client) => {
+      const entityIds: string[] = [];
+
+      for (const entity of entities) {
+        // The no-op update lets an existing entity return its id
+        const result = await client.query<{ id: string }>(
+          `INSERT INTO entities (type, name, normalized_name, insee_code, departement_code)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (type, normalized_name, (COALESCE(insee_code, '')), (COALESCE(departement_code, '')))
+           DO UPDATE SET normalized_name = EXCLUDED.normalized_name
+           RETURNING id`,
+          [entity.type, entity.name, entity.normalizedName, entity.inseeCode, entity.departementCode]
+        );
+        entityIds.push(result.rows[0].id);
+      }
+
+      await client.query('DELETE FROM article_entities WHERE article_id = $1', [articleId]);
+
+      await client.query(
+        `INSERT INTO article_entities (article_id, entity_id)
+         SELECT $1, unnest($2::uuid[])
+         ON CONFLICT DO NOTHING`,
+        [articleId, entityIds]
+      );
+
+      await client.query(
+        'UPDATE articles SET entities_extracted_at = NOW() WHERE id = $1',
+        [articleId]
+      );
+    });
+  }
+
+  /**
+   * Whether the extraction already ran for the article, even if it found nothing
+   */
+  async isExtracted(articleId: string): Promise<boolean> {
+    const result = await query<{ extracted: boolean }>(
+      'SELECT entities_extracted_at IS NOT NULL AS extracted FROM articles WHERE id = $1',
+      [articleId]
+    );
+    return result.rows[0]?.extracted ?? false;
+  }
+
+  async findById(id: string): Promise<Entity | null> {
+    const result = await query<DbEntity>('SELECT * FROM entities WHERE id = $1', [id]);
+    return result.rows[0] ? mapDbToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Entities named by relevant articles of the period, the most named first
+   */
+  async findAll(params: EntityQueryParams): Promise<PaginatedResponse<EntitySummary>> {
+    const { type, search, days = DEFAULT_ENTITY_DAYS, page = 1, limit = 50 } = params;
+
+    const conditions: string[] = [RELEVANT_IN_PERIOD];
+    const values: unknown[] = [days];
+    let paramIndex = 2;
+
+    if (type) {
+      conditions.push(`e.type = $${paramIndex++}`);
+      values.push(type);
+    }
+
+    if (search) {
+      conditions.push(`(e.name ILIKE $${paramIndex} OR e.normalized_name ILIKE $${paramIndex})`);
+      paramIndex++;
+      values.push(`%${search}%`);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const offset = (page - 1) * limit;
+
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(DISTINCT e.id) as count
+      FROM entities e
+      JOIN article_entities ae ON ae.entity_id = e.id
+      JOIN articles a ON a.id = ae.article_id
+      ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const dataResult = await query<DbEntitySummary>(
+      `SELECT
+        e.*,
+        COUNT(*) AS article_count,
+        MAX(COALESCE(a.published_at, a.created_at)) AS last_seen_at
+      FROM entities e
+      JOIN article_entities ae ON ae.entity_id = e.id
+      JOIN articles a ON a.id = ae.article_id
+      ${whereClause}
+      GROUP BY e.id
+      ORDER BY article_count DESC, last_seen_at DESC
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}`,
+      [...values, limit, offset]
+    );
+
+    return {
+      data: dataResult.rows.map((row) => ({
+        ...mapDbToEntity(row),
+        articleCount: parseInt(row.article_count),
+        lastSeenAt: row.last_seen_at,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Relevant articles of the period naming the entity, the most recent first
+   */
+  async findArticles(
+    entityId: string,
+    params: { days?: number; page?: number; limit?: number }
+  ): Promise<PaginatedResponse<EntityArticle>> {
+    const { days = DEFAULT_ENTITY_DAYS, page = 1, limit = 20 } = params;
+    const offset = (page - 1) * limit;
+
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count
+      FROM article_entities ae
+      JOIN articles a ON a.id = ae.article_id
+      WHERE ${RELEVANT_IN_PERIOD} AND ae.entity_id = $2`,
+      [days, entityId]
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const dataResult = await query<DbEntityArticle>(
+      `SELECT
+        a.id,
+        a.title,
+        a.url,
+        s.name AS source_name,
+        a.published_at,
+        a.relevance_score,
+        a.categories
+      FROM article_entities ae
+      JOIN articles a ON a.id = ae.article_id
+      LEFT JOIN sources s ON s.id = a.source_id
+      WHERE ${RELEVANT_IN_PERIOD} AND ae.entity_id = $2
+      ORDER BY COALESCE(a.published_at, a.created_at) DESC
+      LIMIT $3 OFFSET $4`,
+      [days, entityId, limit, offset]
+    );
+
+    return {
+      data: dataResult.rows.map((row) => ({
+        id: row.id,
+        title: row.title,
+        url: row.url,
+        sourceName: row.source_name,
+        publishedAt: row.published_at,
+        relevanceScore: row.relevance_score !== null ? parseFloat(row.relevance_score) : null,
+        categories: row.categories || [],
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Départements by relevant articles of the period naming one of their communes
+   */
+  async countByDepartement(days: number): Promise<DepartementActivity[]> {
+    const result = await query<{ departement_code: string; article_count: string; commune_count: string }>(
+      `SELECT
+        e.departement_code,
+        COUNT(DISTINCT a.id) AS article_count,
+        COUNT(DISTINCT e.id) AS commune_count
+      FROM entities e
+      JOIN article_entities ae ON ae.entity_id = e.id
+      JOIN articles a ON a.id = ae.article_id
+      WHERE ${RELEVANT_IN_PERIOD}
+        AND e.type = 'commune'
+        AND e.departement_code IS NOT NULL
+      GROUP BY e.departement_code
+      ORDER BY article_count DESC`,
+      [days]
+    );
+
+    return result.rows.map((row) => ({
+      code: row.departement_code,
+      name: DEPARTEMENTS[row.departement_code] ?? row.departement_code,
+      articleCount: parseInt(row.article_count),
+      communeCount: parseInt(row.commune_count),
+    }));
+  }
+}
@@ -0,0 +1,351 @@
+import { query } from '../config/database.js';
+import type {
+  EvaluationMetrics,
+  EvaluationResult,
+  EvaluationRun,
+  EvaluationRunStatus,
+  GoldenSetTopicSummary,
+  LabelArticleInput,
+  RelevanceLabel,
+  RelevanceLabelWithArticle,
+} from '@media-scanner/shared';
+
+interface DbRelevanceLabel {
+  id: string;
+  article_id: string;
+  topic_id: string;
+  is_relevant: boolean;
+  labelled_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface DbRelevanceLabelWithArticle extends DbRelevanceLabel {
+  article_title: string;
+  article_url: string;
+  source_name: string | null;
+  topic_name: string;
+  labelled_by_name: string | null;
+}
+
+interface DbEvaluationRun {
+  id: string;
+  topic_id: string | null;
+  topic_name: string | null;
+  prompt_version_id: string;
+  prompt_version: number | null;
+  model: string;
+  threshold: string;
+  status: EvaluationRunStatus;
+  sample_count: number;
+  scored_count: number;
+  error: string | null;
+  metrics: EvaluationMetrics | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+interface DbEvaluationResult {
+  article_id: string;
+  article_title: string;
+  source_name: string | null;
+  topic_id: string;
+  topic_name: string;
+  expected: boolean;
+  score: string | null;
+  reasoning: string | null;
+  error: string | null;
+}
+
+function mapDbToLabel(row: DbRelevanceLabel): RelevanceLabel {
+  return {
+    id: row.id,
+    articleId: row.article_id,
+    topicId: row.topic_id,
+    isRelevant: row.is_relevant,
+    labelledBy: row.labelled_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapDbToRun(row: DbEvaluationRun): EvaluationRun {
+  return {
+    id: row.id,
+    topicId: row.topic_id,
+    topicName: row.topic_name,
+    promptVersionId: row.prompt_version_id,
+    promptVersion: row.prompt_version,
+    model: row.model,
+    threshold: parseFloat(row.threshold),
+    status: row.status,
+    sampleCount: row.sample_count,
+    scoredCount: row.scored_count,
+    error: row.error,
+    metrics: row.metrics,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * A labelled article and topic, with what scoring needs
+ */
+export interface GoldenSetSample {
+  articleId: string;
+  title: string;
+  lede: string;
+  fullText: string | null;
+  url: string;
+  sourceId: string | null;
+  sourceName: string | null;
+  topicId: string;
+  isRelevant: boolean;
+}
+
+const SELECT_RUN = `
+  SELECT r.*, t.name as topic_name, pv.version as prompt_version, u.name as created_by_name
+  FROM evaluation_runs r
+  LEFT JOIN topics t ON t.id = r.topic_id
+  LEFT JOIN prompt_versions pv ON pv.id = r.prompt_version_id
+  LEFT JOIN users u ON u.id = r.created_by`;
+
+export class EvaluationRepository {
+  // =========================================
+  // LABELS
+  // =========================================
+
+  async upsertLabel(input: LabelArticleInput, userId: string): Promise<RelevanceLabel> {
+    const result = await query<DbRelevanceLabel>(
+      `INSERT INTO relevance_labels (article_id, topic_id, is_relevant, labelled_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT ON CONSTRAINT unique_relevance_label DO UPDATE SET
+         is_relevant = EXCLUDED.is_relevant,
+         labelled_by = EXCLUDED.labelled_by
+       RETURNING *`,
+      [input.articleId, input.topicId, input.isRelevant, userId]
+    );
+
+    return mapDbToLabel(result.rows[0]);
+  }
+
+  async deleteLabel(articleId: string, topicId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM relevance_labels WHERE article_id = $1 AND topic_id = $2',
+      [articleId, topicId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findLabelsForArticle(articleId: string): Promise<RelevanceLabel[]> {
+    const result = await query<DbRelevanceLabel>(
+      'SELECT * FROM relevance_labels WHERE article_id = $1',
+      [articleId]
+    );
+
+    return result.rows.map(mapDbToLabel);
+  }
+
+  /**
+   * Latest labels, for reviewing the golden set
+   */
+  async findLabels(params: { topicId?: string; limit: number }): Promise<RelevanceLabelWithArticle[]> {
+    const result = await query<DbRelevanceLabelWithArticle>(
+      `SELECT l.*,
+        a.title as article_title,
+        a.url as article_url,
+        s.name as source_name,
+        t.name as topic_name,
+        u.name as labelled_by_name
+      FROM relevance_labels l
+      JOIN articles a ON a.id = l.article_id
+      JOIN topics t ON t.id = l.topic_id
+      LEFT JOIN sources s ON s.id = a.source_id
+      LEFT JOIN users u ON u.id = l.labelled_by
+      WHERE ($1::uuid IS NULL OR l.topic_id = $1)
+      ORDER BY l.updated_at DESC
+      LIMIT $2`,
+      [params.topicId || null, params.limit]
+    );
+
+    return result.rows.map((row) => ({
+      ...mapDbToLabel(row),
+      articleTitle: row.article_title,
+      articleUrl: row.article_url,
+      sourceName: row.source_name,
+      topicName: row.topic_name,
+      labelledByName: row.labelled_by_name,
+    }));
+  }
+
+  async getGoldenSetSummary(): Promise<GoldenSetTopicSummary[]> {
+    const result = await query<{ topic_id: string; topic_name: string; relevant: string; irrelevant: string }>(
+      `SELECT t.id as topic_id, t.name as topic_name,
+        COUNT(*) FILTER (WHERE l.is_relevant) as relevant,
+        COUNT(*) FILTER (WHERE NOT l.is_relevant) as irrelevant
+      FROM relevance_labels l
+      JOIN topics t ON t.id = l.topic_id
+      GROUP BY t.id, t.name
+      ORDER BY t.name`
+    );
+
+    return result.rows.map((row) => ({
+      topicId: row.topic_id,
+      topicName: row.topic_name,
+      relevant: parseInt(row.relevant),
+      irrelevant: parseInt(row.irrelevant),
+    }));
+  }
+
+  async findGoldenSet(topicId?: string): Promise<GoldenSetSample[]> {
+    const result = await query<GoldenSetSample>(
+      `SELECT
+        a.id AS "articleId",
+        a.title,
+        COALESCE(a.lede, '') AS lede,
+        CASE WHEN a.extraction_status IN ('extracted', 'paywalled') THEN a.full_text END AS "fullText",
+        a.url,
+        a.source_id AS "sourceId",
+        s.name AS "sourceName",
+        l.topic_id AS "topicId",
+        l.is_relevant AS "isRelevant"
+      FROM relevance_labels l
+      JOIN articles a ON a.id = l.article_id
+      LEFT JOIN sources s ON s.id = a.source_id
+      WHERE ($1::uuid IS NULL OR l.topic_id = $1)
+      ORDER BY a.id`,
+      [topicId || null]
+    );
+
+    return result.rows;
+  }
+
+  // =========================================
+  // RUNS
+  // =========================================
+
+  async createRun(input: {
+    topicId: string | null;
+    promptVersionId: string;
+    model: string;
+    threshold: number;
+    sampleCount: number;
+    createdBy: string;
+  }): Promise<EvaluationRun> {
+    const result = await query<{ id: string }>(
+      `INSERT INTO evaluation_runs (topic_id, prompt_version_id, model, threshold, sample_count, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [input.topicId, input.promptVersionId, input.model, input.threshold, input.sampleCount, input.createdBy]
+    );
+
+    return (await this.findRunById(result.rows[0].id))!;
+  }
+
+  async findRunById(id: string): Promise<EvaluationRun | null> {
+    const result = await query<DbEvaluationRun>(`${SELECT_RUN} WHERE r.id = $1`, [id]);
+    return result.rows[0] ? mapDbToRun(result.rows[0]) : null;
+  }
+
+  async findRuns(limit = 50): Promise<EvaluationRun[]> {
+    const result = await query<DbEvaluationRun>(
+      `${SELECT_RUN} ORDER BY r.created_at DESC LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map(mapDbToRun);
+  }
+
+  async markRunning(id: string, sampleCount: number): Promise<void> {
+    await query(
+      `UPDATE evaluation_runs SET status = 'running', sample_count = $2, scored_count = 0 WHERE id = $1`,
+      [id, sampleCount]
+    );
+  }
+
+  async updateProgress(id: string, scoredCount: number): Promise<void> {
+    await query('UPDATE evaluation_runs SET scored_count = $2 WHERE id = $1', [id, scoredCount]);
+  }
+
+  async completeRun(id: string, metrics: EvaluationMetrics): Promise<void> {
+    await query(
+      `UPDATE evaluation_runs SET status = 'completed', metrics = $2, completed_at = NOW() WHERE id = $1`,
+      [id, JSON.stringify(metrics)]
+    );
+  }
+
+  async failRun(id: string, error: string): Promise<void> {
+    await query(
+      `UPDATE evaluation_runs SET status = 'failed', error = $2, completed_at = NOW() WHERE id = $1`,
+      [id, error]
+    );
+  }
+
+  async deleteRun(id: string): Promise<boolean> {
+    const result = await query('DELETE FROM evaluation_runs WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // =========================================
+  // RESULTS
+  // =========================================
+
+  async saveResults(runId: string, results: Array<{
+    articleId: string;
+    topicId: string;
+    expected: boolean;
+    score: number | null;
+    reasoning: string | null;
+    error: string | null;
+  }>): Promise<void> {
+    if (results.length === 0) return;
+
+    await query(
+      `INSERT INTO evaluation_results (run_id, article_id, topic_id, expected, score, reasoning, error)
+       SELECT $1, * FROM UNNEST($2::uuid[], $3::uuid[], $4::boolean[], $5::numeric[], $6::text[], $7::text[])`,
+      [
+        runId,
+        results.map((r) => r.articleId),
+        results.map((r) => r.topicId),
+        results.map((r) => r.expected),
+        results.map((r) => r.score),
+        results.map((r) => r.reasoning),
+        results.map((r) => r.error),
+      ]
+    );
+  }
+
+  /**
+   * Scores of a run, worst misses first
+   */
+  async findResults(runId: string): Promise<EvaluationResult[]> {
+    const result = await query<DbEvaluationResult>(
+      `SELECT er.article_id, a.title as article_title, s.name as source_name,
+        er.topic_id, t.name as topic_name, er.expected, er.score, er.reasoning, er.error
+      FROM evaluation_results er
+      JOIN articles a ON a.id = er.article_id
+      JOIN topics t ON t.id = er.topic_id
+      LEFT JOIN sources s ON s.id = a.source_id
+      WHERE er.run_id = $1
+      ORDER BY ABS(CASE WHEN er.expected THEN 1 ELSE 0 END - COALESCE(er.score, 0.5)) DESC`,
+      [runId]
+    );
+
+    return result.rows.map((row) => ({
+      articleId: row.article_id,
+      articleTitle: row.article_title,
+      sourceName: row.source_name,
+      topicId: row.topic_id,
+      topicName: row.topic_name,
+      expected: row.expected,
+      score: row.score !== null ? parseFloat(row.score) : null,
+      reasoning: row.reasoning,
+      error: row.error,
+    }));
+  }
+}
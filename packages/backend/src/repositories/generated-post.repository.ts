@@ -110,25 +110,29 @@ export class GeneratedPostRepository {
     return result.rows;
   }
 
-  async create(articleId: string, content: GeneratePostsResult): Promise<GeneratedPost> {
+  async create(articleId: string, content: GeneratePostsResult, storyId?: string): Promise<GeneratedPost> {
     const result = await query<GeneratedPost>(
       `INSERT INTO generated_posts (
         article_id,
+        story_id,
         content_twitter,
         content_mastodon,
         content_bluesky,
         tone,
         hashtags,
+        prompt_version_id,
         status
-      ) VALUES ($1, $2, $3, $4, $5, $6, 'draft')
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'draft')
       RETURNING *`,
       [
         articleId,
+        storyId || null,
         content.twitter.content,
         content.mastodon.content,
         content.bluesky.content,
         content.tone,
         [...content.twitter.hashtags, ...content.mastodon.hashtags],
+        content.promptVersionId,
       ]
     );
 
@@ -0,0 +1,218 @@
+import { query, transaction } from '../config/database.js';
+
+/**
+ * A recent article, to check again against the keywords of each topic
+ */
+export interface AuditCandidate {
+  id: string;
+  title: string;
+  lede: string;
+  fullText: string | null;
+  url: string;
+  sourceName: string | null;
+}
+
+/**
+ * A sampled miss with its score for one topic
+ */
+export interface ScoredSample {
+  articleId: string;
+  title: string;
+  lede: string;
+  url: string;
+  topicId: string;
+  relevanceScore: number;
+  relevant: boolean; // Meets the topic's threshold
+  weight: number; // Misses of its run each sample stands for
+}
+
+export interface AuditTotals {
+  scanned: number;
+  misses: number;
+  samples: number;
+}
+
+export class KeywordAuditRepository {
+  async findLastWindowEnd(): Promise<Date | null> {
+    const result = await query<{ window_end: Date | null }>(
+      'SELECT MAX(window_end) AS window_end FROM keyword_audit_runs'
+    );
+
+    return result.rows[0]?.window_end ?? null;
+  }
+
+  /**
+   * Articles inserted in the window, syndicated copies aside
+   */
+  async findCandidates(windowStart: Date, windowEnd: Date, afterId: string | null, limit: number): Promise<AuditCandidate[]> {
+    const result = await query<AuditCandidate>(
+      `SELECT
+        a.id,
+        a.title,
+        COALESCE(a.lede, '') AS lede,
+        CASE WHEN a.extraction_status IN ('extracted', 'paywalled') THEN a.full_text END AS "fullText",
+        a.url,
+        s.name AS "sourceName"
+      FROM articles a
+      LEFT JOIN sources s ON s.id = a.source_id
+      WHERE a.created_at >= $1
+        AND a.created_at < $2
+        AND a.duplicate_of IS NULL
+        AND ($3::uuid IS NULL OR a.id > $3)
+      ORDER BY a.id
+      LIMIT $4`,
+      [windowStart, windowEnd, afterId, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Record a run, its misses per topic and its samples, an article already sampled is not sampled twice
+   */
+  async createRun(input: {
+    windowStart: Date;
+    windowEnd: Date;
+    sampleRate: number;
+    scanned: number;
+    misses: number;
+    topicMisses: Map<string, number>;
+    samples: Array<{ articleId: string; missedTopicIds: string[] }>;
+  }): Promise<{ id: string; sampledArticleIds: string[] }> {
+    return transaction(async (client) => {
+      const run = await client.query<{ id: string }>(
+        `INSERT INTO keyword_audit_runs (window_start, window_end, sample_rate, scanned_count, miss_count)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [input.windowStart, input.windowEnd, input.sampleRate, input.scanned, input.misses]
+      );
+      const runId = run.rows[0].id;
+
+      await client.query(
+        `INSERT INTO keyword_audit_topic_misses (run_id, topic_id, miss_count)
+         SELECT $1, * FROM unnest($2::uuid[], $3::int[])`,
+        [runId, [...input.topicMisses.keys()], [...input.topicMisses.values()]]
+      );
+
+      const sampledArticleIds: string[] = [];
+      for (const sample of input.samples) {
+        const inserted = await client.query(
+          `INSERT INTO keyword_miss_samples (run_id, article_id, missed_topic_ids)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (article_id) DO NOTHING`,
+          [runId, sample.articleId, sample.missedTopicIds]
+        );
+        if (inserted.rowCount) sampledArticleIds.push(sample.articleId);
+      }
+
+      // Samples stand for the run's misses in proportion to how many were kept
+      await client.query(
+        'UPDATE keyword_audit_runs SET sampled_count = $2 WHERE id = $1',
+        [runId, sampledArticleIds.length]
+      );
+
+      return { id: runId, sampledArticleIds };
+    });
+  }
+
+  async getTotals(days: number): Promise<AuditTotals> {
+    const result = await query<{ scanned: string; misses: string; samples: string }>(
+      `SELECT
+        COALESCE(SUM(scanned_count), 0) AS scanned,
+        COALESCE(SUM(miss_count), 0) AS misses,
+        COALESCE(SUM(sampled_count), 0) AS samples
+      FROM keyword_audit_runs
+      WHERE window_end >= NOW() - make_interval(days => $1)`,
+      [days]
+    );
+
+    const row = result.rows[0];
+    return {
+      scanned: parseInt(row.scanned, 10),
+      misses: parseInt(row.misses, 10),
+      samples: parseInt(row.samples, 10),
+    };
+  }
+
+  /**
+   * Misses per topic over the runs of the period
+   */
+  async countMissesByTopic(days: number): Promise<Map<string, number>> {
+    const result = await query<{ topic_id: string; misses: string }>(
+      `SELECT tm.topic_id, SUM(tm.miss_count) AS misses
+      FROM keyword_audit_topic_misses tm
+      JOIN keyword_audit_runs r ON r.id = tm.run_id
+      WHERE r.window_end >= NOW() - make_interval(days => $1)
+      GROUP BY tm.topic_id`,
+      [days]
+    );
+
+    return new Map(result.rows.map((row) => [row.topic_id, parseInt(row.misses, 10)]));
+  }
+
+  /**
+   * Scores of the samples of the period, one row per sample and topic whose keywords missed it
+   */
+  async findScoredSamples(days: number): Promise<ScoredSample[]> {
+    const result = await query<{
+      article_id: string;
+      title: string;
+      lede: string;
+      url: string;
+      topic_id: string;
+      relevance_score: string;
+      relevant: boolean;
+      weight: string;
+    }>(
+      `SELECT
+        a.id AS article_id,
+        a.title,
+        COALESCE(a.lede, '') AS lede,
+        a.url,
+        at.topic_id,
+        at.relevance_score,
+        at.relevance_score >= t.min_relevance_score AS relevant,
+        r.miss_count::float / r.sampled_count AS weight
+      FROM keyword_miss_samples ms
+      JOIN keyword_audit_runs r ON r.id = ms.run_id
+      JOIN articles a ON a.id = ms.article_id
+      JOIN article_topics at ON at.article_id = ms.article_id AND at.topic_id = ANY(ms.missed_topic_ids)
+      JOIN topics t ON t.id = at.topic_id
+      WHERE r.window_end >= NOW() - make_interval(days => $1)`,
+      [days]
+    );
+
+    return result.rows.map((row) => ({
+      articleId: row.article_id,
+      title: row.title,
+      lede: row.lede,
+      url: row.url,
+      topicId: row.topic_id,
+      relevanceScore: parseFloat(row.relevance_score),
+      relevant: row.relevant,
+      weight: parseFloat(row.weight),
+    }));
+  }
+
+  /**
+   * Relevant articles per topic that reached analysis through their keywords
+   */
+  async countCaughtByTopic(days: number): Promise<Map<string, number>> {
+    const result = await query<{ topic_id: string; caught: string }>(
+      `SELECT at.topic_id, COUNT(*) AS caught
+      FROM article_topics at
+      JOIN topics t ON t.id = at.topic_id
+      JOIN articles a ON a.id = at.article_id
+      WHERE a.created_at >= NOW() - make_interval(days => $1)
+        AND at.relevance_score >= t.min_relevance_score
+        AND NOT EXISTS (
+          SELECT 1 FROM keyword_miss_samples ms
+          WHERE ms.article_id = at.article_id AND at.topic_id = ANY(ms.missed_topic_ids)
+        )
+      GROUP BY at.topic_id`,
+      [days]
+    );
+
+    return new Map(result.rows.map((row) => [row.topic_id, parseInt(row.caught, 10)]));
+  }
+}
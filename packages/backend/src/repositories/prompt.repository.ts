@@ -0,0 +1,138 @@
+import { query, transaction } from '../config/database.js';
+import type { CreatePromptVersionInput, PromptKey, PromptVersion } from '@media-scanner/shared';
+
+interface DbPromptVersion {
+  id: string;
+  prompt_key: PromptKey;
+  version: number;
+  system_prompt: string;
+  user_template: string;
+  note: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: Date;
+}
+
+function mapDbToPromptVersion(row: DbPromptVersion): PromptVersion {
+  return {
+    id: row.id,
+    key: row.prompt_key,
+    version: row.version,
+    systemPrompt: row.system_prompt,
+    userTemplate: row.user_template,
+    note: row.note,
+    isActive: row.is_active,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+  };
+}
+
+const SELECT_VERSION = `
+  SELECT pv.*, u.name as created_by_name
+  FROM prompt_versions pv
+  LEFT JOIN users u ON u.id = pv.created_by`;
+
+export class PromptRepository {
+  async findActive(key: PromptKey): Promise<PromptVersion | null> {
+    const result = await query<DbPromptVersion>(
+      `${SELECT_VERSION} WHERE pv.prompt_key = $1 AND pv.is_active`,
+      [key]
+    );
+
+    return result.rows[0] ? mapDbToPromptVersion(result.rows[0]) : null;
+  }
+
+  async findAllActive(): Promise<PromptVersion[]> {
+    const result = await query<DbPromptVersion>(`${SELECT_VERSION} WHERE pv.is_active`);
+    return result.rows.map(mapDbToPromptVersion);
+  }
+
+  async findById(id: string): Promise<PromptVersion | null> {
+    const result = await query<DbPromptVersion>(`${SELECT_VERSION} WHERE pv.id = $1`, [id]);
+    return result.rows[0] ? mapDbToPromptVersion(result.rows[0]) : null;
+  }
+
+  /**
+   * Every version of a prompt, newest first
+   */
+  async findVersions(key: PromptKey): Promise<PromptVersion[]> {
+    const result = await query<DbPromptVersion>(
+      `${SELECT_VERSION} WHERE pv.prompt_key = $1 ORDER BY pv.version DESC`,
+      [key]
+    );
+
+    return result.rows.map(mapDbToPromptVersion);
+  }
+
+  async countVersions(): Promise<Map<PromptKey, number>> {
+    const result = await query<{ prompt_key: PromptKey; count: string }>(
+      'SELECT prompt_key, COUNT(*) as count FROM prompt_versions GROUP BY prompt_key'
+    );
+
+    return new Map(result.rows.map((row) => [row.prompt_key, parseInt(row.count)]));
+  }
+
+  /**
+   * Insert the shipped template as version 1, unless the prompt already has versions
+   */
+  async seed(key: PromptKey, systemPrompt: string, userTemplate: string): Promise<void> {
+    await query(
+      `INSERT INTO prompt_versions (prompt_key, version, system_prompt, user_template, note, is_active)
+       SELECT $1, 1, $2, $3, 'Version d''origine', true
+       WHERE NOT EXISTS (SELECT 1 FROM prompt_versions WHERE prompt_key = $1)
+       ON CONFLICT DO NOTHING`,
+      [key, systemPrompt, userTemplate]
+    );
+  }
+
+  /**
+   * Save an edit as the next version and make it the active one
+   */
+  async createVersion(
+    key: PromptKey,
+    input: CreatePromptVersionInput,
+    createdBy: string
+  ): Promise<PromptVersion> {
+    const id = await transaction(async (client) => {
+      // Serializes concurrent edits of the same prompt
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`prompt:${key}`]);
+
+      await client.query(
+        'UPDATE prompt_versions SET is_active = false WHERE prompt_key = $1 AND is_active',
+        [key]
+      );
+
+      const result = await client.query<{ id: string }>(
+        `INSERT INTO prompt_versions (prompt_key, version, system_prompt, user_template, note, is_active, created_by)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, true, $5
+         FROM prompt_versions WHERE prompt_key = $1
+         RETURNING id`,
+        [key, input.systemPrompt, input.userTemplate, input.note || null, createdBy]
+      );
+
+      return result.rows[0].id;
+    });
+
+    return (await this.findById(id))!;
+  }
+
+  /**
+   * Make an earlier version the active one again
+   */
+  async activate(id: string): Promise<PromptVersion | null> {
+    const version = await this.findById(id);
+    if (!version) return null;
+
+    await transaction(async (client) => {
+      await client.query(
+        'UPDATE prompt_versions SET is_active = false WHERE prompt_key = $1 AND is_active',
+        [version.key]
+      );
+      await client.query('UPDATE prompt_versions SET is_active = true WHERE id = $1', [id]);
+    });
+
+    return { ...version, isActive: true };
+  }
+}
@@ -0,0 +1,166 @@
+import { query } from '../config/database.js';
+import type {
+  RelevanceExample,
+  RelevanceFeedback,
+  SubmitRelevanceFeedbackInput,
+  TopicAgreementStats,
+} from '@media-scanner/shared';
+
+interface DbRelevanceFeedback {
+  id: string;
+  article_id: string;
+  topic_id: string;
+  model_score: string;
+  is_correct: boolean;
+  corrected_score: string | null;
+  comment: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function mapDbToFeedback(row: DbRelevanceFeedback): RelevanceFeedback {
+  return {
+    id: row.id,
+    articleId: row.article_id,
+    topicId: row.topic_id,
+    modelScore: parseFloat(row.model_score),
+    isCorrect: row.is_correct,
+    correctedScore: row.corrected_score !== null ? parseFloat(row.corrected_score) : null,
+    comment: row.comment,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class RelevanceFeedbackRepository {
+  async upsert(
+    articleId: string,
+    topicId: string,
+    modelScore: number,
+    input: SubmitRelevanceFeedbackInput,
+    userId: string
+  ): Promise<RelevanceFeedback> {
+    const result = await query<DbRelevanceFeedback>(
+      `INSERT INTO relevance_feedback (article_id, topic_id, model_score, is_correct, corrected_score, comment, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT ON CONSTRAINT unique_relevance_feedback DO UPDATE SET
+         model_score = EXCLUDED.model_score,
+         is_correct = EXCLUDED.is_correct,
+         corrected_score = EXCLUDED.corrected_score,
+         comment = EXCLUDED.comment,
+         created_by = EXCLUDED.created_by
+       RETURNING *`,
+      [
+        articleId,
+        topicId,
+        modelScore,
+        input.isCorrect,
+        input.isCorrect ? null : input.correctedScore,
+        input.comment || null,
+        userId,
+      ]
+    );
+
+    return mapDbToFeedback(result.rows[0]);
+  }
+
+  async delete(articleId: string, topicId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM relevance_feedback WHERE article_id = $1 AND topic_id = $2',
+      [articleId, topicId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findByArticle(articleId: string): Promise<RelevanceFeedback[]> {
+    const result = await query<DbRelevanceFeedback>(
+      'SELECT * FROM relevance_feedback WHERE article_id = $1',
+      [articleId]
+    );
+
+    return result.rows.map(mapDbToFeedback);
+  }
+
+  /**
+   * Corrections of each topic the model was furthest off on, latest first among equals.
+   * The article being scored is left out, it must not be its own example.
+   */
+  async findExamples(topicIds: string[], excludeArticleId: string, perTopic: number): Promise<RelevanceExample[]> {
+    if (topicIds.length === 0) return [];
+
+    const result = await query<{
+      topic_id: string;
+      title: string;
+      model_score: string;
+      corrected_score: string;
+      comment: string | null;
+    }>(
+      `SELECT topic_id, title, model_score, corrected_score, comment FROM (
+        SELECT f.topic_id, a.title, f.model_score, f.corrected_score, f.comment,
+          ROW_NUMBER() OVER (
+            PARTITION BY f.topic_id
+            ORDER BY ABS(f.corrected_score - f.model_score) DESC, f.updated_at DESC
+          ) AS rank
+        FROM relevance_feedback f
+        JOIN articles a ON a.id = f.article_id
+        WHERE f.topic_id = ANY($1) AND NOT f.is_correct AND f.article_id <> $2
+      ) ranked
+      WHERE rank <= $3
+      ORDER BY topic_id, rank`,
+      [topicIds, excludeArticleId, perTopic]
+    );
+
+    return result.rows.map((row) => ({
+      topicId: row.topic_id,
+      title: row.title,
+      modelScore: parseFloat(row.model_score),
+      correctedScore: parseFloat(row.corrected_score),
+      comment: row.comment,
+    }));
+  }
+
+  /**
+   * How often reviewers agreed with the model, per topic
+   */
+  async getAgreementStats(): Promise<TopicAgreementStats[]> {
+    const result = await query<{
+      topic_id: string;
+      topic_name: string;
+      feedback_count: string;
+      agreed_count: string;
+      mean_absolute_error: string | null;
+      over_scored: string;
+      under_scored: string;
+    }>(
+      `SELECT t.id as topic_id, t.name as topic_name,
+        COUNT(*) as feedback_count,
+        COUNT(*) FILTER (WHERE f.is_correct) as agreed_count,
+        AVG(CASE WHEN f.is_correct THEN 0 ELSE ABS(f.corrected_score - f.model_score) END) as mean_absolute_error,
+        COUNT(*) FILTER (WHERE NOT f.is_correct AND f.corrected_score < f.model_score) as over_scored,
+        COUNT(*) FILTER (WHERE NOT f.is_correct AND f.corrected_score > f.model_score) as under_scored
+      FROM relevance_feedback f
+      JOIN topics t ON t.id = f.topic_id
+      GROUP BY t.id, t.name
+      ORDER BY t.name`
+    );
+
+    return result.rows.map((row) => {
+      const feedbackCount = parseInt(row.feedback_count);
+      const agreedCount = parseInt(row.agreed_count);
+
+      return {
+        topicId: row.topic_id,
+        topicName: row.topic_name,
+        feedbackCount,
+        agreedCount,
+        agreementRate: feedbackCount > 0 ? agreedCount / feedbackCount : null,
+        meanAbsoluteError: row.mean_absolute_error !== null ? parseFloat(row.mean_absolute_error) : null,
+        overScored: parseInt(row.over_scored),
+        underScored: parseInt(row.under_scored),
+      };
+    });
+  }
+}
@@ -48,7 +48,7 @@ export class ScanRepository {
     );
 
     const lastCompletedResult = await query<ScanLog>(
-      `SELECT * FROM scan_logs WHERE status IN ('completed', 'partial') ORDER BY completed_at DESC LIMIT 1`
+      `SELECT * FROM scan_logs WHERE status IN ('completed', 'partial', 'unchanged') ORDER BY completed_at DESC LIMIT 1`
     );
 
     return {
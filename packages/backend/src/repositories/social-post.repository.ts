@@ -0,0 +1,117 @@
+import { query } from '../config/database.js';
+import type { SocialPost, SocialPlatform, ArticleStatus, CreateSocialPostInput } from '@media-scanner/shared';
+
+interface DbSocialPost {
+  id: string;
+  source_id: string | null;
+  platform: SocialPlatform;
+  external_id: string;
+  author_handle: string | null;
+  author_name: string | null;
+  content: string;
+  url: string | null;
+  posted_at: Date | null;
+  likes_count: number;
+  reposts_count: number;
+  replies_count: number;
+  status: ArticleStatus;
+  relevance_score: string | null;
+  relevance_reasoning: string | null;
+  linked_article_id: string | null;
+  fetched_at: Date;
+  analyzed_at: Date | null;
+  created_at: Date;
+}
+
+function mapDbToSocialPost(row: DbSocialPost): SocialPost {
+  return {
+    id: row.id,
+    sourceId: row.source_id,
+    platform: row.platform,
+    externalId: row.external_id,
+    authorHandle: row.author_handle,
+    authorName: row.author_name,
+    content: row.content,
+    url: row.url,
+    postedAt: row.posted_at,
+    likesCount: row.likes_count,
+    repostsCount: row.reposts_count,
+    repliesCount: row.replies_count,
+    status: row.status,
+    relevanceScore: row.relevance_score !== null ? parseFloat(row.relevance_score) : null,
+    relevanceReasoning: row.relevance_reasoning,
+    linkedArticleId: row.linked_article_id,
+    fetchedAt: row.fetched_at,
+    analyzedAt: row.analyzed_at,
+    createdAt: row.created_at,
+  };
+}
+
+export class SocialPostRepository {
+  async findById(id: string): Promise<SocialPost | null> {
+    const result = await query<DbSocialPost>('SELECT * FROM social_posts WHERE id = $1', [id]);
+    return result.rows[0] ? mapDbToSocialPost(result.rows[0]) : null;
+  }
+
+  /**
+   * Insert a social post, deduplicating on (platform, external_id).
+   * Engagement counts of an already known post are refreshed;
+   * `inserted` tells whether the post is new.
+   */
+  async upsert(input: CreateSocialPostInput): Promise<{ post: SocialPost; inserted: boolean }> {
+    const result = await query<DbSocialPost & { inserted: boolean }>(
+      `INSERT INTO social_posts (
+        source_id, platform, external_id, author_handle, author_name, content, url,
+        posted_at, likes_count, reposts_count, replies_count, linked_article_id, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 'pending')
+      ON CONFLICT (platform, external_id) DO UPDATE SET
+        likes_count = EXCLUDED.likes_count,
+        reposts_count = EXCLUDED.reposts_count,
+        replies_count = EXCLUDED.replies_count,
+        linked_article_id = COALESCE(social_posts.linked_article_id, EXCLUDED.linked_article_id)
+      RETURNING *, (xmax = 0) AS inserted`,
+      [
+        input.sourceId,
+        input.platform,
+        input.externalId,
+        input.authorHandle || null,
+        input.authorName || null,
+        input.content,
+        input.url || null,
+        input.postedAt || null,
+        input.likesCount,
+        input.repostsCount,
+        input.repliesCount,
+        input.linkedArticleId || null,
+      ]
+    );
+
+    const row = result.rows[0];
+    return { post: mapDbToSocialPost(row), inserted: row.inserted };
+  }
+
+  async updateStatus(id: string, status: ArticleStatus): Promise<void> {
+    await query('UPDATE social_posts SET status = $1 WHERE id = $2', [status, id]);
+  }
+
+  async updateAnalysis(id: string, analysis: {
+    relevanceScore: number;
+    relevanceReasoning: string;
+    isRelevant: boolean; // Whether the score meets the threshold of a topic
+  }): Promise<SocialPost | null> {
+    const status = analysis.isRelevant ? 'relevant' : 'irrelevant';
+
+    const result = await query<DbSocialPost>(
+      `UPDATE social_posts SET
+        status = $1,
+        relevance_score = $2,
+        relevance_reasoning = $3,
+        analyzed_at = NOW()
+      WHERE id = $4
+      RETURNING *`,
+      [status, analysis.relevanceScore, analysis.relevanceReasoning, id]
+    );
+
+    return result.rows[0] ? mapDbToSocialPost(result.rows[0]) : null;
+  }
+}
@@ -0,0 +1,150 @@
+import { query } from '../config/database.js';
+import type { SourceFeed, FeedValidators } from '@media-scanner/shared';
+
+interface DbSourceFeed {
+  id: string;
+  source_id: string;
+  url: string;
+  label: string | null;
+  is_primary: boolean;
+  is_active: boolean;
+  last_fetched_at: Date | null;
+  last_error: string | null;
+  error_count: number;
+  feed_etag: string | null;
+  feed_last_modified: string | null;
+  feed_content_hash: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function mapDbToSourceFeed(row: DbSourceFeed): SourceFeed {
+  return {
+    id: row.id,
+    sourceId: row.source_id,
+    url: row.url,
+    label: row.label,
+    isPrimary: row.is_primary,
+    isActive: row.is_active,
+    lastFetchedAt: row.last_fetched_at,
+    lastError: row.last_error,
+    errorCount: row.error_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export interface SourceFeedWithValidators extends SourceFeed {
+  validators: FeedValidators;
+}
+
+export class SourceFeedRepository {
+  async findBySource(sourceId: string): Promise<SourceFeed[]> {
+    const result = await query<DbSourceFeed>(
+      'SELECT * FROM source_feeds WHERE source_id = $1 ORDER BY is_primary DESC, created_at',
+      [sourceId]
+    );
+
+    return result.rows.map(mapDbToSourceFeed);
+  }
+
+  /**
+   * Active feeds of a source with their cache validators, primary feed first
+   */
+  async findActiveBySource(sourceId: string): Promise<SourceFeedWithValidators[]> {
+    const result = await query<DbSourceFeed>(
+      `SELECT * FROM source_feeds
+       WHERE source_id = $1 AND is_active = true
+       ORDER BY is_primary DESC, created_at`,
+      [sourceId]
+    );
+
+    return result.rows.map((row) => ({
+      ...mapDbToSourceFeed(row),
+      validators: {
+        etag: row.feed_etag,
+        lastModified: row.feed_last_modified,
+        contentHash: row.feed_content_hash,
+      },
+    }));
+  }
+
+  /**
+   * Every feed URL we poll, with the name of the source owning it
+   */
+  async findAllUrls(): Promise<Array<{ url: string; sourceName: string }>> {
+    const result = await query<{ url: string; source_name: string }>(
+      `SELECT sf.url, s.name AS source_name
+       FROM source_feeds sf
+       JOIN sources s ON s.id = sf.source_id`
+    );
+
+    return result.rows.map((row) => ({ url: row.url, sourceName: row.source_name }));
+  }
+
+  /**
+   * Active section feeds of every source, the primary feeds follow `sources.url`
+   */
+  async findActiveSections(): Promise<SourceFeed[]> {
+    const result = await query<DbSourceFeed>(
+      `SELECT * FROM source_feeds
+       WHERE is_primary = false AND is_active = true
+       ORDER BY source_id, created_at`
+    );
+
+    return result.rows.map(mapDbToSourceFeed);
+  }
+
+  async findById(id: string): Promise<SourceFeed | null> {
+    const result = await query<DbSourceFeed>('SELECT * FROM source_feeds WHERE id = $1', [id]);
+    return result.rows[0] ? mapDbToSourceFeed(result.rows[0]) : null;
+  }
+
+  async create(sourceId: string, data: { url: string; label?: string }): Promise<SourceFeed> {
+    const result = await query<DbSourceFeed>(
+      `INSERT INTO source_feeds (source_id, url, label)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [sourceId, data.url, data.label || null]
+    );
+
+    return mapDbToSourceFeed(result.rows[0]);
+  }
+
+  /**
+   * Delete a secondary feed. The primary feed follows `sources.url` and cannot be removed.
+   */
+  async delete(sourceId: string, id: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM source_feeds WHERE id = $1 AND source_id = $2 AND is_primary = false',
+      [id, sourceId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async updateValidators(id: string, validators: FeedValidators): Promise<void> {
+    await query(
+      `UPDATE source_feeds SET
+        feed_etag = $1,
+        feed_last_modified = $2,
+        feed_content_hash = $3
+      WHERE id = $4`,
+      [validators.etag, validators.lastModified, validators.contentHash, id]
+    );
+  }
+
+  async updateLastFetched(id: string): Promise<void> {
+    await query(
+      'UPDATE source_feeds SET last_fetched_at = NOW(), error_count = 0, last_error = NULL WHERE id = $1',
+      [id]
+    );
+  }
+
+  async updateError(id: string, error: string): Promise<void> {
+    await query(
+      'UPDATE source_feeds SET last_error = $1, error_count = error_count + 1 WHERE id = $2',
+      [error, id]
+    );
+  }
+}
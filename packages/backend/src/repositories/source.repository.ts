@@ -1,5 +1,13 @@
 import { query } from '../config/database.js';
-import type { Source, SourceFilters, ScanLog } from '@media-scanner/shared';
+import type {
+  Source,
+  SourceFilters,
+  SourceType,
+  SourceCategory,
+  SourceHealth,
+  ScanLog,
+  UpdateSourceScheduleInput,
+} from '@media-scanner/shared';
 
 interface SourceWithStats extends Source {
   articlesCount: number;
@@ -7,6 +15,64 @@ interface SourceWithStats extends Source {
   lastScanStatus: string | null;
 }
 
+interface DbSource {
+  id: string;
+  name: string;
+  slug: string;
+  type: SourceType;
+  category: SourceCategory;
+  url: string;
+  region: string | null;
+  is_active: boolean;
+  fetch_interval_minutes: number;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  last_fetched_at: Date | null;
+  last_enqueued_at: Date | null;
+  last_error: string | null;
+  error_count: number;
+  health_status: SourceHealth;
+  next_fetch_at: Date | null;
+  suspended_at: Date | null;
+  suspended_reason: string | null;
+  last_probe_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface DbSourceWithStats extends DbSource {
+  articles_count: string;
+  relevant_count: string;
+  last_scan_status: string | null;
+}
+
+function mapDbToSource(row: DbSource): Source {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    type: row.type,
+    category: row.category,
+    url: row.url,
+    region: row.region,
+    isActive: row.is_active,
+    fetchIntervalMinutes: row.fetch_interval_minutes,
+    quietHoursStart: row.quiet_hours_start,
+    quietHoursEnd: row.quiet_hours_end,
+    lastFetchedAt: row.last_fetched_at,
+    lastEnqueuedAt: row.last_enqueued_at,
+    lastError: row.last_error,
+    errorCount: row.error_count,
+    healthStatus: row.health_status,
+    nextFetchAt: row.next_fetch_at,
+    suspendedAt: row.suspended_at,
+    suspendedReason: row.suspended_reason,
+    lastProbeAt: row.last_probe_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
 export class SourceRepository {
   async findAll(filters: SourceFilters): Promise<Source[]> {
     const conditions: string[] = [];
@@ -28,28 +94,33 @@ export class SourceRepository {
       values.push(filters.active);
     }
 
+    if (filters.health) {
+      conditions.push(`health_status = $${paramIndex++}`);
+      values.push(filters.health);
+    }
+
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-    const result = await query<Source>(
+    const result = await query<DbSource>(
       `SELECT * FROM sources ${whereClause} ORDER BY category, name`,
       values
     );
 
-    return result.rows;
+    return result.rows.map(mapDbToSource);
   }
 
   async findById(id: string): Promise<Source | null> {
-    const result = await query<Source>('SELECT * FROM sources WHERE id = $1', [id]);
-    return result.rows[0] || null;
+    const result = await query<DbSource>('SELECT * FROM sources WHERE id = $1', [id]);
+    return result.rows[0] ? mapDbToSource(result.rows[0]) : null;
   }
 
   async findBySlug(slug: string): Promise<Source | null> {
-    const result = await query<Source>('SELECT * FROM sources WHERE slug = $1', [slug]);
-    return result.rows[0] || null;
+    const result = await query<DbSource>('SELECT * FROM sources WHERE slug = $1', [slug]);
+    return result.rows[0] ? mapDbToSource(result.rows[0]) : null;
   }
 
   async findByIdWithStats(id: string): Promise<SourceWithStats | null> {
-    const result = await query<SourceWithStats>(
+    const result = await query<DbSourceWithStats>(
       `SELECT
         s.*,
         COUNT(a.id) FILTER (WHERE a.id IS NOT NULL) as articles_count,
@@ -62,14 +133,29 @@ export class SourceRepository {
       [id]
     );
 
-    return result.rows[0] || null;
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      ...mapDbToSource(row),
+      articlesCount: parseInt(row.articles_count, 10),
+      relevantCount: parseInt(row.relevant_count, 10),
+      lastScanStatus: row.last_scan_status,
+    };
   }
 
   async create(data: Partial<Source>): Promise<Source> {
-    const result = await query<Source>(
-      `INSERT INTO sources (name, slug, type, category, url, region, fetch_interval_minutes)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING *`,
+    // RSS sources get their URL registered as primary feed
+    const result = await query<DbSource>(
+      `WITH created AS (
+         INSERT INTO sources (name, slug, type, category, url, region, fetch_interval_minutes)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *
+       ), primary_feed AS (
+         INSERT INTO source_feeds (source_id, url, is_primary)
+         SELECT id, url, true FROM created WHERE type = 'rss'
+       )
+       SELECT * FROM created`,
       [
         data.name,
         data.slug,
@@ -81,7 +167,7 @@ export class SourceRepository {
       ]
     );
 
-    return result.rows[0];
+    return mapDbToSource(result.rows[0]);
   }
 
   async update(id: string, data: Partial<Source>): Promise<Source | null> {
@@ -102,40 +188,159 @@ export class SourceRepository {
     if (fields.length === 0) return this.findById(id);
 
     values.push(id);
-    const result = await query<Source>(
+    const result = await query<DbSource>(
       `UPDATE sources SET ${fields.join(', ')}, updated_at = NOW() WHERE id = $${paramIndex} RETURNING *`,
       values
     );
 
-    return result.rows[0] || null;
+    if (result.rows[0] && data.url !== undefined) {
+      await this.syncPrimaryFeed(id, data.url);
+    }
+
+    return result.rows[0] ? mapDbToSource(result.rows[0]) : null;
+  }
+
+  /**
+   * Point the primary feed at a new URL, dropping the validators of the old one
+   */
+  private async syncPrimaryFeed(id: string, url: string): Promise<void> {
+    await query(
+      'DELETE FROM source_feeds WHERE source_id = $1 AND url = $2 AND is_primary = false',
+      [id, url]
+    );
+    await query(
+      `UPDATE source_feeds SET
+        url = $1,
+        feed_etag = NULL,
+        feed_last_modified = NULL,
+        feed_content_hash = NULL
+      WHERE source_id = $2 AND is_primary = true AND url <> $1`,
+      [url, id]
+    );
+  }
+
+  async updateSchedule(id: string, data: UpdateSourceScheduleInput): Promise<Source | null> {
+    const result = await query<DbSource>(
+      `UPDATE sources SET
+        fetch_interval_minutes = COALESCE($2, fetch_interval_minutes),
+        quiet_hours_start = CASE WHEN $3 THEN $4::smallint ELSE quiet_hours_start END,
+        quiet_hours_end = CASE WHEN $3 THEN $5::smallint ELSE quiet_hours_end END,
+        updated_at = NOW()
+      WHERE id = $1
+      RETURNING *`,
+      [
+        id,
+        data.fetchIntervalMinutes ?? null,
+        // Quiet hours are set together, an omitted pair is left untouched
+        data.quietHoursStart !== undefined,
+        data.quietHoursStart ?? null,
+        data.quietHoursEnd ?? null,
+      ]
+    );
+
+    return result.rows[0] ? mapDbToSource(result.rows[0]) : null;
   }
 
   async deactivate(id: string): Promise<void> {
     await query('UPDATE sources SET is_active = false, updated_at = NOW() WHERE id = $1', [id]);
   }
 
+  /**
+   * Record a successful fetch, closing the circuit of a failing source
+   */
   async updateLastFetched(id: string): Promise<void> {
     await query(
-      'UPDATE sources SET last_fetched_at = NOW(), error_count = 0, last_error = NULL WHERE id = $1',
+      `UPDATE sources SET
+        last_fetched_at = NOW(),
+        error_count = 0,
+        last_error = NULL,
+        health_status = 'healthy',
+        next_fetch_at = NULL,
+        suspended_at = NULL,
+        suspended_reason = NULL
+      WHERE id = $1`,
       [id]
     );
   }
 
-  async updateError(id: string, error: string): Promise<void> {
-    await query(
-      'UPDATE sources SET last_error = $1, error_count = error_count + 1, updated_at = NOW() WHERE id = $2',
-      [error, id]
+  /**
+   * Record a failed fetch: back off the next fetch exponentially from the
+   * source interval and suspend the source after too many consecutive failures
+   */
+  async updateError(
+    id: string,
+    error: string,
+    policy: { suspendAfter: number; maxBackoffMinutes: number }
+  ): Promise<{ errorCount: number; healthStatus: SourceHealth; suspendedNow: boolean } | null> {
+    const result = await query<{ error_count: number; health_status: SourceHealth; suspended_now: boolean }>(
+      `UPDATE sources SET
+        last_error = $1,
+        error_count = error_count + 1,
+        health_status = CASE WHEN error_count + 1 >= $3 THEN 'suspended' ELSE 'degraded' END::source_health,
+        next_fetch_at = NOW() + make_interval(mins => LEAST(fetch_interval_minutes * POWER(2, error_count), $4)::int),
+        suspended_at = CASE WHEN error_count + 1 >= $3 THEN COALESCE(suspended_at, NOW()) END,
+        suspended_reason = CASE
+          WHEN error_count + 1 >= $3 THEN COALESCE(suspended_reason, $5)
+        END,
+        updated_at = NOW()
+      WHERE id = $2
+      RETURNING error_count, health_status, COALESCE(suspended_at = updated_at, false) AS suspended_now`,
+      [
+        error,
+        id,
+        policy.suspendAfter,
+        policy.maxBackoffMinutes,
+        `${policy.suspendAfter} échecs consécutifs : ${error}`,
+      ]
     );
+
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      errorCount: row.error_count,
+      healthStatus: row.health_status,
+      suspendedNow: row.suspended_now,
+    };
   }
 
-  async testConnectivity(id: string): Promise<{ success: boolean; message: string }> {
-    const source = await this.findById(id);
-    if (!source) {
-      return { success: false, message: 'Source non trouvée' };
-    }
+  /**
+   * Suspended sources not probed for the given number of minutes
+   */
+  async findDueForProbe(probeIntervalMinutes: number): Promise<Source[]> {
+    const result = await query<DbSource>(
+      `SELECT * FROM sources
+       WHERE is_active = true
+         AND health_status = 'suspended'
+         AND (last_probe_at IS NULL OR last_probe_at < NOW() - make_interval(mins => $1::int))
+       ORDER BY last_probe_at NULLS FIRST`,
+      [probeIntervalMinutes]
+    );
+
+    return result.rows.map(mapDbToSource);
+  }
 
-    // TODO: Actually test RSS fetch
-    return { success: true, message: 'Connexion réussie' };
+  async markProbed(id: string): Promise<void> {
+    await query('UPDATE sources SET last_probe_at = NOW() WHERE id = $1', [id]);
+  }
+
+  /**
+   * Lift a suspension. With a remaining error count the source is only
+   * half-open: one more failure suspends it again.
+   */
+  async restore(id: string, errorCount = 0): Promise<void> {
+    await query(
+      `UPDATE sources SET
+        health_status = CASE WHEN $2::int > 0 THEN 'degraded' ELSE 'healthy' END::source_health,
+        error_count = $2::int,
+        next_fetch_at = NULL,
+        suspended_at = NULL,
+        suspended_reason = NULL,
+        last_probe_at = NOW(),
+        updated_at = NOW()
+      WHERE id = $1`,
+      [id, errorCount]
+    );
   }
 
   async getScanLogs(sourceId: string, limit: number): Promise<ScanLog[]> {
@@ -147,11 +352,61 @@ export class SourceRepository {
     return result.rows;
   }
 
+  /**
+   * RSS sources whose interval has elapsed since their last fetch and last
+   * enqueue, outside their quiet hours, most overdue first
+   */
+  async findDueRssSources(limit: number): Promise<Source[]> {
+    const result = await query<DbSource>(
+      `WITH now_paris AS (
+         SELECT EXTRACT(HOUR FROM NOW() AT TIME ZONE 'Europe/Paris')::int AS hour
+       )
+       SELECT s.* FROM sources s, now_paris
+       WHERE s.type = 'rss'
+         AND s.is_active = true
+         AND s.health_status <> 'suspended'
+         AND (s.next_fetch_at IS NULL OR s.next_fetch_at <= NOW())
+         AND (
+           GREATEST(s.last_fetched_at, s.last_enqueued_at) IS NULL
+           OR GREATEST(s.last_fetched_at, s.last_enqueued_at)
+              < NOW() - make_interval(mins => s.fetch_interval_minutes)
+         )
+         AND NOT COALESCE(
+           CASE WHEN s.quiet_hours_start <= s.quiet_hours_end
+             THEN now_paris.hour >= s.quiet_hours_start AND now_paris.hour < s.quiet_hours_end
+             ELSE now_paris.hour >= s.quiet_hours_start OR now_paris.hour < s.quiet_hours_end
+           END,
+           false
+         )
+       ORDER BY GREATEST(s.last_fetched_at, s.last_enqueued_at) NULLS FIRST, s.category
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map(mapDbToSource);
+  }
+
+  /**
+   * Remember when sources were queued, pushing them out of the due list
+   */
+  async markEnqueued(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await query('UPDATE sources SET last_enqueued_at = NOW() WHERE id = ANY($1)', [ids]);
+  }
+
+  /**
+   * Active RSS sources, leaving out suspended ones and failing ones still backing off
+   */
   async findActiveRssSources(): Promise<Source[]> {
-    const result = await query<Source>(
-      `SELECT * FROM sources WHERE type = 'rss' AND is_active = true ORDER BY fetch_interval_minutes`
+    const result = await query<DbSource>(
+      `SELECT * FROM sources
+       WHERE type = 'rss'
+         AND is_active = true
+         AND health_status <> 'suspended'
+         AND (next_fetch_at IS NULL OR next_fetch_at <= NOW())
+       ORDER BY fetch_interval_minutes`
     );
 
-    return result.rows;
+    return result.rows.map(mapDbToSource);
   }
 }
@@ -0,0 +1,422 @@
+import type pg from 'pg';
+import { query, transaction } from '../config/database.js';
+import type {
+  Story,
+  StoryOutlet,
+  StorySummary,
+  StoryWithTimeline,
+  StoryTimelineEntry,
+  StoryQueryParams,
+  ArticleStatus,
+  PaginatedResponse,
+} from '@media-scanner/shared';
+
+interface DbStory {
+  id: string;
+  canonical_article_id: string | null;
+  title: string;
+  article_count: number;
+  terms: string[];
+  entities: string[];
+  first_seen_at: Date;
+  last_seen_at: Date;
+  edited_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface DbStorySummary extends DbStory {
+  outlet_count: string;
+  relevant_count: string;
+}
+
+interface DbStoryOutlet {
+  article_id: string;
+  source_id: string | null;
+  source_name: string | null;
+  url: string;
+  published_at: Date | null;
+  is_canonical: boolean;
+}
+
+interface DbTimelineEntry {
+  article_id: string;
+  title: string;
+  url: string;
+  source_name: string | null;
+  published_at: Date | null;
+  status: ArticleStatus;
+  relevance_score: string | null;
+  syndicated_by: string[] | null;
+}
+
+export interface StorySignature {
+  terms: string[];
+  entities: string[];
+}
+
+// A recent story and the signature new articles are compared to
+export interface StoryCandidate extends StorySignature {
+  id: string;
+  articleCount: number;
+}
+
+// Text of a story article, to rebuild signatures after an edit
+export interface StoryArticleText {
+  id: string;
+  title: string;
+  lede: string | null;
+  publishedAt: Date | null;
+}
+
+function mapDbToStory(row: DbStory): Story {
+  return {
+    id: row.id,
+    canonicalArticleId: row.canonical_article_id,
+    title: row.title,
+    articleCount: row.article_count,
+    entities: row.entities || [],
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+    editedAt: row.edited_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class StoryRepository {
+  async findAll(params: StoryQueryParams): Promise<PaginatedResponse<StorySummary>> {
+    const { search, minArticles = 2, page = 1, limit = 20 } = params;
+
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let paramIndex = 1;
+
+    if (minArticles > 1) {
+      conditions.push(`s.article_count >= $${paramIndex++}`);
+      values.push(minArticles);
+    }
+
+    if (search) {
+      conditions.push(`s.title ILIKE $${paramIndex++}`);
+      values.push(`%${search}%`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const offset = (page - 1) * limit;
+
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM stories s ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const dataResult = await query<DbStorySummary>(
+      `SELECT
+        s.*,
+        (SELECT COUNT(DISTINCT a.source_id) FROM articles a WHERE a.story_id = s.id) AS outlet_count,
+        (SELECT COUNT(*) FROM articles a WHERE a.story_id = s.id AND a.status = 'relevant') AS relevant_count
+      FROM stories s
+      ${whereClause}
+      ORDER BY s.last_seen_at DESC
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}`,
+      [...values, limit, offset]
+    );
+
+    return {
+      data: dataResult.rows.map((row) => ({
+        ...mapDbToStory(row),
+        outletCount: parseInt(row.outlet_count),
+        relevantCount: parseInt(row.relevant_count),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findById(id: string): Promise<Story | null> {
+    const result = await query<DbStory>('SELECT * FROM stories WHERE id = $1', [id]);
+    return result.rows[0] ? mapDbToStory(result.rows[0]) : null;
+  }
+
+  /**
+   * Story with its articles in publication order, syndicated copies folded into the original
+   */
+  async findWithTimeline(id: string): Promise<StoryWithTimeline | null> {
+    const story = await this.findById(id);
+    if (!story) return null;
+
+    const result = await query<DbTimelineEntry>(
+      `SELECT
+        a.id AS article_id,
+        a.title,
+        a.url,
+        s.name AS source_name,
+        a.published_at,
+        a.status,
+        a.relevance_score,
+        (
+          SELECT array_agg(DISTINCT cs.name)
+          FROM articles c
+          JOIN sources cs ON c.source_id = cs.id
+          WHERE c.duplicate_of = a.id
+        ) AS syndicated_by
+      FROM articles a
+      LEFT JOIN sources s ON a.source_id = s.id
+      WHERE a.story_id = $1 AND a.duplicate_of IS NULL
+      ORDER BY COALESCE(a.published_at, a.created_at)`,
+      [id]
+    );
+
+    const timeline: StoryTimelineEntry[] = result.rows.map((row) => ({
+      articleId: row.article_id,
+      title: row.title,
+      url: row.url,
+      sourceName: row.source_name,
+      publishedAt: row.published_at,
+      status: row.status,
+      relevanceScore: row.relevance_score !== null ? parseFloat(row.relevance_score) : null,
+      syndicatedBy: row.syndicated_by || [],
+    }));
+
+    return { ...story, timeline };
+  }
+
+  /**
+   * Stories active within the window that share at least one term or entity
+   */
+  async findCandidates(signature: StorySignature, windowDays: number, limit = 50): Promise<StoryCandidate[]> {
+    const result = await query<DbStory>(
+      `SELECT * FROM stories
+       WHERE last_seen_at > NOW() - make_interval(days => $3::int)
+         AND (entities && $1::text[] OR terms && $2::text[])
+       ORDER BY last_seen_at DESC
+       LIMIT $4`,
+      [signature.entities, signature.terms, windowDays, limit]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      articleCount: row.article_count,
+      terms: row.terms || [],
+      entities: row.entities || [],
+    }));
+  }
+
+  /**
+   * Get the story led by an article, opening it with the given signature if needed
+   */
+  async ensureForArticle(articleId: string, signature?: StorySignature): Promise<Story> {
+    // The upsert keeps concurrent scans from opening two stories for one article
+    const result = await query<DbStory>(
+      `INSERT INTO stories (canonical_article_id, title, terms, entities, first_seen_at, last_seen_at)
+       SELECT id, title, $2::text[], $3::text[], COALESCE(published_at, created_at), COALESCE(published_at, created_at)
+       FROM articles WHERE id = $1
+       ON CONFLICT (canonical_article_id) DO UPDATE SET updated_at = NOW()
+       RETURNING *`,
+      [articleId, signature?.terms || [], signature?.entities || []]
+    );
+
+    const story = mapDbToStory(result.rows[0]);
+
+    await query(
+      'UPDATE articles SET story_id = $1 WHERE id = $2 AND story_id IS NULL',
+      [story.id, articleId]
+    );
+
+    return story;
+  }
+
+  /**
+   * Count a new article in the story
+   */
+  async addArticle(storyId: string, publishedAt?: Date): Promise<void> {
+    await query(
+      `UPDATE stories SET
+        article_count = article_count + 1,
+        last_seen_at = GREATEST(last_seen_at, COALESCE($2, NOW()))
+      WHERE id = $1`,
+      [storyId, publishedAt || null]
+    );
+  }
+
+  /**
+   * File an article under a story and widen the story signature
+   */
+  async attachArticle(
+    storyId: string,
+    articleId: string,
+    signature: StorySignature,
+    publishedAt?: Date
+  ): Promise<void> {
+    await query('UPDATE articles SET story_id = $1 WHERE id = $2', [storyId, articleId]);
+
+    await query(
+      `UPDATE stories SET
+        article_count = article_count + 1,
+        last_seen_at = GREATEST(last_seen_at, COALESCE($4, NOW())),
+        terms = $2,
+        entities = $3
+      WHERE id = $1`,
+      [storyId, signature.terms, signature.entities, publishedAt || null]
+    );
+  }
+
+  /**
+   * Every outlet that carried the story, canonical article first
+   */
+  async findOutlets(storyId: string): Promise<StoryOutlet[]> {
+    const result = await query<DbStoryOutlet>(
+      `SELECT
+        a.id AS article_id,
+        a.source_id,
+        s.name AS source_name,
+        a.url,
+        a.published_at,
+        (a.duplicate_of IS NULL) AS is_canonical
+      FROM articles a
+      LEFT JOIN sources s ON a.source_id = s.id
+      WHERE a.story_id = $1
+      ORDER BY (a.duplicate_of IS NULL) DESC, a.published_at NULLS LAST`,
+      [storyId]
+    );
+
+    return result.rows.map((row) => ({
+      articleId: row.article_id,
+      sourceId: row.source_id,
+      sourceName: row.source_name,
+      url: row.url,
+      publishedAt: row.published_at,
+      isCanonical: row.is_canonical,
+    }));
+  }
+
+  /**
+   * Original articles of a story (copies excluded), oldest first
+   */
+  async findArticleTexts(storyId: string): Promise<StoryArticleText[]> {
+    const result = await query<{ id: string; title: string; lede: string | null; published_at: Date | null }>(
+      `SELECT id, title, lede, published_at FROM articles
+       WHERE story_id = $1 AND duplicate_of IS NULL
+       ORDER BY COALESCE(published_at, created_at)`,
+      [storyId]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      lede: row.lede,
+      publishedAt: row.published_at,
+    }));
+  }
+
+  async rename(id: string, title: string): Promise<Story | null> {
+    const result = await query<DbStory>(
+      'UPDATE stories SET title = $1, edited_at = NOW() WHERE id = $2 RETURNING *',
+      [title, id]
+    );
+
+    return result.rows[0] ? mapDbToStory(result.rows[0]) : null;
+  }
+
+  /**
+   * Move the articles and posts of other stories into the target, then drop them
+   */
+  async merge(targetId: string, storyIds: string[], signature: StorySignature): Promise<void> {
+    await transaction(async (client) => {
+      await client.query(
+        'UPDATE articles SET story_id = $1 WHERE story_id = ANY($2::uuid[])',
+        [targetId, storyIds]
+      );
+      await client.query(
+        'UPDATE generated_posts SET story_id = $1 WHERE story_id = ANY($2::uuid[])',
+        [targetId, storyIds]
+      );
+      await client.query('DELETE FROM stories WHERE id = ANY($1::uuid[])', [storyIds]);
+
+      await this.refresh(client, targetId, signature);
+    });
+  }
+
+  /**
+   * Move articles (and their syndicated copies) out of a story into a new one
+   */
+  async split(
+    storyId: string,
+    articleIds: string[],
+    split: { title: string; signature: StorySignature },
+    remaining: StorySignature
+  ): Promise<string> {
+    return transaction(async (client) => {
+      // The new story is led by the oldest article moved
+      const lead = await client.query<{ id: string }>(
+        `SELECT id FROM articles WHERE id = ANY($1::uuid[])
+         ORDER BY COALESCE(published_at, created_at) LIMIT 1`,
+        [articleIds]
+      );
+
+      // The lead may still lead the story it leaves
+      await client.query(
+        'UPDATE stories SET canonical_article_id = NULL WHERE canonical_article_id = $1',
+        [lead.rows[0].id]
+      );
+
+      const created = await client.query<{ id: string }>(
+        `INSERT INTO stories (canonical_article_id, title, edited_at)
+         VALUES ($1, $2, NOW())
+         RETURNING id`,
+        [lead.rows[0].id, split.title]
+      );
+      const newStoryId = created.rows[0].id;
+
+      await client.query(
+        `UPDATE articles SET story_id = $1
+         WHERE story_id = $2 AND (id = ANY($3::uuid[]) OR duplicate_of = ANY($3::uuid[]))`,
+        [newStoryId, storyId, articleIds]
+      );
+
+      await client.query(
+        `UPDATE stories SET canonical_article_id = (
+          SELECT id FROM articles
+          WHERE story_id = $1 AND duplicate_of IS NULL
+          ORDER BY COALESCE(published_at, created_at) LIMIT 1
+        )
+        WHERE id = $1 AND canonical_article_id IS NULL`,
+        [storyId]
+      );
+
+      await this.refresh(client, storyId, remaining);
+      await this.refresh(client, newStoryId, split.signature);
+
+      return newStoryId;
+    });
+  }
+
+  /**
+   * Recount a story from its articles after an editor changed it
+   */
+  private async refresh(client: pg.PoolClient, storyId: string, signature: StorySignature): Promise<void> {
+    await client.query(
+      `UPDATE stories SET
+        article_count = stats.article_count,
+        first_seen_at = COALESCE(stats.first_seen_at, first_seen_at),
+        last_seen_at = COALESCE(stats.last_seen_at, last_seen_at),
+        terms = $2,
+        entities = $3,
+        edited_at = NOW()
+      FROM (
+        SELECT
+          COUNT(*)::int AS article_count,
+          MIN(COALESCE(published_at, created_at)) AS first_seen_at,
+          MAX(COALESCE(published_at, created_at)) AS last_seen_at
+        FROM articles WHERE story_id = $1
+      ) stats
+      WHERE stories.id = $1`,
+      [storyId, signature.terms, signature.entities]
+    );
+  }
+}
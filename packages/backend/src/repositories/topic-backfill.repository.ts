@@ -0,0 +1,263 @@
+import { query } from '../config/database.js';
+import type { TopicBackfill, TopicBackfillStatus } from '@media-scanner/shared';
+
+interface DbTopicBackfill {
+  id: string;
+  topic_id: string;
+  days: number;
+  rescore: boolean;
+  status: TopicBackfillStatus;
+  estimated_analyses: number;
+  estimated_cost_usd: string | null;
+  scanned_count: number;
+  matched_count: number;
+  rescored_count: number;
+  queued_count: number;
+  analyzed_count: number;
+  failed_count: number;
+  error: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+// Articles of the last $2 days, syndicated copies left out as they are never analyzed
+const CANDIDATES_IN_PERIOD = `a.created_at >= NOW() - make_interval(days => $2)
+  AND a.duplicate_of IS NULL
+  AND a.status <> 'duplicate'`;
+
+const SCORED_FOR_TOPIC = 'EXISTS (SELECT 1 FROM article_topics at WHERE at.article_id = a.id AND at.topic_id = $1)';
+
+const CANDIDATE_COLUMNS = `
+  a.id,
+  a.title,
+  COALESCE(a.lede, '') AS lede,
+  CASE WHEN a.extraction_status IN ('extracted', 'paywalled') THEN a.full_text END AS "fullText",
+  a.url,
+  s.name AS "sourceName",
+  ${SCORED_FOR_TOPIC} AS scored`;
+
+function mapDbToBackfill(row: DbTopicBackfill): TopicBackfill {
+  return {
+    id: row.id,
+    topicId: row.topic_id,
+    days: row.days,
+    rescore: row.rescore,
+    status: row.status,
+    estimatedAnalyses: row.estimated_analyses,
+    estimatedCostUsd: row.estimated_cost_usd !== null ? parseFloat(row.estimated_cost_usd) : null,
+    scannedCount: row.scanned_count,
+    matchedCount: row.matched_count,
+    rescoredCount: row.rescored_count,
+    queuedCount: row.queued_count,
+    analyzedCount: row.analyzed_count,
+    failedCount: row.failed_count,
+    error: row.error,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * A recent article, with what keyword matching and analysis need
+ */
+export interface BackfillCandidate {
+  id: string;
+  title: string;
+  lede: string;
+  fullText: string | null;
+  url: string;
+  sourceName: string | null;
+  scored: boolean; // Already has a score for the topic
+}
+
+const SELECT_BACKFILL = `
+  SELECT b.*, u.name as created_by_name
+  FROM topic_backfills b
+  LEFT JOIN users u ON u.id = b.created_by`;
+
+const IN_PROGRESS = `('pending', 'scanning', 'analyzing')`;
+
+export class TopicBackfillRepository {
+  async create(input: {
+    topicId: string;
+    days: number;
+    rescore: boolean;
+    estimatedAnalyses: number;
+    estimatedCostUsd: number | null;
+    createdBy: string;
+  }): Promise<TopicBackfill> {
+    const result = await query<{ id: string }>(
+      `INSERT INTO topic_backfills (topic_id, days, rescore, estimated_analyses, estimated_cost_usd, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [input.topicId, input.days, input.rescore, input.estimatedAnalyses, input.estimatedCostUsd, input.createdBy]
+    );
+
+    return (await this.findById(result.rows[0].id))!;
+  }
+
+  async findById(id: string): Promise<TopicBackfill | null> {
+    const result = await query<DbTopicBackfill>(`${SELECT_BACKFILL} WHERE b.id = $1`, [id]);
+    return result.rows[0] ? mapDbToBackfill(result.rows[0]) : null;
+  }
+
+  async findByTopic(topicId: string, limit = 10): Promise<TopicBackfill[]> {
+    const result = await query<DbTopicBackfill>(
+      `${SELECT_BACKFILL} WHERE b.topic_id = $1 ORDER BY b.created_at DESC LIMIT $2`,
+      [topicId, limit]
+    );
+
+    return result.rows.map(mapDbToBackfill);
+  }
+
+  async findInProgress(topicId: string): Promise<TopicBackfill | null> {
+    const result = await query<DbTopicBackfill>(
+      `${SELECT_BACKFILL} WHERE b.topic_id = $1 AND b.status IN ${IN_PROGRESS}`,
+      [topicId]
+    );
+
+    return result.rows[0] ? mapDbToBackfill(result.rows[0]) : null;
+  }
+
+  async isCancelled(id: string): Promise<boolean> {
+    const result = await query<{ status: TopicBackfillStatus }>(
+      'SELECT status FROM topic_backfills WHERE id = $1',
+      [id]
+    );
+
+    // A backfill deleted with its topic is as good as cancelled
+    return !result.rows[0] || result.rows[0].status === 'cancelled';
+  }
+
+  async markScanning(id: string): Promise<void> {
+    await query(
+      `UPDATE topic_backfills SET status = 'scanning', started_at = NOW() WHERE id = $1 AND status = 'pending'`,
+      [id]
+    );
+  }
+
+  async updateScanProgress(id: string, progress: { scanned: number; matched: number; rescored: number }): Promise<void> {
+    await query(
+      `UPDATE topic_backfills SET scanned_count = $2, matched_count = $3, rescored_count = $4 WHERE id = $1`,
+      [id, progress.scanned, progress.matched, progress.rescored]
+    );
+  }
+
+  /**
+   * Switch to analysis once the number of jobs is known, completing right away when there are none
+   */
+  async markAnalyzing(id: string, queuedCount: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE topic_backfills SET
+        status = CASE WHEN $2 = 0 THEN 'completed' ELSE 'analyzing' END,
+        queued_count = $2,
+        completed_at = CASE WHEN $2 = 0 THEN NOW() END
+      WHERE id = $1 AND status = 'scanning'`,
+      [id, queuedCount]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Count a finished analysis, the last one completing the backfill
+   */
+  async recordAnalysis(id: string, failed: boolean): Promise<void> {
+    await query(
+      `UPDATE topic_backfills SET
+        analyzed_count = analyzed_count + CASE WHEN $2 THEN 0 ELSE 1 END,
+        failed_count = failed_count + CASE WHEN $2 THEN 1 ELSE 0 END,
+        status = CASE
+          WHEN status = 'analyzing' AND analyzed_count + failed_count + 1 >= queued_count THEN 'completed'
+          ELSE status
+        END,
+        completed_at = CASE
+          WHEN status = 'analyzing' AND analyzed_count + failed_count + 1 >= queued_count THEN NOW()
+          ELSE completed_at
+        END
+      WHERE id = $1`,
+      [id, failed]
+    );
+  }
+
+  async fail(id: string, error: string): Promise<void> {
+    await query(
+      `UPDATE topic_backfills SET status = 'failed', error = $2, completed_at = NOW()
+       WHERE id = $1 AND status IN ${IN_PROGRESS}`,
+      [id, error]
+    );
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE topic_backfills SET status = 'cancelled', completed_at = NOW()
+       WHERE id = $1 AND status IN ${IN_PROGRESS}`,
+      [id]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Articles of the last days after the cursor, syndicated copies left out as they are never analyzed
+   */
+  async findCandidates(topicId: string, days: number, afterId: string | null, limit: number): Promise<BackfillCandidate[]> {
+    const result = await query<BackfillCandidate>(
+      `SELECT ${CANDIDATE_COLUMNS}
+      FROM articles a
+      LEFT JOIN sources s ON s.id = a.source_id
+      WHERE ${CANDIDATES_IN_PERIOD}
+        AND ($3::uuid IS NULL OR a.id > $3)
+      ORDER BY a.id
+      LIMIT $4`,
+      [topicId, days, afterId, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Articles of the last days, and how many of them are already scored for the topic
+   */
+  async countCandidates(topicId: string, days: number): Promise<{ total: number; scored: number }> {
+    const result = await query<{ total: string; scored: string }>(
+      `SELECT
+        COUNT(*) AS total,
+        COUNT(*) FILTER (WHERE ${SCORED_FOR_TOPIC}) AS scored
+      FROM articles a
+      WHERE ${CANDIDATES_IN_PERIOD}`,
+      [topicId, days]
+    );
+
+    return {
+      total: parseInt(result.rows[0].total),
+      scored: parseInt(result.rows[0].scored),
+    };
+  }
+
+  /**
+   * Random articles of the last days not yet scored for the topic
+   */
+  async sampleUnscored(topicId: string, days: number, limit: number): Promise<BackfillCandidate[]> {
+    const result = await query<BackfillCandidate>(
+      `SELECT ${CANDIDATE_COLUMNS}
+      FROM articles a
+      LEFT JOIN sources s ON s.id = a.source_id
+      WHERE a.id IN (
+        SELECT a.id FROM articles a
+        WHERE ${CANDIDATES_IN_PERIOD} AND NOT ${SCORED_FOR_TOPIC}
+        ORDER BY random()
+        LIMIT $3
+      )`,
+      [topicId, days, limit]
+    );
+
+    return result.rows;
+  }
+}
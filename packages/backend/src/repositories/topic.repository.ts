@@ -1,5 +1,6 @@
 import { query } from '../config/database.js';
 import type { Topic, TopicFilters, CreateTopicInput, UpdateTopicInput } from '@media-scanner/shared';
+import { DEFAULT_MIN_RELEVANCE_SCORE } from '@media-scanner/shared';
 import { slugify } from '@media-scanner/shared/utils';
 
 interface DbTopic {
@@ -10,6 +11,7 @@ interface DbTopic {
   keywords: string[];
   ai_prompt: string;
   min_relevance_score: string;
+  auto_generate_score: string | null;
   is_active: boolean;
   is_system: boolean;
   created_by: string | null;
@@ -26,6 +28,7 @@ function mapDbToTopic(row: DbTopic): Topic {
     keywords: row.keywords,
     aiPrompt: row.ai_prompt,
     minRelevanceScore: parseFloat(row.min_relevance_score),
+    autoGenerateScore: row.auto_generate_score !== null ? parseFloat(row.auto_generate_score) : null,
     isActive: row.is_active,
     isSystem: row.is_system,
     createdBy: row.created_by,
@@ -76,8 +79,8 @@ export class TopicRepository {
     const slug = slugify(data.name);
 
     const result = await query<DbTopic>(
-      `INSERT INTO topics (name, slug, description, keywords, ai_prompt, min_relevance_score, is_active, created_by)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `INSERT INTO topics (name, slug, description, keywords, ai_prompt, min_relevance_score, auto_generate_score, is_active, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
        RETURNING *`,
       [
         data.name,
@@ -85,7 +88,8 @@ export class TopicRepository {
         data.description || null,
         data.keywords,
         data.aiPrompt,
-        data.minRelevanceScore ?? 0.5,
+        data.minRelevanceScore ?? DEFAULT_MIN_RELEVANCE_SCORE,
+        data.autoGenerateScore ?? null,
         data.isActive ?? true,
         userId || null,
       ]
@@ -126,6 +130,11 @@ export class TopicRepository {
       values.push(data.minRelevanceScore);
     }
 
+    if (data.autoGenerateScore !== undefined) {
+      fields.push(`auto_generate_score = $${paramIndex++}`);
+      values.push(data.autoGenerateScore);
+    }
+
     if (data.isActive !== undefined) {
       fields.push(`is_active = $${paramIndex++}`);
       values.push(data.isActive);
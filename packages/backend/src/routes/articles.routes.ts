@@ -1,12 +1,18 @@
 import { Router } from 'express';
 import { authenticate, optionalAuth } from '../middleware/auth.js';
 import { ArticleRepository } from '../repositories/article.repository.js';
-import { NotFoundError } from '../middleware/error-handler.js';
-import type { ArticleQueryParams } from '@media-scanner/shared';
+import { StoryRepository } from '../repositories/story.repository.js';
+import { ArticleTopicRepository } from '../repositories/article-topic.repository.js';
+import { RelevanceFeedbackRepository } from '../repositories/relevance-feedback.repository.js';
+import { BadRequestError, NotFoundError } from '../middleware/error-handler.js';
+import type { ArticleQueryParams, AuthUser, SubmitRelevanceFeedbackInput } from '@media-scanner/shared';
 
 export const router = Router();
 
 const articleRepo = new ArticleRepository();
+const storyRepo = new StoryRepository();
+const articleTopicRepo = new ArticleTopicRepository();
+const feedbackRepo = new RelevanceFeedbackRepository();
 
 // GET /api/articles - List articles with filtering
 router.get('/', optionalAuth, async (req, res, next) => {
@@ -41,6 +47,10 @@ router.get('/:id', optionalAuth, async (req, res, next) => {
       throw new NotFoundError('Article non trouvé');
     }
 
+    if (article.storyId) {
+      article.outlets = await storyRepo.findOutlets(article.storyId);
+    }
+
     res.json({ data: article });
   } catch (error) {
     next(error);
@@ -57,6 +67,80 @@ router.get('/:id/posts', optionalAuth, async (req, res, next) => {
   }
 });
 
+// GET /api/articles/:id/topics - Topic scores of an article with the feedback given on them
+router.get<{ id: string }>('/:id/topics', optionalAuth, async (req, res, next) => {
+  try {
+    const [articleTopics, feedback] = await Promise.all([
+      articleTopicRepo.findByArticle(req.params.id),
+      feedbackRepo.findByArticle(req.params.id),
+    ]);
+
+    res.json({
+      data: articleTopics.map((at) => ({
+        ...at,
+        feedback: feedback.find((f) => f.topicId === at.topicId) || null,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/articles/:id/topics/:topicId/feedback - Agree with a topic score or correct it
+router.put<{ id: string; topicId: string }>('/:id/topics/:topicId/feedback', authenticate, async (req, res, next) => {
+  try {
+    const input: SubmitRelevanceFeedbackInput = {
+      isCorrect: req.body.isCorrect,
+      correctedScore: req.body.correctedScore,
+      comment: typeof req.body.comment === 'string' ? req.body.comment.trim() || undefined : undefined,
+    };
+
+    if (typeof input.isCorrect !== 'boolean') {
+      throw new BadRequestError('isCorrect doit être un booléen');
+    }
+
+    if (!input.isCorrect && (typeof input.correctedScore !== 'number'
+      || !(input.correctedScore >= 0 && input.correctedScore <= 1))) {
+      throw new BadRequestError('correctedScore doit être un nombre entre 0 et 1');
+    }
+
+    const articleTopic = await articleTopicRepo.findOne(req.params.id, req.params.topicId);
+    if (!articleTopic) {
+      throw new NotFoundError('Score non trouvé');
+    }
+
+    const feedback = await feedbackRepo.upsert(
+      articleTopic.articleId,
+      articleTopic.topicId,
+      articleTopic.relevanceScore,
+      {
+        ...input,
+        correctedScore: input.isCorrect ? undefined : Math.round(input.correctedScore! * 100) / 100,
+      },
+      (req.user as AuthUser).id
+    );
+
+    res.json({ data: feedback });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/articles/:id/topics/:topicId/feedback - Withdraw a feedback
+router.delete<{ id: string; topicId: string }>('/:id/topics/:topicId/feedback', authenticate, async (req, res, next) => {
+  try {
+    const deleted = await feedbackRepo.delete(req.params.id, req.params.topicId);
+
+    if (!deleted) {
+      throw new NotFoundError('Avis non trouvé');
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/articles/:id/reanalyze - Trigger re-analysis
 router.post('/:id/reanalyze', authenticate, async (req, res, next) => {
   try {
@@ -0,0 +1,184 @@
+import { Router } from 'express';
+import { authenticate, optionalAuth, requireRole } from '../middleware/auth.js';
+import { AiBudgetRepository } from '../repositories/ai-budget.repository.js';
+import { aiBudget } from '../services/ai/ai-budget.service.js';
+import { releaseHeldJobs } from '../jobs/queues.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/error-handler.js';
+import { AI_BUDGET_LEVELS, AI_PURPOSES } from '@media-scanner/shared';
+import type {
+  AuthUser,
+  CreateAiBudgetInput,
+  UpdateAiBudgetInput,
+  CreateAiBudgetOverrideInput,
+} from '@media-scanner/shared';
+
+export const router = Router();
+
+const budgetRepo = new AiBudgetRepository();
+
+// An override lasts a week at most
+const MAX_OVERRIDE_HOURS = 24 * 7;
+
+function isValidLimit(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Apply a change right away and run what the budget was holding back
+ */
+async function budgetChanged(): Promise<void> {
+  aiBudget.invalidate();
+  await releaseHeldJobs();
+}
+
+// GET /api/budgets - Budgets with their spending, level in force and open alerts
+router.get('/', optionalAuth, async (_req, res, next) => {
+  try {
+    aiBudget.invalidate();
+    const status = await aiBudget.getStatus();
+
+    res.json({ data: status });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/budgets - Create a budget (admin only)
+router.post('/', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const input: CreateAiBudgetInput = {
+      purpose: req.body.purpose || null,
+      period: req.body.period,
+      limitUsd: req.body.limitUsd,
+    };
+
+    if (input.period !== 'day' && input.period !== 'month') {
+      throw new BadRequestError('period doit valoir "day" ou "month"');
+    }
+
+    if (input.purpose && !AI_PURPOSES.includes(input.purpose)) {
+      throw new BadRequestError(`purpose doit être l'une des valeurs : ${AI_PURPOSES.join(', ')}`);
+    }
+
+    if (!isValidLimit(input.limitUsd)) {
+      throw new BadRequestError('limitUsd doit être un montant positif');
+    }
+
+    if (await budgetRepo.findByScope(input.purpose || null, input.period)) {
+      throw new ConflictError('Un budget existe déjà pour cet usage et cette période');
+    }
+
+    const budget = await budgetRepo.create(input);
+    aiBudget.invalidate();
+
+    res.status(201).json({ data: budget });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/budgets/override - Force a degradation level for a while (admin only)
+router.post('/override', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const input: CreateAiBudgetOverrideInput = {
+      level: req.body.level,
+      hours: req.body.hours,
+      reason: typeof req.body.reason === 'string' ? req.body.reason.trim() || undefined : undefined,
+    };
+
+    if (!AI_BUDGET_LEVELS.includes(input.level)) {
+      throw new BadRequestError(`level doit être l'une des valeurs : ${AI_BUDGET_LEVELS.join(', ')}`);
+    }
+
+    if (!Number.isInteger(input.hours) || input.hours < 1 || input.hours > MAX_OVERRIDE_HOURS) {
+      throw new BadRequestError(`hours doit être compris entre 1 et ${MAX_OVERRIDE_HOURS}`);
+    }
+
+    const override = await budgetRepo.createOverride({
+      ...input,
+      createdBy: (req.user as AuthUser).id,
+    });
+
+    await budgetChanged();
+
+    res.status(201).json({ data: override });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/budgets/override - Back to the level set by spending (admin only)
+router.delete('/override', authenticate, requireRole('admin'), async (_req, res, next) => {
+  try {
+    await budgetRepo.endOverrides();
+    await budgetChanged();
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/budgets/alerts/:id/acknowledge - Dismiss an alert (admin only)
+router.post<{ id: string }>('/alerts/:id/acknowledge', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const acknowledged = await budgetRepo.acknowledgeAlert(req.params.id, (req.user as AuthUser).id);
+
+    if (!acknowledged) {
+      throw new NotFoundError('Alerte non trouvée ou déjà traitée');
+    }
+
+    aiBudget.invalidate();
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/budgets/:id - Change the limit or pause a budget (admin only)
+router.patch<{ id: string }>('/:id', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const input: UpdateAiBudgetInput = {
+      limitUsd: req.body.limitUsd,
+      isActive: req.body.isActive,
+    };
+
+    if (input.limitUsd !== undefined && !isValidLimit(input.limitUsd)) {
+      throw new BadRequestError('limitUsd doit être un montant positif');
+    }
+
+    if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+      throw new BadRequestError('isActive doit être un booléen');
+    }
+
+    const budget = await budgetRepo.update(req.params.id, input);
+
+    if (!budget) {
+      throw new NotFoundError('Budget non trouvé');
+    }
+
+    await budgetChanged();
+
+    res.json({ data: budget });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/budgets/:id - Delete a budget (admin only)
+router.delete<{ id: string }>('/:id', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const deleted = await budgetRepo.delete(req.params.id);
+
+    if (!deleted) {
+      throw new NotFoundError('Budget non trouvé');
+    }
+
+    await budgetChanged();
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
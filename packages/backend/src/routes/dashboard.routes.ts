@@ -1,10 +1,13 @@
 import { Router } from 'express';
 import { optionalAuth } from '../middleware/auth.js';
 import { DashboardRepository } from '../repositories/dashboard.repository.js';
+import { AiUsageRepository } from '../repositories/ai-usage.repository.js';
+import { BadRequestError } from '../middleware/error-handler.js';
 
 export const router = Router();
 
 const dashboardRepo = new DashboardRepository();
+const aiUsageRepo = new AiUsageRepository();
 
 // GET /api/dashboard/stats - Overview statistics
 router.get('/stats', optionalAuth, async (_req, res, next) => {
@@ -57,3 +60,19 @@ router.get('/health', optionalAuth, async (_req, res, next) => {
     next(error);
   }
 });
+
+// GET /api/dashboard/ai-usage - AI calls, tokens and estimated cost
+router.get('/ai-usage', optionalAuth, async (req, res, next) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string) : 30;
+
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      throw new BadRequestError('days doit être compris entre 1 et 365');
+    }
+
+    const usage = await aiUsageRepo.getSummary(days);
+    res.json({ data: usage });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { EntityRepository } from '../repositories/entity.repository.js';
+import { NotFoundError, BadRequestError } from '../middleware/error-handler.js';
+import { DEFAULT_ENTITY_DAYS, ENTITY_TYPES, MAX_ENTITY_DAYS } from '@media-scanner/shared';
+import type { EntityQueryParams, EntityType } from '@media-scanner/shared';
+
+export const router = Router();
+
+const entityRepo = new EntityRepository();
+
+function parseDays(value: unknown): number {
+  const days = value !== undefined ? Number(value) : DEFAULT_ENTITY_DAYS;
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_ENTITY_DAYS) {
+    throw new BadRequestError(`days must be an integer between 1 and ${MAX_ENTITY_DAYS}`);
+  }
+
+  return days;
+}
+
+// GET /api/entities - Entities named by the relevant articles of the period, the most named first
+router.get('/', authenticate, async (req, res, next) => {
+  try {
+    const type = req.query.type as string | undefined;
+
+    if (type && !ENTITY_TYPES.includes(type as EntityType)) {
+      throw new BadRequestError(`type must be one of ${ENTITY_TYPES.join(', ')}`);
+    }
+
+    const params: EntityQueryParams = {
+      type: type as EntityType | undefined,
+      search: req.query.search as string,
+      days: parseDays(req.query.days),
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+    };
+
+    const result = await entityRepo.findAll(params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/entities/departements - Départements by relevant articles naming one of their communes
+router.get('/departements', authenticate, async (req, res, next) => {
+  try {
+    const departements = await entityRepo.countByDepartement(parseDays(req.query.days));
+    res.json({ data: departements });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/entities/:id - Get an entity
+router.get<{ id: string }>('/:id', authenticate, async (req, res, next) => {
+  try {
+    const entity = await entityRepo.findById(req.params.id);
+
+    if (!entity) {
+      throw new NotFoundError('Entité non trouvée');
+    }
+
+    res.json({ data: entity });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/entities/:id/articles - Relevant articles of the period naming the entity
+router.get<{ id: string }>('/:id/articles', authenticate, async (req, res, next) => {
+  try {
+    const days = parseDays(req.query.days);
+    const entity = await entityRepo.findById(req.params.id);
+
+    if (!entity) {
+      throw new NotFoundError('Entité non trouvée');
+    }
+
+    const result = await entityRepo.findArticles(entity.id, {
+      days,
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+    });
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
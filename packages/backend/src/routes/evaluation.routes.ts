@@ -0,0 +1,194 @@
+import { Router } from 'express';
+import { authenticate, optionalAuth, requireRole } from '../middleware/auth.js';
+import { EvaluationRepository } from '../repositories/evaluation.repository.js';
+import { ArticleRepository } from '../repositories/article.repository.js';
+import { TopicRepository } from '../repositories/topic.repository.js';
+import { PromptRepository } from '../repositories/prompt.repository.js';
+import { promptRegistry } from '../services/ai/prompt-registry.service.js';
+import { llmService } from '../services/ai/llm.service.js';
+import { addEvaluationJob } from '../jobs/queues.js';
+import { BadRequestError, NotFoundError } from '../middleware/error-handler.js';
+import type { AuthUser, CreateEvaluationRunInput, LabelArticleInput } from '@media-scanner/shared';
+
+export const router = Router();
+
+const evaluationRepo = new EvaluationRepository();
+const articleRepo = new ArticleRepository();
+const topicRepo = new TopicRepository();
+const promptRepo = new PromptRepository();
+
+// GET /api/evaluation/labels - Labels of an article, or the latest labels of the golden set
+router.get('/labels', optionalAuth, async (req, res, next) => {
+  try {
+    const articleId = req.query.articleId as string | undefined;
+
+    if (articleId) {
+      const labels = await evaluationRepo.findLabelsForArticle(articleId);
+      res.json({ data: labels });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+    const labels = await evaluationRepo.findLabels({
+      topicId: req.query.topicId as string | undefined,
+      limit,
+    });
+
+    res.json({ data: labels });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/evaluation/labels - Label an article as relevant or not for a topic
+router.put('/labels', authenticate, async (req, res, next) => {
+  try {
+    const input: LabelArticleInput = {
+      articleId: req.body.articleId,
+      topicId: req.body.topicId,
+      isRelevant: req.body.isRelevant,
+    };
+
+    if (typeof input.isRelevant !== 'boolean') {
+      throw new BadRequestError('isRelevant doit être un booléen');
+    }
+
+    if (!input.articleId || !(await articleRepo.findById(input.articleId))) {
+      throw new NotFoundError('Article non trouvé');
+    }
+
+    if (!input.topicId || !(await topicRepo.findById(input.topicId))) {
+      throw new NotFoundError('Topic non trouvé');
+    }
+
+    const label = await evaluationRepo.upsertLabel(input, (req.user as AuthUser).id);
+
+    res.json({ data: label });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/evaluation/labels - Take an article out of the golden set for a topic
+router.delete('/labels', authenticate, async (req, res, next) => {
+  try {
+    const articleId = req.query.articleId as string | undefined;
+    const topicId = req.query.topicId as string | undefined;
+
+    if (!articleId || !topicId) {
+      throw new BadRequestError('articleId et topicId sont requis');
+    }
+
+    const deleted = await evaluationRepo.deleteLabel(articleId, topicId);
+    if (!deleted) {
+      throw new NotFoundError('Annotation non trouvée');
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/evaluation/golden-set - Labelled articles per topic
+router.get('/golden-set', optionalAuth, async (_req, res, next) => {
+  try {
+    const summary = await evaluationRepo.getGoldenSetSummary();
+    res.json({ data: summary });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/evaluation/runs - Latest evaluation runs, for comparison
+router.get('/runs', optionalAuth, async (_req, res, next) => {
+  try {
+    const runs = await evaluationRepo.findRuns();
+    res.json({ data: runs });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/evaluation/runs/:id - An evaluation run with the score of each labelled article
+router.get<{ id: string }>('/runs/:id', optionalAuth, async (req, res, next) => {
+  try {
+    const run = await evaluationRepo.findRunById(req.params.id);
+
+    if (!run) {
+      throw new NotFoundError('Évaluation non trouvée');
+    }
+
+    const results = await evaluationRepo.findResults(run.id);
+
+    res.json({ data: { ...run, results } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/evaluation/runs - Re-score the golden set (admin only)
+router.post('/runs', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const input: CreateEvaluationRunInput = {
+      topicId: req.body.topicId || undefined,
+      promptVersionId: req.body.promptVersionId || undefined,
+      model: typeof req.body.model === 'string' ? req.body.model.trim() || undefined : undefined,
+      threshold: req.body.threshold,
+    };
+
+    if (typeof input.threshold !== 'number' || !(input.threshold >= 0 && input.threshold <= 1)) {
+      throw new BadRequestError('threshold doit être un nombre entre 0 et 1');
+    }
+
+    if (input.topicId && !(await topicRepo.findById(input.topicId))) {
+      throw new NotFoundError('Topic non trouvé');
+    }
+
+    let promptVersionId: string;
+    if (input.promptVersionId) {
+      const version = await promptRepo.findById(input.promptVersionId);
+      if (!version || version.key !== 'multi_topic_relevance') {
+        throw new NotFoundError('Version de prompt non trouvée');
+      }
+      promptVersionId = version.id;
+    } else {
+      promptVersionId = (await promptRegistry.getActive('multi_topic_relevance')).id;
+    }
+
+    const samples = await evaluationRepo.findGoldenSet(input.topicId);
+    if (samples.length === 0) {
+      throw new BadRequestError('Aucun article annoté pour cette évaluation');
+    }
+
+    const run = await evaluationRepo.createRun({
+      topicId: input.topicId ?? null,
+      promptVersionId,
+      model: input.model || llmService.getDefaultModel(),
+      threshold: Math.round(input.threshold * 100) / 100,
+      sampleCount: samples.length,
+      createdBy: (req.user as AuthUser).id,
+    });
+
+    await addEvaluationJob(run.id);
+
+    res.status(202).json({ data: run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/evaluation/runs/:id - Delete an evaluation run (admin only)
+router.delete<{ id: string }>('/runs/:id', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const deleted = await evaluationRepo.deleteRun(req.params.id);
+
+    if (!deleted) {
+      throw new NotFoundError('Évaluation non trouvée');
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
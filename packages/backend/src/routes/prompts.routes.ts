@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import { authenticate, optionalAuth, requireRole } from '../middleware/auth.js';
+import { PromptRepository } from '../repositories/prompt.repository.js';
+import { promptRegistry } from '../services/ai/prompt-registry.service.js';
+import { BadRequestError, NotFoundError } from '../middleware/error-handler.js';
+import { PROMPT_KEYS } from '@media-scanner/shared';
+import type { AuthUser, CreatePromptVersionInput, PromptKey } from '@media-scanner/shared';
+
+export const router = Router();
+
+const promptRepo = new PromptRepository();
+
+function parseKey(key: string): PromptKey {
+  if (!PROMPT_KEYS.includes(key as PromptKey)) {
+    throw new NotFoundError('Prompt non trouvé');
+  }
+
+  return key as PromptKey;
+}
+
+// GET /api/prompts - Every prompt with its active version
+router.get('/', optionalAuth, async (_req, res, next) => {
+  try {
+    const templates = await promptRegistry.listTemplates();
+    res.json({ data: templates });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/prompts/:key/versions - Version history of a prompt, newest first
+router.get<{ key: string }>('/:key/versions', optionalAuth, async (req, res, next) => {
+  try {
+    const key = parseKey(req.params.key);
+
+    // Makes sure version 1 exists
+    await promptRegistry.getActive(key);
+    const versions = await promptRepo.findVersions(key);
+
+    res.json({ data: versions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/prompts/:key/versions - Save an edit as a new active version (admin only)
+router.post<{ key: string }>('/:key/versions', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const key = parseKey(req.params.key);
+    const input: CreatePromptVersionInput = {
+      systemPrompt: req.body.systemPrompt,
+      userTemplate: req.body.userTemplate,
+      note: typeof req.body.note === 'string' ? req.body.note.trim() || undefined : undefined,
+    };
+
+    if (typeof input.systemPrompt !== 'string' || !input.systemPrompt.trim()) {
+      throw new BadRequestError('systemPrompt est requis');
+    }
+
+    if (typeof input.userTemplate !== 'string' || !input.userTemplate.trim()) {
+      throw new BadRequestError('userTemplate est requis');
+    }
+
+    const problems = promptRegistry.validate(key, input);
+    if (problems.length > 0) {
+      throw new BadRequestError(problems.join(' ; '));
+    }
+
+    const version = await promptRepo.createVersion(key, input, (req.user as AuthUser).id);
+    promptRegistry.invalidate(key);
+
+    res.status(201).json({ data: version });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/prompts/:key/versions/:id/activate - Roll back to an earlier version (admin only)
+router.post<{ key: string; id: string }>(
+  '/:key/versions/:id/activate',
+  authenticate,
+  requireRole('admin'),
+  async (req, res, next) => {
+    try {
+      const key = parseKey(req.params.key);
+      const existing = await promptRepo.findById(req.params.id);
+
+      if (!existing || existing.key !== key) {
+        throw new NotFoundError('Version non trouvée');
+      }
+
+      const version = await promptRepo.activate(existing.id);
+      promptRegistry.invalidate(key);
+
+      res.json({ data: version });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -4,7 +4,7 @@ import { ScanRepository } from '../repositories/scan.repository.js';
 import { ArticleRepository } from '../repositories/article.repository.js';
 import { NotFoundError } from '../middleware/error-handler.js';
 import { addScanJob, addAiAnalysisJob, getQueueStats } from '../jobs/queues.js';
-import { triggerManualSummary } from '../jobs/scheduler.js';
+import { triggerManualSummary, getSchedulerStatus } from '../jobs/scheduler.js';
 
 export const router = Router();
 
@@ -95,6 +95,11 @@ router.get('/queues', authenticate, async (_req, res, next) => {
   }
 });
 
+// GET /api/scans/scheduler - Get scheduled tasks and scan rate settings
+router.get('/scheduler', authenticate, (_req, res) => {
+  res.json({ data: getSchedulerStatus() });
+});
+
 // POST /api/scans/analyze-pending - Trigger AI analysis for pending articles
 router.post('/analyze-pending', authenticate, async (req, res, next) => {
   try {
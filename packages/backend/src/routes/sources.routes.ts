@@ -1,12 +1,24 @@
 import { Router } from 'express';
 import { authenticate, optionalAuth, requireRole } from '../middleware/auth.js';
 import { SourceRepository } from '../repositories/source.repository.js';
-import { NotFoundError } from '../middleware/error-handler.js';
-import type { SourceFilters } from '@media-scanner/shared';
+import { SourceFeedRepository } from '../repositories/source-feed.repository.js';
+import { opmlService, MAX_OPML_ENTRIES } from '../services/rss/opml.service.js';
+import { feedInspector } from '../services/rss/feed-inspector.service.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/error-handler.js';
+import { isPublicUrl } from '../utils/http.js';
+import type { Source, SourceFilters, SourceTestResult, UpdateSourceScheduleInput } from '@media-scanner/shared';
 
 export const router = Router();
 
 const sourceRepo = new SourceRepository();
+const sourceFeedRepo = new SourceFeedRepository();
+
+// Same range as the CHECK constraint on sources.fetch_interval_minutes
+function validateFetchInterval(value: unknown): void {
+  if (value !== undefined && (!Number.isInteger(value) || (value as number) < 5 || (value as number) > 1440)) {
+    throw new BadRequestError('L\'intervalle doit être compris entre 5 et 1440 minutes');
+  }
+}
 
 // GET /api/sources - List all sources
 router.get('/', optionalAuth, async (req, res, next) => {
@@ -15,6 +27,7 @@ router.get('/', optionalAuth, async (req, res, next) => {
       type: req.query.type as string,
       category: req.query.category as string,
       active: req.query.active === 'true' ? true : req.query.active === 'false' ? false : undefined,
+      health: req.query.health as string,
     };
 
     const sources = await sourceRepo.findAll(filters);
@@ -24,6 +37,60 @@ router.get('/', optionalAuth, async (req, res, next) => {
   }
 });
 
+// GET /api/sources/export/opml - Export RSS sources and their section feeds as an OPML file
+router.get('/export/opml', optionalAuth, async (_req, res, next) => {
+  try {
+    const sources = await sourceRepo.findAll({ type: 'rss' });
+    const sections = await sourceFeedRepo.findActiveSections();
+
+    res.type('text/x-opml');
+    res.attachment('sources.opml');
+    res.send(opmlService.build(sources, sections));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sources/import/opml - Preview (dryRun, default) or import sources from OPML
+router.post('/import/opml', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const { opml, dryRun = true } = req.body as { opml?: string; dryRun?: boolean };
+
+    if (typeof opml !== 'string' || !/<opml\b/i.test(opml)) {
+      throw new BadRequestError('Fichier OPML invalide');
+    }
+
+    if (opmlService.parse(opml).length > MAX_OPML_ENTRIES) {
+      throw new BadRequestError(`Le fichier OPML dépasse ${MAX_OPML_ENTRIES} flux`);
+    }
+
+    const report = await opmlService.importSources(opml, { dryRun: dryRun !== false });
+    res.status(dryRun === false ? 201 : 200).json({ data: report });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sources/test - Test an arbitrary URL before adding it, discovering feeds on HTML pages
+router.post('/test', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const { url } = req.body as { url?: string };
+
+    if (typeof url !== 'string' || !/^https?:\/\//i.test(url.trim())) {
+      throw new BadRequestError('URL HTTP(S) requise');
+    }
+
+    if (!(await isPublicUrl(url.trim()))) {
+      throw new BadRequestError('URL vers une adresse non publique refusée');
+    }
+
+    const result = await feedInspector.inspect(url.trim());
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/sources/:id - Get source with stats
 router.get('/:id', optionalAuth, async (req, res, next) => {
   try {
@@ -52,6 +119,8 @@ router.post('/', authenticate, requireRole('admin'), async (req, res, next) => {
 // PATCH /api/sources/:id - Update source config
 router.patch('/:id', authenticate, requireRole('admin'), async (req, res, next) => {
   try {
+    validateFetchInterval((req.body as Partial<Source>).fetchIntervalMinutes);
+
     const source = await sourceRepo.update(req.params.id, req.body);
 
     if (!source) {
@@ -64,6 +133,44 @@ router.patch('/:id', authenticate, requireRole('admin'), async (req, res, next)
   }
 });
 
+// PATCH /api/sources/:id/schedule - Change the fetch interval and quiet hours (admin only)
+router.patch<{ id: string }>('/:id/schedule', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const { fetchIntervalMinutes, quietHoursStart, quietHoursEnd } = req.body as UpdateSourceScheduleInput;
+
+    validateFetchInterval(fetchIntervalMinutes);
+
+    if ((quietHoursStart === undefined) !== (quietHoursEnd === undefined)
+      || (quietHoursStart === null) !== (quietHoursEnd === null)) {
+      throw new BadRequestError('Les heures creuses se définissent par un début et une fin');
+    }
+
+    for (const hour of [quietHoursStart, quietHoursEnd]) {
+      if (hour !== undefined && hour !== null && (!Number.isInteger(hour) || hour < 0 || hour > 23)) {
+        throw new BadRequestError('Les heures creuses doivent être comprises entre 0 et 23');
+      }
+    }
+
+    if (quietHoursStart !== undefined && quietHoursStart !== null && quietHoursStart === quietHoursEnd) {
+      throw new BadRequestError('Les heures creuses doivent avoir un début et une fin différents');
+    }
+
+    const source = await sourceRepo.updateSchedule(req.params.id, {
+      fetchIntervalMinutes,
+      quietHoursStart,
+      quietHoursEnd,
+    });
+
+    if (!source) {
+      throw new NotFoundError('Source non trouvée');
+    }
+
+    res.json({ data: source });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // DELETE /api/sources/:id - Deactivate source
 router.delete('/:id', authenticate, requireRole('admin'), async (req, res, next) => {
   try {
@@ -74,16 +181,55 @@ router.delete('/:id', authenticate, requireRole('admin'), async (req, res, next)
   }
 });
 
-// POST /api/sources/:id/test - Test source connectivity
-router.post('/:id/test', authenticate, async (req, res, next) => {
+// POST /api/sources/:id/test - Fetch every active feed of a source and report what a scan would get
+router.post<{ id: string }>('/:id/test', authenticate, async (req, res, next) => {
   try {
-    const result = await sourceRepo.testConnectivity(req.params.id);
+    const source = await sourceRepo.findById(req.params.id);
+
+    if (!source) {
+      throw new NotFoundError('Source non trouvée');
+    }
+
+    const feeds = await sourceFeedRepo.findActiveBySource(source.id);
+
+    if (feeds.length === 0) {
+      throw new BadRequestError('Cette source n\'a aucun flux RSS actif');
+    }
+
+    const results: SourceTestResult['feeds'] = [];
+    for (const feed of feeds) {
+      const inspection = await feedInspector.inspect(feed.url, { id: source.id, name: source.name });
+      results.push({ ...inspection, feedId: feed.id, label: feed.label });
+    }
+
+    const result: SourceTestResult = {
+      sourceId: source.id,
+      success: results.every((r) => r.success),
+      feeds: results,
+    };
+
     res.json({ data: result });
   } catch (error) {
     next(error);
   }
 });
 
+// POST /api/sources/:id/restore - Lift a suspension without waiting for the probe (admin only)
+router.post<{ id: string }>('/:id/restore', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const source = await sourceRepo.findById(req.params.id);
+
+    if (!source) {
+      throw new NotFoundError('Source non trouvée');
+    }
+
+    await sourceRepo.restore(source.id);
+    res.json({ data: await sourceRepo.findById(source.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/sources/:id/logs - Get scan history for source
 router.get('/:id/logs', optionalAuth, async (req, res, next) => {
   try {
@@ -94,3 +240,54 @@ router.get('/:id/logs', optionalAuth, async (req, res, next) => {
     next(error);
   }
 });
+
+// GET /api/sources/:id/feeds - List the feeds of a source
+router.get<{ id: string }>('/:id/feeds', optionalAuth, async (req, res, next) => {
+  try {
+    const feeds = await sourceFeedRepo.findBySource(req.params.id);
+    res.json({ data: feeds });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sources/:id/feeds - Add a section feed to a source (admin only)
+router.post<{ id: string }>('/:id/feeds', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const { url, label } = req.body;
+
+    if (!url || !/^https?:\/\//.test(url)) {
+      throw new BadRequestError('url must be an http(s) URL');
+    }
+
+    const source = await sourceRepo.findById(req.params.id);
+    if (!source) {
+      throw new NotFoundError('Source non trouvée');
+    }
+
+    const existing = await sourceFeedRepo.findBySource(source.id);
+    if (existing.some((f) => f.url === url)) {
+      throw new ConflictError('Ce flux est déjà rattaché à la source');
+    }
+
+    const feed = await sourceFeedRepo.create(source.id, { url, label });
+    res.status(201).json({ data: feed });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/sources/:id/feeds/:feedId - Remove a section feed (admin only)
+router.delete<{ id: string; feedId: string }>('/:id/feeds/:feedId', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const deleted = await sourceFeedRepo.delete(req.params.id, req.params.feedId);
+
+    if (!deleted) {
+      throw new NotFoundError('Flux non trouvé ou flux principal');
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,131 @@
+import { Router } from 'express';
+import { authenticate, optionalAuth } from '../middleware/auth.js';
+import { StoryRepository } from '../repositories/story.repository.js';
+import { storyClusterer } from '../services/scanner/story-clusterer.service.js';
+import { NotFoundError, BadRequestError } from '../middleware/error-handler.js';
+import type { StoryQueryParams, MergeStoriesInput, SplitStoryInput } from '@media-scanner/shared';
+
+export const router = Router();
+
+const storyRepo = new StoryRepository();
+
+// GET /api/stories - List stories, most recently active first
+router.get('/', optionalAuth, async (req, res, next) => {
+  try {
+    const params: StoryQueryParams = {
+      search: req.query.search as string,
+      minArticles: req.query.min_articles ? parseInt(req.query.min_articles as string) : 2,
+      page: req.query.page ? parseInt(req.query.page as string) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+    };
+
+    const result = await storyRepo.findAll(params);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/stories/:id - Get a story with its timeline
+router.get<{ id: string }>('/:id', optionalAuth, async (req, res, next) => {
+  try {
+    const story = await storyRepo.findWithTimeline(req.params.id);
+
+    if (!story) {
+      throw new NotFoundError('Dossier non trouvé');
+    }
+
+    res.json({ data: story });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/stories/:id - Rename a story
+router.patch<{ id: string }>('/:id', authenticate, async (req, res, next) => {
+  try {
+    const title = typeof req.body.title === 'string' ? req.body.title.trim() : '';
+
+    if (!title) {
+      throw new BadRequestError('Le titre est requis');
+    }
+
+    const story = await storyRepo.rename(req.params.id, title);
+
+    if (!story) {
+      throw new NotFoundError('Dossier non trouvé');
+    }
+
+    res.json({ data: story });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/stories/:id/merge - Fold other stories into this one
+router.post<{ id: string }>('/:id/merge', authenticate, async (req, res, next) => {
+  try {
+    const input: MergeStoriesInput = { storyIds: req.body.storyIds };
+
+    if (!Array.isArray(input.storyIds) || input.storyIds.length === 0) {
+      throw new BadRequestError('storyIds doit être une liste non vide');
+    }
+
+    const storyIds = [...new Set(input.storyIds)].filter((id) => id !== req.params.id);
+
+    if (storyIds.length === 0) {
+      throw new BadRequestError('Un dossier ne peut pas être fusionné avec lui-même');
+    }
+
+    for (const id of [req.params.id, ...storyIds]) {
+      if (!(await storyRepo.findById(id))) {
+        throw new NotFoundError(`Dossier non trouvé : ${id}`);
+      }
+    }
+
+    await storyClusterer.merge(req.params.id, storyIds);
+
+    const story = await storyRepo.findWithTimeline(req.params.id);
+    res.json({ data: story });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/stories/:id/split - Move some articles into a new story
+router.post<{ id: string }>('/:id/split', authenticate, async (req, res, next) => {
+  try {
+    const input: SplitStoryInput = {
+      articleIds: req.body.articleIds,
+      title: typeof req.body.title === 'string' ? req.body.title.trim() || undefined : undefined,
+    };
+
+    if (!Array.isArray(input.articleIds) || input.articleIds.length === 0) {
+      throw new BadRequestError('articleIds doit être une liste non vide');
+    }
+
+    const story = await storyRepo.findById(req.params.id);
+
+    if (!story) {
+      throw new NotFoundError('Dossier non trouvé');
+    }
+
+    const articleIds = [...new Set(input.articleIds)];
+    const storyArticleIds = (await storyRepo.findArticleTexts(story.id)).map((a) => a.id);
+
+    if (articleIds.some((id) => !storyArticleIds.includes(id))) {
+      throw new BadRequestError('Certains articles n\'appartiennent pas à ce dossier');
+    }
+
+    if (articleIds.length === storyArticleIds.length) {
+      throw new BadRequestError('Au moins un article doit rester dans le dossier');
+    }
+
+    const newStoryId = await storyClusterer.split(story.id, articleIds, input.title);
+
+    const newStory = await storyRepo.findWithTimeline(newStoryId);
+    res.status(201).json({ data: newStory });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,107 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const repos = vi.hoisted(() => ({
+  toggleActive: vi.fn(),
+  refreshRelevanceStatus: vi.fn(),
+}));
+
+// The route only reaches the topic and article repositories
+vi.mock('../repositories/topic.repository.js', () => ({
+  TopicRepository: class {
+    toggleActive = repos.toggleActive;
+  },
+}));
+vi.mock('../repositories/article.repository.js', () => ({
+  ArticleRepository: class {
+    refreshRelevanceStatus = repos.refreshRelevanceStatus;
+  },
+}));
+vi.mock('../repositories/article-topic.repository.js', () => ({ ArticleTopicRepository: class {} }));
+vi.mock('../repositories/relevance-feedback.repository.js', () => ({ RelevanceFeedbackRepository: class {} }));
+vi.mock('../repositories/topic-backfill.repository.js', () => ({ TopicBackfillRepository: class {} }));
+vi.mock('../services/scanner/topic-backfill.service.js', () => ({ topicBackfill: {} }));
+vi.mock('../services/scanner/keyword-audit.service.js', () => ({ keywordAudit: {} }));
+vi.mock('../services/ai/topic-author.service.js', () => ({ topicAuthor: {}, MAX_DRAFT_EXAMPLES: 5 }));
+vi.mock('../services/ai/ai-budget.service.js', () => ({ BudgetExceededError: class extends Error {} }));
+vi.mock('../jobs/queues.js', () => ({ addTopicBackfillJob: vi.fn() }));
+
+const TOPIC_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+describe('POST /api/topics/:id/toggle', () => {
+  let server: Server;
+  let baseUrl: string;
+  let adminToken: string;
+  let userToken: string;
+
+  function toggle(token: string): Promise<Response> {
+    return fetch(`${baseUrl}/api/topics/${TOPIC_ID}/toggle`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  beforeAll(async () => {
+    Object.assign(process.env, {
+      DATABASE_URL: 'postgres://test@localhost/test',
+      JWT_SECRET: 'test-jwt-secret',
+      SESSION_SECRET: 'test-session-secret',
+      GOOGLE_CLIENT_ID: 'test',
+      GOOGLE_CLIENT_SECRET: 'test',
+    });
+
+    // Routes and auth read the environment when first imported
+    const { default: express } = await import('express');
+    const { router } = await import('./topics.routes.js');
+    const { errorHandler } = await import('../middleware/error-handler.js');
+    const { generateToken } = await import('../middleware/auth.js');
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/topics', router);
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    adminToken = generateToken({ id: 'admin', email: 'admin@test.fr', role: 'admin' });
+    userToken = generateToken({ id: 'user', email: 'user@test.fr', role: 'user' });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    repos.toggleActive.mockReset();
+    repos.refreshRelevanceStatus.mockReset().mockResolvedValue(undefined);
+  });
+
+  it.each([false, true])('refreshes article statuses when the topic becomes active: %s', async (isActive) => {
+    repos.toggleActive.mockResolvedValue({ id: TOPIC_ID, isActive });
+
+    const response = await toggle(adminToken);
+
+    expect(response.status).toBe(200);
+    const body = await response.json() as { data: { isActive: boolean } };
+    expect(body.data.isActive).toBe(isActive);
+    expect(repos.toggleActive).toHaveBeenCalledWith(TOPIC_ID);
+    expect(repos.refreshRelevanceStatus).toHaveBeenCalledWith(TOPIC_ID);
+  });
+
+  it('refreshes nothing for an unknown topic', async () => {
+    repos.toggleActive.mockResolvedValue(null);
+
+    const response = await toggle(adminToken);
+
+    expect(response.status).toBe(404);
+    expect(repos.refreshRelevanceStatus).not.toHaveBeenCalled();
+  });
+
+  it('is reserved to admins', async () => {
+    const response = await toggle(userToken);
+
+    expect(response.status).toBe(403);
+    expect(repos.toggleActive).not.toHaveBeenCalled();
+  });
+});
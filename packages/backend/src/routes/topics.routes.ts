@@ -2,13 +2,103 @@ import { Router } from 'express';
 import { authenticate, optionalAuth, requireRole } from '../middleware/auth.js';
 import { TopicRepository } from '../repositories/topic.repository.js';
 import { ArticleTopicRepository } from '../repositories/article-topic.repository.js';
-import { NotFoundError, BadRequestError } from '../middleware/error-handler.js';
-import type { TopicFilters, CreateTopicInput, UpdateTopicInput } from '@media-scanner/shared';
+import { RelevanceFeedbackRepository } from '../repositories/relevance-feedback.repository.js';
+import { ArticleRepository } from '../repositories/article.repository.js';
+import { TopicBackfillRepository } from '../repositories/topic-backfill.repository.js';
+import { topicBackfill } from '../services/scanner/topic-backfill.service.js';
+import { keywordAudit } from '../services/scanner/keyword-audit.service.js';
+import { topicAuthor, MAX_DRAFT_EXAMPLES } from '../services/ai/topic-author.service.js';
+import { BudgetExceededError } from '../services/ai/ai-budget.service.js';
+import { addTopicBackfillJob } from '../jobs/queues.js';
+import { NotFoundError, BadRequestError, ConflictError, TooManyRequestsError } from '../middleware/error-handler.js';
+import {
+  DEFAULT_BACKFILL_DAYS,
+  DEFAULT_KEYWORD_AUDIT_DAYS,
+  MAX_BACKFILL_DAYS,
+  MAX_KEYWORD_AUDIT_DAYS,
+  compileKeywords,
+  findMatchingKeywords,
+  foldText,
+  prepareText,
+} from '@media-scanner/shared';
+import type {
+  AuthUser,
+  KeywordPreview,
+  KeywordValidationResult,
+  TopicDraftInput,
+  TopicDryRunInput,
+  TopicFilters,
+  CreateTopicInput,
+  CreateTopicBackfillInput,
+  UpdateTopicInput,
+} from '@media-scanner/shared';
 
 export const router = Router();
 
 const topicRepo = new TopicRepository();
 const articleTopicRepo = new ArticleTopicRepository();
+const feedbackRepo = new RelevanceFeedbackRepository();
+const articleRepo = new ArticleRepository();
+const backfillRepo = new TopicBackfillRepository();
+
+// Keyword previews cover this many days and articles at most
+const PREVIEW_DAYS = 7;
+const PREVIEW_MAX_ARTICLES = 5000;
+const PREVIEW_SAMPLE_SIZE = 50;
+
+function isValidScore(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+/**
+ * Reject thresholds outside [0, 1], a null auto-generation threshold meaning the default one
+ */
+function validateThresholds(input: CreateTopicInput | UpdateTopicInput): void {
+  if (input.minRelevanceScore !== undefined && !isValidScore(input.minRelevanceScore)) {
+    throw new BadRequestError('minRelevanceScore must be a number between 0 and 1');
+  }
+
+  if (input.autoGenerateScore !== undefined && input.autoGenerateScore !== null
+    && !isValidScore(input.autoGenerateScore)) {
+    throw new BadRequestError('autoGenerateScore must be a number between 0 and 1, or null');
+  }
+}
+
+function isKeywordList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((k) => typeof k === 'string');
+}
+
+/**
+ * Reject keywords that do not parse as queries, naming the first one
+ */
+function validateKeywords(keywords: string[]): void {
+  const [issue] = compileKeywords(keywords).issues;
+
+  if (issue) {
+    throw new BadRequestError(`Invalid keyword "${issue.keyword}": ${issue.message}`);
+  }
+}
+
+function isReferenceList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length <= MAX_DRAFT_EXAMPLES && value.every((r) => typeof r === 'string');
+}
+
+/**
+ * An exhausted AI budget is the caller's to wait out, not a server failure
+ */
+function assistantError(error: unknown): unknown {
+  return error instanceof BudgetExceededError
+    ? new TooManyRequestsError('AI budget exceeded, try again once it resets')
+    : error;
+}
+
+function validateBackfillDays(days: unknown): number {
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_BACKFILL_DAYS) {
+    throw new BadRequestError(`days must be an integer between 1 and ${MAX_BACKFILL_DAYS}`);
+  }
+
+  return days;
+}
 
 // GET /api/topics - List all topics
 router.get('/', optionalAuth, async (req, res, next) => {
@@ -24,6 +114,159 @@ router.get('/', optionalAuth, async (req, res, next) => {
   }
 });
 
+// GET /api/topics/agreement - How often reviewers agreed with the model, per topic
+router.get('/agreement', optionalAuth, async (_req, res, next) => {
+  try {
+    const stats = await feedbackRepo.getAgreementStats();
+    res.json({ data: stats });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/topics/keyword-audit - Estimated keyword recall per topic, from sampled misses
+router.get('/keyword-audit', authenticate, async (req, res, next) => {
+  try {
+    const days = req.query.days !== undefined ? Number(req.query.days) : DEFAULT_KEYWORD_AUDIT_DAYS;
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_KEYWORD_AUDIT_DAYS) {
+      throw new BadRequestError(`days must be an integer between 1 and ${MAX_KEYWORD_AUDIT_DAYS}`);
+    }
+
+    const report = await keywordAudit.report(days);
+    res.json({ data: report });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/topics/keywords/validate - Check that keywords parse as queries
+router.post('/keywords/validate', authenticate, async (req, res, next) => {
+  try {
+    if (!isKeywordList(req.body.keywords)) {
+      throw new BadRequestError('keywords must be an array of strings');
+    }
+
+    const { issues } = compileKeywords(req.body.keywords);
+    const result: KeywordValidationResult = { valid: issues.length === 0, issues };
+
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/topics/keywords/preview - Run keywords over the articles of the last days
+router.post('/keywords/preview', authenticate, async (req, res, next) => {
+  try {
+    if (!isKeywordList(req.body.keywords) || req.body.keywords.length === 0) {
+      throw new BadRequestError('keywords must be a non-empty array');
+    }
+
+    validateKeywords(req.body.keywords);
+
+    const compiled = compileKeywords(req.body.keywords);
+    const withoutExclusions = { ...compiled, exclude: [] };
+    const articles = await articleRepo.findRecentSnippets(PREVIEW_DAYS, PREVIEW_MAX_ARTICLES);
+
+    const preview: KeywordPreview = {
+      days: PREVIEW_DAYS,
+      scanned: articles.length,
+      matched: 0,
+      excluded: 0,
+      articles: [],
+    };
+
+    // Matched on title and lede, as at insert time
+    for (const article of articles) {
+      const text = prepareText(`${article.title} ${article.lede}`);
+      const matchedKeywords = findMatchingKeywords(compiled, text);
+
+      if (matchedKeywords.length > 0) {
+        preview.matched++;
+        if (preview.articles.length < PREVIEW_SAMPLE_SIZE) {
+          preview.articles.push({
+            id: article.id,
+            title: article.title,
+            url: article.url,
+            sourceName: article.sourceName,
+            publishedAt: article.publishedAt,
+            matchedKeywords,
+          });
+        }
+      } else if (compiled.exclude.length > 0 && findMatchingKeywords(withoutExclusions, text).length > 0) {
+        preview.excluded++;
+      }
+    }
+
+    res.json({ data: preview });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/topics/assistant/draft - Draft a topic from a description and example articles (admin only)
+router.post('/assistant/draft', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const description = typeof req.body.description === 'string' ? req.body.description.trim() : '';
+
+    if (!description) {
+      throw new BadRequestError('description must be a non-empty string');
+    }
+
+    if (req.body.examples !== undefined && !isReferenceList(req.body.examples)) {
+      throw new BadRequestError(`examples must be an array of at most ${MAX_DRAFT_EXAMPLES} article URLs or IDs`);
+    }
+
+    const input: TopicDraftInput = { description, examples: req.body.examples };
+    const draft = await topicAuthor.draft(input);
+
+    res.json({ data: draft });
+  } catch (error) {
+    next(assistantError(error));
+  }
+});
+
+// POST /api/topics/assistant/dry-run - Score a draft over recent articles without saving it (admin only)
+router.post('/assistant/dry-run', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const input: TopicDryRunInput = {
+      name: req.body.name,
+      aiPrompt: req.body.aiPrompt,
+      keywords: req.body.keywords,
+      minRelevanceScore: req.body.minRelevanceScore,
+      exampleIds: req.body.exampleIds,
+    };
+
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new BadRequestError('name must be a non-empty string');
+    }
+
+    if (typeof input.aiPrompt !== 'string' || !input.aiPrompt.trim()) {
+      throw new BadRequestError('aiPrompt must be a non-empty string');
+    }
+
+    if (!isKeywordList(input.keywords) || input.keywords.length === 0) {
+      throw new BadRequestError('keywords must be a non-empty array');
+    }
+
+    validateKeywords(input.keywords);
+
+    if (input.minRelevanceScore !== undefined && !isValidScore(input.minRelevanceScore)) {
+      throw new BadRequestError('minRelevanceScore must be a number between 0 and 1');
+    }
+
+    if (input.exampleIds !== undefined && !isReferenceList(input.exampleIds)) {
+      throw new BadRequestError(`exampleIds must be an array of at most ${MAX_DRAFT_EXAMPLES} article IDs`);
+    }
+
+    const dryRun = await topicAuthor.dryRun(input);
+    res.json({ data: dryRun });
+  } catch (error) {
+    next(assistantError(error));
+  }
+});
+
 // GET /api/topics/:id - Get topic details
 router.get('/:id', optionalAuth, async (req, res, next) => {
   try {
@@ -48,17 +291,22 @@ router.post('/', authenticate, requireRole('admin'), async (req, res, next) => {
       keywords: req.body.keywords,
       aiPrompt: req.body.aiPrompt,
       minRelevanceScore: req.body.minRelevanceScore,
+      autoGenerateScore: req.body.autoGenerateScore,
       isActive: req.body.isActive,
     };
 
+    validateThresholds(input);
+
     if (!input.name || !input.keywords || !input.aiPrompt) {
       throw new BadRequestError('name, keywords, and aiPrompt are required');
     }
 
-    if (!Array.isArray(input.keywords) || input.keywords.length === 0) {
+    if (!isKeywordList(input.keywords) || input.keywords.length === 0) {
       throw new BadRequestError('keywords must be a non-empty array');
     }
 
+    validateKeywords(input.keywords);
+
     const topic = await topicRepo.create(input, req.user?.id);
     res.status(201).json({ data: topic });
   } catch (error) {
@@ -67,7 +315,7 @@ router.post('/', authenticate, requireRole('admin'), async (req, res, next) => {
 });
 
 // PATCH /api/topics/:id - Update topic (admin only)
-router.patch('/:id', authenticate, requireRole('admin'), async (req, res, next) => {
+router.patch<{ id: string }>('/:id', authenticate, requireRole('admin'), async (req, res, next) => {
   try {
     const input: UpdateTopicInput = {
       name: req.body.name,
@@ -75,9 +323,20 @@ router.patch('/:id', authenticate, requireRole('admin'), async (req, res, next)
       keywords: req.body.keywords,
       aiPrompt: req.body.aiPrompt,
       minRelevanceScore: req.body.minRelevanceScore,
+      autoGenerateScore: req.body.autoGenerateScore,
       isActive: req.body.isActive,
     };
 
+    validateThresholds(input);
+
+    if (input.keywords !== undefined) {
+      if (!isKeywordList(input.keywords) || input.keywords.length === 0) {
+        throw new BadRequestError('keywords must be a non-empty array');
+      }
+
+      validateKeywords(input.keywords);
+    }
+
     // Remove undefined fields
     Object.keys(input).forEach((key) => {
       if (input[key as keyof UpdateTopicInput] === undefined) {
@@ -85,12 +344,18 @@ router.patch('/:id', authenticate, requireRole('admin'), async (req, res, next)
       }
     });
 
+    const previous = await topicRepo.findById(req.params.id);
     const topic = await topicRepo.update(req.params.id, input);
 
-    if (!topic) {
+    if (!previous || !topic) {
       throw new NotFoundError('Topic non trouvé');
     }
 
+    // Articles already analyzed follow the new threshold, and only active topics count
+    if (topic.minRelevanceScore !== previous.minRelevanceScore || topic.isActive !== previous.isActive) {
+      await articleRepo.refreshRelevanceStatus(topic.id);
+    }
+
     res.json({ data: topic });
   } catch (error) {
     next(error);
@@ -125,12 +390,44 @@ router.post('/:id/toggle', authenticate, requireRole('admin'), async (req, res,
       throw new NotFoundError('Topic non trouvé');
     }
 
+    // Only active topics count in the relevance of analyzed articles
+    await articleRepo.refreshRelevanceStatus(topic.id);
+
     res.json({ data: topic });
   } catch (error) {
     next(error);
   }
 });
 
+// POST /api/topics/:id/keywords - Add one keyword, e.g. a suggestion of the keyword audit (admin only)
+router.post<{ id: string }>('/:id/keywords', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const keyword = typeof req.body.keyword === 'string' ? req.body.keyword.trim() : '';
+
+    if (!keyword) {
+      throw new BadRequestError('keyword must be a non-empty string');
+    }
+
+    const current = await topicRepo.findById(req.params.id);
+
+    if (!current) {
+      throw new NotFoundError('Topic non trouvé');
+    }
+
+    if (current.keywords.some((k) => foldText(k.trim()) === foldText(keyword))) {
+      throw new ConflictError(`Keyword "${keyword}" is already in the topic`);
+    }
+
+    const keywords = [...current.keywords, keyword];
+    validateKeywords(keywords);
+
+    const topic = await topicRepo.update(current.id, { keywords });
+    res.status(201).json({ data: topic });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/topics/:id/articles - Get articles for a topic
 router.get('/:id/articles', optionalAuth, async (req, res, next) => {
   try {
@@ -155,3 +452,99 @@ router.get('/:id/articles', optionalAuth, async (req, res, next) => {
     next(error);
   }
 });
+
+// GET /api/topics/:id/backfills/estimate - What a backfill would analyze and cost (admin only)
+router.get<{ id: string }>('/:id/backfills/estimate', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const topic = await topicRepo.findById(req.params.id);
+
+    if (!topic) {
+      throw new NotFoundError('Topic non trouvé');
+    }
+
+    const days = validateBackfillDays(
+      req.query.days !== undefined ? Number(req.query.days) : DEFAULT_BACKFILL_DAYS
+    );
+    const estimate = await topicBackfill.estimate(topic, days, req.query.rescore === 'true');
+
+    res.json({ data: estimate });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/topics/:id/backfills - Latest backfills of a topic, with their progress
+router.get<{ id: string }>('/:id/backfills', optionalAuth, async (req, res, next) => {
+  try {
+    const backfills = await backfillRepo.findByTopic(req.params.id);
+    res.json({ data: backfills });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/topics/:id/backfills - Match the topic against recent articles and analyze the matches (admin only)
+router.post<{ id: string }>('/:id/backfills', authenticate, requireRole('admin'), async (req, res, next) => {
+  try {
+    const input: CreateTopicBackfillInput = {
+      days: validateBackfillDays(req.body.days),
+      rescore: req.body.rescore === true,
+    };
+
+    const topic = await topicRepo.findById(req.params.id);
+
+    if (!topic) {
+      throw new NotFoundError('Topic non trouvé');
+    }
+
+    if (!topic.isActive) {
+      throw new BadRequestError('Cannot backfill an inactive topic');
+    }
+
+    if (await backfillRepo.findInProgress(topic.id)) {
+      throw new ConflictError('A backfill is already in progress for this topic');
+    }
+
+    // Stored with the backfill, to compare with what it actually cost. The scan itself runs in the job.
+    const estimate = await topicBackfill.estimate(topic, input.days, input.rescore ?? false);
+
+    const backfill = await backfillRepo.create({
+      topicId: topic.id,
+      days: input.days,
+      rescore: input.rescore ?? false,
+      estimatedAnalyses: estimate.analyses,
+      estimatedCostUsd: estimate.estimatedCostUsd,
+      createdBy: (req.user as AuthUser).id,
+    });
+
+    await addTopicBackfillJob(backfill.id);
+
+    res.status(202).json({ data: backfill });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/topics/:id/backfills/:backfillId/cancel - Stop a backfill, queued analyses are dropped (admin only)
+router.post<{ id: string; backfillId: string }>(
+  '/:id/backfills/:backfillId/cancel',
+  authenticate,
+  requireRole('admin'),
+  async (req, res, next) => {
+    try {
+      const backfill = await backfillRepo.findById(req.params.backfillId);
+
+      if (!backfill || backfill.topicId !== req.params.id) {
+        throw new NotFoundError('Backfill non trouvé');
+      }
+
+      if (!(await backfillRepo.cancel(backfill.id))) {
+        throw new BadRequestError('Backfill is no longer in progress');
+      }
+
+      res.json({ data: await backfillRepo.findById(backfill.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
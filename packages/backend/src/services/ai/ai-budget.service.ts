@@ -0,0 +1,193 @@
+import { AI_BUDGET_LEVELS, AI_BUDGET_THRESHOLDS } from '@media-scanner/shared';
+import { AiBudgetRepository } from '../../repositories/ai-budget.repository.js';
+import { env } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import type {
+  AiBudgetLevel,
+  AiBudgetStatus,
+  AiBudgetUsage,
+  AiPurpose,
+  SourceCategory,
+} from '@media-scanner/shared';
+
+// Spending is summed in the database, a little staleness spares a query per call
+const STATUS_CACHE_MS = 30 * 1000;
+
+// Budgets on these purposes, or on every call, drive the degradation of the pipeline
+const PIPELINE_PURPOSES: AiPurpose[] = ['relevance', 'multi_topic_relevance'];
+const GENERATION_PURPOSES: AiPurpose[] = ['post_generation', 'post_regeneration'];
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public purpose: AiPurpose | undefined,
+    public level: AiBudgetLevel
+  ) {
+    super(`AI budget exceeded for ${purpose || 'AI calls'} (level: ${level})`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+interface LoadedStatus {
+  status: AiBudgetStatus;
+  // Purposes whose own budget is spent, whatever the pipeline level
+  exhausted: Set<AiPurpose>;
+  loadedAt: number;
+}
+
+const budgetRepo = new AiBudgetRepository();
+
+class AiBudgetService {
+  private cached: LoadedStatus | null = null;
+  private loading: Promise<LoadedStatus> | null = null;
+
+  async getStatus(): Promise<AiBudgetStatus> {
+    return (await this.load()).status;
+  }
+
+  /**
+   * Forget the cached status, after budgets or overrides changed
+   */
+  invalidate(): void {
+    this.cached = null;
+  }
+
+  /**
+   * Whether a call for this purpose may go out at all
+   */
+  async allows(purpose?: AiPurpose): Promise<boolean> {
+    const { status, exhausted } = await this.load();
+
+    if (status.level === 'paused') return false;
+    if (!purpose) return true;
+    if (GENERATION_PURPOSES.includes(purpose) && status.level !== 'normal') return false;
+
+    // An override lifts the limits of single purposes as well
+    return status.override !== null || !exhausted.has(purpose);
+  }
+
+  /**
+   * Which articles may be analyzed now, the others wait for the budget to reset
+   */
+  async articleAdmission(): Promise<'all' | 'priority' | 'none'> {
+    const { status } = await this.load();
+
+    switch (status.level) {
+      case 'paused':
+        return 'none';
+      case 'restricted':
+        return 'priority';
+      default:
+        return 'all';
+    }
+  }
+
+  /**
+   * Articles still analyzed under a restricted budget
+   */
+  isPriority(article: { sourceCategory: SourceCategory | null; keywordMatches: number }): boolean {
+    return article.sourceCategory === 'national'
+      || article.keywordMatches >= env.AI_BUDGET_MIN_KEYWORD_MATCHES;
+  }
+
+  private async load(): Promise<LoadedStatus> {
+    if (this.cached && Date.now() - this.cached.loadedAt < STATUS_CACHE_MS) {
+      return this.cached;
+    }
+
+    // Concurrent workers share one refresh
+    if (!this.loading) {
+      this.loading = this.refresh().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async refresh(): Promise<LoadedStatus> {
+    const [spending, override] = await Promise.all([
+      budgetRepo.findSpending(),
+      budgetRepo.findActiveOverride(),
+    ]);
+
+    const budgets: AiBudgetUsage[] = spending.map(({ budget, periodStart, spentUsd }) => {
+      const ratio = spentUsd / budget.limitUsd;
+      return { ...budget, periodStart, spentUsd, ratio, level: this.levelFor(ratio) };
+    });
+
+    await this.raiseAlerts(budgets);
+
+    const computedLevel = this.mostSevere(
+      budgets
+        .filter((b) => b.purpose === null || PIPELINE_PURPOSES.includes(b.purpose))
+        .map((b) => b.level)
+    );
+    const level = override?.level ?? computedLevel;
+
+    const previousLevel = this.cached?.status.level;
+    if (previousLevel && previousLevel !== level) {
+      logger.warn({ previousLevel, level, overridden: override !== null }, 'AI budget level changed');
+    }
+
+    this.cached = {
+      status: {
+        level,
+        computedLevel,
+        override,
+        budgets,
+        alerts: await budgetRepo.findOpenAlerts(),
+      },
+      exhausted: new Set(
+        budgets.filter((b) => b.purpose !== null && b.ratio >= 1).map((b) => b.purpose as AiPurpose)
+      ),
+      loadedAt: Date.now(),
+    };
+
+    return this.cached;
+  }
+
+  /**
+   * One alert per budget, period and step reached
+   */
+  private async raiseAlerts(budgets: AiBudgetUsage[]): Promise<void> {
+    for (const budget of budgets) {
+      if (budget.level === 'normal') continue;
+
+      const raised = await budgetRepo.recordAlert({
+        budgetId: budget.id,
+        periodStart: budget.periodStart,
+        level: budget.level,
+        spentUsd: budget.spentUsd,
+        limitUsd: budget.limitUsd,
+      });
+
+      if (raised) {
+        logger.warn({
+          budgetId: budget.id,
+          purpose: budget.purpose,
+          period: budget.period,
+          spentUsd: budget.spentUsd,
+          limitUsd: budget.limitUsd,
+          level: budget.level,
+        }, 'AI budget alert');
+      }
+    }
+  }
+
+  private levelFor(ratio: number): AiBudgetLevel {
+    if (ratio >= AI_BUDGET_THRESHOLDS.paused) return 'paused';
+    if (ratio >= AI_BUDGET_THRESHOLDS.restricted) return 'restricted';
+    if (ratio >= AI_BUDGET_THRESHOLDS.no_generation) return 'no_generation';
+    return 'normal';
+  }
+
+  private mostSevere(levels: AiBudgetLevel[]): AiBudgetLevel {
+    return levels.reduce<AiBudgetLevel>(
+      (worst, level) => AI_BUDGET_LEVELS.indexOf(level) > AI_BUDGET_LEVELS.indexOf(worst) ? level : worst,
+      'normal'
+    );
+  }
+}
+
+// Export singleton instance
+export const aiBudget = new AiBudgetService();
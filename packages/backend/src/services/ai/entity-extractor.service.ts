@@ -0,0 +1,50 @@
+import { llmService } from './llm.service.js';
+import { promptRegistry } from './prompt-registry.service.js';
+import { entityExtractionResponse } from './schemas.js';
+import { entityExtractionPromptVariables } from '@media-scanner/shared';
+import { logger } from '../../utils/logger.js';
+import type { EntityMention } from '../entities/entity-resolver.service.js';
+
+export interface ArticleForEntityExtraction {
+  id: string;
+  title: string;
+  lede: string;
+  fullText?: string;
+  source: string;
+}
+
+// Who and where is told early on, the rest of a long article adds little
+const MAX_EXTRACTION_TEXT_LENGTH = 4000;
+
+class EntityExtractorService {
+  /**
+   * Politicians, public bodies, companies and communes named by an article, as the model gave them
+   */
+  async extract(article: ArticleForEntityExtraction): Promise<EntityMention[]> {
+    const prompt = await promptRegistry.render('entity_extraction', entityExtractionPromptVariables({
+      title: article.title,
+      lede: article.lede,
+      fullText: article.fullText?.slice(0, MAX_EXTRACTION_TEXT_LENGTH),
+      source: article.source,
+    }));
+
+    const result = await llmService.chatJson(
+      [{ role: 'user', content: prompt.userPrompt }],
+      entityExtractionResponse,
+      {
+        maxTokens: 1000,
+        temperature: 0, // Extraction, not writing
+        systemPrompt: prompt.systemPrompt,
+        purpose: 'entity_extraction',
+        articleId: article.id,
+      }
+    );
+
+    logger.debug({ articleId: article.id, entities: result.entities.length }, 'Entities extracted');
+
+    return result.entities;
+  }
+}
+
+// Export singleton instance
+export const entityExtractor = new EntityExtractorService();
@@ -1,6 +1,11 @@
-export { claudeService } from './claude.service.js';
+export { llmService, InvalidLlmResponseError } from './llm.service.js';
 export { relevanceAnalyzer } from './relevance-analyzer.service.js';
 export { postGenerator } from './post-generator.service.js';
+export { relevanceEvaluation } from './relevance-evaluation.service.js';
+export { topicAuthor } from './topic-author.service.js';
+export { entityExtractor } from './entity-extractor.service.js';
 
-export type { ArticleForAnalysis } from './relevance-analyzer.service.js';
+export type { LlmMessage, LlmOptions, LlmPurpose } from './llm.service.js';
+export type { ArticleForAnalysis, TopicAnalysisOptions } from './relevance-analyzer.service.js';
 export type { ArticleForPostGeneration, DailySummaryResult } from './post-generator.service.js';
+export type { ArticleForEntityExtraction } from './entity-extractor.service.js';
@@ -0,0 +1,340 @@
+import { env } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { RateLimiter } from '../../utils/rate-limiter.js';
+import { withRetry } from '../../utils/retry.js';
+import {
+  AnthropicProvider,
+  OpenAiCompatibleProvider,
+  ReplayProvider,
+  DEFAULT_FIXTURES_DIR,
+  type LlmProvider,
+  type LlmMessage,
+  type LlmPurpose,
+  type LlmResponse,
+  type LlmResponseFormat,
+} from './providers/index.js';
+import { toJsonSchema, type ResponseSchema } from './schemas.js';
+import { AiUsageRepository } from '../../repositories/ai-usage.repository.js';
+import { aiBudget, BudgetExceededError } from './ai-budget.service.js';
+import { RESPONSE_REPAIR_PROMPT } from '@media-scanner/shared';
+import type { AiCallOutcome } from '@media-scanner/shared';
+
+export type { LlmMessage, LlmPurpose } from './providers/index.js';
+
+export interface LlmOptions {
+  model?: string; // Defaults to LLM_MODEL, then to the provider's own default
+  maxTokens?: number;
+  temperature?: number;
+  systemPrompt?: string;
+  // Usage accounting: what the call is for and what it is about
+  purpose?: LlmPurpose;
+  articleId?: string;
+  socialPostId?: string;
+  topicIds?: string[];
+}
+
+interface CompletedCall {
+  options: LlmOptions;
+  response: LlmResponse;
+  duration: number;
+}
+
+const DEFAULT_OPTIONS: LlmOptions = {
+  maxTokens: 1024,
+  temperature: 0.7,
+};
+
+// An invalid JSON reply is sent back once with its validation errors
+const MAX_REPAIR_ATTEMPTS = 1;
+
+export class InvalidLlmResponseError extends Error {
+  constructor(
+    public purpose: LlmPurpose | undefined,
+    public errors: string[]
+  ) {
+    super(`Invalid LLM response${purpose ? ` for ${purpose}` : ''}: ${errors.join('; ')}`);
+    this.name = 'InvalidLlmResponseError';
+  }
+}
+
+type ValidationResult<T> = { data: T } | { errors: string[] };
+
+/**
+ * Extract the JSON payload of a reply, which may come wrapped in prose or a markdown code block
+ */
+function extractJson(response: string): string {
+  let jsonStr = response;
+
+  // Remove markdown code blocks if present
+  const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    jsonStr = jsonMatch[1].trim();
+  }
+
+  // Try to find JSON object or array
+  const objectMatch = jsonStr.match(/\{[\s\S]*\}/);
+  const arrayMatch = jsonStr.match(/\[[\s\S]*\]/);
+
+  if (objectMatch) {
+    jsonStr = objectMatch[0];
+  } else if (arrayMatch) {
+    jsonStr = arrayMatch[0];
+  }
+
+  return jsonStr;
+}
+
+function validateJson<T>(response: string, schema: ResponseSchema<T>): ValidationResult<T> {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(extractJson(response));
+  } catch (parseError) {
+    const message = parseError instanceof Error ? parseError.message : 'Parse error';
+    return { errors: [`Invalid JSON: ${message}`] };
+  }
+
+  const result = schema.schema.safeParse(parsed);
+
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  return {
+    errors: result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+const aiUsageRepo = new AiUsageRepository();
+
+function createProvider(): LlmProvider {
+  const fixturesDir = env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+  switch (env.LLM_PROVIDER) {
+    case 'openai':
+      return new OpenAiCompatibleProvider(env.OPENAI_COMPAT_BASE_URL, env.OPENAI_COMPAT_API_KEY);
+    case 'replay':
+      return new ReplayProvider(fixturesDir);
+    default:
+      // Presence checked at startup when the provider is anthropic
+      return new AnthropicProvider(env.ANTHROPIC_API_KEY!);
+  }
+}
+
+class LlmService {
+  private provider: LlmProvider;
+  private rateLimiter: RateLimiter | null;
+  private recorder: ReplayProvider | null;
+  private requestCount = 0;
+
+  constructor() {
+    this.provider = createProvider();
+
+    this.rateLimiter = this.provider.requestsPerMinute
+      ? new RateLimiter({
+          tokensPerInterval: this.provider.requestsPerMinute,
+          interval: 60 * 1000, // 1 minute
+        })
+      : null;
+
+    // Recording a replay of itself would be pointless
+    this.recorder = env.LLM_RECORD_FIXTURES && this.provider.name !== 'replay'
+      ? new ReplayProvider(env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR)
+      : null;
+
+    logger.info({
+      provider: this.provider.name,
+      model: env.LLM_MODEL || this.provider.defaultModel,
+      recording: this.recorder !== null,
+    }, 'LLM provider configured');
+  }
+
+  async chat(
+    messages: LlmMessage[],
+    options: LlmOptions = {}
+  ): Promise<string> {
+    const call = await this.send(messages, options);
+    this.track(call, 'success');
+
+    return call.response.text;
+  }
+
+  /**
+   * Chat expecting a JSON reply of the given shape. Providers that support it
+   * are constrained to the schema; a reply that still fails validation is sent
+   * back with its errors before giving up with InvalidLlmResponseError.
+   */
+  async chatJson<T>(
+    messages: LlmMessage[],
+    schema: ResponseSchema<T>,
+    options: LlmOptions = {}
+  ): Promise<T> {
+    const responseFormat: LlmResponseFormat = {
+      name: schema.name,
+      description: schema.description,
+      jsonSchema: toJsonSchema(schema),
+    };
+
+    let conversation = messages;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const call = await this.send(conversation, options, responseFormat);
+      const response = call.response.text;
+      const result = validateJson(response, schema);
+
+      if ('data' in result) {
+        this.track(call, 'success');
+        return result.data;
+      }
+
+      errors = result.errors;
+
+      logger.warn({
+        purpose: options.purpose,
+        articleId: options.articleId,
+        attempt,
+        errors,
+        response: response.slice(0, 500),
+      }, 'Invalid LLM JSON response');
+
+      this.track(call, 'invalid_response', errors.join('; '));
+
+      conversation = [
+        ...messages,
+        { role: 'assistant', content: response || '(empty)' },
+        { role: 'user', content: RESPONSE_REPAIR_PROMPT(errors) },
+      ];
+    }
+
+    throw new InvalidLlmResponseError(options.purpose, errors);
+  }
+
+  /**
+   * Send a request through the provider within the AI budget, recording failed calls
+   */
+  private async send(
+    messages: LlmMessage[],
+    options: LlmOptions,
+    responseFormat?: LlmResponseFormat
+  ): Promise<CompletedCall> {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const request = {
+      model: opts.model || env.LLM_MODEL || this.provider.defaultModel,
+      maxTokens: opts.maxTokens!,
+      temperature: opts.temperature,
+      systemPrompt: opts.systemPrompt,
+      messages,
+      purpose: opts.purpose,
+      responseFormat,
+    };
+
+    if (!(await aiBudget.allows(opts.purpose))) {
+      const { level } = await aiBudget.getStatus();
+      logger.info({ purpose: opts.purpose, level }, 'LLM request refused by AI budget');
+      throw new BudgetExceededError(opts.purpose, level);
+    }
+
+    // Wait for rate limit
+    if (this.rateLimiter) {
+      await this.rateLimiter.waitForToken();
+    }
+
+    const startTime = Date.now();
+    this.requestCount++;
+
+    try {
+      const response = await withRetry(
+        () => this.provider.complete(request),
+        {
+          maxAttempts: 3,
+          initialDelayMs: 1000,
+          maxDelayMs: 10000,
+          backoffMultiplier: 2,
+          retryableErrors: ['rate_limit', 'overloaded', 'timeout', 'ECONNRESET', 'fetch failed', '429', '503'],
+        }
+      );
+
+      const duration = Date.now() - startTime;
+
+      logger.debug({
+        provider: this.provider.name,
+        model: response.model,
+        purpose: opts.purpose,
+        duration,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+        requestNumber: this.requestCount,
+      }, 'LLM request completed');
+
+      if (this.recorder) {
+        this.recorder.record(request, response);
+      }
+
+      return { options: opts, response, duration };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error({
+        error: message,
+        provider: this.provider.name,
+        model: request.model,
+        purpose: opts.purpose,
+        duration,
+        requestNumber: this.requestCount,
+      }, 'LLM request failed');
+
+      this.track({
+        options: opts,
+        response: { text: '', model: request.model, inputTokens: 0, outputTokens: 0 },
+        duration,
+      }, 'error', message);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Persist the usage of a call. Accounting never fails the call itself.
+   */
+  private track(call: CompletedCall, outcome: AiCallOutcome, error?: string): void {
+    aiUsageRepo.create({
+      provider: this.provider.name,
+      model: call.response.model,
+      purpose: call.options.purpose,
+      articleId: call.options.articleId,
+      socialPostId: call.options.socialPostId,
+      topicIds: call.options.topicIds,
+      inputTokens: call.response.inputTokens,
+      outputTokens: call.response.outputTokens,
+      latencyMs: call.duration,
+      costUsd: this.provider.estimateCost(call.response),
+      outcome,
+      error,
+    }).catch((err) => {
+      logger.warn({
+        error: err instanceof Error ? err.message : 'Unknown error',
+        purpose: call.options.purpose,
+      }, 'Failed to record AI usage');
+    });
+  }
+
+  /**
+   * Model used when a call does not ask for one
+   */
+  getDefaultModel(): string {
+    return env.LLM_MODEL || this.provider.defaultModel;
+  }
+
+  getStats() {
+    return {
+      provider: this.provider.name,
+      requestCount: this.requestCount,
+      rateLimiterTokens: this.rateLimiter?.getAvailableTokens() ?? null,
+    };
+  }
+}
+
+// Export singleton instance
+export const llmService = new LlmService();
@@ -1,10 +1,7 @@
-import { claudeService } from './claude.service.js';
-import {
-  POST_GENERATION_SYSTEM_PROMPT,
-  POST_GENERATION_USER_PROMPT,
-  DAILY_SUMMARY_SYSTEM_PROMPT,
-  DAILY_SUMMARY_USER_PROMPT,
-} from '@media-scanner/shared';
+import { llmService } from './llm.service.js';
+import { promptRegistry } from './prompt-registry.service.js';
+import { postGenerationResponse, dailySummaryResponse, type PostGenerationResponse } from './schemas.js';
+import { postGenerationPromptVariables, dailySummaryPromptVariables } from '@media-scanner/shared';
 import { logger } from '../../utils/logger.js';
 import type { GeneratePostsResult } from '@media-scanner/shared';
 
@@ -12,34 +9,17 @@ export interface ArticleForPostGeneration {
   id: string;
   title: string;
   lede: string;
+  fullText?: string;
   url: string;
   relevanceReasoning: string;
   potentialAngle: string;
   sourceName: string;
+  // Earlier articles of the story the article belongs to, oldest first
+  storyTimeline?: Array<{ date: string; title: string; source: string | null }>;
 }
 
-interface RawPostGenerationResult {
-  twitter: {
-    content: string;
-    hashtags: string[];
-  };
-  mastodon: {
-    content: string;
-    hashtags: string[];
-  };
-  bluesky: {
-    content: string;
-  };
-  tone: string;
-  quality_score: number;
-}
-
-interface RawDailySummaryResult {
-  titre: string;
-  introduction: string;
-  points_cles: string[];
-  conclusion: string;
-}
+// Posts only need the gist, the opening of the article carries it
+const MAX_GENERATION_TEXT_LENGTH = 3000;
 
 export interface DailySummaryResult {
   title: string;
@@ -64,27 +44,28 @@ class PostGeneratorService {
     }, 'Starting post generation');
 
     try {
-      const result = await claudeService.chatJson<RawPostGenerationResult>(
-        [
-          {
-            role: 'user',
-            content: POST_GENERATION_USER_PROMPT({
-              title: article.title,
-              lede: article.lede,
-              relevanceReasoning: article.relevanceReasoning,
-              potentialAngle: article.potentialAngle,
-            }),
-          },
-        ],
+      const prompt = await promptRegistry.render('post_generation', postGenerationPromptVariables({
+        title: article.title,
+        lede: article.lede,
+        fullText: article.fullText?.slice(0, MAX_GENERATION_TEXT_LENGTH),
+        relevanceReasoning: article.relevanceReasoning,
+        potentialAngle: article.potentialAngle,
+        storyTimeline: article.storyTimeline,
+      }));
+
+      const result = await llmService.chatJson(
+        [{ role: 'user', content: prompt.userPrompt }],
+        postGenerationResponse,
         {
-          model: 'claude-3-haiku-20240307', // Better quality for creative generation
           maxTokens: 1000,
           temperature: 0.8, // Higher temperature for creativity
-          systemPrompt: POST_GENERATION_SYSTEM_PROMPT,
+          systemPrompt: prompt.systemPrompt,
+          purpose: 'post_generation',
+          articleId: article.id,
         }
       );
 
-      const normalizedResult = this.normalizePostResult(result, article.url);
+      const normalizedResult = this.normalizePostResult(result, article.url, prompt.versionId);
 
       const duration = Date.now() - startTime;
 
@@ -132,27 +113,32 @@ class PostGeneratorService {
     article: ArticleForPostGeneration,
     instructions: string
   ): Promise<GeneratePostsResult> {
-    const customPrompt = `${POST_GENERATION_USER_PROMPT({
+    const prompt = await promptRegistry.render('post_generation', postGenerationPromptVariables({
       title: article.title,
       lede: article.lede,
+      fullText: article.fullText?.slice(0, MAX_GENERATION_TEXT_LENGTH),
       relevanceReasoning: article.relevanceReasoning,
       potentialAngle: article.potentialAngle,
-    })}
+    }));
+
+    const customPrompt = `${prompt.userPrompt}
 
 INSTRUCTIONS SUPPLÉMENTAIRES:
 ${instructions}`;
 
-    const result = await claudeService.chatJson<RawPostGenerationResult>(
+    const result = await llmService.chatJson(
       [{ role: 'user', content: customPrompt }],
+      postGenerationResponse,
       {
-        model: 'claude-3-haiku-20240307',
         maxTokens: 1000,
         temperature: 0.8,
-        systemPrompt: POST_GENERATION_SYSTEM_PROMPT,
+        systemPrompt: prompt.systemPrompt,
+        purpose: 'post_regeneration',
+        articleId: article.id,
       }
     );
 
-    return this.normalizePostResult(result, article.url);
+    return this.normalizePostResult(result, article.url, prompt.versionId);
   }
 
   /**
@@ -178,26 +164,24 @@ ${instructions}`;
     }
 
     try {
-      const result = await claudeService.chatJson<RawDailySummaryResult>(
-        [
-          {
-            role: 'user',
-            content: DAILY_SUMMARY_USER_PROMPT(articles),
-          },
-        ],
+      const prompt = await promptRegistry.render('daily_summary', dailySummaryPromptVariables(articles));
+
+      const result = await llmService.chatJson(
+        [{ role: 'user', content: prompt.userPrompt }],
+        dailySummaryResponse,
         {
-          model: 'claude-3-haiku-20240307',
           maxTokens: 1500,
           temperature: 0.6,
-          systemPrompt: DAILY_SUMMARY_SYSTEM_PROMPT,
+          systemPrompt: prompt.systemPrompt,
+          purpose: 'daily_summary',
         }
       );
 
       return {
-        title: result.titre || 'Synthèse du jour',
-        introduction: result.introduction || '',
-        keyPoints: result.points_cles || [],
-        conclusion: result.conclusion || '',
+        title: result.titre,
+        introduction: result.introduction,
+        keyPoints: result.points_cles,
+        conclusion: result.conclusion,
       };
     } catch (error) {
       logger.error({
@@ -214,33 +198,33 @@ ${instructions}`;
   }
 
   /**
-   * Normalize and validate the post generation result
+   * Fit the validated posts to each network's limits
    */
   private normalizePostResult(
-    raw: RawPostGenerationResult,
-    articleUrl: string
+    raw: PostGenerationResponse,
+    articleUrl: string,
+    promptVersionId: string
   ): GeneratePostsResult {
     // Ensure Twitter content fits within limit
-    let twitterContent = raw.twitter?.content || '';
+    let twitterContent = raw.twitter.content;
     if (twitterContent.length > 280) {
       twitterContent = twitterContent.slice(0, 277) + '...';
     }
 
     // Ensure Mastodon content fits within limit
-    let mastodonContent = raw.mastodon?.content || '';
+    let mastodonContent = raw.mastodon.content;
     if (mastodonContent.length > 500) {
       mastodonContent = mastodonContent.slice(0, 497) + '...';
     }
 
     // Ensure Bluesky content fits within limit
-    let blueskyContent = raw.bluesky?.content || '';
+    let blueskyContent = raw.bluesky.content;
     if (blueskyContent.length > 300) {
       blueskyContent = blueskyContent.slice(0, 297) + '...';
     }
 
     // Clean up hashtags
-    const cleanHashtags = (tags: string[] | undefined): string[] => {
-      if (!Array.isArray(tags)) return [];
+    const cleanHashtags = (tags: string[]): string[] => {
       return tags
         .map(tag => tag.startsWith('#') ? tag : `#${tag}`)
         .filter(tag => tag.length > 1 && tag.length <= 30)
@@ -250,17 +234,18 @@ ${instructions}`;
     return {
       twitter: {
         content: twitterContent,
-        hashtags: cleanHashtags(raw.twitter?.hashtags),
+        hashtags: cleanHashtags(raw.twitter.hashtags),
       },
       mastodon: {
         content: mastodonContent,
-        hashtags: cleanHashtags(raw.mastodon?.hashtags),
+        hashtags: cleanHashtags(raw.mastodon.hashtags),
       },
       bluesky: {
         content: blueskyContent,
       },
-      tone: raw.tone || 'ironic',
-      qualityScore: Math.max(0, Math.min(1, raw.quality_score || 0.5)),
+      tone: raw.tone,
+      qualityScore: raw.quality_score,
+      promptVersionId,
     };
   }
 
@@ -0,0 +1,119 @@
+import {
+  PROMPT_KEYS,
+  PROMPT_TEMPLATES,
+  findPromptVariables,
+  renderPromptTemplate,
+} from '@media-scanner/shared';
+import { PromptRepository } from '../../repositories/prompt.repository.js';
+import type {
+  CreatePromptVersionInput,
+  PromptKey,
+  PromptTemplate,
+  PromptVersion,
+} from '@media-scanner/shared';
+
+// Prompts rarely change, a little staleness spares a query per AI call
+const ACTIVE_VERSION_CACHE_MS = 60 * 1000;
+
+export interface RenderedPrompt {
+  // Recorded with what the prompt produced
+  versionId: string;
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+const promptRepo = new PromptRepository();
+
+class PromptRegistryService {
+  private cache = new Map<PromptKey, { version: PromptVersion; loadedAt: number }>();
+
+  /**
+   * Active version of a prompt, the shipped template being version 1
+   */
+  async getActive(key: PromptKey): Promise<PromptVersion> {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < ACTIVE_VERSION_CACHE_MS) {
+      return cached.version;
+    }
+
+    let version = await promptRepo.findActive(key);
+
+    if (!version) {
+      const template = PROMPT_TEMPLATES[key];
+      await promptRepo.seed(key, template.defaultSystemPrompt, template.defaultUserTemplate);
+      version = (await promptRepo.findActive(key))!;
+    }
+
+    this.cache.set(key, { version, loadedAt: Date.now() });
+
+    return version;
+  }
+
+  /**
+   * Fill the templates of a prompt, its active version unless another one is asked for
+   */
+  async render(key: PromptKey, variables: Record<string, string>, versionId?: string): Promise<RenderedPrompt> {
+    const version = versionId ? await promptRepo.findById(versionId) : await this.getActive(key);
+
+    if (!version || version.key !== key) {
+      throw new Error(`Prompt version ${versionId} not found for ${key}`);
+    }
+
+    return {
+      versionId: version.id,
+      systemPrompt: renderPromptTemplate(version.systemPrompt, variables),
+      userPrompt: renderPromptTemplate(version.userTemplate, variables),
+    };
+  }
+
+  /**
+   * Forget cached versions, after an edit or a rollback
+   */
+  invalidate(key?: PromptKey): void {
+    if (key) {
+      this.cache.delete(key);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  async listTemplates(): Promise<PromptTemplate[]> {
+    const activeVersions = await Promise.all(PROMPT_KEYS.map((key) => this.getActive(key)));
+    const counts = await promptRepo.countVersions();
+
+    return PROMPT_KEYS.map((key, i) => ({
+      key,
+      label: PROMPT_TEMPLATES[key].label,
+      description: PROMPT_TEMPLATES[key].description,
+      variables: PROMPT_TEMPLATES[key].variables,
+      activeVersion: activeVersions[i],
+      versionCount: counts.get(key) ?? 1,
+    }));
+  }
+
+  /**
+   * What prevents an edit from being saved, empty when nothing does
+   */
+  validate(key: PromptKey, input: CreatePromptVersionInput): string[] {
+    const template = PROMPT_TEMPLATES[key];
+    const used = new Set([
+      ...findPromptVariables(input.systemPrompt),
+      ...findPromptVariables(input.userTemplate),
+    ]);
+
+    const problems = [...used]
+      .filter((name) => !(name in template.variables))
+      .map((name) => `Variable inconnue : {{${name}}}`);
+
+    for (const name of template.requiredVariables) {
+      if (!used.has(name)) {
+        problems.push(`Variable obligatoire absente : {{${name}}}`);
+      }
+    }
+
+    return problems;
+  }
+}
+
+// Export singleton instance
+export const promptRegistry = new PromptRegistryService();
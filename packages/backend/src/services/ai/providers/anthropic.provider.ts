@@ -0,0 +1,83 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LlmProvider, LlmRequest, LlmResponse } from './types.js';
+
+// Public list prices in USD per million tokens, matched on the model ID prefix
+const PRICES_PER_MILLION_TOKENS: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-haiku-4', input: 1, output: 5 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-opus', input: 15, output: 75 },
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+];
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel = 'claude-3-haiku-20240307';
+  // Claude API rate limits: ~60 requests/minute for Haiku
+  readonly requestsPerMinute = 50;
+
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({
+      apiKey,
+      maxRetries: 0, // We handle retries ourselves
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const format = request.responseFormat;
+
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.systemPrompt,
+      messages: request.messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+      })),
+      // Structured output: the model is made to call a tool whose input is the reply
+      ...(format && {
+        tools: [{
+          name: format.name,
+          description: format.description,
+          input_schema: format.jsonSchema as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: 'tool' as const, name: format.name },
+      }),
+    });
+
+    const toolUse = response.content.find((block) => block.type === 'tool_use');
+    const content = response.content.find((block) => block.type === 'text');
+
+    let text: string;
+    if (format && toolUse) {
+      text = JSON.stringify(toolUse.input);
+    } else if (content) {
+      text = content.text;
+    } else {
+      throw new Error('Unexpected response type from Claude');
+    }
+
+    return {
+      text,
+      model: response.model,
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    };
+  }
+
+  estimateCost(response: LlmResponse): number | null {
+    const price = PRICES_PER_MILLION_TOKENS.find((p) => response.model.startsWith(p.prefix));
+
+    if (!price) {
+      return null;
+    }
+
+    return (response.inputTokens * price.input + response.outputTokens * price.output) / 1_000_000;
+  }
+}
@@ -0,0 +1,12 @@
+export { AnthropicProvider } from './anthropic.provider.js';
+export { OpenAiCompatibleProvider } from './openai-compatible.provider.js';
+export { ReplayProvider, DEFAULT_FIXTURES_DIR } from './replay.provider.js';
+
+export type {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmResponseFormat,
+  LlmMessage,
+  LlmPurpose,
+} from './types.js';
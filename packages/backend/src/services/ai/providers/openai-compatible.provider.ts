@@ -0,0 +1,83 @@
+import type { LlmProvider, LlmRequest, LlmResponse } from './types.js';
+
+// Local models can take a while on long articles
+const REQUEST_TIMEOUT_MS = 120000;
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{ message: { content: string | null } }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API:
+ * llama.cpp server, Ollama, vLLM, LM Studio...
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+  readonly defaultModel = 'llama3.1';
+  readonly requestsPerMinute = null;
+
+  constructor(
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const messages = [
+      ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+      ...request.messages,
+    ];
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages,
+        // Servers without JSON Schema support ignore it, the reply is validated anyway
+        ...(request.responseFormat && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: request.responseFormat.name,
+              schema: request.responseFormat.jsonSchema,
+            },
+          },
+        }),
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible endpoint responded ${response.status}`);
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const text = data.choices[0]?.message.content;
+
+    if (typeof text !== 'string') {
+      throw new Error('Unexpected response from OpenAI-compatible endpoint');
+    }
+
+    return {
+      text,
+      model: data.model || request.model,
+      inputTokens: data.usage?.prompt_tokens ?? 0,
+      outputTokens: data.usage?.completion_tokens ?? 0,
+    };
+  }
+
+  // Self-hosted models are not billed per token
+  estimateCost(): number {
+    return 0;
+  }
+}
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RESPONSE_REPAIR_PROMPT } from '@media-scanner/shared';
+import { ReplayProvider } from './replay.provider.js';
+import { relevanceResponse } from '../schemas.js';
+import type { LlmMessage } from './types.js';
+
+const usage = vi.hoisted(() => ({ create: vi.fn() }));
+
+// Neither the budget nor the usage accounting may reach the database
+vi.mock('../ai-budget.service.js', () => ({
+  aiBudget: { allows: async () => true, getStatus: async () => ({ level: 'ok' }) },
+  BudgetExceededError: class extends Error {},
+}));
+vi.mock('../../../repositories/ai-usage.repository.js', () => ({
+  AiUsageRepository: class {
+    create = usage.create;
+  },
+}));
+
+const SYSTEM_PROMPT = 'Tu analyses des articles de presse.';
+
+const relevance = {
+  relevance_score: 0.9,
+  reasoning: 'Article sur la CAF',
+  keywords: ['caf'],
+  categories: ['social'],
+  potential_angle: 'Délais de versement',
+};
+
+function ask(content: string): LlmMessage[] {
+  return [{ role: 'user', content }];
+}
+
+describe('LlmService.chatJson with ReplayProvider', () => {
+  let fixturesDir: string;
+  let recorder: ReplayProvider;
+  let llmService: typeof import('../llm.service.js').llmService;
+
+  function record(messages: LlmMessage[], text: string): void {
+    recorder.record(
+      { model: 'claude-test', maxTokens: 1024, systemPrompt: SYSTEM_PROMPT, messages },
+      { text, model: 'claude-test', inputTokens: 120, outputTokens: 40 }
+    );
+  }
+
+  beforeAll(async () => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+    recorder = new ReplayProvider(fixturesDir);
+
+    Object.assign(process.env, {
+      DATABASE_URL: 'postgres://test@localhost/test',
+      JWT_SECRET: 'test-jwt-secret',
+      SESSION_SECRET: 'test-session-secret',
+      GOOGLE_CLIENT_ID: 'test',
+      GOOGLE_CLIENT_SECRET: 'test',
+      LLM_PROVIDER: 'replay',
+      LLM_FIXTURES_DIR: fixturesDir,
+      LLM_RECORD_FIXTURES: 'false',
+    });
+
+    // The service reads its provider from the environment when first imported
+    ({ llmService } = await import('../llm.service.js'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    usage.create.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('returns the recorded response of a prompt', async () => {
+    const messages = ask('TITRE: Les délais de la CAF s\'allongent');
+    record(messages, `Voici l'analyse :\n\`\`\`json\n${JSON.stringify(relevance)}\n\`\`\``);
+
+    const result = await llmService.chatJson(messages, relevanceResponse, {
+      systemPrompt: SYSTEM_PROMPT,
+      purpose: 'relevance',
+    });
+
+    expect(result).toEqual(relevance);
+    expect(usage.create).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'replay',
+      model: 'claude-test',
+      purpose: 'relevance',
+      outcome: 'success',
+    }));
+  });
+
+  it('falls back to the default response of the purpose', async () => {
+    const result = await llmService.chatJson(ask('TITRE: Jamais enregistré'), relevanceResponse, {
+      systemPrompt: SYSTEM_PROMPT,
+      purpose: 'relevance',
+    });
+
+    expect(result.relevance_score).toBe(0.6);
+    expect(result.keywords).toEqual([]);
+  });
+
+  it('throws when the prompt was never recorded and has no purpose', async () => {
+    await expect(
+      llmService.chatJson(ask('TITRE: Sans objet'), relevanceResponse, { systemPrompt: SYSTEM_PROMPT })
+    ).rejects.toThrow(/No recorded response for prompt/);
+
+    expect(usage.create).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'error' }));
+  });
+
+  it('sends an invalid reply back with its errors and accepts the repaired one', async () => {
+    const messages = ask('TITRE: Réforme du RSA');
+    const invalid = JSON.stringify({ ...relevance, relevance_score: 7 });
+    record(messages, invalid);
+
+    // The repair prompt lists the validation errors of the first reply
+    const issues = relevanceResponse.schema.safeParse(JSON.parse(invalid)).error!.issues;
+    const repairMessages: LlmMessage[] = [
+      ...messages,
+      { role: 'assistant', content: invalid },
+      { role: 'user', content: RESPONSE_REPAIR_PROMPT(issues.map((i) => `${i.path.join('.')}: ${i.message}`)) },
+    ];
+    record(repairMessages, JSON.stringify(relevance));
+
+    const result = await llmService.chatJson(messages, relevanceResponse, {
+      systemPrompt: SYSTEM_PROMPT,
+      purpose: 'relevance',
+    });
+
+    expect(result).toEqual(relevance);
+    expect(usage.create.mock.calls.map(([call]) => call.outcome)).toEqual(['invalid_response', 'success']);
+  });
+});
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import { TOPIC_PROMPT_SECTIONS } from '@media-scanner/shared';
+import type { LlmProvider, LlmPurpose, LlmRequest, LlmResponse } from './types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// packages/backend/fixtures/llm, from src/ as well as dist/
+export const DEFAULT_FIXTURES_DIR = path.resolve(__dirname, '../../../../fixtures/llm');
+
+interface Fixture {
+  key: string;
+  purpose?: LlmPurpose;
+  model: string;
+  recordedAt: string;
+  systemPrompt?: string;
+  messages: LlmRequest['messages'];
+  response: string;
+}
+
+const REPLAY_REASONING = 'Réponse rejouée hors ligne, aucun modèle n\'a été appelé';
+
+/**
+ * Canned answers for prompts that were never recorded, so that a fresh
+ * checkout runs the whole pipeline: every article is deemed relevant
+ * and gets placeholder posts.
+ */
+const DEFAULT_RESPONSES: Record<LlmPurpose, (prompt: string) => unknown> = {
+  relevance: () => ({
+    relevance_score: 0.6,
+    reasoning: REPLAY_REASONING,
+    keywords: [],
+    categories: [],
+    potential_angle: '',
+  }),
+  multi_topic_relevance: (prompt) => topicScores(prompt),
+  evaluation: (prompt) => topicScores(prompt),
+  keyword_audit: (prompt) => topicScores(prompt),
+  post_generation: (prompt) => placeholderPosts(prompt),
+  post_regeneration: (prompt) => placeholderPosts(prompt),
+  daily_summary: () => ({
+    titre: 'Synthèse du jour (rejouée)',
+    introduction: REPLAY_REASONING,
+    points_cles: [],
+    conclusion: '',
+  }),
+  topic_authoring: (prompt) => placeholderTopic(prompt),
+  entity_extraction: () => ({ entities: [] }),
+};
+
+function topicScores(prompt: string) {
+  return {
+    results: [...prompt.matchAll(/ID: "([^"]+)"\s+NOM: (.*)/g)].map((match) => ({
+      topic_id: match[1],
+      topic_name: match[2].trim(),
+      relevance_score: 0.6,
+      reasoning: REPLAY_REASONING,
+      potential_angle: '',
+    })),
+  };
+}
+
+function placeholderTopic(prompt: string) {
+  const description = prompt.match(/DESCRIPTION: (.*)/)?.[1]?.trim() || 'Thème';
+  const keywords = [...new Set(description.toLowerCase().match(/\p{L}{6,}/gu) || [])].slice(0, 5);
+
+  return {
+    name: description.slice(0, 60),
+    description,
+    ai_prompt: [
+      `Identifie les articles qui portent sur : ${description}`,
+      `${TOPIC_PROMPT_SECTIONS[0]}:\n- ${REPLAY_REASONING}`,
+      `${TOPIC_PROMPT_SECTIONS[1]}:\n- ${REPLAY_REASONING}`,
+      `${TOPIC_PROMPT_SECTIONS[2]}:\n- ${REPLAY_REASONING}`,
+    ].join('\n\n'),
+    keywords: keywords.length > 0 ? keywords : ['actualite'],
+    exclusions: [],
+    rationale: REPLAY_REASONING,
+  };
+}
+
+function placeholderPosts(prompt: string) {
+  const title = prompt.match(/TITRE: (.*)/)?.[1]?.trim() || 'Article';
+
+  return {
+    twitter: { content: title, hashtags: [] },
+    mastodon: { content: title, hashtags: [] },
+    bluesky: { content: title },
+    tone: 'factuel',
+    quality_score: 0.5,
+  };
+}
+
+/**
+ * Serves responses recorded from a real provider, keyed by prompt hash.
+ * Needs neither an API key nor network access.
+ */
+export class ReplayProvider implements LlmProvider {
+  readonly name = 'replay';
+  readonly defaultModel = 'replay';
+  readonly requestsPerMinute = null;
+
+  constructor(private fixturesDir: string = DEFAULT_FIXTURES_DIR) {}
+
+  /**
+   * Fixture key of a request. Only the prompt counts, so that recordings
+   * survive a change of model or sampling settings.
+   */
+  static key(request: LlmRequest): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ system: request.systemPrompt || '', messages: request.messages }))
+      .digest('hex');
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const key = ReplayProvider.key(request);
+    const fixture = this.load(key);
+
+    const text = fixture?.response ?? this.defaultResponse(request);
+
+    if (text === null) {
+      throw new Error(`No recorded response for prompt ${key} in ${this.fixturesDir}`);
+    }
+
+    return {
+      text,
+      model: fixture?.model || this.defaultModel,
+      inputTokens: 0,
+      outputTokens: 0,
+    };
+  }
+
+  estimateCost(): number {
+    return 0;
+  }
+
+  /**
+   * Store the response of a real provider for later replay
+   */
+  record(request: LlmRequest, response: LlmResponse): void {
+    const key = ReplayProvider.key(request);
+    const fixture: Fixture = {
+      key,
+      purpose: request.purpose,
+      model: response.model,
+      recordedAt: new Date().toISOString(),
+      systemPrompt: request.systemPrompt,
+      messages: request.messages,
+      response: response.text,
+    };
+
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    fs.writeFileSync(this.fixturePath(key), `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+
+  private load(key: string): Fixture | null {
+    const file = this.fixturePath(key);
+
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as Fixture;
+  }
+
+  private defaultResponse(request: LlmRequest): string | null {
+    if (!request.purpose) {
+      return null;
+    }
+
+    const prompt = request.messages.map((m) => m.content).join('\n');
+    return JSON.stringify(DEFAULT_RESPONSES[request.purpose](prompt));
+  }
+
+  private fixturePath(key: string): string {
+    return path.join(this.fixturesDir, `${key}.json`);
+  }
+}
@@ -0,0 +1,45 @@
+import type { AiPurpose } from '@media-scanner/shared';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// What a call is for, used to pick a replay response when none was recorded
+export type LlmPurpose = AiPurpose;
+
+// JSON Schema the reply must follow, for providers able to enforce it
+export interface LlmResponseFormat {
+  name: string;
+  description: string;
+  jsonSchema: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  systemPrompt?: string;
+  messages: LlmMessage[];
+  purpose?: LlmPurpose;
+  responseFormat?: LlmResponseFormat;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  // Model used when the caller does not ask for one
+  readonly defaultModel: string;
+  // Requests allowed per minute, null when the endpoint has no quota
+  readonly requestsPerMinute: number | null;
+
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  // Cost in USD of a response, null when the model's price is unknown
+  estimateCost(response: LlmResponse): number | null;
+}
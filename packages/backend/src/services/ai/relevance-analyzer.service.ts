@@ -1,35 +1,48 @@
-import { claudeService } from './claude.service.js';
+import { llmService, type LlmOptions, type LlmPurpose } from './llm.service.js';
+import { promptRegistry } from './prompt-registry.service.js';
+import { relevanceResponse, multiTopicRelevanceResponse, type RelevanceResponse } from './schemas.js';
 import {
-  RELEVANCE_ANALYSIS_SYSTEM_PROMPT,
-  RELEVANCE_ANALYSIS_USER_PROMPT,
-  MULTI_TOPIC_RELEVANCE_SYSTEM_PROMPT,
-  MULTI_TOPIC_RELEVANCE_USER_PROMPT,
+  DEFAULT_MIN_RELEVANCE_SCORE,
+  relevancePromptVariables,
+  multiTopicRelevancePromptVariables,
 } from '@media-scanner/shared';
+import { RelevanceFeedbackRepository } from '../../repositories/relevance-feedback.repository.js';
 import { logger } from '../../utils/logger.js';
 import type { Article, RelevanceResult, Topic, TopicRelevanceResult } from '@media-scanner/shared';
 
+// Overrides for scoring with something other than the live setup, e.g. in an evaluation run
+export interface TopicAnalysisOptions {
+  promptVersionId?: string;
+  model?: string;
+  purpose?: LlmPurpose;
+  // What the usage is recorded against, the article itself by default
+  usageSubject?: Pick<LlmOptions, 'articleId' | 'socialPostId'>;
+}
+
 export interface ArticleForAnalysis {
   id: string;
   title: string;
   lede: string;
+  fullText?: string; // Set when the extraction stage stored the article body
   source: string;
   url: string;
 }
 
-interface RawRelevanceResult {
-  relevance_score: number;
-  reasoning: string;
-  keywords: string[];
-  categories: string[];
-  potential_angle: string;
-}
+// Keeps prompts within a predictable token budget for long articles
+const MAX_ANALYSIS_TEXT_LENGTH = 6000;
+
+// Reviewer corrections shown to the model per topic
+const FEW_SHOT_EXAMPLES_PER_TOPIC = 3;
+
+const feedbackRepo = new RelevanceFeedbackRepository();
 
 class RelevanceAnalyzerService {
   private analysisCount = 0;
   private relevantCount = 0;
 
   /**
-   * Analyze a single article for relevance to administrative absurdities
+   * Analyze a single article for relevance to administrative absurdities.
+   * Throws when no valid analysis could be obtained, the article is not scored then.
    */
   async analyzeArticle(article: ArticleForAnalysis): Promise<RelevanceResult> {
     const startTime = Date.now();
@@ -42,7 +55,7 @@ class RelevanceAnalyzerService {
 
     try {
       // Skip articles without meaningful content
-      if (!article.lede || article.lede.length < 50) {
+      if (!this.hasEnoughContent(article)) {
         logger.debug({ articleId: article.id }, 'Article has insufficient lede, marking as low relevance');
         return {
           relevanceScore: 0.1,
@@ -53,22 +66,22 @@ class RelevanceAnalyzerService {
         };
       }
 
-      const result = await claudeService.chatJson<RawRelevanceResult>(
-        [
-          {
-            role: 'user',
-            content: RELEVANCE_ANALYSIS_USER_PROMPT({
-              title: article.title,
-              lede: article.lede,
-              source: article.source,
-            }),
-          },
-        ],
+      const prompt = await promptRegistry.render('relevance', relevancePromptVariables({
+        title: article.title,
+        lede: article.lede,
+        fullText: article.fullText?.slice(0, MAX_ANALYSIS_TEXT_LENGTH),
+        source: article.source,
+      }));
+
+      const result = await llmService.chatJson(
+        [{ role: 'user', content: prompt.userPrompt }],
+        relevanceResponse,
         {
-          model: 'claude-3-haiku-20240307', // Fast and cheap for classification
           maxTokens: 500,
           temperature: 0.3, // Lower temperature for more consistent scoring
-          systemPrompt: RELEVANCE_ANALYSIS_SYSTEM_PROMPT,
+          systemPrompt: prompt.systemPrompt,
+          purpose: 'relevance',
+          articleId: article.id,
         }
       );
 
@@ -76,7 +89,7 @@ class RelevanceAnalyzerService {
 
       const duration = Date.now() - startTime;
 
-      if (normalizedResult.relevanceScore >= 0.5) {
+      if (normalizedResult.relevanceScore >= DEFAULT_MIN_RELEVANCE_SCORE) {
         this.relevantCount++;
       }
 
@@ -97,14 +110,7 @@ class RelevanceAnalyzerService {
         duration,
       }, 'Relevance analysis failed');
 
-      // Return a default low-relevance result on error
-      return {
-        relevanceScore: 0,
-        reasoning: 'Erreur lors de l\'analyse',
-        keywords: [],
-        categories: [],
-        potentialAngle: '',
-      };
+      throw error;
     }
   }
 
@@ -135,14 +141,7 @@ class RelevanceAnalyzerService {
           error: error instanceof Error ? error.message : 'Unknown error',
         }, 'Failed to analyze article in batch');
 
-        // Continue with other articles
-        results.set(article.id, {
-          relevanceScore: 0,
-          reasoning: 'Erreur lors de l\'analyse',
-          keywords: [],
-          categories: [],
-          potentialAngle: '',
-        });
+        // Continue with other articles, the failed one is left out of the results
       }
 
       // Small delay between requests to be nice to the API
@@ -153,18 +152,20 @@ class RelevanceAnalyzerService {
 
     logger.info({
       total: articles.length,
-      relevant: [...results.values()].filter(r => r.relevanceScore >= 0.5).length,
+      relevant: [...results.values()].filter(r => r.relevanceScore >= DEFAULT_MIN_RELEVANCE_SCORE).length,
     }, 'Batch relevance analysis completed');
 
     return results;
   }
 
   /**
-   * Analyze an article against multiple topics in a single API call
+   * Analyze an article against multiple topics in a single API call.
+   * Throws when no valid analysis could be obtained.
    */
   async analyzeArticleForTopics(
     article: ArticleForAnalysis,
-    topics: Topic[]
+    topics: Topic[],
+    options: TopicAnalysisOptions = {}
   ): Promise<TopicRelevanceResult[]> {
     const startTime = Date.now();
 
@@ -179,7 +180,7 @@ class RelevanceAnalyzerService {
     }
 
     // Skip articles without meaningful content
-    if (!article.lede || article.lede.length < 50) {
+    if (!this.hasEnoughContent(article)) {
       logger.debug({ articleId: article.id }, 'Article has insufficient lede for multi-topic analysis');
       return topics.map((topic) => ({
         topicId: topic.id,
@@ -187,72 +188,66 @@ class RelevanceAnalyzerService {
         relevanceScore: 0.1,
         reasoning: 'Article sans chapeau suffisant pour analyse',
         potentialAngle: '',
+        promptVersionId: null,
       }));
     }
 
     try {
-      const result = await claudeService.chatJson<{
-        results: Array<{
-          topic_id: string;
-          topic_name: string;
-          relevance_score: number;
-          reasoning: string;
-          potential_angle: string;
-        }>;
-      }>(
-        [
-          {
-            role: 'user',
-            content: MULTI_TOPIC_RELEVANCE_USER_PROMPT(
-              {
-                title: article.title,
-                lede: article.lede,
-                source: article.source,
-              },
-              topics.map((t) => ({
-                id: t.id,
-                name: t.name,
-                aiPrompt: t.aiPrompt,
-              }))
-            ),
-          },
-        ],
+      const examples = await feedbackRepo.findExamples(
+        topics.map((t) => t.id),
+        article.id,
+        FEW_SHOT_EXAMPLES_PER_TOPIC
+      );
+
+      const prompt = await promptRegistry.render('multi_topic_relevance', multiTopicRelevancePromptVariables(
+        {
+          title: article.title,
+          lede: article.lede,
+          fullText: article.fullText?.slice(0, MAX_ANALYSIS_TEXT_LENGTH),
+          source: article.source,
+        },
+        topics.map((t) => ({
+          id: t.id,
+          name: t.name,
+          aiPrompt: t.aiPrompt,
+          examples: examples.filter((e) => e.topicId === t.id),
+        }))
+      ), options.promptVersionId);
+
+      const result = await llmService.chatJson(
+        [{ role: 'user', content: prompt.userPrompt }],
+        multiTopicRelevanceResponse(topics.map((t) => t.id)),
         {
-          model: 'claude-3-haiku-20240307',
           maxTokens: 1000, // More tokens for multiple topics
           temperature: 0.3,
-          systemPrompt: MULTI_TOPIC_RELEVANCE_SYSTEM_PROMPT,
+          systemPrompt: prompt.systemPrompt,
+          model: options.model,
+          purpose: options.purpose ?? 'multi_topic_relevance',
+          ...(options.usageSubject ?? { articleId: article.id }),
+          topicIds: topics.map((t) => t.id),
         }
       );
 
       const duration = Date.now() - startTime;
 
-      // Normalize and map results
-      const normalizedResults: TopicRelevanceResult[] = result.results.map((r) => ({
-        topicId: r.topic_id,
-        topicName: r.topic_name,
-        relevanceScore: Math.max(0, Math.min(1, r.relevance_score || 0)),
-        reasoning: r.reasoning || '',
-        potentialAngle: r.potential_angle || '',
-      }));
-
-      // Ensure we have results for all topics (fill in missing ones)
-      const resultMap = new Map(normalizedResults.map((r) => [r.topicId, r]));
-      const completeResults = topics.map((topic) => {
-        const existing = resultMap.get(topic.id);
-        if (existing) return existing;
+      // One result per topic asked about, in the order of the topics; the schema ensures none is missing
+      const resultMap = new Map(result.results.map((r) => [r.topic_id, r]));
+      const completeResults: TopicRelevanceResult[] = topics.map((topic) => {
+        const r = resultMap.get(topic.id)!;
         return {
           topicId: topic.id,
           topicName: topic.name,
-          relevanceScore: 0,
-          reasoning: 'Résultat manquant',
-          potentialAngle: '',
+          relevanceScore: r.relevance_score,
+          reasoning: r.reasoning,
+          potentialAngle: r.potential_angle,
+          promptVersionId: prompt.versionId,
         };
       });
 
       logger.info({
         articleId: article.id,
         topicCount: topics.length,
+        exampleCount: examples.length,
         duration,
         scores: completeResults.map((r) => ({ topic: r.topicName, score: r.relevanceScore })),
       }, 'Multi-topic relevance analysis completed');
@@ -267,14 +262,7 @@ class RelevanceAnalyzerService {
         duration,
       }, 'Multi-topic relevance analysis failed');
 
-      // Return default low-relevance results on error
-      return topics.map((topic) => ({
-        topicId: topic.id,
-        topicName: topic.name,
-        relevanceScore: 0,
-        reasoning: 'Erreur lors de l\'analyse',
-        potentialAngle: '',
-      }));
+      throw error;
     }
   }
 
@@ -319,15 +307,23 @@ class RelevanceAnalyzerService {
   }
 
   /**
-   * Normalize and validate the AI response
+   * A one-line feed description is not enough to score, an extracted body is
+   */
+  private hasEnoughContent(article: ArticleForAnalysis): boolean {
+    const content = article.fullText || article.lede;
+    return Boolean(content) && content.length >= 50;
+  }
+
+  /**
+   * Map the validated AI response, capping list lengths
    */
-  private normalizeResult(raw: RawRelevanceResult): RelevanceResult {
+  private normalizeResult(raw: RelevanceResponse): RelevanceResult {
     return {
-      relevanceScore: Math.max(0, Math.min(1, raw.relevance_score || 0)),
-      reasoning: raw.reasoning || '',
-      keywords: Array.isArray(raw.keywords) ? raw.keywords.slice(0, 10) : [],
-      categories: Array.isArray(raw.categories) ? raw.categories.slice(0, 5) : [],
-      potentialAngle: raw.potential_angle || '',
+      relevanceScore: raw.relevance_score,
+      reasoning: raw.reasoning,
+      keywords: raw.keywords.slice(0, 10),
+      categories: raw.categories.slice(0, 5),
+      potentialAngle: raw.potential_angle,
     };
   }
 
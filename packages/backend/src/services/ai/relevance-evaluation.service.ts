@@ -0,0 +1,237 @@
+import { relevanceAnalyzer } from './relevance-analyzer.service.js';
+import { BudgetExceededError } from './ai-budget.service.js';
+import { EvaluationRepository, type GoldenSetSample } from '../../repositories/evaluation.repository.js';
+import { TopicRepository } from '../../repositories/topic.repository.js';
+import { logger } from '../../utils/logger.js';
+import type {
+  CalibrationBin,
+  ClassificationMetrics,
+  EvaluationMetrics,
+  EvaluationRun,
+  Topic,
+} from '@media-scanner/shared';
+
+const CALIBRATION_BINS = 10;
+
+// Progress is written every few articles rather than after each one
+const PROGRESS_EVERY = 5;
+
+interface ScoredSample {
+  sample: GoldenSetSample;
+  score: number | null;
+  reasoning: string | null;
+  error: string | null;
+}
+
+const evaluationRepo = new EvaluationRepository();
+const topicRepo = new TopicRepository();
+
+class RelevanceEvaluationService {
+  /**
+   * Re-score the golden set of a run with its prompt version and model, then store the metrics
+   */
+  async run(runId: string): Promise<EvaluationRun> {
+    const run = await evaluationRepo.findRunById(runId);
+    if (!run) {
+      throw new Error(`Evaluation run ${runId} not found`);
+    }
+
+    const samples = await evaluationRepo.findGoldenSet(run.topicId ?? undefined);
+    await evaluationRepo.markRunning(run.id, samples.length);
+
+    logger.info({ runId, samples: samples.length, model: run.model }, 'Starting evaluation run');
+
+    try {
+      const scored = await this.scoreSamples(run, samples);
+      const metrics = await this.computeMetrics(scored, run.threshold);
+
+      await evaluationRepo.saveResults(run.id, scored.map((s) => ({
+        articleId: s.sample.articleId,
+        topicId: s.sample.topicId,
+        expected: s.sample.isRelevant,
+        score: s.score,
+        reasoning: s.reasoning,
+        error: s.error,
+      })));
+      await evaluationRepo.completeRun(run.id, metrics);
+
+      logger.info({
+        runId,
+        precision: metrics.precision,
+        recall: metrics.recall,
+        f1: metrics.f1,
+        failed: metrics.failed,
+      }, 'Evaluation run completed');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await evaluationRepo.failRun(run.id, message);
+      logger.error({ runId, error: message }, 'Evaluation run failed');
+    }
+
+    return (await evaluationRepo.findRunById(run.id))!;
+  }
+
+  /**
+   * One call per article for all of its labelled topics, as in the live analysis
+   */
+  private async scoreSamples(run: EvaluationRun, samples: GoldenSetSample[]): Promise<ScoredSample[]> {
+    const byArticle = new Map<string, GoldenSetSample[]>();
+    for (const sample of samples) {
+      byArticle.set(sample.articleId, [...(byArticle.get(sample.articleId) || []), sample]);
+    }
+
+    const topics = new Map<string, Topic>();
+    for (const topicId of new Set(samples.map((s) => s.topicId))) {
+      const topic = await topicRepo.findById(topicId);
+      if (topic) topics.set(topicId, topic);
+    }
+
+    const scored: ScoredSample[] = [];
+    let articleCount = 0;
+
+    for (const articleSamples of byArticle.values()) {
+      const article = articleSamples[0];
+
+      try {
+        const results = await relevanceAnalyzer.analyzeArticleForTopics(
+          {
+            id: article.articleId,
+            title: article.title,
+            lede: article.lede,
+            fullText: article.fullText || undefined,
+            source: article.sourceName || '',
+            url: article.url,
+          },
+          articleSamples.map((s) => topics.get(s.topicId)!),
+          { promptVersionId: run.promptVersionId, model: run.model, purpose: 'evaluation' }
+        );
+
+        const resultMap = new Map(results.map((r) => [r.topicId, r]));
+        for (const sample of articleSamples) {
+          const result = resultMap.get(sample.topicId)!;
+          scored.push({ sample, score: result.relevanceScore, reasoning: result.reasoning, error: null });
+        }
+      } catch (error) {
+        // Scoring the rest of the set with an exhausted budget would only fail again
+        if (error instanceof BudgetExceededError) throw error;
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        for (const sample of articleSamples) {
+          scored.push({ sample, score: null, reasoning: null, error: message });
+        }
+      }
+
+      articleCount++;
+      if (articleCount % PROGRESS_EVERY === 0 || articleCount === byArticle.size) {
+        await evaluationRepo.updateProgress(run.id, scored.length);
+      }
+    }
+
+    return scored;
+  }
+
+  private async computeMetrics(scored: ScoredSample[], threshold: number): Promise<EvaluationMetrics> {
+    const answered = scored.filter((s) => s.score !== null);
+
+    const bySource = new Map<string, ScoredSample[]>();
+    const byTopic = new Map<string, ScoredSample[]>();
+    for (const s of answered) {
+      const sourceKey = s.sample.sourceId ?? '';
+      bySource.set(sourceKey, [...(bySource.get(sourceKey) || []), s]);
+      byTopic.set(s.sample.topicId, [...(byTopic.get(s.sample.topicId) || []), s]);
+    }
+
+    const topicNames = new Map<string, string>();
+    for (const topicId of byTopic.keys()) {
+      topicNames.set(topicId, (await topicRepo.findById(topicId))?.name ?? topicId);
+    }
+
+    return {
+      ...this.classify(answered, threshold),
+      failed: scored.length - answered.length,
+      calibration: this.calibrate(answered),
+      bySource: [...bySource.values()]
+        .map((group) => ({
+          sourceId: group[0].sample.sourceId,
+          sourceName: group[0].sample.sourceName || 'Source inconnue',
+          ...this.classify(group, threshold),
+        }))
+        .sort((a, b) => b.samples - a.samples),
+      byTopic: [...byTopic.entries()]
+        .map(([topicId, group]) => ({
+          topicId,
+          topicName: topicNames.get(topicId)!,
+          ...this.classify(group, threshold),
+        }))
+        .sort((a, b) => b.samples - a.samples),
+    };
+  }
+
+  /**
+   * Confusion counts with scores at or above the threshold predicted relevant
+   */
+  private classify(scored: ScoredSample[], threshold: number): ClassificationMetrics {
+    let truePositives = 0;
+    let falsePositives = 0;
+    let trueNegatives = 0;
+    let falseNegatives = 0;
+
+    for (const s of scored) {
+      const predicted = s.score! >= threshold;
+      if (predicted && s.sample.isRelevant) truePositives++;
+      else if (predicted) falsePositives++;
+      else if (s.sample.isRelevant) falseNegatives++;
+      else trueNegatives++;
+    }
+
+    const precision = truePositives + falsePositives > 0
+      ? truePositives / (truePositives + falsePositives)
+      : null;
+    const recall = truePositives + falseNegatives > 0
+      ? truePositives / (truePositives + falseNegatives)
+      : null;
+    const f1 = precision !== null && recall !== null && precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : null;
+
+    return {
+      samples: scored.length,
+      truePositives,
+      falsePositives,
+      trueNegatives,
+      falseNegatives,
+      precision,
+      recall,
+      f1,
+    };
+  }
+
+  /**
+   * Share of relevant articles per score bin, a calibrated model matching its scores
+   */
+  private calibrate(scored: ScoredSample[]): CalibrationBin[] {
+    return Array.from({ length: CALIBRATION_BINS }, (_, i) => {
+      const minScore = i / CALIBRATION_BINS;
+      const maxScore = (i + 1) / CALIBRATION_BINS;
+      // The last bin includes a score of exactly 1
+      const inBin = scored.filter((s) =>
+        s.score! >= minScore && (s.score! < maxScore || i === CALIBRATION_BINS - 1)
+      );
+
+      return {
+        minScore,
+        maxScore,
+        count: inBin.length,
+        meanScore: inBin.length > 0
+          ? inBin.reduce((sum, s) => sum + s.score!, 0) / inBin.length
+          : null,
+        relevantRate: inBin.length > 0
+          ? inBin.filter((s) => s.sample.isRelevant).length / inBin.length
+          : null,
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const relevanceEvaluation = new RelevanceEvaluationService();
@@ -0,0 +1,186 @@
+import { z } from 'zod/v4';
+import { TOPIC_PROMPT_SECTIONS } from '@media-scanner/shared';
+
+/**
+ * Shape a JSON reply must take. Replies are validated against the schema,
+ * and providers able to constrain their output receive it as JSON Schema.
+ */
+export interface ResponseSchema<T> {
+  name: string;
+  description: string;
+  schema: z.ZodType<T>;
+}
+
+const score = z.number().min(0).max(1);
+
+// =========================================
+// RELEVANCE ANALYSIS
+// =========================================
+
+const relevanceSchema = z.object({
+  relevance_score: score,
+  reasoning: z.string().min(1),
+  keywords: z.array(z.string()),
+  categories: z.array(z.string()),
+  potential_angle: z.string(),
+});
+
+export type RelevanceResponse = z.infer<typeof relevanceSchema>;
+
+export const relevanceResponse: ResponseSchema<RelevanceResponse> = {
+  name: 'relevance_analysis',
+  description: 'Pertinence d\'un article, avec justification, mots-clés, catégories et angle',
+  schema: relevanceSchema,
+};
+
+// =========================================
+// MULTI-TOPIC RELEVANCE ANALYSIS
+// =========================================
+
+const topicRelevanceSchema = z.object({
+  topic_id: z.string(),
+  topic_name: z.string(),
+  relevance_score: score,
+  reasoning: z.string().min(1),
+  potential_angle: z.string(),
+});
+
+const multiTopicRelevanceSchema = z.object({
+  results: z.array(topicRelevanceSchema),
+});
+
+export type MultiTopicRelevanceResponse = z.infer<typeof multiTopicRelevanceSchema>;
+
+/**
+ * The reply must score every topic it was asked about
+ */
+export function multiTopicRelevanceResponse(topicIds: string[]): ResponseSchema<MultiTopicRelevanceResponse> {
+  return {
+    name: 'multi_topic_relevance_analysis',
+    description: 'Pertinence d\'un article pour chacun des thèmes évalués',
+    schema: multiTopicRelevanceSchema.superRefine((value, ctx) => {
+      const scored = new Set(value.results.map((r) => r.topic_id));
+
+      for (const topicId of topicIds) {
+        if (!scored.has(topicId)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Missing result for topic "${topicId}"`,
+            path: ['results'],
+          });
+        }
+      }
+    }),
+  };
+}
+
+// =========================================
+// POST GENERATION
+// =========================================
+
+const postGenerationSchema = z.object({
+  twitter: z.object({
+    content: z.string().min(1),
+    hashtags: z.array(z.string()),
+  }),
+  mastodon: z.object({
+    content: z.string().min(1),
+    hashtags: z.array(z.string()),
+  }),
+  bluesky: z.object({
+    content: z.string().min(1),
+  }),
+  tone: z.string().min(1),
+  quality_score: score,
+});
+
+export type PostGenerationResponse = z.infer<typeof postGenerationSchema>;
+
+export const postGenerationResponse: ResponseSchema<PostGenerationResponse> = {
+  name: 'social_posts',
+  description: 'Posts Twitter, Mastodon et Bluesky tirés d\'un article',
+  schema: postGenerationSchema,
+};
+
+// =========================================
+// DAILY SUMMARY
+// =========================================
+
+const dailySummarySchema = z.object({
+  titre: z.string().min(1),
+  introduction: z.string(),
+  points_cles: z.array(z.string()),
+  conclusion: z.string(),
+});
+
+export type DailySummaryResponse = z.infer<typeof dailySummarySchema>;
+
+export const dailySummaryResponse: ResponseSchema<DailySummaryResponse> = {
+  name: 'daily_summary',
+  description: 'Synthèse quotidienne des articles pertinents',
+  schema: dailySummarySchema,
+};
+
+// =========================================
+// TOPIC AUTHORING
+// =========================================
+
+const topicDraftSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  ai_prompt: z.string().min(1),
+  keywords: z.array(z.string()).min(1),
+  exclusions: z.array(z.string()),
+  rationale: z.string(),
+});
+
+export type TopicDraftResponse = z.infer<typeof topicDraftSchema>;
+
+/**
+ * The scoring prompt must keep the three levels of criteria of the seeded topic
+ */
+export const topicDraftResponse: ResponseSchema<TopicDraftResponse> = {
+  name: 'topic_draft',
+  description: 'Consigne de notation, mots-clés et exclusions d\'un nouveau thème',
+  schema: topicDraftSchema.superRefine((value, ctx) => {
+    for (const section of TOPIC_PROMPT_SECTIONS) {
+      if (!value.ai_prompt.includes(section)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `ai_prompt must contain the section "${section}"`,
+          path: ['ai_prompt'],
+        });
+      }
+    }
+  }),
+};
+
+// =========================================
+// ENTITY EXTRACTION
+// =========================================
+
+const entityExtractionSchema = z.object({
+  entities: z.array(z.object({
+    type: z.enum(['politician', 'public_body', 'company', 'commune']),
+    name: z.string().min(1),
+    departement: z.string(),
+  })),
+});
+
+export type EntityExtractionResponse = z.infer<typeof entityExtractionSchema>;
+
+export const entityExtractionResponse: ResponseSchema<EntityExtractionResponse> = {
+  name: 'named_entities',
+  description: 'Personnalités, administrations, entreprises et communes nommées par un article',
+  schema: entityExtractionSchema,
+};
+
+/**
+ * JSON Schema of a response, as sent to providers
+ */
+export function toJsonSchema<T>(response: ResponseSchema<T>): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = { ...z.toJSONSchema(response.schema) };
+  delete jsonSchema.$schema;
+
+  return jsonSchema;
+}
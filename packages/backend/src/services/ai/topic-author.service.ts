@@ -0,0 +1,287 @@
+import { randomUUID } from 'crypto';
+import { llmService } from './llm.service.js';
+import { promptRegistry } from './prompt-registry.service.js';
+import { relevanceAnalyzer } from './relevance-analyzer.service.js';
+import { BudgetExceededError } from './ai-budget.service.js';
+import { topicDraftResponse } from './schemas.js';
+import { urlCanonicalizer } from '../rss/url-canonicalizer.service.js';
+import { ArticleRepository } from '../../repositories/article.repository.js';
+import {
+  DEFAULT_MIN_RELEVANCE_SCORE,
+  compileKeywords,
+  findMatchingKeywords,
+  foldText,
+  prepareText,
+  topicAuthoringPromptVariables,
+} from '@media-scanner/shared';
+import { logger } from '../../utils/logger.js';
+import type {
+  ArticleWithSource,
+  KeywordQueryIssue,
+  Topic,
+  TopicDraft,
+  TopicDraftInput,
+  TopicDryRun,
+  TopicDryRunInput,
+} from '@media-scanner/shared';
+
+export const MAX_DRAFT_EXAMPLES = 5;
+
+// Dry runs read the articles of the last days, and score a handful of them
+const DRY_RUN_DAYS = 7;
+const DRY_RUN_MAX_ARTICLES = 5000;
+const DRY_RUN_SCORED_ARTICLES = 10;
+
+// Example ledes are cut so that a few long ones do not crowd out the description
+const MAX_EXAMPLE_LEDE_LENGTH = 500;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const articleRepo = new ArticleRepository();
+
+class TopicAuthorService {
+  /**
+   * Ask the model for a scoring prompt, keywords and exclusions from a description
+   * and a few representative articles. Invalid keywords are left out and reported.
+   */
+  async draft(input: TopicDraftInput): Promise<TopicDraft> {
+    const { articles, unresolved } = await this.resolveExamples(input.examples || []);
+
+    const prompt = await promptRegistry.render('topic_authoring', topicAuthoringPromptVariables({
+      description: input.description,
+      examples: articles.map((a) => ({
+        title: a.title,
+        lede: (a.lede || '').slice(0, MAX_EXAMPLE_LEDE_LENGTH),
+        source: a.source?.name ?? null,
+      })),
+    }));
+
+    const result = await llmService.chatJson(
+      [{ role: 'user', content: prompt.userPrompt }],
+      topicDraftResponse,
+      {
+        maxTokens: 2000, // The prompt and twenty-odd keywords
+        temperature: 0.4,
+        systemPrompt: prompt.systemPrompt,
+        purpose: 'topic_authoring',
+      }
+    );
+
+    // Every proposal is checked on its own, the issues indexed over keywords then exclusions
+    const proposals = [
+      ...result.keywords.map((k) => k.trim()),
+      ...result.exclusions.map((e) => this.toExclusion(e.trim())),
+    ];
+    const seen = new Set<string>();
+    const keywords: string[] = [];
+    const exclusions: string[] = [];
+    const issues: KeywordQueryIssue[] = [];
+
+    proposals.forEach((keyword, index) => {
+      const folded = foldText(keyword);
+      if (!keyword || seen.has(folded)) return;
+      seen.add(folded);
+
+      const compiled = compileKeywords([keyword]);
+      if (compiled.issues.length > 0) {
+        issues.push({ ...compiled.issues[0], index });
+      } else if (compiled.exclude.length > 0) {
+        exclusions.push(keyword);
+      } else {
+        keywords.push(keyword);
+      }
+    });
+
+    logger.info({
+      examples: articles.length,
+      unresolved: unresolved.length,
+      keywords: keywords.length,
+      exclusions: exclusions.length,
+      issues: issues.length,
+    }, 'Topic draft generated');
+
+    return {
+      name: result.name,
+      description: result.description,
+      aiPrompt: result.ai_prompt,
+      keywords,
+      exclusions,
+      rationale: result.rationale,
+      examples: articles.map((a) => ({
+        id: a.id,
+        title: a.title,
+        url: a.url,
+        sourceName: a.source?.name ?? null,
+      })),
+      unresolvedExamples: unresolved,
+      issues,
+    };
+  }
+
+  /**
+   * Run a draft over recent articles as if it were an active topic: its keywords over
+   * the articles of the last days, then its prompt over the examples and a sample of the matches.
+   * Nothing is stored.
+   */
+  async dryRun(input: TopicDryRunInput): Promise<TopicDryRun> {
+    const compiled = compileKeywords(input.keywords);
+    const minRelevanceScore = input.minRelevanceScore ?? DEFAULT_MIN_RELEVANCE_SCORE;
+
+    const recent = await articleRepo.findRecentSnippets(DRY_RUN_DAYS, DRY_RUN_MAX_ARTICLES);
+    const matches = recent
+      .map((article) => ({
+        article,
+        matchedKeywords: findMatchingKeywords(compiled, prepareText(`${article.title} ${article.lede}`)),
+      }))
+      .filter((m) => m.matchedKeywords.length > 0);
+
+    const { articles: examples } = await this.resolveExamples(input.exampleIds || []);
+    const exampleIds = new Set(examples.map((a) => a.id));
+
+    // Examples first, then matches drawn at random so that one busy day does not fill the sample
+    const sampled = this.shuffle(matches.filter((m) => !exampleIds.has(m.article.id)))
+      .slice(0, Math.max(DRY_RUN_SCORED_ARTICLES - examples.length, 0));
+
+    const candidates = [
+      ...examples.map((a) => ({
+        id: a.id,
+        title: a.title,
+        lede: a.lede || '',
+        url: a.url,
+        sourceName: a.source?.name ?? null,
+        matchedKeywords: findMatchingKeywords(compiled, prepareText(`${a.title} ${a.lede || ''}`)),
+        isExample: true,
+      })),
+      ...sampled.map((m) => ({ ...m.article, matchedKeywords: m.matchedKeywords, isExample: false })),
+    ];
+
+    // A throwaway topic: the live prompt and model score it, nothing refers to its id
+    const draftTopic: Topic = {
+      id: randomUUID(),
+      name: input.name,
+      slug: '',
+      description: null,
+      keywords: input.keywords,
+      aiPrompt: input.aiPrompt,
+      minRelevanceScore,
+      autoGenerateScore: null,
+      isActive: true,
+      isSystem: false,
+      createdBy: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const articles: TopicDryRun['articles'] = [];
+
+    for (const candidate of candidates) {
+      try {
+        const fullText = (await articleRepo.findExtractedText(candidate.id)) || undefined;
+        const [result] = await relevanceAnalyzer.analyzeArticleForTopics(
+          {
+            id: candidate.id,
+            title: candidate.title,
+            lede: candidate.lede,
+            fullText,
+            source: candidate.sourceName || '',
+            url: candidate.url,
+          },
+          [draftTopic],
+          { purpose: 'topic_authoring' }
+        );
+
+        articles.push({ ...this.toDryRunArticle(candidate), relevanceScore: result.relevanceScore, reasoning: result.reasoning });
+      } catch (error) {
+        // Scoring the rest of the sample with an exhausted budget would only fail again
+        if (error instanceof BudgetExceededError) throw error;
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        articles.push({ ...this.toDryRunArticle(candidate), relevanceScore: null, reasoning: message });
+      }
+    }
+
+    articles.sort((a, b) =>
+      Number(b.isExample) - Number(a.isExample) || (b.relevanceScore ?? -1) - (a.relevanceScore ?? -1)
+    );
+
+    return {
+      days: DRY_RUN_DAYS,
+      scanned: recent.length,
+      matched: matches.length,
+      minRelevanceScore,
+      articles,
+    };
+  }
+
+  /**
+   * Stored articles behind IDs or URLs, the URLs compared in their canonical form
+   */
+  private async resolveExamples(references: string[]): Promise<{ articles: ArticleWithSource[]; unresolved: string[] }> {
+    const articles: ArticleWithSource[] = [];
+    const unresolved: string[] = [];
+
+    for (const reference of references.map((r) => r.trim()).filter(Boolean)) {
+      let article: ArticleWithSource | null = null;
+
+      if (UUID_PATTERN.test(reference)) {
+        article = await articleRepo.findById(reference);
+      } else {
+        try {
+          const stored = await articleRepo.findByUrlHash(urlCanonicalizer.hash(reference));
+          article = stored ? await articleRepo.findById(stored.id) : null;
+        } catch {
+          // Not a URL
+        }
+      }
+
+      if (!article) {
+        unresolved.push(reference);
+      } else if (!articles.some((a) => a.id === article!.id)) {
+        articles.push(article);
+      }
+    }
+
+    return { articles, unresolved };
+  }
+
+  /**
+   * An exclusion as a keyword entry, whether or not the model already negated it
+   */
+  private toExclusion(exclusion: string): string {
+    const query = exclusion.replace(/^(NOT\s+|-)/, '').trim();
+    if (!query) return '';
+
+    const single = /^[\p{L}\p{N}*]+$/u.test(query) || /^"[^"]*"$/.test(query);
+    return single ? `NOT ${query}` : `NOT (${query})`;
+  }
+
+  private toDryRunArticle(candidate: {
+    id: string;
+    title: string;
+    url: string;
+    sourceName: string | null;
+    matchedKeywords: string[];
+    isExample: boolean;
+  }) {
+    return {
+      id: candidate.id,
+      title: candidate.title,
+      url: candidate.url,
+      sourceName: candidate.sourceName,
+      matchedKeywords: candidate.matchedKeywords,
+      isExample: candidate.isExample,
+    };
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
+
+// Export singleton instance
+export const topicAuthor = new TopicAuthorService();
@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { EntityMention } from './entity-resolver.service.js';
+
+function commune(name: string, departement = ''): EntityMention {
+  return { type: 'commune', name, departement };
+}
+
+describe('entity resolver', () => {
+  let module: typeof import('./entity-resolver.service.js');
+
+  beforeAll(async () => {
+    Object.assign(process.env, {
+      DATABASE_URL: 'postgres://test@localhost/test',
+      JWT_SECRET: 'test-jwt-secret',
+      SESSION_SECRET: 'test-session-secret',
+      GOOGLE_CLIENT_ID: 'test',
+      GOOGLE_CLIENT_SECRET: 'test',
+    });
+    // The bundled commune file is the reference
+    delete process.env.COMMUNES_FILE;
+
+    module = await import('./entity-resolver.service.js');
+  });
+
+  describe('normalizeDepartement', () => {
+    it.each([
+      ['75', '75'],
+      ['6', '06'],
+      [' 06 ', '06'],
+      ['2a', '2A'],
+      ['2B', '2B'],
+      ['974 (La Réunion)', '974'],
+      ['93 - Seine-Saint-Denis', '93'],
+      ['975', null],
+      ['20', null],
+      ['100', null],
+      ['Rhône', null],
+      ['', null],
+    ])('%j is %j', (value, expected) => {
+      expect(module.normalizeDepartement(value)).toBe(expected);
+    });
+  });
+
+  describe('resolve', () => {
+    it('links a commune to its INSEE code and official name', () => {
+      expect(module.entityResolver.resolve([commune('saint etienne')])).toEqual([{
+        type: 'commune',
+        name: 'Saint-Étienne',
+        normalizedName: 'saint etienne',
+        inseeCode: '42218',
+        departementCode: '42',
+      }]);
+    });
+
+    it('tells homonyms apart by their département', () => {
+      const [entity] = module.entityResolver.resolve([commune('Saint-Denis', '93')]);
+
+      expect(entity.inseeCode).toBe('93066');
+      expect(entity.departementCode).toBe('93');
+    });
+
+    it('keeps a homonym with no département unlinked', () => {
+      const [entity] = module.entityResolver.resolve([commune('Saint-Denis')]);
+
+      expect(entity.inseeCode).toBeNull();
+      expect(entity.departementCode).toBeNull();
+    });
+
+    it('keeps the département of a commune missing from the reference', () => {
+      const [entity] = module.entityResolver.resolve([commune('Village Imaginaire', '29')]);
+
+      expect(entity).toMatchObject({ name: 'Village Imaginaire', inseeCode: null, departementCode: '29' });
+    });
+
+    it('does not merge unlinked communes of different départements', () => {
+      const entities = module.entityResolver.resolve([
+        commune('Village Imaginaire', '29'),
+        commune('Village imaginaire', '2B'),
+        commune('Village-Imaginaire', '29'),
+      ]);
+
+      expect(entities.map((e) => e.departementCode)).toEqual(['29', '2B']);
+    });
+
+    it('merges mentions of the same entity', () => {
+      const entities = module.entityResolver.resolve([
+        { type: 'politician', name: 'Élisabeth  Borne', departement: '' },
+        { type: 'politician', name: 'elisabeth borne', departement: '' },
+        { type: 'public_body', name: 'Élisabeth Borne', departement: '' },
+        commune('Saint-Denis', '974'),
+        commune('saint denis', '974 (La Réunion)'),
+        { type: 'company', name: ' - ', departement: '' },
+      ]);
+
+      expect(entities.map((e) => [e.type, e.name, e.inseeCode])).toEqual([
+        ['politician', 'Élisabeth Borne', null],
+        ['public_body', 'Élisabeth Borne', null],
+        ['commune', 'Saint-Denis', '97411'],
+      ]);
+    });
+  });
+});
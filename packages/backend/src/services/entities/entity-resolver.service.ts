@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DEPARTEMENTS, foldText } from '@media-scanner/shared';
+import type { EntityType } from '@media-scanner/shared';
+import type { NewEntity } from '../../repositories/entity.repository.js';
+import { env } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// src/data/communes.csv, copied next to dist/ in the image
+export const DEFAULT_COMMUNES_FILE = path.resolve(__dirname, '../../data/communes.csv');
+
+// A name the model gave
+export interface EntityMention {
+  type: EntityType;
+  name: string;
+  departement: string; // Département code of a commune, empty when unknown
+}
+
+interface Commune {
+  inseeCode: string;
+  name: string;
+  departementCode: string;
+}
+
+/**
+ * Lowercase without accents or punctuation, "Saint Étienne" and "Saint-Étienne" alike
+ */
+export function normalizeEntityName(name: string): string {
+  return foldText(name)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * A known département code, "2a" and "974 (La Réunion)" included
+ */
+export function normalizeDepartement(value: string): string | null {
+  const code = value.trim().toUpperCase().match(/^(2[AB]|97\d|\d{1,2})(?!\d)/)?.[1];
+  if (!code) return null;
+
+  const padded = code.length === 1 ? `0${code}` : code;
+  return padded in DEPARTEMENTS ? padded : null;
+}
+
+class EntityResolverService {
+  private communes: Map<string, Commune[]> | null = null;
+
+  /**
+   * Merge the mentions of an article naming the same entity, and link communes to
+   * the INSEE reference. A commune missing from it, or one of several homonyms with
+   * no département to tell them apart, is kept unlinked with its département if given.
+   */
+  resolve(mentions: EntityMention[]): NewEntity[] {
+    const resolved = new Map<string, NewEntity>();
+
+    for (const mention of mentions) {
+      const name = mention.name.replace(/\s+/g, ' ').trim();
+      const normalizedName = normalizeEntityName(name);
+      if (!normalizedName) continue;
+
+      const entity: NewEntity = { type: mention.type, name, normalizedName, inseeCode: null, departementCode: null };
+
+      if (mention.type === 'commune') {
+        const departementCode = normalizeDepartement(mention.departement);
+        const commune = this.findCommune(normalizedName, departementCode);
+
+        if (commune) {
+          entity.name = commune.name;
+          entity.inseeCode = commune.inseeCode;
+          entity.departementCode = commune.departementCode;
+        } else {
+          entity.departementCode = departementCode;
+        }
+      }
+
+      // Unlinked homonyms in different départements stay apart
+      const key = `${entity.type}:${entity.normalizedName}:${entity.inseeCode ?? ''}:${entity.departementCode ?? ''}`;
+      if (!resolved.has(key)) resolved.set(key, entity);
+    }
+
+    return [...resolved.values()];
+  }
+
+  private findCommune(normalizedName: string, departementCode: string | null): Commune | null {
+    const candidates = this.loadCommunes().get(normalizedName) || [];
+
+    if (departementCode) {
+      return candidates.find((c) => c.departementCode === departementCode) ?? null;
+    }
+
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  /**
+   * Communes by normalized name, read once. The file is a CSV with the columns of the
+   * INSEE COG commune file (COM, DEP, LIBELLE, and TYPECOM to leave out arrondissements
+   * and delegated communes), so that a newer export can replace the bundled one.
+   */
+  private loadCommunes(): Map<string, Commune[]> {
+    if (this.communes) return this.communes;
+
+    const file = env.COMMUNES_FILE || DEFAULT_COMMUNES_FILE;
+    const communes = new Map<string, Commune[]>();
+
+    try {
+      const [header, ...lines] = fs.readFileSync(file, 'utf-8').split(/\r?\n/);
+      const columns = this.splitCsvLine(header);
+      const typeIndex = columns.indexOf('TYPECOM');
+      const codeIndex = columns.indexOf('COM');
+      const departementIndex = columns.indexOf('DEP');
+      const nameIndex = columns.indexOf('LIBELLE');
+
+      if (codeIndex < 0 || departementIndex < 0 || nameIndex < 0) {
+        throw new Error('Expected the columns COM, DEP and LIBELLE');
+      }
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        const fields = this.splitCsvLine(line);
+        if (typeIndex >= 0 && fields[typeIndex] !== 'COM') continue;
+
+        const commune = {
+          inseeCode: fields[codeIndex],
+          name: fields[nameIndex],
+          departementCode: fields[departementIndex],
+        };
+        const key = normalizeEntityName(commune.name);
+        communes.set(key, [...(communes.get(key) || []), commune]);
+      }
+
+      logger.info({ file, communes: communes.size }, 'INSEE commune reference loaded');
+    } catch (error) {
+      // Communes are then stored without their INSEE code, the rest of the extraction goes on
+      logger.error({
+        file,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to load the INSEE commune reference');
+    }
+
+    this.communes = communes;
+    return communes;
+  }
+
+  private splitCsvLine(line: string): string[] {
+    return line.split(',').map((field) => field.trim().replace(/^"(.*)"$/, '$1'));
+  }
+}
+
+// Export singleton instance
+export const entityResolver = new EntityResolverService();
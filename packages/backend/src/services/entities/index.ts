@@ -0,0 +1,3 @@
+export { entityResolver, normalizeEntityName, normalizeDepartement, DEFAULT_COMMUNES_FILE } from './entity-resolver.service.js';
+
+export type { EntityMention } from './entity-resolver.service.js';
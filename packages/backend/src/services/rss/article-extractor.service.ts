@@ -0,0 +1,281 @@
+import type { ExtractionStatus } from '@media-scanner/shared';
+import { logger } from '../../utils/logger.js';
+import { withRetry } from '../../utils/retry.js';
+import { RateLimiter } from '../../utils/rate-limiter.js';
+import { readTextWithLimit } from '../../utils/http.js';
+import { stripTags } from '../../utils/html.js';
+
+export interface ExtractionResult {
+  status: ExtractionStatus;
+  text?: string;
+  canonicalLink?: string; // href of the page's <link rel="canonical">, as written
+  error?: string;
+  duration: number;
+}
+
+const REQUEST_TIMEOUT_MS = 20000;
+// Article pages rarely pass 1 MB, a larger download is not an article
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+// Below this the page is a teaser, a gallery or a video, not an article
+const MIN_TEXT_LENGTH = 400;
+const MAX_TEXT_LENGTH = 20000;
+const MIN_PARAGRAPH_LENGTH = 40;
+
+// Elements that never hold the article body
+const NOISE_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'iframe',
+  'nav', 'header', 'footer', 'aside', 'form', 'figure', 'button',
+];
+
+// Markers left by the paywall vendors used by French newspapers
+const PAYWALL_MARKERS = [
+  /class="[^"]*\b(paywall|premium-content|article-premium|reserved-content|abo-only|poool)[^"]*"/i,
+  /id="[^"]*\b(paywall|poool-widget)[^"]*"/i,
+  /réservé aux abonnés/i,
+  /article réservé à nos abonnés/i,
+  /cet article est réservé/i,
+];
+
+class ArticleExtractorService {
+  private rateLimiters: Map<string, RateLimiter> = new Map();
+  private extractionCount = 0;
+  private paywallCount = 0;
+  private errorCount = 0;
+
+  /**
+   * Download an article page and extract its main body text
+   */
+  async extract(url: string): Promise<ExtractionResult> {
+    const startTime = Date.now();
+    this.extractionCount++;
+
+    try {
+      const host = new URL(url).hostname;
+      await this.getRateLimiter(host).waitForToken();
+
+      const html = await this.fetchHtml(url);
+      const canonicalLink = this.findCanonicalLink(html);
+
+      const jsonLd = this.parseJsonLd(html);
+      const bodyText = this.extractMainText(html);
+
+      // Publishers often ship the full body in JSON-LD even when the markup is split up
+      const text = (jsonLd.articleBody && jsonLd.articleBody.length > bodyText.length
+        ? jsonLd.articleBody
+        : bodyText
+      ).slice(0, MAX_TEXT_LENGTH);
+
+      const paywalled = jsonLd.isAccessibleForFree === false
+        || PAYWALL_MARKERS.some((marker) => marker.test(html));
+
+      const duration = Date.now() - startTime;
+
+      if (paywalled && text.length < MAX_TEXT_LENGTH / 4) {
+        this.paywallCount++;
+        logger.debug({ url, length: text.length, duration }, 'Article is behind a paywall');
+
+        // Keep the free part, it is usually longer than the RSS description
+        return {
+          status: 'paywalled',
+          text: text.length >= MIN_TEXT_LENGTH ? text : undefined,
+          canonicalLink,
+          duration,
+        };
+      }
+
+      if (text.length < MIN_TEXT_LENGTH) {
+        return { status: 'failed', error: 'No article body found', canonicalLink, duration };
+      }
+
+      logger.debug({ url, length: text.length, duration }, 'Article text extracted');
+
+      return { status: 'extracted', text, canonicalLink, duration };
+    } catch (error) {
+      this.errorCount++;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.warn({ url, error: errorMessage }, 'Failed to extract article text');
+
+      return {
+        status: 'failed',
+        error: errorMessage,
+        duration: Date.now() - startTime,
+      };
+    }
+  }
+
+  private async fetchHtml(url: string): Promise<string> {
+    return withRetry(
+      async () => {
+        const response = await fetch(url, {
+          headers: {
+            'User-Agent': 'MediaScanner/1.0 (+https://github.com/media-scanner; RSS aggregator)',
+            'Accept': 'text/html,application/xhtml+xml',
+            'Accept-Language': 'fr-FR,fr;q=0.9',
+          },
+          redirect: 'follow',
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (!contentType.includes('html')) {
+          throw new Error(`Unexpected content type: ${contentType}`);
+        }
+
+        return readTextWithLimit(response, MAX_PAGE_BYTES);
+      },
+      {
+        maxAttempts: 2,
+        initialDelayMs: 2000,
+        maxDelayMs: 10000,
+        backoffMultiplier: 2,
+        retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'timeout', 'fetch failed', 'HTTP 502', 'HTTP 503'],
+      }
+    );
+  }
+
+  /**
+   * Read `articleBody` and `isAccessibleForFree` from schema.org JSON-LD blocks
+   */
+  private parseJsonLd(html: string): { articleBody?: string; isAccessibleForFree?: boolean } {
+    const result: { articleBody?: string; isAccessibleForFree?: boolean } = {};
+
+    const blocks = html.matchAll(
+      /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+    );
+
+    for (const block of blocks) {
+      let data: unknown;
+      try {
+        data = JSON.parse(block[1].trim());
+      } catch {
+        continue;
+      }
+
+      const nodes = (Array.isArray(data) ? data : [data]).flatMap((node) =>
+        node && typeof node === 'object' && '@graph' in node && Array.isArray(node['@graph'])
+          ? node['@graph']
+          : [node]
+      ) as Array<Record<string, unknown>>;
+
+      for (const node of nodes) {
+        if (!node || typeof node !== 'object') continue;
+
+        if (typeof node.articleBody === 'string' && !result.articleBody) {
+          result.articleBody = this.cleanText(stripTags(node.articleBody));
+        }
+
+        if (node.isAccessibleForFree !== undefined && result.isAccessibleForFree === undefined) {
+          result.isAccessibleForFree = node.isAccessibleForFree !== false
+            && node.isAccessibleForFree !== 'False'
+            && node.isAccessibleForFree !== 'false';
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private findCanonicalLink(html: string): string | undefined {
+    for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+      const tag = match[0];
+      if (!/\brel=["']?canonical\b/i.test(tag)) continue;
+
+      const href = tag.match(/\bhref=["']([^"']+)["']/i)?.[1];
+      if (href) return href.replace(/&amp;/g, '&').trim();
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Readability-style extraction: drop page chrome, pick the densest
+   * container and keep its paragraphs that are not mostly links
+   */
+  private extractMainText(html: string): string {
+    let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+    for (const tag of NOISE_ELEMENTS) {
+      cleaned = cleaned.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+    }
+
+    const candidates = [
+      ...this.findElements(cleaned, 'article'),
+      ...this.findElements(cleaned, 'main'),
+    ];
+
+    const body = cleaned.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] || cleaned;
+    candidates.push(body);
+
+    let best = '';
+    for (const candidate of candidates) {
+      const text = this.extractParagraphs(candidate);
+      if (text.length > best.length) {
+        best = text;
+      }
+    }
+
+    return best;
+  }
+
+  private findElements(html: string, tag: string): string[] {
+    return [...html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi'))]
+      .map((match) => match[1]);
+  }
+
+  private extractParagraphs(html: string): string {
+    const paragraphs: string[] = [];
+
+    for (const match of html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)) {
+      const inner = match[1];
+      const text = this.cleanText(stripTags(inner));
+
+      if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+      // Related-article lists and share bars are mostly anchor text
+      const linkText = [...inner.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)]
+        .map((a) => this.cleanText(stripTags(a[1])))
+        .join('');
+      if (linkText.length / text.length > 0.5) continue;
+
+      paragraphs.push(text);
+    }
+
+    return paragraphs.join('\n\n');
+  }
+
+  private cleanText(text: string): string {
+    return text.replace(/[ \t\r\f\v]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+  }
+
+  /**
+   * Get or create a rate limiter for a publisher host
+   */
+  private getRateLimiter(host: string): RateLimiter {
+    if (!this.rateLimiters.has(host)) {
+      // Article pages are heavier than feeds, stay polite
+      this.rateLimiters.set(
+        host,
+        new RateLimiter({ tokensPerInterval: 6, interval: 60000 })
+      );
+    }
+    return this.rateLimiters.get(host)!;
+  }
+
+  /**
+   * Get extractor statistics
+   */
+  getStats() {
+    return {
+      totalExtractions: this.extractionCount,
+      totalPaywalled: this.paywallCount,
+      totalErrors: this.errorCount,
+    };
+  }
+}
+
+// Export singleton instance
+export const articleExtractor = new ArticleExtractorService();
@@ -0,0 +1,202 @@
+import type { DiscoveredFeed, FeedTestResult } from '@media-scanner/shared';
+import { rssFetcher, MAX_FEED_BYTES } from './rss-fetcher.service.js';
+import { rssNormalizer } from './rss-normalizer.service.js';
+import { logger } from '../../utils/logger.js';
+import { isPublicUrl, readTextWithLimit, ResponseTooLargeError } from '../../utils/http.js';
+
+const REQUEST_TIMEOUT_MS = 20000;
+const MAX_SAMPLES = 5;
+const MAX_REDIRECTS = 5;
+
+const FEED_TYPES: Record<string, DiscoveredFeed['format']> = {
+  'application/rss+xml': 'rss',
+  'application/atom+xml': 'atom',
+};
+
+class FeedInspectorService {
+  /**
+   * Fetch a URL once and report what a scan would make of it. An HTML page
+   * is searched for the feeds it advertises instead.
+   */
+  async inspect(url: string, source?: { id: string; name: string }): Promise<FeedTestResult> {
+    const startTime = Date.now();
+
+    const result: FeedTestResult = {
+      url,
+      finalUrl: null,
+      success: false,
+      httpStatus: null,
+      contentType: null,
+      isFeed: false,
+      feedTitle: null,
+      itemCount: 0,
+      newestItemAt: null,
+      normalizedCount: 0,
+      skipReasons: {},
+      samples: [],
+      discoveredFeeds: [],
+      error: null,
+      duration: 0,
+    };
+
+    try {
+      const { response, finalUrl } = await this.fetchPublic(url);
+
+      result.finalUrl = finalUrl;
+      result.httpStatus = response.status;
+      result.contentType = response.headers.get('content-type');
+
+      if (!response.ok) {
+        throw new Error(`Status code ${response.status}`);
+      }
+
+      // Same cap as a scan, the URL comes from the user
+      const body = await readTextWithLimit(response, MAX_FEED_BYTES);
+
+      if (this.looksLikeHtml(body, result.contentType)) {
+        result.discoveredFeeds = this.discoverFeeds(body, result.finalUrl);
+        result.error = result.discoveredFeeds.length > 0
+          ? 'Page HTML : utilisez un des flux découverts'
+          : 'Page HTML sans flux RSS ou Atom déclaré';
+        return result;
+      }
+
+      const feed = await rssFetcher.parse(body);
+
+      result.isFeed = true;
+      result.feedTitle = feed.title || null;
+      result.itemCount = feed.items.length;
+      result.newestItemAt = this.newestDate(feed.items.map((item) => item.isoDate || item.pubDate));
+
+      // Same normalization as a real scan, so the skip reasons match what ingestion would do
+      const normalized = rssNormalizer.normalizeItems(
+        feed.items,
+        source?.id || '',
+        source?.name || feed.title || url
+      );
+
+      result.normalizedCount = normalized.articles.length;
+      result.skipReasons = normalized.reasons;
+      result.samples = normalized.articles.slice(0, MAX_SAMPLES).map((article) => ({
+        title: article.title,
+        url: article.url,
+        lede: article.lede || null,
+        publishedAt: article.publishedAt || null,
+      }));
+
+      result.success = true;
+      if (result.normalizedCount === 0) {
+        result.error = 'Aucun article exploitable dans le flux';
+      }
+    } catch (error) {
+      result.error = error instanceof ResponseTooLargeError
+        ? `Réponse de plus de ${Math.round(error.maxBytes / 1024 / 1024)} Mo refusée`
+        : error instanceof Error ? error.message : 'Unknown error';
+      logger.debug({ url, error: result.error }, 'Feed inspection failed');
+    } finally {
+      result.duration = Date.now() - startTime;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch a URL, following redirects one by one so that none of them leads
+   * to a private or loopback address
+   */
+  private async fetchPublic(url: string): Promise<{ response: Response; finalUrl: string }> {
+    const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (!(await isPublicUrl(current))) {
+        throw new Error(`Adresse non publique refusée : ${new URL(current).hostname}`);
+      }
+
+      const response = await fetch(current, {
+        headers: {
+          'User-Agent': 'MediaScanner/1.0 (+https://github.com/media-scanner; RSS aggregator)',
+          'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, text/html;q=0.8, */*;q=0.5',
+        },
+        redirect: 'manual',
+        signal,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return { response, finalUrl: current };
+      }
+
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
+    }
+
+    throw new Error(`Plus de ${MAX_REDIRECTS} redirections`);
+  }
+
+  /**
+   * Read <link rel="alternate"> tags pointing to RSS or Atom feeds
+   */
+  discoverFeeds(html: string, baseUrl: string): DiscoveredFeed[] {
+    const feeds = new Map<string, DiscoveredFeed>();
+
+    for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+      const attributes = this.parseAttributes(match[0]);
+
+      const rel = (attributes.rel || '').toLowerCase().split(/\s+/);
+      const format = FEED_TYPES[(attributes.type || '').toLowerCase().trim()];
+      if (!rel.includes('alternate') || !format || !attributes.href) continue;
+
+      let feedUrl: string;
+      try {
+        feedUrl = new URL(attributes.href, baseUrl).href;
+      } catch {
+        continue;
+      }
+
+      if (!feeds.has(feedUrl)) {
+        feeds.set(feedUrl, { url: feedUrl, title: attributes.title || null, format });
+      }
+    }
+
+    return [...feeds.values()];
+  }
+
+  private looksLikeHtml(body: string, contentType: string | null): boolean {
+    const start = body.trimStart().slice(0, 500).toLowerCase();
+
+    if (start.startsWith('<?xml') || start.startsWith('<rss') || start.startsWith('<feed')) {
+      return false;
+    }
+
+    return (contentType || '').includes('html') || start.startsWith('<!doctype html') || start.includes('<html');
+  }
+
+  private newestDate(values: Array<string | undefined>): Date | null {
+    let newest: Date | null = null;
+
+    for (const value of values) {
+      if (!value) continue;
+      const date = new Date(value);
+      if (!isNaN(date.getTime()) && (!newest || date > newest)) {
+        newest = date;
+      }
+    }
+
+    return newest;
+  }
+
+  private parseAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+
+    for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+      attributes[match[1].toLowerCase()] = (match[2] ?? match[3] ?? match[4] ?? '')
+        .replace(/&amp;/g, '&');
+    }
+
+    return attributes;
+  }
+}
+
+// Export singleton instance
+export const feedInspector = new FeedInspectorService();
@@ -1,5 +1,11 @@
 export { rssFetcher } from './rss-fetcher.service.js';
 export { rssNormalizer } from './rss-normalizer.service.js';
+export { articleExtractor } from './article-extractor.service.js';
+export { opmlService, MAX_OPML_ENTRIES } from './opml.service.js';
+export { feedInspector } from './feed-inspector.service.js';
+export { urlCanonicalizer } from './url-canonicalizer.service.js';
 
 export type { RSSItem, RSSFeed, FetchResult } from './rss-fetcher.service.js';
 export type { NormalizedArticle } from './rss-normalizer.service.js';
+export type { ExtractionResult } from './article-extractor.service.js';
+export type { OpmlOutline } from './opml.service.js';
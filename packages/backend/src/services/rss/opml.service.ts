@@ -0,0 +1,370 @@
+import { FRENCH_REGIONS } from '@media-scanner/shared';
+import { slugify } from '@media-scanner/shared/utils';
+import type {
+  Source,
+  SourceCategory,
+  SourceFeed,
+  OpmlImportEntry,
+  OpmlImportReport,
+} from '@media-scanner/shared';
+import { feedInspector } from './feed-inspector.service.js';
+import { SourceRepository } from '../../repositories/source.repository.js';
+import { SourceFeedRepository } from '../../repositories/source-feed.repository.js';
+import { logger } from '../../utils/logger.js';
+
+export interface OpmlOutline {
+  title: string;
+  xmlUrl: string;
+  htmlUrl?: string;
+  category?: string;
+  // Slug of the source the feed belongs to, set by our own exports
+  source?: string;
+  // Label of a section feed, the outline is then an extra feed of `source`
+  section?: string;
+  // Titles of the enclosing folders, outermost first
+  parents: string[];
+}
+
+// Feeds are tested during the request, keep imports to a size it can handle
+export const MAX_OPML_ENTRIES = 200;
+
+// Feeds tested at the same time during an import
+const FEED_TEST_CONCURRENCY = 8;
+
+const FETCH_INTERVAL_BY_CATEGORY: Record<SourceCategory, number> = {
+  national: 30,
+  regional: 45,
+  social: 30,
+};
+
+const CATEGORY_LABELS: Record<SourceCategory, string> = {
+  national: 'Presse nationale',
+  regional: 'Presse régionale',
+  social: 'Réseaux sociaux',
+};
+
+const sourceRepo = new SourceRepository();
+const sourceFeedRepo = new SourceFeedRepository();
+
+class OpmlService {
+  /**
+   * Extract feed outlines from an OPML document, remembering their folders
+   */
+  parse(xml: string): OpmlOutline[] {
+    const outlines: OpmlOutline[] = [];
+    const parents: string[] = [];
+
+    for (const match of xml.matchAll(/<outline\b([^>]*?)(\/?)>|<\/outline\s*>/gi)) {
+      if (match[0].startsWith('</')) {
+        parents.pop();
+        continue;
+      }
+
+      const attributes = this.parseAttributes(match[1]);
+      const title = (attributes.title || attributes.text || '').trim();
+
+      if (attributes.xmlUrl) {
+        outlines.push({
+          title,
+          xmlUrl: attributes.xmlUrl.trim(),
+          htmlUrl: attributes.htmlUrl,
+          category: attributes.category,
+          source: attributes.source?.trim() || undefined,
+          section: attributes.section?.trim() || undefined,
+          parents: [...parents],
+        });
+      }
+
+      if (match[2] !== '/') {
+        parents.push(title);
+      }
+    }
+
+    return outlines;
+  }
+
+  /**
+   * Render RSS sources as OPML 2.0, one folder per category. Section feeds
+   * follow their source and point back to it with the `source` attribute.
+   */
+  build(sources: Source[], sections: SourceFeed[] = []): string {
+    const categories: SourceCategory[] = ['national', 'regional', 'social'];
+
+    const folders = categories
+      .map((category) => {
+        const feeds = sources.filter((s) => s.category === category && s.type === 'rss');
+        if (feeds.length === 0) return '';
+
+        const label = this.escape(CATEGORY_LABELS[category]);
+        const lines = feeds.flatMap((s) => {
+          const name = this.escape(s.name);
+          const region = s.region ? ` category="${this.escape(s.region)}"` : '';
+          const link = ` source="${this.escape(s.slug)}"`;
+
+          return [
+            `      <outline type="rss" text="${name}" title="${name}" xmlUrl="${this.escape(s.url)}"${region}${link} />`,
+            ...sections
+              .filter((f) => f.sourceId === s.id)
+              .map((f) => {
+                const label = f.label || this.hostname(f.url);
+                const title = this.escape(`${s.name} - ${label}`);
+                return `      <outline type="rss" text="${title}" title="${title}" xmlUrl="${this.escape(f.url)}"${region}${link} section="${this.escape(label)}" />`;
+              }),
+          ];
+        });
+
+        return `    <outline text="${label}" title="${label}">\n${lines.join('\n')}\n    </outline>`;
+      })
+      .filter(Boolean);
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<opml version="2.0">',
+      '  <head>',
+      '    <title>Media Scanner - sources</title>',
+      `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+      '  </head>',
+      '  <body>',
+      ...folders,
+      '  </body>',
+      '</opml>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Preview or run an OPML import. Duplicates (by feed URL or slug) and feeds
+   * that fail to parse are reported and never created. Section feeds are
+   * added to their source, whether it already exists or comes with the file.
+   */
+  async importSources(xml: string, options: { dryRun: boolean }): Promise<OpmlImportReport> {
+    const outlines = this.parse(xml);
+
+    const existingSources = await sourceRepo.findAll({});
+    const knownUrls = new Map<string, string>();
+    for (const { url, sourceName } of await sourceFeedRepo.findAllUrls()) {
+      knownUrls.set(this.normalizeUrl(url), sourceName);
+    }
+    for (const source of existingSources) {
+      knownUrls.set(this.normalizeUrl(source.url), source.name);
+    }
+    const knownSlugs = new Map(existingSources.map((s) => [s.slug, s.name]));
+    const sourceIdBySlug = new Map(existingSources.map((s) => [s.slug, s.id]));
+
+    const entries: OpmlImportEntry[] = new Array(outlines.length);
+    const sectionLabels = new Map<OpmlImportEntry, string>();
+    const isSection = (outline: OpmlOutline) => Boolean(outline.section && outline.source);
+
+    // Sources are checked before sections, a section may come first in the file
+    const order = outlines.map((_, index) => index);
+    order.sort((a, b) => Number(isSection(outlines[a])) - Number(isSection(outlines[b])) || a - b);
+
+    for (const index of order) {
+      const outline = outlines[index];
+      const title = outline.title || this.hostname(outline.xmlUrl);
+      const { category, region } = this.inferCategory(outline);
+      const section = isSection(outline);
+
+      const entry: OpmlImportEntry = {
+        title: section ? outline.section! : title,
+        url: outline.xmlUrl,
+        slug: outline.source || slugify(title),
+        category,
+        region,
+        status: 'new',
+      };
+
+      const urlKey = this.normalizeUrl(outline.xmlUrl);
+
+      if (!/^https?:\/\//i.test(outline.xmlUrl)) {
+        entry.status = 'invalid';
+        entry.reason = 'URL non HTTP';
+      } else if (knownUrls.has(urlKey)) {
+        entry.status = 'duplicate';
+        entry.reason = `Flux déjà suivi par ${knownUrls.get(urlKey)}`;
+      } else if (section) {
+        if (knownSlugs.has(entry.slug)) {
+          entry.feedOf = knownSlugs.get(entry.slug);
+          sectionLabels.set(entry, outline.section!);
+        } else {
+          entry.status = 'invalid';
+          entry.reason = `Source ${entry.slug} absente`;
+        }
+      } else if (knownSlugs.has(entry.slug)) {
+        entry.status = 'duplicate';
+        entry.reason = `Slug déjà utilisé par ${knownSlugs.get(entry.slug)}`;
+      }
+
+      // Later outlines of the same file count as duplicates of this one
+      knownUrls.set(urlKey, title);
+      if (entry.status === 'new' && !section) {
+        knownSlugs.set(entry.slug, title);
+      }
+
+      entries[index] = entry;
+    }
+
+    await this.testFeeds(entries.filter((e) => e.status === 'new'));
+
+    // A section feed follows its source when the source itself is not imported
+    const importedSlugs = new Set(entries.filter((e) => e.status === 'new' && !e.feedOf).map((e) => e.slug));
+    for (const entry of entries) {
+      if (entry.feedOf && entry.status === 'new' && !sourceIdBySlug.has(entry.slug) && !importedSlugs.has(entry.slug)) {
+        entry.status = 'invalid';
+        entry.reason = `Source ${entry.feedOf} non importée`;
+      }
+    }
+
+    if (!options.dryRun) {
+      // Sources are created first so that their sections find them
+      const pending = entries.filter((e) => e.status === 'new');
+      for (const entry of [...pending.filter((e) => !e.feedOf), ...pending.filter((e) => e.feedOf)]) {
+        if (entry.feedOf) {
+          const sourceId = sourceIdBySlug.get(entry.slug);
+          if (!sourceId) {
+            entry.status = 'invalid';
+            entry.reason = `Source ${entry.feedOf} non importée`;
+            continue;
+          }
+
+          await sourceFeedRepo.create(sourceId, {
+            url: entry.url,
+            label: sectionLabels.get(entry),
+          });
+        } else {
+          const source = await sourceRepo.create({
+            name: entry.title,
+            slug: entry.slug,
+            type: 'rss',
+            category: entry.category,
+            url: entry.url,
+            region: entry.region,
+            fetchIntervalMinutes: FETCH_INTERVAL_BY_CATEGORY[entry.category],
+          });
+          sourceIdBySlug.set(source.slug, source.id);
+        }
+        entry.status = 'created';
+      }
+    }
+
+    const report: OpmlImportReport = {
+      dryRun: options.dryRun,
+      total: entries.length,
+      new: entries.filter((e) => e.status === 'new').length,
+      created: entries.filter((e) => e.status === 'created').length,
+      duplicates: entries.filter((e) => e.status === 'duplicate').length,
+      invalid: entries.filter((e) => e.status === 'invalid').length,
+      entries,
+    };
+
+    logger.info({
+      dryRun: report.dryRun,
+      total: report.total,
+      created: report.created,
+      duplicates: report.duplicates,
+      invalid: report.invalid,
+    }, 'OPML import processed');
+
+    return report;
+  }
+
+  /**
+   * Test the feeds of new entries a few at a time, marking unreadable ones invalid.
+   * The inspector refuses a URL, or any redirect, leading to a non-public address.
+   */
+  private async testFeeds(entries: OpmlImportEntry[]): Promise<void> {
+    let next = 0;
+
+    const worker = async () => {
+      while (next < entries.length) {
+        const entry = entries[next++];
+        const test = await feedInspector.inspect(entry.url);
+
+        if (test.success) {
+          entry.itemCount = test.itemCount;
+        } else {
+          entry.status = 'invalid';
+          entry.reason = test.error || 'Flux illisible';
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(FEED_TEST_CONCURRENCY, entries.length) }, worker)
+    );
+  }
+
+  /**
+   * Regional when a folder, the category attribute or the title names a region
+   */
+  private inferCategory(outline: OpmlOutline): { category: SourceCategory; region: string | null } {
+    const hints = [outline.category || '', ...outline.parents, outline.title];
+    const haystack = this.fold(hints.join(' | '));
+
+    const region = FRENCH_REGIONS.find((r) => haystack.includes(this.fold(r)));
+    if (region) {
+      return { category: 'regional', region };
+    }
+
+    if (/\b(region|regional|regionale|locale?|pqr)\b/.test(haystack)) {
+      // Keep a free-form region from our own exports ("Bretagne / Normandie")
+      return { category: 'regional', region: outline.category?.trim() || null };
+    }
+
+    return { category: 'national', region: null };
+  }
+
+  private parseAttributes(raw: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+
+    for (const match of raw.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[match[1]] = this.unescape(match[2] ?? match[3] ?? '');
+    }
+
+    return attributes;
+  }
+
+  private normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url.trim());
+      return `${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+    } catch {
+      return url.trim().toLowerCase();
+    }
+  }
+
+  private hostname(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Lowercase and strip accents for loose matching
+   */
+  private fold(text: string): string {
+    return text.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase();
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private unescape(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;|&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
+
+// Export singleton instance
+export const opmlService = new OpmlService();
@@ -1,7 +1,10 @@
 import Parser from 'rss-parser';
+import { createHash } from 'crypto';
+import type { FeedValidators } from '@media-scanner/shared';
 import { logger } from '../../utils/logger.js';
 import { withRetry } from '../../utils/retry.js';
 import { RateLimiter } from '../../utils/rate-limiter.js';
+import { readTextWithLimit } from '../../utils/http.js';
 
 export interface RSSItem {
   guid?: string;
@@ -30,10 +33,17 @@ export interface FetchResult {
   success: boolean;
   feed?: RSSFeed;
   itemCount: number;
+  // 304 Not Modified, or a body identical to the previous one
+  unchanged?: boolean;
+  validators?: FeedValidators;
   error?: string;
   duration: number;
 }
 
+const REQUEST_TIMEOUT_MS = 30000;
+// Feeds with full content stay well under this, a larger body is not worth parsing
+export const MAX_FEED_BYTES = 10 * 1024 * 1024;
+
 // Custom parser type with additional fields
 type CustomFeed = {
   title?: string;
@@ -51,12 +61,8 @@ class RSSFetcherService {
   private errorCount = 0;
 
   constructor() {
+    // Downloads go through fetch so that validators can be sent, the parser only parses
     this.parser = new Parser({
-      timeout: 30000, // 30 second timeout
-      headers: {
-        'User-Agent': 'MediaScanner/1.0 (+https://github.com/media-scanner; RSS aggregator)',
-        'Accept': 'application/rss+xml, application/xml, text/xml, */*',
-      },
       customFields: {
         item: [
           ['media:content', 'mediaContent'],
@@ -68,9 +74,14 @@ class RSSFetcherService {
   }
 
   /**
-   * Fetch and parse an RSS feed
+   * Fetch and parse an RSS feed. With validators from a previous scan the
+   * request is conditional, and an unchanged feed is reported without parsing.
    */
-  async fetchFeed(feedUrl: string, sourceSlug?: string): Promise<FetchResult> {
+  async fetchFeed(
+    feedUrl: string,
+    sourceSlug?: string,
+    validators?: FeedValidators
+  ): Promise<FetchResult> {
     const startTime = Date.now();
     this.fetchCount++;
 
@@ -82,19 +93,38 @@ class RSSFetcherService {
     logger.debug({ feedUrl, sourceSlug }, 'Fetching RSS feed');
 
     try {
-      const feed = await withRetry(
+      const response = await withRetry(
         async () => {
-          return this.parser.parseURL(feedUrl);
+          return this.download(feedUrl, validators);
         },
         {
           maxAttempts: 3,
           initialDelayMs: 2000,
           maxDelayMs: 15000,
           backoffMultiplier: 2,
-          retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'socket hang up', '503', '502'],
+          retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'socket hang up', 'timeout', 'fetch failed', '503', '502'],
         }
       );
 
+      if (response.notModified) {
+        logger.debug({ feedUrl, sourceSlug }, 'RSS feed not modified (304)');
+        return this.unchangedResult(validators!, startTime);
+      }
+
+      const newValidators: FeedValidators = {
+        etag: response.etag,
+        lastModified: response.lastModified,
+        contentHash: createHash('sha256').update(response.body).digest('hex'),
+      };
+
+      // Many servers ignore conditional headers but serve the same bytes
+      if (validators?.contentHash && validators.contentHash === newValidators.contentHash) {
+        logger.debug({ feedUrl, sourceSlug }, 'RSS feed body unchanged');
+        return this.unchangedResult(newValidators, startTime);
+      }
+
+      const feed = await this.parse(response.body);
+
       const duration = Date.now() - startTime;
 
       logger.info({
@@ -106,14 +136,9 @@ class RSSFetcherService {
 
       return {
         success: true,
-        feed: {
-          title: feed.title,
-          description: feed.description,
-          link: feed.link,
-          lastBuildDate: feed.lastBuildDate,
-          items: feed.items.map(this.normalizeItem),
-        },
+        feed,
         itemCount: feed.items.length,
+        validators: newValidators,
         duration,
       };
     } catch (error) {
@@ -138,6 +163,72 @@ class RSSFetcherService {
     }
   }
 
+  /**
+   * Parse an RSS or Atom document that was downloaded elsewhere
+   */
+  async parse(xml: string): Promise<RSSFeed> {
+    const feed = await this.parser.parseString(xml);
+
+    return {
+      title: feed.title,
+      description: feed.description,
+      link: feed.link,
+      lastBuildDate: feed.lastBuildDate,
+      items: feed.items.map(this.normalizeItem),
+    };
+  }
+
+  /**
+   * Download a feed body, sending the validators of the previous response
+   */
+  private async download(
+    feedUrl: string,
+    validators?: FeedValidators
+  ): Promise<{ notModified: boolean; body: string; etag: string | null; lastModified: string | null }> {
+    const headers: Record<string, string> = {
+      'User-Agent': 'MediaScanner/1.0 (+https://github.com/media-scanner; RSS aggregator)',
+      'Accept': 'application/rss+xml, application/xml, text/xml, */*',
+    };
+
+    if (validators?.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators?.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    const response = await fetch(feedUrl, {
+      headers,
+      redirect: 'follow',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 304 && validators) {
+      return { notModified: true, body: '', etag: validators.etag, lastModified: validators.lastModified };
+    }
+
+    if (!response.ok) {
+      throw new Error(`Status code ${response.status}`);
+    }
+
+    return {
+      notModified: false,
+      body: await readTextWithLimit(response, MAX_FEED_BYTES),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+    };
+  }
+
+  private unchangedResult(validators: FeedValidators, startTime: number): FetchResult {
+    return {
+      success: true,
+      unchanged: true,
+      itemCount: 0,
+      validators,
+      duration: Date.now() - startTime,
+    };
+  }
+
   /**
    * Fetch multiple feeds in parallel with concurrency limit
    */
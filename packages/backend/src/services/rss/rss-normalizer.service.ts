@@ -1,12 +1,16 @@
-import { hashUrl } from '@media-scanner/shared';
+import { compileKeywords, findMatchingKeywords, hashUrl, prepareText } from '@media-scanner/shared';
 import type { RSSItem } from './rss-fetcher.service.js';
-import type { CreateArticleInput } from '@media-scanner/shared';
+import { urlCanonicalizer } from './url-canonicalizer.service.js';
+import type { CompiledKeywords, CreateArticleInput, PreparedText } from '@media-scanner/shared';
 import { logger } from '../../utils/logger.js';
 
 export interface NormalizedArticle extends CreateArticleInput {
   urlHash: string;
 }
 
+// Compiled keyword lists kept between articles, keyed by their content
+const MAX_COMPILED_KEYWORD_LISTS = 200;
+
 interface NormalizationResult {
   articles: NormalizedArticle[];
   skipped: number;
@@ -14,6 +18,8 @@ interface NormalizationResult {
 }
 
 class RSSNormalizerService {
+  private compiledKeywords = new Map<string, CompiledKeywords>();
+
   /**
    * Normalize RSS items into article format
    */
@@ -68,11 +74,14 @@ class RSSNormalizerService {
     }
 
     // Clean and validate URL
-    const url = this.cleanUrl(item.link);
-    if (!url) {
+    const originalUrl = this.cleanUrl(item.link);
+    if (!originalUrl) {
       return { reason: 'invalid_url' };
     }
 
+    // Tracking parameters and AMP variants must not yield a new article
+    const url = urlCanonicalizer.canonicalize(originalUrl);
+
     // Extract lede (summary/description)
     const lede = this.extractLede(item);
 
@@ -94,6 +103,7 @@ class RSSNormalizerService {
       sourceId,
       externalId: item.guid || url,
       url,
+      originalUrl: originalUrl !== url ? originalUrl : undefined,
       urlHash: hashUrl(url),
       title: this.cleanText(item.title),
       lede: this.cleanText(lede),
@@ -215,30 +225,59 @@ class RSSNormalizerService {
   }
 
   /**
-   * Check if an article matches keywords for a specific topic
+   * Check if an article matches the keyword queries of a topic
    * (Quick pre-filter before AI analysis)
    */
-  quickRelevanceCheck(article: NormalizedArticle, keywords: string[]): boolean {
-    const text = `${article.title} ${article.lede || ''}`.toLowerCase();
-    return keywords.some((keyword) => text.toLowerCase().includes(keyword.toLowerCase()));
+  quickRelevanceCheck(article: Pick<NormalizedArticle, 'title' | 'lede'>, keywords: string[]): boolean {
+    return findMatchingKeywords(this.compile(keywords), this.prepare(article)).length > 0;
   }
 
   /**
    * Check an article against all provided topics and return matching topic IDs
    */
   checkAgainstTopics(
-    article: NormalizedArticle,
+    article: Pick<NormalizedArticle, 'title' | 'lede'>,
     topics: Array<{ id: string; keywords: string[] }>
   ): string[] {
-    const matchedTopicIds: string[] = [];
+    const text = this.prepare(article);
+
+    return topics
+      .filter((topic) => findMatchingKeywords(this.compile(topic.keywords), text).length > 0)
+      .map((topic) => topic.id);
+  }
+
+  /**
+   * Number of keyword queries of a topic matching the title and lede, none when one of its exclusions does
+   */
+  countKeywordMatches(article: Pick<NormalizedArticle, 'title' | 'lede'>, keywords: string[]): number {
+    return findMatchingKeywords(this.compile(keywords), this.prepare(article)).length;
+  }
+
+  private prepare(article: Pick<NormalizedArticle, 'title' | 'lede'>): PreparedText {
+    return prepareText(`${article.title} ${article.lede || ''}`);
+  }
+
+  /**
+   * Keywords are validated when a topic is saved, older invalid ones are skipped with a warning
+   */
+  private compile(keywords: string[]): CompiledKeywords {
+    const key = keywords.join('\n');
+    let compiled = this.compiledKeywords.get(key);
+
+    if (!compiled) {
+      compiled = compileKeywords(keywords);
+
+      if (compiled.issues.length > 0) {
+        logger.warn({ issues: compiled.issues }, 'Invalid topic keywords skipped');
+      }
 
-    for (const topic of topics) {
-      if (this.quickRelevanceCheck(article, topic.keywords)) {
-        matchedTopicIds.push(topic.id);
+      if (this.compiledKeywords.size >= MAX_COMPILED_KEYWORD_LISTS) {
+        this.compiledKeywords.clear();
       }
+      this.compiledKeywords.set(key, compiled);
     }
 
-    return matchedTopicIds;
+    return compiled;
   }
 
   /**
@@ -250,11 +289,11 @@ class RSSNormalizerService {
       'administration', 'bureaucratie', 'bureaucratique', 'réglementation',
       'réglementaire', 'paperasse', 'formulaire', 'cerfa', 'norme', 'normatif',
       'complexité', 'simplification', 'simplifier', 'fonctionnaire', 'fonctionnaires',
-      'service public', 'services publics', 'impôt', 'impôts', 'fiscal', 'fiscalité',
-      'taxe', 'taxes', 'prélèvement', 'cotisation', 'dépense publique',
-      'dépenses publiques', 'gaspillage', 'collectivité', 'collectivités', 'mairie',
+      '"service public"', 'impôt', 'impôts', 'fiscal', 'fiscalité',
+      'taxe', 'taxes', 'prélèvement', 'cotisation', '"dépense publique"',
+      'gaspillage', 'collectivité', 'collectivités', 'mairie',
       'préfecture', 'délai', 'délais', 'procédure', 'procédures', 'démarche',
-      'démarches', 'absurde', 'aberrant', 'kafkaïen', 'usine à gaz', 'mille-feuille',
+      'démarches', 'absurde', 'aberrant', 'kafkaïen', '"usine à gaz"', 'mille-feuille',
       'surtaxe', 'surréglementation',
     ];
     return this.quickRelevanceCheck(article, defaultKeywords);
@@ -0,0 +1,55 @@
+import {
+  canonicalizeUrl,
+  hashUrl,
+  DEFAULT_URL_RULES,
+  type UrlCanonicalizationRules,
+} from '@media-scanner/shared';
+import { env } from '../../config/env.js';
+
+class UrlCanonicalizerService {
+  private rules: UrlCanonicalizationRules = {
+    trackingParams: [...DEFAULT_URL_RULES.trackingParams, ...env.URL_TRACKING_PARAMS],
+    domainRules: DEFAULT_URL_RULES.domainRules,
+  };
+
+  /**
+   * Canonical form of an article URL, with the tracking parameters configured for this instance
+   */
+  canonicalize(url: string): string {
+    return canonicalizeUrl(url, this.rules);
+  }
+
+  /**
+   * Hash identifying the article behind any variant of its URL
+   */
+  hash(url: string): string {
+    return hashUrl(this.canonicalize(url));
+  }
+
+  /**
+   * Canonical URL declared by a page through `<link rel="canonical">`.
+   * Links to another site are ignored: a partner republishing a dispatch
+   * points to the original outlet, and that copy is still its own article.
+   */
+  resolveCanonicalLink(href: string, pageUrl: string): string | null {
+    try {
+      const page = new URL(this.canonicalize(pageUrl));
+      const resolved = new URL(this.canonicalize(new URL(href, page).href));
+
+      if (resolved.protocol !== 'https:' || this.site(resolved) !== this.site(page)) {
+        return null;
+      }
+
+      return resolved.href;
+    } catch {
+      return null;
+    }
+  }
+
+  private site(url: URL): string {
+    return url.hostname.replace(/^www\./, '');
+  }
+}
+
+// Export singleton instance
+export const urlCanonicalizer = new UrlCanonicalizerService();
@@ -1,6 +1,6 @@
 import { query } from '../../config/database.js';
 import { redis } from '../../config/redis.js';
-import { hashUrl } from '@media-scanner/shared';
+import { urlCanonicalizer } from '../rss/url-canonicalizer.service.js';
 import { logger } from '../../utils/logger.js';
 import type { NormalizedArticle } from '../rss/rss-normalizer.service.js';
 
@@ -89,7 +89,7 @@ class DeduplicatorService {
    * Check if a single URL already exists
    */
   async isDuplicate(url: string): Promise<boolean> {
-    const urlHash = hashUrl(url);
+    const urlHash = urlCanonicalizer.hash(url);
 
     // Check cache first
     const cached = await this.checkCache(urlHash);
@@ -110,7 +110,7 @@ class DeduplicatorService {
    * Mark a URL as stored (after successful insert)
    */
   async markAsStored(url: string): Promise<void> {
-    const urlHash = hashUrl(url);
+    const urlHash = urlCanonicalizer.hash(url);
     await this.cacheUrlHash(urlHash, true);
   }
 
@@ -123,7 +123,7 @@ class DeduplicatorService {
     const pipeline = redis.pipeline();
 
     for (const url of urls) {
-      const urlHash = hashUrl(url);
+      const urlHash = urlCanonicalizer.hash(url);
       pipeline.setex(`${REDIS_KEY_PREFIX}${urlHash}`, CACHE_TTL_SECONDS, 'exists');
     }
 
@@ -243,7 +243,7 @@ class DeduplicatorService {
    * Clear cache for a specific URL (useful for reprocessing)
    */
   async clearCache(url: string): Promise<void> {
-    const urlHash = hashUrl(url);
+    const urlHash = urlCanonicalizer.hash(url);
     await redis.del(`${REDIS_KEY_PREFIX}${urlHash}`);
   }
 
@@ -1 +1,6 @@
 export { deduplicator } from './deduplicator.service.js';
+export { sourceHealth, SUSPEND_AFTER_FAILURES } from './source-health.service.js';
+export { nearDuplicates, MAX_HAMMING_DISTANCE } from './near-duplicate.service.js';
+export { storyClusterer } from './story-clusterer.service.js';
+export { topicBackfill } from './topic-backfill.service.js';
+export { keywordAudit } from './keyword-audit.service.js';
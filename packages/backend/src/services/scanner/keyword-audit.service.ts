@@ -0,0 +1,302 @@
+import {
+  compileKeywords,
+  findMatchingKeywords,
+  foldText,
+  prepareText,
+  stemFrenchWord,
+  type PreparedText,
+} from '@media-scanner/shared';
+import type { KeywordAuditReport, KeywordSuggestion, Topic, TopicKeywordRecall } from '@media-scanner/shared';
+import { rssNormalizer } from '../rss/rss-normalizer.service.js';
+import { aiBudget } from '../ai/ai-budget.service.js';
+import {
+  KeywordAuditRepository,
+  type AuditCandidate,
+  type ScoredSample,
+} from '../../repositories/keyword-audit.repository.js';
+import { TopicRepository } from '../../repositories/topic.repository.js';
+import { env } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+
+// Articles this recent may still be matched once their full text is extracted
+const SETTLE_MINUTES = 30;
+
+// The first run, or one after a long pause, looks back this far at most
+const MAX_WINDOW_HOURS = 24;
+
+const PAGE_SIZE = 200;
+
+const MAX_SUGGESTIONS = 5;
+const MAX_EXAMPLES = 5;
+
+// A suggestion must catch at least as many relevant misses as irrelevant ones
+const MIN_SUGGESTION_PRECISION = 0.5;
+
+const STOPWORDS = new Set([
+  'avec', 'dans', 'pour', 'sans', 'sous', 'mais', 'donc', 'alors', 'ainsi', 'aussi',
+  'cette', 'leur', 'leurs', 'elle', 'elles', 'nous', 'vous', 'sont', 'sera', 'etre',
+  'avoir', 'fait', 'faire', 'plus', 'moins', 'tres', 'tout', 'tous', 'toute', 'toutes',
+  'apres', 'avant', 'depuis', 'entre', 'selon', 'contre', 'chez', 'comme', 'quand',
+  'dont', 'encore', 'deja', 'bien', 'peut', 'doit', 'avait', 'etait', 'quoi', 'annee',
+  'annees', 'jour', 'jours', 'mois', 'semaine', 'lundi', 'mardi', 'mercredi', 'jeudi',
+  'vendredi', 'samedi', 'dimanche', 'hier', 'demain', 'article', 'abonnes',
+]);
+
+export interface AuditSample extends AuditCandidate {
+  missedTopicIds: string[]; // To analyze it against
+}
+
+export interface KeywordAuditRun {
+  runId: string;
+  scanned: number;
+  misses: number;
+  samples: AuditSample[];
+}
+
+const auditRepo = new KeywordAuditRepository();
+const topicRepo = new TopicRepository();
+
+class KeywordAuditService {
+  /**
+   * Check the articles inserted since the last run against the keywords of every active topic,
+   * and draw a random share of those that at least one of them missed
+   */
+  async sampleMisses(): Promise<KeywordAuditRun | null> {
+    const sampleRate = env.KEYWORD_MISS_SAMPLE_RATE;
+    if (sampleRate <= 0) return null;
+
+    // Samples are analyzed at full budget only, a restricted budget goes to keyword matches
+    if (await aiBudget.articleAdmission() !== 'all') {
+      logger.info('Keyword miss sampling skipped, AI budget restricted');
+      return null;
+    }
+
+    const topics = await topicRepo.findActive();
+    if (topics.length === 0) return null;
+
+    const windowEnd = new Date(Date.now() - SETTLE_MINUTES * 60 * 1000);
+    const lastEnd = await auditRepo.findLastWindowEnd();
+    const earliest = new Date(windowEnd.getTime() - MAX_WINDOW_HOURS * 60 * 60 * 1000);
+    const windowStart = lastEnd && lastEnd > earliest ? lastEnd : earliest;
+
+    if (windowStart >= windowEnd) return null;
+
+    const keywordTopics = topics.map((t) => ({ id: t.id, keywords: t.keywords }));
+    const topicMisses = new Map(topics.map((t) => [t.id, 0]));
+    let drawn: AuditSample[] = [];
+    let scanned = 0;
+    let misses = 0;
+    let afterId: string | null = null;
+
+    for (;;) {
+      const page = await auditRepo.findCandidates(windowStart, windowEnd, afterId, PAGE_SIZE);
+      if (page.length === 0) break;
+
+      for (const article of page) {
+        const matched = this.matchingTopics(article, keywordTopics);
+        const missedTopicIds = topics.filter((t) => !matched.has(t.id)).map((t) => t.id);
+        if (missedTopicIds.length === 0) continue;
+
+        misses++;
+        for (const id of missedTopicIds) topicMisses.set(id, topicMisses.get(id)! + 1);
+        if (Math.random() < sampleRate) drawn.push({ ...article, missedTopicIds });
+      }
+
+      scanned += page.length;
+      afterId = page[page.length - 1].id;
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    // Past the cap, a random subset of the draw keeps it uniform at a lower rate,
+    // which the report reads back from the run's sampled and miss counts
+    if (drawn.length > env.KEYWORD_MISS_SAMPLE_MAX_PER_RUN) {
+      drawn = this.shuffle(drawn).slice(0, env.KEYWORD_MISS_SAMPLE_MAX_PER_RUN);
+    }
+
+    const run = await auditRepo.createRun({
+      windowStart,
+      windowEnd,
+      sampleRate,
+      scanned,
+      misses,
+      topicMisses,
+      samples: drawn.map((a) => ({ articleId: a.id, missedTopicIds: a.missedTopicIds })),
+    });
+
+    const sampledIds = new Set(run.sampledArticleIds);
+
+    return {
+      runId: run.id,
+      scanned,
+      misses,
+      samples: drawn.filter((a) => sampledIds.has(a.id)),
+    };
+  }
+
+  /**
+   * Estimated keyword recall per active topic: relevant articles the keywords caught,
+   * against the relevant samples of its misses, each counted for the misses of its run it stands for
+   */
+  async report(days: number): Promise<KeywordAuditReport> {
+    const [topics, totals, samples, caughtByTopic, missesByTopic] = await Promise.all([
+      topicRepo.findActive(),
+      auditRepo.getTotals(days),
+      auditRepo.findScoredSamples(days),
+      auditRepo.countCaughtByTopic(days),
+      auditRepo.countMissesByTopic(days),
+    ]);
+
+    // Each sample's text is prepared once for every topic
+    const prepared = new Map<string, PreparedText>();
+    for (const sample of samples) {
+      if (!prepared.has(sample.articleId)) {
+        prepared.set(sample.articleId, prepareText(`${sample.title} ${sample.lede}`));
+      }
+    }
+
+    return {
+      days,
+      sampleRate: env.KEYWORD_MISS_SAMPLE_RATE,
+      scanned: totals.scanned,
+      misses: totals.misses,
+      samples: totals.samples,
+      topics: topics.map((topic) => this.topicRecall(
+        topic,
+        samples.filter((s) => s.topicId === topic.id),
+        caughtByTopic.get(topic.id) ?? 0,
+        missesByTopic.get(topic.id) ?? 0,
+        prepared
+      )),
+    };
+  }
+
+  private topicRecall(
+    topic: Topic,
+    samples: ScoredSample[],
+    caught: number,
+    misses: number,
+    prepared: Map<string, PreparedText>
+  ): TopicKeywordRecall {
+    const relevant = samples.filter((s) => s.relevant);
+    // A run capped below its rate kept fewer samples, each of them stands for more misses
+    const estimatedMissed = relevant.reduce((sum, s) => sum + s.weight, 0);
+
+    return {
+      topicId: topic.id,
+      topicName: topic.name,
+      caught,
+      misses,
+      analyzedSamples: samples.length,
+      relevantSamples: relevant.length,
+      estimatedMissed: Math.round(estimatedMissed),
+      recall: samples.length > 0 && caught + estimatedMissed > 0
+        ? caught / (caught + estimatedMissed)
+        : null,
+      suggestions: relevant.length > 0 ? this.suggest(topic, samples, prepared) : [],
+      examples: [...relevant]
+        .sort((a, b) => b.relevanceScore - a.relevanceScore)
+        .slice(0, MAX_EXAMPLES)
+        .map((s) => ({ articleId: s.articleId, title: s.title, url: s.url, relevanceScore: s.relevanceScore })),
+    };
+  }
+
+  /**
+   * Words and pairs of words of the relevant misses that, added to the topic's keywords,
+   * would have caught the most of them for the fewest irrelevant ones
+   */
+  private suggest(topic: Topic, samples: ScoredSample[], prepared: Map<string, PreparedText>): KeywordSuggestion[] {
+    const existing = new Set(topic.keywords.map((k) => foldText(k.trim())));
+    const candidates = new Set<string>();
+
+    for (const sample of samples.filter((s) => s.relevant)) {
+      for (const term of this.extractTerms(`${sample.title} ${sample.lede}`)) {
+        if (!existing.has(foldText(term))) candidates.add(term);
+      }
+    }
+
+    const suggestions: KeywordSuggestion[] = [];
+
+    for (const keyword of candidates) {
+      // The topic's exclusions still apply to the new keyword
+      const compiled = compileKeywords([...topic.keywords, keyword]);
+      if (!compiled.include.some((k) => k.keyword === keyword)) continue;
+
+      let relevantMisses = 0;
+      let otherMisses = 0;
+
+      for (const sample of samples) {
+        if (!findMatchingKeywords(compiled, prepared.get(sample.articleId)!).includes(keyword)) continue;
+        if (sample.relevant) relevantMisses++;
+        else otherMisses++;
+      }
+
+      if (relevantMisses > 0 && relevantMisses / (relevantMisses + otherMisses) >= MIN_SUGGESTION_PRECISION) {
+        suggestions.push({ keyword, relevantMisses, otherMisses });
+      }
+    }
+
+    return suggestions
+      .sort((a, b) =>
+        (b.relevantMisses - b.otherMisses) - (a.relevantMisses - a.otherMisses)
+        || b.relevantMisses - a.relevantMisses
+        // A single word reads better than a pair catching as much
+        || a.keyword.length - b.keyword.length
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Salient words as written (lowercase, accents kept), one per stem, and quoted pairs of them
+   */
+  private extractTerms(text: string): string[] {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+    const byStem = new Map<string, string>();
+    const pairs = new Set<string>();
+    let previous: string | null = null;
+
+    for (const word of words) {
+      const folded = foldText(word);
+      const salient = folded.length >= 4 && !/^\d+$/.test(folded) && !STOPWORDS.has(folded);
+
+      if (!salient) {
+        previous = null;
+        continue;
+      }
+
+      const stem = stemFrenchWord(folded);
+      if (!byStem.has(stem)) byStem.set(stem, word);
+      if (previous) pairs.add(`"${previous} ${word}"`);
+      previous = word;
+    }
+
+    return [...byStem.values(), ...pairs];
+  }
+
+  /**
+   * Snippet first, then the extracted text as the extraction stage would
+   */
+  private matchingTopics(article: AuditCandidate, topics: Array<{ id: string; keywords: string[] }>): Set<string> {
+    const matched = new Set(rssNormalizer.checkAgainstTopics({ title: article.title, lede: article.lede }, topics));
+
+    if (article.fullText !== null && matched.size < topics.length) {
+      const rest = topics.filter((t) => !matched.has(t.id));
+      for (const id of rssNormalizer.checkAgainstTopics({ title: article.title, lede: article.fullText }, rest)) {
+        matched.add(id);
+      }
+    }
+
+    return matched;
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
+
+// Export singleton instance
+export const keywordAudit = new KeywordAuditService();
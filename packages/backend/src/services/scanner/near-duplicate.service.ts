@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { ArticleRepository } from '../../repositories/article.repository.js';
+import { StoryRepository } from '../../repositories/story.repository.js';
+import { logger } from '../../utils/logger.js';
+
+// Word shingles hashed into the fingerprint
+const SHINGLE_SIZE = 3;
+// Below this, titles alone collide too easily to call two articles copies
+const MIN_SHINGLES = 8;
+// Differing bits tolerated between two copies (reworded title, trimmed lede)
+export const MAX_HAMMING_DISTANCE = 3;
+// Copies of a wire dispatch appear within a few days of each other
+const WINDOW_HOURS = 72;
+
+interface SyndicationResult {
+  duplicateOf: string;
+  storyId: string;
+}
+
+const articleRepo = new ArticleRepository();
+const storyRepo = new StoryRepository();
+
+class NearDuplicateService {
+  /**
+   * 64-bit SimHash of the title and lede, as a signed decimal string
+   * (the BIGINT representation), or null when the text is too short
+   */
+  fingerprint(title: string, lede?: string | null): string | null {
+    const words = this.normalize(`${title} ${lede || ''}`).split(' ').filter(Boolean);
+    const shingleCount = words.length - SHINGLE_SIZE + 1;
+
+    if (shingleCount < MIN_SHINGLES) {
+      return null;
+    }
+
+    const weights = new Array<number>(64).fill(0);
+
+    for (let i = 0; i < shingleCount; i++) {
+      const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+      const hash = crypto.createHash('md5').update(shingle).digest().readBigUInt64BE(0);
+
+      for (let bit = 0; bit < 64; bit++) {
+        weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+      }
+    }
+
+    let simhash = 0n;
+    for (let bit = 0; bit < 64; bit++) {
+      if (weights[bit] > 0) {
+        simhash |= 1n << BigInt(bit);
+      }
+    }
+
+    return BigInt.asIntN(64, simhash).toString();
+  }
+
+  /**
+   * Fingerprint a freshly stored article and, when another outlet already
+   * published the same piece, attach it to that article's story as a copy
+   */
+  async assign(
+    articleId: string,
+    content: { title: string; lede?: string | null; publishedAt?: Date }
+  ): Promise<SyndicationResult | null> {
+    const simhash = this.fingerprint(content.title, content.lede);
+    if (!simhash) return null;
+
+    await articleRepo.updateSimhash(articleId, simhash);
+
+    const original = await articleRepo.findNearDuplicate(articleId, simhash, {
+      maxDistance: MAX_HAMMING_DISTANCE,
+      windowHours: WINDOW_HOURS,
+    });
+
+    if (!original) return null;
+
+    const storyId = original.storyId || (await storyRepo.ensureForArticle(original.id)).id;
+
+    await articleRepo.markSyndicatedCopy(articleId, original.id, storyId);
+    await storyRepo.addArticle(storyId, content.publishedAt);
+
+    logger.debug({
+      articleId,
+      duplicateOf: original.id,
+      storyId,
+      distance: original.distance,
+    }, 'Syndicated copy detected');
+
+    return { duplicateOf: original.id, storyId };
+  }
+
+  private normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+}
+
+// Export singleton instance
+export const nearDuplicates = new NearDuplicateService();
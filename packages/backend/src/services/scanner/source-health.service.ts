@@ -0,0 +1,78 @@
+import type { Source } from '@media-scanner/shared';
+import { SourceRepository } from '../../repositories/source.repository.js';
+import { SourceFeedRepository } from '../../repositories/source-feed.repository.js';
+import { rssFetcher } from '../rss/rss-fetcher.service.js';
+import { logger } from '../../utils/logger.js';
+
+// Consecutive failed scans before a source stops being scanned
+export const SUSPEND_AFTER_FAILURES = 6;
+// Backoff doubles the fetch interval on each failure, up to a day
+const MAX_BACKOFF_MINUTES = 24 * 60;
+// Suspended sources are probed at most this often
+const PROBE_INTERVAL_MINUTES = 6 * 60;
+
+interface ProbeResult {
+  probed: number;
+  restored: Source[];
+}
+
+const sourceRepo = new SourceRepository();
+const sourceFeedRepo = new SourceFeedRepository();
+
+class SourceHealthService {
+  /**
+   * Record a failed scan of a source, backing off or suspending it
+   */
+  async recordFailure(sourceId: string, error: string): Promise<void> {
+    const result = await sourceRepo.updateError(sourceId, error, {
+      suspendAfter: SUSPEND_AFTER_FAILURES,
+      maxBackoffMinutes: MAX_BACKOFF_MINUTES,
+    });
+
+    if (result?.suspendedNow) {
+      logger.warn({ sourceId, errorCount: result.errorCount, error }, 'Source suspended after consecutive failures');
+    }
+  }
+
+  /**
+   * Probe suspended sources and lift the suspension of those that answer again.
+   * RSS feeds are tested directly; other platforms get a half-open circuit,
+   * their next scan is the probe.
+   */
+  async probeSuspended(): Promise<ProbeResult> {
+    const sources = await sourceRepo.findDueForProbe(PROBE_INTERVAL_MINUTES);
+    const restored: Source[] = [];
+
+    for (const source of sources) {
+      if (source.type !== 'rss') {
+        await sourceRepo.restore(source.id, SUSPEND_AFTER_FAILURES - 1);
+        restored.push(source);
+        continue;
+      }
+
+      const feeds = await sourceFeedRepo.findActiveBySource(source.id);
+      let reachable = false;
+
+      for (const feed of feeds) {
+        const test = await rssFetcher.testFeed(feed.url);
+        if (test.valid) {
+          reachable = true;
+          break;
+        }
+      }
+
+      if (reachable) {
+        await sourceRepo.restore(source.id);
+        restored.push(source);
+        logger.info({ sourceId: source.id, sourceName: source.name }, 'Suspended source restored after probe');
+      } else {
+        await sourceRepo.markProbed(source.id);
+      }
+    }
+
+    return { probed: sources.length, restored };
+  }
+}
+
+// Export singleton instance
+export const sourceHealth = new SourceHealthService();
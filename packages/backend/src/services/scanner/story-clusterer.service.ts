@@ -0,0 +1,262 @@
+import {
+  StoryRepository,
+  type StoryCandidate,
+  type StorySignature,
+  type StoryArticleText,
+} from '../../repositories/story.repository.js';
+import { logger } from '../../utils/logger.js';
+
+// An affair (a permit saga, a trial) can run for weeks between two articles
+const WINDOW_DAYS = 21;
+const MIN_SCORE = 0.35;
+// Without a shared name, the words alone must overlap this much
+const MIN_TERM_SCORE_WITHOUT_ENTITY = 0.5;
+
+const MAX_ARTICLE_TERMS = 20;
+const MAX_ARTICLE_ENTITIES = 10;
+const MAX_STORY_TERMS = 60;
+const MAX_STORY_ENTITIES = 30;
+
+const STOPWORDS = new Set([
+  'avec', 'dans', 'pour', 'sans', 'sous', 'mais', 'donc', 'alors', 'ainsi', 'aussi',
+  'cette', 'ces', 'leur', 'leurs', 'elle', 'elles', 'nous', 'vous', 'ils', 'sont',
+  'sera', 'etre', 'avoir', 'fait', 'faire', 'plus', 'moins', 'tres', 'tout', 'tous',
+  'toute', 'toutes', 'apres', 'avant', 'depuis', 'entre', 'selon', 'contre', 'chez',
+  'comme', 'quand', 'dont', 'encore', 'deja', 'bien', 'peut', 'doit', 'ont', 'avait',
+  'etait', 'sont', 'une', 'des', 'les', 'aux', 'par', 'sur', 'qui', 'que', 'quoi',
+  'annee', 'annees', 'jour', 'jours', 'mois', 'semaine', 'lundi', 'mardi', 'mercredi',
+  'jeudi', 'vendredi', 'samedi', 'dimanche', 'hier', 'demain', 'article', 'abonnes',
+]);
+
+// Capitalized words that open a sentence rather than name someone or something
+const NOT_ENTITIES = new Set([
+  'le', 'la', 'les', 'un', 'une', 'des', 'ce', 'cet', 'cette', 'ces', 'en', 'au', 'aux',
+  'il', 'elle', 'ils', 'elles', 'on', 'nous', 'mais', 'et', 'ou', 'pour', 'par', 'dans',
+  'sur', 'selon', 'apres', 'avant', 'depuis', 'comment', 'pourquoi', 'quand', 'qui',
+  'que', 'quoi', 'a', 'de', 'du', 'si', 'face', 'enquete', 'video', 'info', 'direct',
+  // Too common to tell two affairs apart
+  'france', 'francais', 'francaise', 'etat', 'gouvernement',
+]);
+
+// Lowercase words allowed inside a name: "Conseil d'État", "mairie de Lyon"
+const NAME_CONNECTORS = new Set(['de', 'du', 'des', 'la', 'le', "d'", "l'"]);
+
+interface ScoredCandidate {
+  candidate: StoryCandidate;
+  score: number;
+}
+
+const storyRepo = new StoryRepository();
+
+class StoryClustererService {
+  /**
+   * Salient words and named entities of an article
+   */
+  signature(title: string, lede?: string | null): StorySignature {
+    const text = `${title}. ${lede || ''}`;
+
+    return {
+      terms: this.extractTerms(text).slice(0, MAX_ARTICLE_TERMS),
+      entities: this.extractEntities(text).slice(0, MAX_ARTICLE_ENTITIES),
+    };
+  }
+
+  /**
+   * File a new original article under the closest recent story, or open a story for it
+   */
+  async assign(
+    articleId: string,
+    content: { title: string; lede?: string | null; publishedAt?: Date }
+  ): Promise<string> {
+    const signature = this.signature(content.title, content.lede);
+
+    const candidates = signature.terms.length > 0 || signature.entities.length > 0
+      ? await storyRepo.findCandidates(signature, WINDOW_DAYS)
+      : [];
+
+    const best = this.pickBest(signature, candidates);
+
+    if (!best) {
+      const story = await storyRepo.ensureForArticle(articleId, signature);
+      return story.id;
+    }
+
+    await storyRepo.attachArticle(
+      best.candidate.id,
+      articleId,
+      this.widen(best.candidate, signature),
+      content.publishedAt
+    );
+
+    logger.debug({
+      articleId,
+      storyId: best.candidate.id,
+      score: Math.round(best.score * 100) / 100,
+    }, 'Article clustered into story');
+
+    return best.candidate.id;
+  }
+
+  /**
+   * Signature of a set of articles, most frequent words and names first
+   */
+  signatureOf(articles: StoryArticleText[]): StorySignature {
+    const termCounts = new Map<string, number>();
+    const entityCounts = new Map<string, number>();
+
+    for (const article of articles) {
+      const signature = this.signature(article.title, article.lede);
+      signature.terms.forEach((t) => termCounts.set(t, (termCounts.get(t) || 0) + 1));
+      signature.entities.forEach((e) => entityCounts.set(e, (entityCounts.get(e) || 0) + 1));
+    }
+
+    const byFrequency = (counts: Map<string, number>, max: number) =>
+      [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, max)
+        .map(([value]) => value);
+
+    return {
+      terms: byFrequency(termCounts, MAX_STORY_TERMS),
+      entities: byFrequency(entityCounts, MAX_STORY_ENTITIES),
+    };
+  }
+
+  /**
+   * Fold other stories into the target one
+   */
+  async merge(targetId: string, storyIds: string[]): Promise<void> {
+    const articles: StoryArticleText[] = [];
+    for (const id of [targetId, ...storyIds]) {
+      articles.push(...await storyRepo.findArticleTexts(id));
+    }
+
+    await storyRepo.merge(targetId, storyIds, this.signatureOf(articles));
+  }
+
+  /**
+   * Move some articles of a story into a story of their own
+   */
+  async split(storyId: string, articleIds: string[], title?: string): Promise<string> {
+    const articles = await storyRepo.findArticleTexts(storyId);
+    const moved = articles.filter((a) => articleIds.includes(a.id));
+    const kept = articles.filter((a) => !articleIds.includes(a.id));
+
+    return storyRepo.split(
+      storyId,
+      articleIds,
+      { title: title || moved[0].title, signature: this.signatureOf(moved) },
+      this.signatureOf(kept)
+    );
+  }
+
+  private pickBest(signature: StorySignature, candidates: StoryCandidate[]): ScoredCandidate | null {
+    let best: ScoredCandidate | null = null;
+
+    for (const candidate of candidates) {
+      const sharedTerms = signature.terms.filter((t) => candidate.terms.includes(t)).length;
+      const sharedEntities = signature.entities.filter((e) => candidate.entities.includes(e)).length;
+
+      const termScore = signature.terms.length > 0 ? sharedTerms / signature.terms.length : 0;
+      const entityScore = signature.entities.length > 0 ? sharedEntities / signature.entities.length : 0;
+      const score = (termScore + entityScore) / 2;
+
+      if (score < MIN_SCORE) continue;
+      if (sharedEntities === 0 && termScore < MIN_TERM_SCORE_WITHOUT_ENTITY) continue;
+
+      // Candidates come most recent first, keep the first of equal scores
+      if (!best || score > best.score) {
+        best = { candidate, score };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Story signature after adding an article: established words first,
+   * the article's new ones as long as there is room
+   */
+  private widen(story: StoryCandidate, signature: StorySignature): StorySignature {
+    return {
+      terms: [...new Set([...story.terms, ...signature.terms])].slice(0, MAX_STORY_TERMS),
+      entities: [...new Set([...story.entities, ...signature.entities])].slice(0, MAX_STORY_ENTITIES),
+    };
+  }
+
+  private extractTerms(text: string): string[] {
+    const terms = this.fold(text)
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 4 && !/^\d+$/.test(word) && !STOPWORDS.has(word));
+
+    return [...new Set(terms)];
+  }
+
+  /**
+   * Runs of capitalized words, possibly joined by "de", "d'"…,
+   * skipping the capital that merely opens a sentence
+   */
+  private extractEntities(text: string): string[] {
+    const entities = new Set<string>();
+    let current: string[] = [];
+    let sentenceStart = true;
+    let startedSentence = false;
+
+    const flush = () => {
+      let words = current;
+      while (words.length > 0 && NOT_ENTITIES.has(this.fold(words[0]))) {
+        words = words.slice(1);
+      }
+      while (words.length > 0 && NAME_CONNECTORS.has(this.fold(words[words.length - 1]))) {
+        words = words.slice(0, -1);
+      }
+
+      // A lone capitalized word opening a sentence is not a name
+      const lone = words.length === 1 && words[0] === current[0] && startedSentence;
+      const entity = this.fold(words.join(' '));
+
+      if (!lone && entity.length >= 3 && !NOT_ENTITIES.has(entity)) {
+        entities.add(entity);
+      }
+      current = [];
+    };
+
+    for (const raw of text.split(/\s+/).filter(Boolean)) {
+      const word = raw.replace(/^[«"“(]+|[»"”),.;:!?]+$/g, '');
+      const elided = word.match(/^([dl]['’])(\p{Lu}.*)$/u);
+
+      if (elided) {
+        current.push(`${elided[1]} ${elided[2]}`);
+      } else if (/^\p{Lu}/u.test(word)) {
+        if (current.length === 0) startedSentence = sentenceStart;
+        current.push(word);
+      } else if (current.length > 0 && NAME_CONNECTORS.has(this.fold(word))) {
+        current.push(word);
+      } else if (current.length > 0) {
+        flush();
+      }
+
+      // Punctuation ends the name, and a full stop the sentence
+      sentenceStart = /[.!?:]["»”]?$/.test(raw);
+      if (current.length > 0 && /[,.;:!?»”)]$/.test(raw)) {
+        flush();
+      }
+    }
+
+    if (current.length > 0) flush();
+
+    return [...entities];
+  }
+
+  private fold(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/['’]/g, "'")
+      .trim();
+  }
+}
+
+// Export singleton instance
+export const storyClusterer = new StoryClustererService();
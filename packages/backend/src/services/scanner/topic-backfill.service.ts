@@ -0,0 +1,118 @@
+import { rssNormalizer } from '../rss/rss-normalizer.service.js';
+import {
+  TopicBackfillRepository,
+  type BackfillCandidate,
+} from '../../repositories/topic-backfill.repository.js';
+import { AiUsageRepository } from '../../repositories/ai-usage.repository.js';
+import type { Topic, TopicBackfillEstimate } from '@media-scanner/shared';
+
+// Articles are read this many at a time, full texts included
+const PAGE_SIZE = 200;
+
+// Recent relevance calls give the price of one analysis
+const COST_SAMPLE_DAYS = 30;
+
+// Unscored articles the keywords are run on to estimate the matches of a backfill
+const ESTIMATE_SAMPLE_SIZE = 200;
+
+export interface BackfillScanProgress {
+  scanned: number;
+  matched: number;
+  rescored: number;
+}
+
+export interface BackfillScanResult extends BackfillScanProgress {
+  articles: BackfillCandidate[]; // To analyze for the topic, matches first
+}
+
+const backfillRepo = new TopicBackfillRepository();
+const usageRepo = new AiUsageRepository();
+
+class TopicBackfillService {
+  /**
+   * What a backfill would analyze and cost, before launching it. Articles are
+   * counted, and the keyword matches extrapolated from a random sample, so
+   * that the estimate stays cheap whatever the period.
+   */
+  async estimate(topic: Topic, days: number, rescore: boolean): Promise<TopicBackfillEstimate> {
+    const { total, scored } = await backfillRepo.countCandidates(topic.id, days);
+    const sample = await backfillRepo.sampleUnscored(topic.id, days, ESTIMATE_SAMPLE_SIZE);
+
+    const sampleMatches = sample.filter((article) => this.matchesKeywords(article, topic)).length;
+    const matched = sample.length > 0 ? Math.round((sampleMatches / sample.length) * (total - scored)) : 0;
+    const rescored = rescore ? scored : 0;
+    const analyses = matched + rescored;
+    const costPerAnalysisUsd = await usageRepo.getAverageCost('multi_topic_relevance', COST_SAMPLE_DAYS);
+
+    return {
+      days,
+      rescore,
+      scanned: total,
+      sampled: sample.length,
+      matched,
+      rescored,
+      analyses,
+      costPerAnalysisUsd,
+      estimatedCostUsd: costPerAnalysisUsd !== null ? costPerAnalysisUsd * analyses : null,
+    };
+  }
+
+  /**
+   * Run the topic keywords over the articles of the last days, as the RSS scan does at insert time.
+   * Articles already scored for the topic only come back when rescoring.
+   * onPage is called after each page and stops the scan by returning false.
+   */
+  async scan(
+    topic: Topic,
+    days: number,
+    rescore: boolean,
+    onPage?: (progress: BackfillScanProgress) => Promise<boolean>
+  ): Promise<BackfillScanResult> {
+    const matched: BackfillCandidate[] = [];
+    const rescored: BackfillCandidate[] = [];
+    let scanned = 0;
+    let afterId: string | null = null;
+
+    for (;;) {
+      const page = await backfillRepo.findCandidates(topic.id, days, afterId, PAGE_SIZE);
+      if (page.length === 0) break;
+
+      for (const article of page) {
+        if (article.scored) {
+          if (rescore) rescored.push(article);
+        } else if (this.matchesKeywords(article, topic)) {
+          matched.push(article);
+        }
+      }
+
+      scanned += page.length;
+      afterId = page[page.length - 1].id;
+
+      const keepGoing = onPage
+        ? await onPage({ scanned, matched: matched.length, rescored: rescored.length })
+        : true;
+      if (!keepGoing || page.length < PAGE_SIZE) break;
+    }
+
+    return {
+      scanned,
+      matched: matched.length,
+      rescored: rescored.length,
+      articles: [...matched, ...rescored],
+    };
+  }
+
+  /**
+   * Snippet first, then the extracted text as the extraction stage would
+   */
+  private matchesKeywords(article: BackfillCandidate, topic: Topic): boolean {
+    const topics = [{ id: topic.id, keywords: topic.keywords }];
+
+    return rssNormalizer.checkAgainstTopics({ title: article.title, lede: article.lede }, topics).length > 0
+      || (article.fullText !== null
+        && rssNormalizer.checkAgainstTopics({ title: article.title, lede: article.fullText }, topics).length > 0);
+  }
+}
+
+// Export singleton instance
+export const topicBackfill = new TopicBackfillService();
@@ -0,0 +1,259 @@
+import { env } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { withRetry } from '../../utils/retry.js';
+import { RateLimiter } from '../../utils/rate-limiter.js';
+
+export interface BlueskyFacet {
+  features: Array<{ $type: string; uri?: string; tag?: string }>;
+}
+
+export interface BlueskyPostRecord {
+  text: string;
+  createdAt: string;
+  langs?: string[];
+  facets?: BlueskyFacet[];
+  embed?: {
+    $type: string;
+    external?: { uri: string; title?: string };
+  };
+}
+
+export interface BlueskyPostView {
+  uri: string;
+  cid: string;
+  author: {
+    did: string;
+    handle: string;
+    displayName?: string;
+  };
+  record: BlueskyPostRecord;
+  embed?: {
+    $type: string;
+    external?: { uri: string; title?: string; description?: string };
+  };
+  likeCount?: number;
+  repostCount?: number;
+  replyCount?: number;
+  indexedAt: string;
+}
+
+export interface BlueskyFetchResult {
+  success: boolean;
+  posts: BlueskyPostView[];
+  error?: string;
+  duration: number;
+}
+
+interface BlueskySession {
+  did: string;
+  handle: string;
+  accessJwt: string;
+  refreshJwt: string;
+}
+
+class XrpcError extends Error {
+  constructor(public status: number, public error: string, message: string) {
+    super(`XRPC ${status} ${error}: ${message}`);
+    this.name = 'XrpcError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+class BlueskyService {
+  private serviceUrl: string;
+  private session: BlueskySession | null = null;
+  private rateLimiter: RateLimiter;
+  private requestCount = 0;
+  private errorCount = 0;
+
+  constructor() {
+    // Point BLUESKY_SERVICE_URL at a local PDS to run without the network
+    this.serviceUrl = env.BLUESKY_SERVICE_URL.replace(/\/+$/, '');
+
+    // Authenticated AppView limit is 3000 requests per 5 minutes, stay well below
+    this.rateLimiter = new RateLimiter({
+      tokensPerInterval: 60,
+      interval: 60 * 1000,
+    });
+  }
+
+  /**
+   * Whether credentials are configured for the adapter
+   */
+  isConfigured(): boolean {
+    return Boolean(env.BLUESKY_IDENTIFIER && env.BLUESKY_PASSWORD);
+  }
+
+  getServiceUrl(): string {
+    return this.serviceUrl;
+  }
+
+  /**
+   * Search recent posts matching a query
+   */
+  async searchPosts(q: string, limit = 50): Promise<BlueskyFetchResult> {
+    const startTime = Date.now();
+
+    try {
+      const params = new URLSearchParams({ q, limit: String(limit), sort: 'latest', lang: 'fr' });
+      const result = await this.call<{ posts: BlueskyPostView[] }>('app.bsky.feed.searchPosts', params);
+
+      return { success: true, posts: result.posts || [], duration: Date.now() - startTime };
+    } catch (error) {
+      return this.failure(error, { q }, startTime);
+    }
+  }
+
+  /**
+   * Fetch the latest posts of an author (handle or DID), excluding reposts
+   */
+  async getAuthorFeed(actor: string, limit = 50): Promise<BlueskyFetchResult> {
+    const startTime = Date.now();
+
+    try {
+      const params = new URLSearchParams({
+        actor: actor.replace(/^@/, ''),
+        limit: String(limit),
+        filter: 'posts_no_replies',
+      });
+      const result = await this.call<{ feed: Array<{ post: BlueskyPostView; reason?: unknown }> }>(
+        'app.bsky.feed.getAuthorFeed',
+        params
+      );
+
+      const posts = (result.feed || [])
+        .filter((item) => !item.reason)
+        .map((item) => item.post);
+
+      return { success: true, posts, duration: Date.now() - startTime };
+    } catch (error) {
+      return this.failure(error, { actor }, startTime);
+    }
+  }
+
+  /**
+   * Call an XRPC query, creating or refreshing the session as needed
+   */
+  private async call<T>(nsid: string, params: URLSearchParams): Promise<T> {
+    await this.rateLimiter.waitForToken();
+    this.requestCount++;
+
+    const session = await this.getSession();
+
+    try {
+      return await this.xrpc<T>('GET', `${nsid}?${params}`, session.accessJwt);
+    } catch (error) {
+      if (error instanceof XrpcError && error.error === 'ExpiredToken') {
+        const refreshed = await this.refreshSession();
+        return this.xrpc<T>('GET', `${nsid}?${params}`, refreshed.accessJwt);
+      }
+      throw error;
+    }
+  }
+
+  private async getSession(): Promise<BlueskySession> {
+    if (this.session) {
+      return this.session;
+    }
+
+    if (!this.isConfigured()) {
+      throw new Error('Bluesky credentials are not configured');
+    }
+
+    this.session = await this.xrpc<BlueskySession>(
+      'POST',
+      'com.atproto.server.createSession',
+      undefined,
+      { identifier: env.BLUESKY_IDENTIFIER, password: env.BLUESKY_PASSWORD }
+    );
+
+    logger.info({ handle: this.session.handle, service: this.serviceUrl }, 'Bluesky session created');
+    return this.session;
+  }
+
+  private async refreshSession(): Promise<BlueskySession> {
+    if (!this.session) {
+      return this.getSession();
+    }
+
+    try {
+      this.session = await this.xrpc<BlueskySession>(
+        'POST',
+        'com.atproto.server.refreshSession',
+        this.session.refreshJwt
+      );
+    } catch (error) {
+      // Refresh token expired as well, start over
+      logger.warn({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Bluesky session refresh failed');
+      this.session = null;
+      return this.getSession();
+    }
+
+    return this.session;
+  }
+
+  private async xrpc<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    token?: string,
+    body?: Record<string, unknown>
+  ): Promise<T> {
+    return withRetry(
+      async () => {
+        const response = await fetch(`${this.serviceUrl}/xrpc/${path}`, {
+          method,
+          headers: {
+            'Accept': 'application/json',
+            ...(body ? { 'Content-Type': 'application/json' } : {}),
+            ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({})) as { error?: string; message?: string };
+          throw new XrpcError(response.status, payload.error || 'Unknown', payload.message || response.statusText);
+        }
+
+        return (await response.json()) as T;
+      },
+      {
+        maxAttempts: 3,
+        initialDelayMs: 2000,
+        maxDelayMs: 15000,
+        backoffMultiplier: 2,
+        retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'timeout', 'fetch failed', 'XRPC 429', 'XRPC 502', 'XRPC 503'],
+      }
+    );
+  }
+
+  private failure(error: unknown, context: Record<string, string>, startTime: number): BlueskyFetchResult {
+    this.errorCount++;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    logger.error({ ...context, error: errorMessage }, 'Failed to fetch Bluesky posts');
+
+    return {
+      success: false,
+      posts: [],
+      error: errorMessage,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Get client statistics
+   */
+  getStats() {
+    return {
+      totalRequests: this.requestCount,
+      totalErrors: this.errorCount,
+      authenticated: this.session !== null,
+    };
+  }
+}
+
+// Export singleton instance
+export const blueskyService = new BlueskyService();
@@ -0,0 +1,7 @@
+export { mastodonService } from './mastodon.service.js';
+export { blueskyService } from './bluesky.service.js';
+export { socialNormalizer } from './social-normalizer.service.js';
+
+export type { MastodonStatus, MastodonAccount, MastodonFetchResult } from './mastodon.service.js';
+export type { BlueskyPostView, BlueskyFetchResult } from './bluesky.service.js';
+export type { NormalizedSocialPost } from './social-normalizer.service.js';
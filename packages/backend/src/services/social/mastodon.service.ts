@@ -0,0 +1,179 @@
+import { logger } from '../../utils/logger.js';
+import { withRetry } from '../../utils/retry.js';
+import { RateLimiter } from '../../utils/rate-limiter.js';
+
+export interface MastodonAccount {
+  id: string;
+  acct: string;
+  username: string;
+  display_name: string;
+  url: string;
+}
+
+export interface MastodonStatus {
+  id: string;
+  uri: string;
+  url: string | null;
+  created_at: string;
+  content: string;
+  spoiler_text: string;
+  language: string | null;
+  visibility: string;
+  replies_count: number;
+  reblogs_count: number;
+  favourites_count: number;
+  account: MastodonAccount;
+  reblog: MastodonStatus | null;
+  card: { url: string; title: string } | null;
+}
+
+export interface MastodonFetchResult {
+  success: boolean;
+  statuses: MastodonStatus[];
+  error?: string;
+  duration: number;
+}
+
+const USER_AGENT = 'MediaScanner/1.0 (+https://github.com/media-scanner; Mastodon reader)';
+const REQUEST_TIMEOUT_MS = 30000;
+
+class MastodonService {
+  private rateLimiters: Map<string, RateLimiter> = new Map();
+  private requestCount = 0;
+  private errorCount = 0;
+
+  /**
+   * Fetch the public timeline of a hashtag on an instance
+   */
+  async fetchHashtagTimeline(
+    instance: string,
+    hashtag: string,
+    limit = 40
+  ): Promise<MastodonFetchResult> {
+    const tag = hashtag.replace(/^#/, '');
+    return this.fetchStatuses(
+      instance,
+      `/api/v1/timelines/tag/${encodeURIComponent(tag)}?limit=${limit}`
+    );
+  }
+
+  /**
+   * Fetch the latest statuses of an account (e.g. "user@instance" or "user")
+   */
+  async fetchAccountStatuses(
+    instance: string,
+    acct: string,
+    limit = 40
+  ): Promise<MastodonFetchResult> {
+    const startTime = Date.now();
+
+    try {
+      const account = await this.request<MastodonAccount>(
+        instance,
+        `/api/v1/accounts/lookup?acct=${encodeURIComponent(acct.replace(/^@/, ''))}`
+      );
+
+      return this.fetchStatuses(
+        instance,
+        `/api/v1/accounts/${account.id}/statuses?limit=${limit}&exclude_reblogs=true&exclude_replies=true`
+      );
+    } catch (error) {
+      this.errorCount++;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error({ instance, acct, error: errorMessage }, 'Failed to look up Mastodon account');
+
+      return {
+        success: false,
+        statuses: [],
+        error: errorMessage,
+        duration: Date.now() - startTime,
+      };
+    }
+  }
+
+  private async fetchStatuses(instance: string, path: string): Promise<MastodonFetchResult> {
+    const startTime = Date.now();
+
+    try {
+      const statuses = await this.request<MastodonStatus[]>(instance, path);
+      const duration = Date.now() - startTime;
+
+      logger.debug({ instance, path, count: statuses.length, duration }, 'Mastodon statuses fetched');
+
+      return { success: true, statuses, duration };
+    } catch (error) {
+      this.errorCount++;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error({ instance, path, error: errorMessage }, 'Failed to fetch Mastodon statuses');
+
+      return {
+        success: false,
+        statuses: [],
+        error: errorMessage,
+        duration: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * Perform a GET request against the public API of an instance
+   */
+  private async request<T>(instance: string, path: string): Promise<T> {
+    await this.getRateLimiter(instance).waitForToken();
+    this.requestCount++;
+
+    return withRetry(
+      async () => {
+        const response = await fetch(`https://${instance}${path}`, {
+          headers: {
+            'User-Agent': USER_AGENT,
+            'Accept': 'application/json',
+          },
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Mastodon API ${instance} responded ${response.status}`);
+        }
+
+        return (await response.json()) as T;
+      },
+      {
+        maxAttempts: 3,
+        initialDelayMs: 2000,
+        maxDelayMs: 15000,
+        backoffMultiplier: 2,
+        retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'timeout', 'fetch failed', '429', '502', '503'],
+      }
+    );
+  }
+
+  /**
+   * Get or create a rate limiter for an instance
+   * (public API default is 300 requests per 5 minutes)
+   */
+  private getRateLimiter(instance: string): RateLimiter {
+    if (!this.rateLimiters.has(instance)) {
+      this.rateLimiters.set(
+        instance,
+        new RateLimiter({ tokensPerInterval: 30, interval: 60000 })
+      );
+    }
+    return this.rateLimiters.get(instance)!;
+  }
+
+  /**
+   * Get client statistics
+   */
+  getStats() {
+    return {
+      totalRequests: this.requestCount,
+      totalErrors: this.errorCount,
+    };
+  }
+}
+
+// Export singleton instance
+export const mastodonService = new MastodonService();
@@ -0,0 +1,254 @@
+import type { CreateSocialPostInput } from '@media-scanner/shared';
+import type { MastodonStatus } from './mastodon.service.js';
+import type { BlueskyPostView } from './bluesky.service.js';
+import { logger } from '../../utils/logger.js';
+
+export interface NormalizedSocialPost extends CreateSocialPostInput {
+  // Links embedded in the post, used to find the article it talks about
+  embeddedUrls: string[];
+}
+
+interface SocialNormalizationResult {
+  posts: NormalizedSocialPost[];
+  skipped: number;
+  reasons: Record<string, number>;
+}
+
+// Social posts are short, so the bar is lower than for RSS ledes
+const MIN_CONTENT_LENGTH = 20;
+const MAX_AGE_DAYS = 7;
+
+class SocialNormalizerService {
+  /**
+   * Normalize Mastodon statuses into social post format
+   */
+  normalizeMastodonStatuses(
+    statuses: MastodonStatus[],
+    sourceId: string | null
+  ): SocialNormalizationResult {
+    const posts: NormalizedSocialPost[] = [];
+    const reasons: Record<string, number> = {};
+    let skipped = 0;
+
+    for (const status of statuses) {
+      const result = this.normalizeMastodonStatus(status, sourceId);
+
+      if (result.post) {
+        posts.push(result.post);
+      } else {
+        skipped++;
+        reasons[result.reason!] = (reasons[result.reason!] || 0) + 1;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.debug({
+        sourceId,
+        total: statuses.length,
+        normalized: posts.length,
+        skipped,
+        reasons,
+      }, 'Mastodon statuses normalized');
+    }
+
+    return { posts, skipped, reasons };
+  }
+
+  /**
+   * Normalize a single Mastodon status
+   */
+  private normalizeMastodonStatus(
+    status: MastodonStatus,
+    sourceId: string | null
+  ): { post?: NormalizedSocialPost; reason?: string } {
+    // Boosts are attributed to the original status
+    const original = status.reblog || status;
+
+    if (original.visibility !== 'public' && original.visibility !== 'unlisted') {
+      return { reason: 'not_public' };
+    }
+
+    const text = this.stripHtml(
+      [original.spoiler_text, original.content].filter(Boolean).join(' ')
+    );
+
+    if (text.length < MIN_CONTENT_LENGTH) {
+      return { reason: 'insufficient_content' };
+    }
+
+    const postedAt = this.parseDate(original.created_at);
+    if (postedAt && this.isOlderThan(postedAt, MAX_AGE_DAYS)) {
+      return { reason: 'too_old' };
+    }
+
+    const embeddedUrls = this.extractMastodonLinks(original.content);
+    if (original.card?.url) {
+      embeddedUrls.unshift(original.card.url);
+    }
+
+    return {
+      post: {
+        sourceId,
+        platform: 'mastodon',
+        // The URI is globally unique across instances, the numeric id is not
+        externalId: original.uri,
+        authorHandle: original.account?.acct,
+        authorName: original.account?.display_name || undefined,
+        content: text,
+        url: original.url || original.uri,
+        postedAt,
+        likesCount: original.favourites_count || 0,
+        repostsCount: original.reblogs_count || 0,
+        repliesCount: original.replies_count || 0,
+        embeddedUrls: [...new Set(embeddedUrls)],
+      },
+    };
+  }
+
+  /**
+   * Normalize Bluesky post views into social post format
+   */
+  normalizeBlueskyPosts(
+    posts: BlueskyPostView[],
+    sourceId: string | null
+  ): SocialNormalizationResult {
+    const normalized: NormalizedSocialPost[] = [];
+    const reasons: Record<string, number> = {};
+    let skipped = 0;
+
+    for (const post of posts) {
+      const result = this.normalizeBlueskyPost(post, sourceId);
+
+      if (result.post) {
+        normalized.push(result.post);
+      } else {
+        skipped++;
+        reasons[result.reason!] = (reasons[result.reason!] || 0) + 1;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.debug({
+        sourceId,
+        total: posts.length,
+        normalized: normalized.length,
+        skipped,
+        reasons,
+      }, 'Bluesky posts normalized');
+    }
+
+    return { posts: normalized, skipped, reasons };
+  }
+
+  /**
+   * Normalize a single Bluesky post view
+   */
+  private normalizeBlueskyPost(
+    post: BlueskyPostView,
+    sourceId: string | null
+  ): { post?: NormalizedSocialPost; reason?: string } {
+    const text = (post.record?.text || '').replace(/\s+/g, ' ').trim();
+
+    if (text.length < MIN_CONTENT_LENGTH) {
+      return { reason: 'insufficient_content' };
+    }
+
+    const postedAt = this.parseDate(post.record.createdAt || post.indexedAt);
+    if (postedAt && this.isOlderThan(postedAt, MAX_AGE_DAYS)) {
+      return { reason: 'too_old' };
+    }
+
+    // at://did:plc:xyz/app.bsky.feed.post/<rkey>
+    const rkey = post.uri.split('/').pop();
+
+    const embeddedUrls = [
+      post.embed?.external?.uri,
+      post.record.embed?.external?.uri,
+      ...(post.record.facets || []).flatMap((facet) =>
+        facet.features
+          .filter((f) => f.$type === 'app.bsky.richtext.facet#link')
+          .map((f) => f.uri)
+      ),
+    ].filter((uri): uri is string => Boolean(uri));
+
+    return {
+      post: {
+        sourceId,
+        platform: 'bluesky',
+        externalId: post.uri,
+        authorHandle: post.author.handle,
+        authorName: post.author.displayName || undefined,
+        content: text,
+        url: `https://bsky.app/profile/${post.author.handle}/post/${rkey}`,
+        postedAt,
+        likesCount: post.likeCount || 0,
+        repostsCount: post.repostCount || 0,
+        repliesCount: post.replyCount || 0,
+        embeddedUrls: [...new Set(embeddedUrls)],
+      },
+    };
+  }
+
+  /**
+   * Extract outbound links from status HTML, ignoring mentions and hashtags
+   */
+  private extractMastodonLinks(html: string): string[] {
+    const links: string[] = [];
+
+    for (const match of html.matchAll(/<a\s([^>]*)>/gi)) {
+      const attributes = match[1];
+      if (/class="[^"]*\b(mention|hashtag)\b/.test(attributes)) {
+        continue;
+      }
+
+      const href = attributes.match(/href="([^"]+)"/)?.[1];
+      if (href && /^https?:\/\//.test(href)) {
+        links.push(href.replace(/&amp;/g, '&'));
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Parse a date string, capping future dates at now
+   */
+  private parseDate(dateString?: string): Date | undefined {
+    if (!dateString) return undefined;
+
+    const date = new Date(dateString);
+    if (isNaN(date.getTime())) {
+      return undefined;
+    }
+
+    const now = new Date();
+    return date > now ? now : date;
+  }
+
+  private isOlderThan(date: Date, days: number): boolean {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - days);
+    return date < cutoff;
+  }
+
+  /**
+   * Strip HTML markup from status content
+   */
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<\/p>/gi, ' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+// Export singleton instance
+export const socialNormalizer = new SocialNormalizerService();
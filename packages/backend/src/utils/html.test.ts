@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { decodeHtmlEntities, stripTags } from './html.js';
+
+describe('decodeHtmlEntities', () => {
+  it.each([
+    ['Impôts &amp; taxes', 'Impôts & taxes'],
+    ['&laquo;&nbsp;Kafkaïen&nbsp;&raquo;', '« Kafkaïen »'],
+    ['l&rsquo;État, l&#39;État, l&#039;État', 'l\'État, l\'État, l\'État'],
+    ['&#233;t&#xE9; &#X2019;', 'été ’'],
+    ['Bravo &#128079; &#x1F44F;', 'Bravo 👏 👏'],
+  ])('decodes %j', (input, expected) => {
+    expect(decodeHtmlEntities(input)).toBe(expected);
+  });
+
+  it('decodes escaped entities only once', () => {
+    expect(decodeHtmlEntities('&amp;lt;p&amp;gt; &amp;amp; &amp;#233;')).toBe('&lt;p&gt; &amp; &#233;');
+  });
+
+  it('leaves unknown names and invalid code points as written', () => {
+    expect(decodeHtmlEntities('&inconnu; &#0; &#x110000; & seul')).toBe('&inconnu; &#0; &#x110000; & seul');
+  });
+});
+
+describe('stripTags', () => {
+  it('drops tags and decodes the text left', () => {
+    expect(stripTags('<p>Le <a href="/x">d&eacute;cret</a> &amp;lt;br&amp;gt;<br/>suite</p>'))
+      .toBe('Le décret &lt;br&gt; suite');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { isPublicAddress, isPublicUrl, readTextWithLimit, ResponseTooLargeError } from './http.js';
+
+function streamedResponse(chunks: string[], headers: Record<string, string> = {}): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+
+  return new Response(body, { headers });
+}
+
+describe('readTextWithLimit', () => {
+  it('reads a body under the limit', async () => {
+    await expect(readTextWithLimit(streamedResponse(['<html>', 'é</html>']), 100)).resolves.toBe('<html>é</html>');
+  });
+
+  it('stops once the streamed body passes the limit', async () => {
+    const response = streamedResponse(['a'.repeat(60), 'b'.repeat(60)]);
+    await expect(readTextWithLimit(response, 100)).rejects.toBeInstanceOf(ResponseTooLargeError);
+  });
+
+  it('rejects a declared length over the limit without reading', async () => {
+    const response = streamedResponse(['small'], { 'content-length': '1000' });
+    await expect(readTextWithLimit(response, 100)).rejects.toBeInstanceOf(ResponseTooLargeError);
+  });
+});
+
+describe('isPublicAddress', () => {
+  it.each([
+    ['93.184.216.34', true],
+    ['2606:2800:220:1:248:1893:25c8:1946', true],
+    ['127.0.0.1', false],
+    ['10.1.2.3', false],
+    ['172.20.0.1', false],
+    ['192.168.1.1', false],
+    ['169.254.169.254', false],
+    ['100.64.0.1', false],
+    ['0.0.0.0', false],
+    ['::1', false],
+    ['::', false],
+    ['fd00::1', false],
+    ['fe80::1', false],
+    ['::ffff:127.0.0.1', false],
+    ['not-an-ip', false],
+  ])('%s is public: %s', (address, expected) => {
+    expect(isPublicAddress(address)).toBe(expected);
+  });
+});
+
+describe('isPublicUrl', () => {
+  it('rejects literal private hosts and malformed URLs without a lookup', async () => {
+    await expect(isPublicUrl('http://127.0.0.1:5432/')).resolves.toBe(false);
+    await expect(isPublicUrl('http://[::1]/feed')).resolves.toBe(false);
+    await expect(isPublicUrl('not a url')).resolves.toBe(false);
+  });
+
+  it('accepts a literal public host', async () => {
+    await expect(isPublicUrl('https://93.184.216.34/rss')).resolves.toBe(true);
+  });
+
+  it('rejects a name resolving to loopback', async () => {
+    await expect(isPublicUrl('http://localhost:3000/')).resolves.toBe(false);
+  });
+});
@@ -2,9 +2,13 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import { useAuth } from './hooks/useAuth';
 import DashboardPage from './pages/DashboardPage';
 import ArticlesPage from './pages/ArticlesPage';
+import StoriesPage from './pages/StoriesPage';
 import PostsPage from './pages/PostsPage';
 import SourcesPage from './pages/SourcesPage';
 import TopicsPage from './pages/TopicsPage';
+import PromptsPage from './pages/PromptsPage';
+import EvaluationPage from './pages/EvaluationPage';
+import EntitiesPage from './pages/EntitiesPage';
 import LoginPage from './pages/LoginPage';
 import Layout from './components/common/Layout';
 
@@ -38,9 +42,13 @@ export default function App() {
               <Routes>
                 <Route path="/" element={<DashboardPage />} />
                 <Route path="/articles" element={<ArticlesPage />} />
+                <Route path="/stories" element={<StoriesPage />} />
+                <Route path="/entities" element={<EntitiesPage />} />
                 <Route path="/posts" element={<PostsPage />} />
                 <Route path="/topics" element={<TopicsPage />} />
                 <Route path="/sources" element={<SourcesPage />} />
+                <Route path="/prompts" element={<PromptsPage />} />
+                <Route path="/evaluation" element={<EvaluationPage />} />
                 <Route path="*" element={<Navigate to="/" replace />} />
               </Routes>
             </Layout>
@@ -3,9 +3,13 @@ import { useAuth } from '../../hooks/useAuth';
 import {
   LayoutDashboard,
   Newspaper,
+  FolderOpen,
+  Landmark,
   MessageSquare,
   Database,
   Tag,
+  FileText,
+  Target,
   LogOut,
   Menu,
   X,
@@ -15,9 +19,13 @@ import { useState } from 'react';
 const navigation = [
   { name: 'Tableau de bord', href: '/', icon: LayoutDashboard },
   { name: 'Articles', href: '/articles', icon: Newspaper },
+  { name: 'Dossiers', href: '/stories', icon: FolderOpen },
+  { name: 'Entités', href: '/entities', icon: Landmark },
   { name: 'Posts générés', href: '/posts', icon: MessageSquare },
   { name: 'Topics', href: '/topics', icon: Tag },
   { name: 'Sources', href: '/sources', icon: Database },
+  { name: 'Prompts', href: '/prompts', icon: FileText },
+  { name: 'Évaluation', href: '/evaluation', icon: Target },
 ];
 
 export default function Layout({ children }: { children: React.ReactNode }) {
@@ -1,18 +1,39 @@
 import { useState, useEffect } from 'react';
 import { api } from '../api/client';
-import { ExternalLink, RefreshCw } from 'lucide-react';
-import type { ArticleWithSource, PaginatedResponse } from '@media-scanner/shared';
+import { useAuth } from '../hooks/useAuth';
+import { ExternalLink, RefreshCw, Check, X, ThumbsUp, ThumbsDown } from 'lucide-react';
+import type {
+  ArticleTopicWithFeedback,
+  ArticleWithSource,
+  PaginatedResponse,
+  RelevanceLabel,
+  Topic,
+} from '@media-scanner/shared';
 
 export default function ArticlesPage() {
   const [articles, setArticles] = useState<ArticleWithSource[]>([]);
   const [pagination, setPagination] = useState({ page: 1, totalPages: 1, total: 0 });
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>('relevant');
+  const [topics, setTopics] = useState<Topic[]>([]);
 
   useEffect(() => {
     loadArticles();
   }, [statusFilter, pagination.page]);
 
+  useEffect(() => {
+    loadTopics();
+  }, []);
+
+  async function loadTopics() {
+    try {
+      const res = await api.get<{ data: Topic[] }>('/api/topics?active=true');
+      setTopics(res.data.data);
+    } catch (error) {
+      console.error('Failed to load topics:', error);
+    }
+  }
+
   async function loadArticles() {
     setLoading(true);
     try {
@@ -49,6 +70,8 @@ export default function ArticlesPage() {
             <option value="relevant">Pertinents</option>
             <option value="pending">En attente</option>
             <option value="irrelevant">Non pertinents</option>
+            <option value="duplicate">Reprises</option>
+            <option value="error">En erreur</option>
             <option value="">Tous</option>
           </select>
           <button
@@ -74,7 +97,7 @@ export default function ArticlesPage() {
           </div>
         ) : (
           articles.map((article) => (
-            <ArticleRow key={article.id} article={article} onRefresh={loadArticles} />
+            <ArticleRow key={article.id} article={article} topics={topics} onRefresh={loadArticles} />
           ))
         )}
       </div>
@@ -107,17 +130,25 @@ export default function ArticlesPage() {
 
 function ArticleRow({
   article,
+  topics,
   onRefresh,
 }: {
   article: ArticleWithSource;
+  topics: Topic[];
   onRefresh: () => void;
 }) {
+  const { user } = useAuth();
+  const [labels, setLabels] = useState<RelevanceLabel[] | null>(null);
+  const [labelling, setLabelling] = useState(false);
+  const [showScores, setShowScores] = useState(false);
+
   const statusBadge = {
     relevant: 'badge-success',
     irrelevant: 'badge-gray',
     pending: 'badge-warning',
     analyzing: 'badge-info',
     error: 'badge-danger',
+    duplicate: 'badge-gray',
   }[article.status] || 'badge-gray';
 
   const statusLabel = {
@@ -126,6 +157,7 @@ function ArticleRow({
     pending: 'En attente',
     analyzing: 'Analyse...',
     error: 'Erreur',
+    duplicate: 'Reprise',
   }[article.status] || article.status;
 
   async function handleReanalyze() {
@@ -137,6 +169,41 @@ function ArticleRow({
     }
   }
 
+  async function toggleLabelling() {
+    if (!labelling && labels === null) {
+      try {
+        const res = await api.get<{ data: RelevanceLabel[] }>(`/api/evaluation/labels?articleId=${article.id}`);
+        setLabels(res.data.data);
+      } catch (error) {
+        console.error('Failed to load labels:', error);
+        return;
+      }
+    }
+    setLabelling(!labelling);
+  }
+
+  // Choosing the label already given removes it
+  async function handleLabel(topicId: string, isRelevant: boolean) {
+    const current = labels?.find((l) => l.topicId === topicId);
+
+    try {
+      if (current?.isRelevant === isRelevant) {
+        await api.delete(`/api/evaluation/labels?articleId=${article.id}&topicId=${topicId}`);
+        setLabels((prev) => (prev || []).filter((l) => l.topicId !== topicId));
+      } else {
+        const res = await api.put<{ data: RelevanceLabel }>('/api/evaluation/labels', {
+          articleId: article.id,
+          topicId,
+          isRelevant,
+        });
+        setLabels((prev) => [...(prev || []).filter((l) => l.topicId !== topicId), res.data.data]);
+      }
+    } catch (error) {
+      console.error('Failed to label article:', error);
+      alert('Erreur lors de l\'annotation');
+    }
+  }
+
   return (
     <div className="px-6 py-4 hover:bg-gray-50">
       <div className="flex items-start">
@@ -162,26 +229,230 @@ function ArticleRow({
           {article.lede && (
             <p className="mt-1 text-sm text-gray-500 line-clamp-2">{article.lede}</p>
           )}
+          {article.syndicatedBy && article.syndicatedBy.length > 0 && (
+            <p className="mt-1 text-xs text-gray-500">
+              Aussi publié par {article.syndicatedBy.join(', ')}
+            </p>
+          )}
           {article.relevanceReasoning && (
             <p className="mt-2 text-xs text-gray-600 italic">
               {article.relevanceReasoning}
             </p>
           )}
+          {article.status === 'error' && article.analysisError && (
+            <p className="mt-2 text-xs text-red-600">
+              Analyse impossible : {article.analysisError}
+            </p>
+          )}
           <div className="mt-2 flex items-center space-x-2">
             {article.categories?.map((cat) => (
               <span key={cat} className="badge-info text-xs">{cat}</span>
             ))}
           </div>
+          {showScores && <TopicScores articleId={article.id} canReview={Boolean(user)} />}
+          {labelling && labels && (
+            <div className="mt-3 p-3 bg-gray-50 rounded-md space-y-2">
+              <p className="text-xs text-gray-500">
+                Annotation pour le jeu de référence des évaluations
+              </p>
+              {topics.map((topic) => {
+                const label = labels.find((l) => l.topicId === topic.id);
+                return (
+                  <div key={topic.id} className="flex items-center justify-between">
+                    <span className="text-sm text-gray-700">{topic.name}</span>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => handleLabel(topic.id, true)}
+                        className={`p-1 rounded ${
+                          label?.isRelevant === true
+                            ? 'bg-green-100 text-green-700'
+                            : 'text-gray-400 hover:bg-gray-100 hover:text-green-600'
+                        }`}
+                        title="Pertinent"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleLabel(topic.id, false)}
+                        className={`p-1 rounded ${
+                          label?.isRelevant === false
+                            ? 'bg-red-100 text-red-700'
+                            : 'text-gray-400 hover:bg-gray-100 hover:text-red-600'
+                        }`}
+                        title="Non pertinent"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
-        <div className="ml-4 flex-shrink-0">
+        <div className="ml-4 flex-shrink-0 flex flex-col items-end space-y-1">
           <button
             onClick={handleReanalyze}
             className="text-xs text-gray-500 hover:text-primary-600"
           >
             Ré-analyser
           </button>
+          <button
+            onClick={() => setShowScores(!showScores)}
+            className="text-xs text-gray-500 hover:text-primary-600"
+          >
+            {showScores ? 'Masquer les scores' : 'Scores par topic'}
+          </button>
+          {user && (
+            <button
+              onClick={toggleLabelling}
+              className="text-xs text-gray-500 hover:text-primary-600"
+            >
+              {labelling ? 'Fermer' : 'Annoter'}
+            </button>
+          )}
         </div>
       </div>
     </div>
   );
 }
+
+function TopicScores({ articleId, canReview }: { articleId: string; canReview: boolean }) {
+  const [scores, setScores] = useState<ArticleTopicWithFeedback[] | null>(null);
+  const [correcting, setCorrecting] = useState<{ topicId: string; score: string; comment: string } | null>(null);
+
+  useEffect(() => {
+    loadScores();
+  }, [articleId]);
+
+  async function loadScores() {
+    try {
+      const res = await api.get<{ data: ArticleTopicWithFeedback[] }>(`/api/articles/${articleId}/topics`);
+      setScores(res.data.data);
+    } catch (error) {
+      console.error('Failed to load topic scores:', error);
+    }
+  }
+
+  async function submitFeedback(topicId: string, body: { isCorrect: boolean; correctedScore?: number; comment?: string }) {
+    try {
+      await api.put(`/api/articles/${articleId}/topics/${topicId}/feedback`, body);
+      setCorrecting(null);
+      await loadScores();
+    } catch (error) {
+      console.error('Failed to submit feedback:', error);
+      alert('Erreur lors de l\'enregistrement de l\'avis');
+    }
+  }
+
+  // Agreeing again with a score already agreed with withdraws the feedback
+  async function handleAgree(score: ArticleTopicWithFeedback) {
+    if (score.feedback?.isCorrect) {
+      try {
+        await api.delete(`/api/articles/${articleId}/topics/${score.topicId}/feedback`);
+        await loadScores();
+      } catch (error) {
+        console.error('Failed to withdraw feedback:', error);
+      }
+      return;
+    }
+
+    await submitFeedback(score.topicId, { isCorrect: true });
+  }
+
+  if (scores === null) {
+    return <p className="mt-3 text-xs text-gray-500">Chargement des scores...</p>;
+  }
+
+  if (scores.length === 0) {
+    return <p className="mt-3 text-xs text-gray-500">Article non analysé par topic</p>;
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded-md space-y-3">
+      {scores.map((score) => (
+        <div key={score.topicId}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-700">{score.topic.name}</span>
+              <span className="text-xs font-medium text-gray-700">{Math.round(score.relevanceScore * 100)}%</span>
+              {score.feedback && !score.feedback.isCorrect && score.feedback.correctedScore !== null && (
+                <span className="text-xs text-orange-600">
+                  corrigé à {Math.round(score.feedback.correctedScore * 100)}%
+                </span>
+              )}
+            </div>
+            {canReview && (
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => handleAgree(score)}
+                  className={`p-1 rounded ${
+                    score.feedback?.isCorrect
+                      ? 'bg-green-100 text-green-700'
+                      : 'text-gray-400 hover:bg-gray-100 hover:text-green-600'
+                  }`}
+                  title="Score juste"
+                >
+                  <ThumbsUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setCorrecting({
+                    topicId: score.topicId,
+                    score: String(Math.round((score.feedback?.correctedScore ?? score.relevanceScore) * 100)),
+                    comment: score.feedback?.comment || '',
+                  })}
+                  className={`p-1 rounded ${
+                    score.feedback && !score.feedback.isCorrect
+                      ? 'bg-red-100 text-red-700'
+                      : 'text-gray-400 hover:bg-gray-100 hover:text-red-600'
+                  }`}
+                  title="Corriger le score"
+                >
+                  <ThumbsDown className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+          {score.reasoning && <p className="mt-1 text-xs text-gray-600 italic">{score.reasoning}</p>}
+          {correcting?.topicId === score.topicId && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitFeedback(score.topicId, {
+                  isCorrect: false,
+                  correctedScore: parseInt(correcting.score) / 100,
+                  comment: correcting.comment || undefined,
+                });
+              }}
+              className="mt-2 flex items-center gap-2"
+            >
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={correcting.score}
+                onChange={(e) => setCorrecting({ ...correcting, score: e.target.value })}
+                className="input w-20"
+                required
+              />
+              <span className="text-xs text-gray-500">%</span>
+              <input
+                type="text"
+                value={correcting.comment}
+                onChange={(e) => setCorrecting({ ...correcting, comment: e.target.value })}
+                className="input flex-1"
+                placeholder="Pourquoi ce score ? (repris comme exemple pour le modèle)"
+              />
+              <button type="button" onClick={() => setCorrecting(null)} className="btn-secondary">
+                Annuler
+              </button>
+              <button type="submit" className="btn-primary">
+                Corriger
+              </button>
+            </form>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,11 +1,48 @@
 import { useState, useEffect } from 'react';
 import { api } from '../api/client';
-import { Newspaper, MessageSquare, TrendingUp, Clock } from 'lucide-react';
-import type { DashboardStats, ArticleWithSource } from '@media-scanner/shared';
+import { useAuth } from '../hooks/useAuth';
+import { Newspaper, MessageSquare, TrendingUp, Clock, Cpu, Wallet, AlertTriangle, Trash2 } from 'lucide-react';
+import { AI_PURPOSES } from '@media-scanner/shared';
+import type {
+  DashboardStats,
+  ArticleWithSource,
+  AiUsageSummary,
+  AiUsageTotals,
+  AiPurpose,
+  AiBudgetStatus,
+  AiBudgetLevel,
+  AiBudgetPeriod,
+} from '@media-scanner/shared';
+
+const PURPOSE_LABELS: Record<AiPurpose, string> = {
+  relevance: 'Pertinence',
+  multi_topic_relevance: 'Pertinence multi-thèmes',
+  post_generation: 'Génération de posts',
+  post_regeneration: 'Régénération de posts',
+  daily_summary: 'Synthèse du jour',
+  evaluation: 'Évaluation',
+  keyword_audit: 'Audit des mots-clés',
+  topic_authoring: 'Assistant de topics',
+  entity_extraction: 'Extraction d\'entités',
+};
+
+const LEVEL_LABELS: Record<AiBudgetLevel, { label: string; badge: string }> = {
+  normal: { label: 'Normal', badge: 'badge-success' },
+  no_generation: { label: 'Génération de posts suspendue', badge: 'badge-warning' },
+  restricted: { label: 'Analyse restreinte', badge: 'badge-warning' },
+  paused: { label: 'Analyse suspendue', badge: 'badge-danger' },
+};
+
+const PERIOD_LABELS: Record<AiBudgetPeriod, string> = {
+  day: 'jour',
+  month: 'mois',
+};
 
 export default function DashboardPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [topStories, setTopStories] = useState<ArticleWithSource[]>([]);
+  const [aiUsage, setAiUsage] = useState<AiUsageSummary | null>(null);
+  const [budgets, setBudgets] = useState<AiBudgetStatus | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -14,12 +51,15 @@ export default function DashboardPage() {
 
   async function loadDashboard() {
     try {
-      const [statsRes, storiesRes] = await Promise.all([
+      const [statsRes, storiesRes, usageRes] = await Promise.all([
         api.get<{ data: DashboardStats }>('/api/dashboard/stats'),
         api.get<{ data: ArticleWithSource[] }>('/api/dashboard/top-stories?limit=5'),
+        api.get<{ data: AiUsageSummary }>('/api/dashboard/ai-usage?days=30'),
       ]);
       setStats(statsRes.data.data);
       setTopStories(storiesRes.data.data);
+      setAiUsage(usageRes.data.data);
+      await loadBudgets();
     } catch (error) {
       console.error('Failed to load dashboard:', error);
     } finally {
@@ -27,6 +67,11 @@ export default function DashboardPage() {
     }
   }
 
+  async function loadBudgets() {
+    const res = await api.get<{ data: AiBudgetStatus }>('/api/budgets');
+    setBudgets(res.data.data);
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -73,6 +118,37 @@ export default function DashboardPage() {
         />
       </div>
 
+      {/* Relevant articles per topic, each judged against its own threshold */}
+      {stats && stats.relevantByTopic.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-semibold text-gray-900">Articles pertinents par topic</h2>
+          </div>
+          <div className="px-6 py-4">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="pb-2 pr-4">Topic</th>
+                  <th className="pb-2 pr-4 text-right">Aujourd'hui</th>
+                  <th className="pb-2 pr-4 text-right">7 jours</th>
+                  <th className="pb-2 text-right">30 jours</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {stats.relevantByTopic.map((topic) => (
+                  <tr key={topic.topicId}>
+                    <td className="py-2 pr-4 text-gray-900">{topic.topicName}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{topic.today}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{topic.week}</td>
+                    <td className="py-2 text-right text-gray-700">{topic.month}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Top stories */}
       <div className="card">
         <div className="card-header">
@@ -115,10 +191,291 @@ export default function DashboardPage() {
           )}
         </div>
       </div>
+
+      {budgets && <BudgetsCard status={budgets} onChange={loadBudgets} />}
+
+      {aiUsage && <AiUsageCard usage={aiUsage} />}
+    </div>
+  );
+}
+
+function BudgetsCard({ status, onChange }: { status: AiBudgetStatus; onChange: () => Promise<void> }) {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [form, setForm] = useState<{ purpose: AiPurpose | ''; period: AiBudgetPeriod; limitUsd: string }>({
+    purpose: '',
+    period: 'month',
+    limitUsd: '',
+  });
+
+  const level = LEVEL_LABELS[status.level];
+
+  async function run(action: () => Promise<unknown>, errorMessage: string) {
+    try {
+      await action();
+      await onChange();
+    } catch (error) {
+      console.error(errorMessage, error);
+      alert(errorMessage);
+    }
+  }
+
+  function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    run(async () => {
+      await api.post('/api/budgets', {
+        purpose: form.purpose || null,
+        period: form.period,
+        limitUsd: parseFloat(form.limitUsd),
+      });
+      setForm((f) => ({ ...f, limitUsd: '' }));
+    }, 'Erreur lors de la création du budget');
+  }
+
+  function handleOverride() {
+    const reason = prompt('Lever les restrictions pendant 24 heures. Motif :', '');
+    if (reason === null) return;
+    run(
+      () => api.post('/api/budgets/override', { level: 'normal', hours: 24, reason }),
+      'Erreur lors de la levée des restrictions'
+    );
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Wallet className="w-5 h-5 mr-2 text-gray-400" />
+          Budgets IA
+        </h2>
+        <span className={level.badge}>{level.label}</span>
+      </div>
+      <div className="px-6 py-4 space-y-4">
+        {status.override && (
+          <div className="flex items-center justify-between text-sm bg-blue-50 text-blue-800 rounded p-3">
+            <span>
+              Dérogation « {LEVEL_LABELS[status.override.level].label} » jusqu'au{' '}
+              {new Date(status.override.expiresAt).toLocaleString('fr-FR')}
+              {status.override.reason && <> : {status.override.reason}</>}
+            </span>
+            {isAdmin && (
+              <button
+                onClick={() => run(() => api.delete('/api/budgets/override'), 'Erreur lors de l\'annulation de la dérogation')}
+                className="btn-secondary text-xs"
+              >
+                Annuler
+              </button>
+            )}
+          </div>
+        )}
+
+        {status.alerts.map((alertItem) => (
+          <div key={alertItem.id} className="flex items-center justify-between text-sm bg-yellow-50 text-yellow-800 rounded p-3">
+            <span className="flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              Budget {alertItem.purpose ? PURPOSE_LABELS[alertItem.purpose] : 'global'} par {PERIOD_LABELS[alertItem.period]} :{' '}
+              {formatCost(alertItem.spentUsd)} sur {formatCost(alertItem.limitUsd)}, {LEVEL_LABELS[alertItem.level].label.toLowerCase()}
+            </span>
+            {isAdmin && (
+              <button
+                onClick={() => run(() => api.post(`/api/budgets/alerts/${alertItem.id}/acknowledge`), 'Erreur lors de la prise en compte de l\'alerte')}
+                className="btn-secondary text-xs"
+              >
+                Vu
+              </button>
+            )}
+          </div>
+        ))}
+
+        {status.budgets.length === 0 ? (
+          <p className="text-sm text-gray-500">Aucun budget défini, les appels à l'IA ne sont pas limités.</p>
+        ) : (
+          <ul className="space-y-3">
+            {status.budgets.map((budget) => (
+              <li key={budget.id}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">
+                    {budget.purpose ? PURPOSE_LABELS[budget.purpose] : 'Tous les appels'} · par {PERIOD_LABELS[budget.period]}
+                  </span>
+                  <span className="flex items-center text-gray-900">
+                    {formatCost(budget.spentUsd)} / {formatCost(budget.limitUsd)}
+                    {isAdmin && (
+                      <button
+                        onClick={() => {
+                          if (confirm('Supprimer ce budget ?')) {
+                            run(() => api.delete(`/api/budgets/${budget.id}`), 'Erreur lors de la suppression du budget');
+                          }
+                        }}
+                        className="ml-3 text-gray-400 hover:text-red-600"
+                        title="Supprimer"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <div className="mt-1 h-2 bg-gray-100 rounded">
+                  <div
+                    className={`h-2 rounded ${budget.ratio >= 1 ? 'bg-red-500' : budget.ratio >= 0.7 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                    style={{ width: `${Math.min(100, budget.ratio * 100)}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isAdmin && (
+          <div className="flex flex-wrap items-end gap-3 pt-2 border-t border-gray-100">
+            <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+              <select
+                value={form.purpose}
+                onChange={(e) => setForm((f) => ({ ...f, purpose: e.target.value as AiPurpose | '' }))}
+                className="input w-auto"
+              >
+                <option value="">Tous les appels</option>
+                {AI_PURPOSES.map((purpose) => (
+                  <option key={purpose} value={purpose}>{PURPOSE_LABELS[purpose]}</option>
+                ))}
+              </select>
+              <select
+                value={form.period}
+                onChange={(e) => setForm((f) => ({ ...f, period: e.target.value as AiBudgetPeriod }))}
+                className="input w-auto"
+              >
+                <option value="day">Par jour</option>
+                <option value="month">Par mois</option>
+              </select>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={form.limitUsd}
+                onChange={(e) => setForm((f) => ({ ...f, limitUsd: e.target.value }))}
+                placeholder="Plafond ($)"
+                className="input w-32"
+                required
+              />
+              <button type="submit" className="btn-primary">Ajouter</button>
+            </form>
+            {status.level !== 'normal' && !status.override && (
+              <button onClick={handleOverride} className="btn-secondary">
+                Lever les restrictions 24 h
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AiUsageCard({ usage }: { usage: AiUsageSummary }) {
+  const maxDailyCost = Math.max(...usage.byDay.map((d) => d.costUsd), 0);
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Cpu className="w-5 h-5 mr-2 text-gray-400" />
+          Coût de l'IA ({usage.days} derniers jours)
+        </h2>
+        <span className="text-2xl font-semibold text-gray-900">{formatCost(usage.totals.costUsd)}</span>
+      </div>
+      <div className="px-6 py-4 space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Appels</p>
+            <p className="font-semibold text-gray-900">{usage.totals.calls.toLocaleString('fr-FR')}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Échecs</p>
+            <p className="font-semibold text-gray-900">{usage.totals.failedCalls.toLocaleString('fr-FR')}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Tokens en entrée</p>
+            <p className="font-semibold text-gray-900">{usage.totals.inputTokens.toLocaleString('fr-FR')}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Tokens en sortie</p>
+            <p className="font-semibold text-gray-900">{usage.totals.outputTokens.toLocaleString('fr-FR')}</p>
+          </div>
+        </div>
+
+        {/* Daily cost */}
+        {usage.byDay.length > 0 && (
+          <div className="flex items-end h-24 space-x-1">
+            {usage.byDay.map((day) => (
+              <div
+                key={day.date}
+                className="flex-1 bg-primary-200 hover:bg-primary-400 rounded-t"
+                style={{ height: `${maxDailyCost > 0 ? Math.max(4, (day.costUsd / maxDailyCost) * 100) : 4}%` }}
+                title={`${new Date(day.date).toLocaleDateString('fr-FR')} : ${formatCost(day.costUsd)}, ${day.calls} appels`}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <UsageBreakdown
+            title="Par usage"
+            rows={usage.byPurpose.map((p) => ({
+              key: p.purpose || 'other',
+              label: p.purpose ? PURPOSE_LABELS[p.purpose] || p.purpose : 'Autre',
+              totals: p,
+            }))}
+          />
+          <UsageBreakdown
+            title="Par thème"
+            rows={usage.byTopic.map((t) => ({ key: t.topicId, label: t.topicName, totals: t }))}
+          />
+          <UsageBreakdown
+            title="Par source"
+            rows={usage.bySource.map((s) => ({ key: s.sourceId, label: s.sourceName, totals: s }))}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function UsageBreakdown({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: Array<{ key: string; label: string; totals: AiUsageTotals }>;
+}) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500">Aucune donnée</p>
+      ) : (
+        <ul className="space-y-1 text-xs">
+          {rows.slice(0, 5).map((row) => (
+            <li key={row.key} className="flex justify-between">
+              <span className="text-gray-600 truncate mr-2">{row.label}</span>
+              <span className="text-gray-900 whitespace-nowrap">
+                {formatCost(row.totals.costUsd)} · {row.totals.calls} appels
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
 
+function formatCost(usd: number): string {
+  return usd.toLocaleString('fr-FR', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: usd > 0 && usd < 1 ? 4 : 2,
+  });
+}
+
 function StatCard({
   title,
   value,
@@ -0,0 +1,324 @@
+import { useState, useEffect } from 'react';
+import { api } from '../api/client';
+import { ExternalLink, RefreshCw, X } from 'lucide-react';
+import { ENTITY_TYPES, ENTITY_TYPE_LABELS, DEPARTEMENTS } from '@media-scanner/shared';
+import type {
+  DepartementActivity,
+  EntityArticle,
+  EntitySummary,
+  EntityType,
+  PaginatedResponse,
+} from '@media-scanner/shared';
+
+const PERIODS = [7, 30, 90, 365];
+
+const TYPE_BADGES: Record<EntityType, string> = {
+  politician: 'badge-info',
+  public_body: 'badge-warning',
+  company: 'badge-gray',
+  commune: 'badge-success',
+};
+
+export default function EntitiesPage() {
+  const [entities, setEntities] = useState<EntitySummary[]>([]);
+  const [departements, setDepartements] = useState<DepartementActivity[]>([]);
+  const [pagination, setPagination] = useState({ page: 1, totalPages: 1, total: 0 });
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState(30);
+  const [type, setType] = useState<EntityType | ''>('');
+  const [search, setSearch] = useState('');
+  const [openEntity, setOpenEntity] = useState<EntitySummary | null>(null);
+
+  useEffect(() => {
+    loadEntities();
+  }, [pagination.page, days, type]);
+
+  useEffect(() => {
+    loadDepartements();
+  }, [days]);
+
+  async function loadEntities() {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(pagination.page), limit: '50', days: String(days) });
+      if (type) params.set('type', type);
+      if (search) params.set('search', search);
+
+      const res = await api.get<PaginatedResponse<EntitySummary>>(`/api/entities?${params}`);
+      setEntities(res.data.data);
+      setPagination(res.data.pagination);
+    } catch (error) {
+      console.error('Failed to load entities:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadDepartements() {
+    try {
+      const res = await api.get<{ data: DepartementActivity[] }>(`/api/entities/departements?days=${days}`);
+      setDepartements(res.data.data);
+    } catch (error) {
+      console.error('Failed to load departements:', error);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Entités</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {pagination.total} personnalités, administrations, entreprises et communes citées par les articles pertinents
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setPagination((p) => ({ ...p, page: 1 }));
+              loadEntities();
+            }}
+          >
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Rechercher (CAF, préfecture...)"
+              className="input w-56"
+            />
+          </form>
+          <select
+            className="input w-auto"
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as EntityType | '');
+              setPagination((p) => ({ ...p, page: 1 }));
+            }}
+          >
+            <option value="">Tous les types</option>
+            {ENTITY_TYPES.map((t) => (
+              <option key={t} value={t}>{ENTITY_TYPE_LABELS[t]}</option>
+            ))}
+          </select>
+          <select
+            className="input w-auto"
+            value={days}
+            onChange={(e) => {
+              setDays(parseInt(e.target.value, 10));
+              setPagination((p) => ({ ...p, page: 1 }));
+            }}
+          >
+            {PERIODS.map((d) => (
+              <option key={d} value={d}>{d} jours</option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              loadEntities();
+              loadDepartements();
+            }}
+            className="btn-secondary"
+            disabled={loading}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Actualiser
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Entities list */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="card divide-y divide-gray-200">
+            {loading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+              </div>
+            ) : entities.length === 0 ? (
+              <div className="px-6 py-12 text-center text-gray-500">
+                Aucune entité sur la période
+              </div>
+            ) : (
+              entities.map((entity) => (
+                <div key={entity.id} className="px-6 py-3 hover:bg-gray-50 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <button
+                      onClick={() => setOpenEntity(entity)}
+                      className="text-left text-sm font-medium text-gray-900 hover:text-primary-600"
+                    >
+                      {entity.name}
+                    </button>
+                    <p className="mt-1 text-xs text-gray-500">
+                      <span className={`${TYPE_BADGES[entity.type]} text-xs mr-2`}>{ENTITY_TYPE_LABELS[entity.type]}</span>
+                      {entity.departementCode && (
+                        <>{DEPARTEMENTS[entity.departementCode] || entity.departementCode} ({entity.departementCode})</>
+                      )}
+                      {entity.inseeCode && <> · INSEE {entity.inseeCode}</>}
+                      {entity.lastSeenAt && <> · dernier article le {formatDate(entity.lastSeenAt)}</>}
+                    </p>
+                  </div>
+                  <span className="text-sm font-semibold text-gray-900 ml-4">
+                    {entity.articleCount} article{entity.articleCount > 1 ? 's' : ''}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Pagination */}
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setPagination((p) => ({ ...p, page: p.page - 1 }))}
+                disabled={pagination.page === 1}
+                className="btn-secondary"
+              >
+                Précédent
+              </button>
+              <span className="text-sm text-gray-500">
+                Page {pagination.page} sur {pagination.totalPages}
+              </span>
+              <button
+                onClick={() => setPagination((p) => ({ ...p, page: p.page + 1 }))}
+                disabled={pagination.page === pagination.totalPages}
+                className="btn-secondary"
+              >
+                Suivant
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Départements ranking */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-semibold text-gray-900">Départements</h2>
+            <p className="text-xs text-gray-500">Articles pertinents citant une de leurs communes</p>
+          </div>
+          {departements.length === 0 ? (
+            <div className="px-6 py-8 text-center text-sm text-gray-500">
+              Aucune commune localisée sur la période
+            </div>
+          ) : (
+            <ol className="divide-y divide-gray-100">
+              {departements.map((d, index) => (
+                <li key={d.code} className="px-6 py-2 flex items-center justify-between text-sm">
+                  <span className="text-gray-900">
+                    <span className="text-gray-400 mr-2">{index + 1}.</span>
+                    {d.name} ({d.code})
+                  </span>
+                  <span className="text-gray-500">
+                    {d.articleCount} · {d.communeCount} commune{d.communeCount > 1 ? 's' : ''}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {openEntity && (
+        <EntityModal entity={openEntity} days={days} onClose={() => setOpenEntity(null)} />
+      )}
+    </div>
+  );
+}
+
+function EntityModal({
+  entity,
+  days,
+  onClose,
+}: {
+  entity: EntitySummary;
+  days: number;
+  onClose: () => void;
+}) {
+  const [articles, setArticles] = useState<EntityArticle[]>([]);
+  const [pagination, setPagination] = useState({ page: 1, totalPages: 1, total: 0 });
+
+  useEffect(() => {
+    loadArticles();
+  }, [entity.id, pagination.page]);
+
+  async function loadArticles() {
+    try {
+      const params = new URLSearchParams({ page: String(pagination.page), limit: '20', days: String(days) });
+      const res = await api.get<PaginatedResponse<EntityArticle>>(`/api/entities/${entity.id}/articles?${params}`);
+      setArticles(res.data.data);
+      setPagination(res.data.pagination);
+    } catch (error) {
+      console.error('Failed to load entity articles:', error);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900">{entity.name}</h2>
+            <p className="mt-1 text-xs text-gray-500">
+              {ENTITY_TYPE_LABELS[entity.type]} · {pagination.total} articles pertinents sur {days} jours
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 ml-4">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 divide-y divide-gray-100">
+          {articles.map((article) => (
+            <div key={article.id} className="py-3">
+              <p className="text-xs text-gray-500">
+                {article.publishedAt ? formatDate(article.publishedAt) : 'Date inconnue'}
+                {article.sourceName && <> · {article.sourceName}</>}
+                {article.relevanceScore !== null && <> · {Math.round(article.relevanceScore * 100)}%</>}
+                {article.categories.length > 0 && <> · {article.categories.join(', ')}</>}
+              </p>
+              <a
+                href={article.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-sm font-medium text-gray-900 hover:text-primary-600"
+              >
+                {article.title}
+                <ExternalLink className="inline w-3 h-3 ml-1 text-gray-400" />
+              </a>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <div className="space-x-2">
+            {pagination.totalPages > 1 && (
+              <>
+                <button
+                  onClick={() => setPagination((p) => ({ ...p, page: p.page - 1 }))}
+                  disabled={pagination.page === 1}
+                  className="btn-secondary"
+                >
+                  Précédent
+                </button>
+                <button
+                  onClick={() => setPagination((p) => ({ ...p, page: p.page + 1 }))}
+                  disabled={pagination.page === pagination.totalPages}
+                  className="btn-secondary"
+                >
+                  Suivant
+                </button>
+              </>
+            )}
+          </div>
+          <button onClick={onClose} className="btn-primary">
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' });
+}
@@ -0,0 +1,646 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { api } from '../api/client';
+import { useAuth } from '../hooks/useAuth';
+import { RefreshCw, Play, Plus, Trash2 } from 'lucide-react';
+import type {
+  ClassificationMetrics,
+  EvaluationResult,
+  EvaluationRun,
+  EvaluationRunStatus,
+  GoldenSetTopicSummary,
+  KeywordAuditReport,
+  PromptVersion,
+  Topic,
+} from '@media-scanner/shared';
+
+type EvaluationRunWithResults = EvaluationRun & { results: EvaluationResult[] };
+
+const STATUS_LABELS: Record<EvaluationRunStatus, { label: string; className: string }> = {
+  pending: { label: 'En attente', className: 'badge-warning' },
+  running: { label: 'En cours', className: 'badge-info' },
+  completed: { label: 'Terminée', className: 'badge-success' },
+  failed: { label: 'Échec', className: 'badge-danger' },
+};
+
+// Unfinished runs are reloaded at this interval
+const REFRESH_INTERVAL_MS = 5000;
+
+function percent(value: number | null): string {
+  return value === null ? '–' : `${Math.round(value * 100)} %`;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error?.message) {
+    return error.response.data.error.message;
+  }
+  return fallback;
+}
+
+export default function EvaluationPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [goldenSet, setGoldenSet] = useState<GoldenSetTopicSummary[]>([]);
+  const [runs, setRuns] = useState<EvaluationRun[]>([]);
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [selected, setSelected] = useState<EvaluationRunWithResults | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [form, setForm] = useState({ topicId: '', promptVersionId: '', model: '', threshold: '0.5' });
+
+  const unfinished = runs.some((r) => r.status === 'pending' || r.status === 'running');
+  const selectedUnfinished = selected?.status === 'pending' || selected?.status === 'running';
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  useEffect(() => {
+    if (!unfinished && !selectedUnfinished) return;
+
+    const timer = setInterval(() => {
+      loadRuns();
+      if (selected && selectedUnfinished) {
+        loadRun(selected.id);
+      }
+    }, REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [unfinished, selected?.id, selected?.status]);
+
+  async function loadAll() {
+    setLoading(true);
+    try {
+      const [goldenSetRes, topicsRes, versionsRes] = await Promise.all([
+        api.get<{ data: GoldenSetTopicSummary[] }>('/api/evaluation/golden-set'),
+        api.get<{ data: Topic[] }>('/api/topics'),
+        api.get<{ data: PromptVersion[] }>('/api/prompts/multi_topic_relevance/versions'),
+      ]);
+      await loadRuns();
+      setGoldenSet(goldenSetRes.data.data);
+      setTopics(topicsRes.data.data);
+      setPromptVersions(versionsRes.data.data);
+    } catch (error) {
+      console.error('Failed to load evaluation data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadRuns() {
+    try {
+      const res = await api.get<{ data: EvaluationRun[] }>('/api/evaluation/runs');
+      setRuns(res.data.data);
+    } catch (error) {
+      console.error('Failed to load evaluation runs:', error);
+    }
+  }
+
+  async function loadRun(id: string) {
+    try {
+      const res = await api.get<{ data: EvaluationRunWithResults }>(`/api/evaluation/runs/${id}`);
+      setSelected(res.data.data);
+    } catch (error) {
+      console.error('Failed to load evaluation run:', error);
+    }
+  }
+
+  async function handleStart(e: React.FormEvent) {
+    e.preventDefault();
+
+    setStarting(true);
+    try {
+      const res = await api.post<{ data: EvaluationRun }>('/api/evaluation/runs', {
+        topicId: form.topicId || undefined,
+        promptVersionId: form.promptVersionId || undefined,
+        model: form.model || undefined,
+        threshold: parseFloat(form.threshold),
+      });
+      await loadRuns();
+      await loadRun(res.data.data.id);
+    } catch (error) {
+      console.error('Failed to start evaluation run:', error);
+      alert(errorMessage(error, 'Erreur lors du lancement de l\'évaluation'));
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function handleDelete(run: EvaluationRun) {
+    if (!confirm('Supprimer cette évaluation ?')) {
+      return;
+    }
+
+    try {
+      await api.delete(`/api/evaluation/runs/${run.id}`);
+      if (selected?.id === run.id) setSelected(null);
+      await loadRuns();
+    } catch (error) {
+      console.error('Failed to delete evaluation run:', error);
+      alert('Erreur lors de la suppression de l\'évaluation');
+    }
+  }
+
+  const labelled = goldenSet.reduce((sum, t) => sum + t.relevant + t.irrelevant, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Évaluation</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Scores du modèle comparés aux annotations, {labelled} annotation(s) dans le jeu de référence
+          </p>
+        </div>
+        <button onClick={() => loadAll()} className="btn-secondary" disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Actualiser
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-semibold text-gray-900">Jeu de référence</h2>
+          </div>
+          <div className="px-6 py-4">
+            {goldenSet.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Aucune annotation. Annotez des articles depuis la page Articles.
+              </p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="pb-2 pr-4">Topic</th>
+                    <th className="pb-2 pr-4 text-right">Pertinents</th>
+                    <th className="pb-2 text-right">Non pertinents</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {goldenSet.map((topic) => (
+                    <tr key={topic.topicId}>
+                      <td className="py-2 pr-4 text-gray-900">{topic.topicName}</td>
+                      <td className="py-2 pr-4 text-right text-gray-700">{topic.relevant}</td>
+                      <td className="py-2 text-right text-gray-700">{topic.irrelevant}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {isAdmin && (
+          <div className="card lg:col-span-2">
+            <div className="card-header">
+              <h2 className="text-lg font-semibold text-gray-900">Nouvelle évaluation</h2>
+            </div>
+            <form onSubmit={handleStart} className="px-6 py-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Topic</label>
+                <select
+                  value={form.topicId}
+                  onChange={(e) => setForm({ ...form, topicId: e.target.value })}
+                  className="input w-full"
+                >
+                  <option value="">Tous les topics annotés</option>
+                  {topics.map((topic) => (
+                    <option key={topic.id} value={topic.id}>{topic.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Version du prompt</label>
+                <select
+                  value={form.promptVersionId}
+                  onChange={(e) => setForm({ ...form, promptVersionId: e.target.value })}
+                  className="input w-full"
+                >
+                  <option value="">Version active</option>
+                  {promptVersions.map((version) => (
+                    <option key={version.id} value={version.id}>
+                      Version {version.version}{version.isActive ? ' (active)' : ''}
+                      {version.note ? ` · ${version.note}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Modèle</label>
+                <input
+                  type="text"
+                  value={form.model}
+                  onChange={(e) => setForm({ ...form, model: e.target.value })}
+                  className="input w-full"
+                  placeholder="Modèle configuré"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Seuil de pertinence</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={form.threshold}
+                  onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                  className="input w-full"
+                  required
+                />
+              </div>
+              <div className="md:col-span-2 flex justify-end">
+                <button type="submit" className="btn-primary" disabled={starting || labelled === 0}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Lancer l'évaluation
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h2 className="text-lg font-semibold text-gray-900">Évaluations</h2>
+        </div>
+        {runs.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">Aucune évaluation</div>
+        ) : (
+          <div className="px-6 py-4 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="pb-2 pr-4">Date</th>
+                  <th className="pb-2 pr-4">Topic</th>
+                  <th className="pb-2 pr-4">Prompt</th>
+                  <th className="pb-2 pr-4">Modèle</th>
+                  <th className="pb-2 pr-4 text-right">Seuil</th>
+                  <th className="pb-2 pr-4">Statut</th>
+                  <th className="pb-2 pr-4 text-right">Précision</th>
+                  <th className="pb-2 pr-4 text-right">Rappel</th>
+                  <th className="pb-2 pr-4 text-right">F1</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {runs.map((run) => (
+                  <tr
+                    key={run.id}
+                    onClick={() => loadRun(run.id)}
+                    className={`cursor-pointer ${selected?.id === run.id ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="py-2 pr-4 text-gray-700">{new Date(run.createdAt).toLocaleString('fr-FR')}</td>
+                    <td className="py-2 pr-4 text-gray-700">{run.topicName || 'Tous'}</td>
+                    <td className="py-2 pr-4 text-gray-700">
+                      {run.promptVersion !== null ? `v${run.promptVersion}` : '–'}
+                    </td>
+                    <td className="py-2 pr-4 text-xs text-gray-500 font-mono">{run.model}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{run.threshold.toFixed(2)}</td>
+                    <td className="py-2 pr-4">
+                      <span className={STATUS_LABELS[run.status].className}>{STATUS_LABELS[run.status].label}</span>
+                      {run.status === 'running' && (
+                        <span className="ml-2 text-xs text-gray-500">{run.scoredCount}/{run.sampleCount}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-medium text-gray-900">{percent(run.metrics?.precision ?? null)}</td>
+                    <td className="py-2 pr-4 text-right font-medium text-gray-900">{percent(run.metrics?.recall ?? null)}</td>
+                    <td className="py-2 pr-4 text-right font-medium text-gray-900">{percent(run.metrics?.f1 ?? null)}</td>
+                    <td className="py-2 text-right">
+                      {isAdmin && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(run);
+                          }}
+                          className="p-1 rounded text-gray-400 hover:text-red-600"
+                          title="Supprimer"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selected && <RunDetails run={selected} />}
+
+      <KeywordAudit isAdmin={isAdmin} />
+    </div>
+  );
+}
+
+// Periods offered for the keyword recall estimate
+const AUDIT_DAYS = [7, 30, 90];
+
+function KeywordAudit({ isAdmin }: { isAdmin: boolean }) {
+  const [report, setReport] = useState<KeywordAuditReport | null>(null);
+  const [days, setDays] = useState(30);
+  const [adding, setAdding] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReport();
+  }, [days]);
+
+  async function loadReport() {
+    try {
+      const res = await api.get<{ data: KeywordAuditReport }>('/api/topics/keyword-audit', { params: { days } });
+      setReport(res.data.data);
+    } catch (error) {
+      console.error('Failed to load keyword audit:', error);
+    }
+  }
+
+  async function handleAdd(topicId: string, keyword: string) {
+    setAdding(`${topicId}-${keyword}`);
+    try {
+      await api.post(`/api/topics/${topicId}/keywords`, { keyword });
+      await loadReport();
+    } catch (error) {
+      console.error('Failed to add keyword:', error);
+      alert(errorMessage(error, 'Erreur lors de l\'ajout du mot-clé'));
+    } finally {
+      setAdding(null);
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Rappel des mots-clés</h2>
+          <p className="mt-1 text-xs text-gray-500">
+            Une part des articles que les mots-clés d'un topic ne retiennent pas est analysée quand même pour ce topic, pour estimer ce qu'ils laissent passer
+          </p>
+        </div>
+        <select className="input w-auto" value={days} onChange={(e) => setDays(parseInt(e.target.value, 10))}>
+          {AUDIT_DAYS.map((d) => (
+            <option key={d} value={d}>{d} jours</option>
+          ))}
+        </select>
+      </div>
+      {!report ? (
+        <div className="px-6 py-8 text-center text-gray-500">Chargement...</div>
+      ) : (
+        <div className="px-6 py-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            {report.sampleRate > 0
+              ? `Échantillonnage de ${percent(report.sampleRate)} : ${report.scanned} article(s) vérifié(s), ${report.misses} manqué(s) par au moins un topic, ${report.samples} analysé(s)`
+              : 'Échantillonnage désactivé (KEYWORD_MISS_SAMPLE_RATE à 0)'}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="pb-2 pr-4">Topic</th>
+                  <th className="pb-2 pr-4 text-right">Retenus pertinents</th>
+                  <th className="pb-2 pr-4 text-right">Non retenus</th>
+                  <th className="pb-2 pr-4 text-right">Échantillons notés</th>
+                  <th className="pb-2 pr-4 text-right">Dont pertinents</th>
+                  <th className="pb-2 pr-4 text-right">Manqués estimés</th>
+                  <th className="pb-2 text-right">Rappel estimé</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {report.topics.map((topic) => (
+                  <tr key={topic.topicId}>
+                    <td className="py-2 pr-4 text-gray-900">{topic.topicName}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{topic.caught}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{topic.misses}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{topic.analyzedSamples}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{topic.relevantSamples}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{topic.estimatedMissed}</td>
+                    <td className="py-2 text-right font-medium text-gray-900">{percent(topic.recall)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {report.topics.filter((t) => t.examples.length > 0).map((topic) => (
+            <div key={topic.topicId} className="border-t border-gray-100 pt-4">
+              <h3 className="text-sm font-semibold text-gray-900">{topic.topicName} : articles pertinents manqués</h3>
+              <ul className="mt-2 space-y-1">
+                {topic.examples.map((example) => (
+                  <li key={example.articleId} className="text-sm">
+                    <span className="text-xs font-medium text-gray-700 mr-2">{Math.round(example.relevanceScore * 100)}%</span>
+                    <a href={example.url} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline">
+                      {example.title}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+              {topic.suggestions.length > 0 && (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-gray-500">Mots-clés suggérés :</span>
+                  {topic.suggestions.map((suggestion) => (
+                    <span
+                      key={suggestion.keyword}
+                      className="inline-flex items-center badge-gray"
+                      title={`${suggestion.relevantMisses} pertinent(s) et ${suggestion.otherMisses} non pertinent(s) parmi les échantillons`}
+                    >
+                      <span className="font-mono">{suggestion.keyword}</span>
+                      <span className="ml-1 text-gray-500">({suggestion.relevantMisses}/{suggestion.relevantMisses + suggestion.otherMisses})</span>
+                      {isAdmin && (
+                        <button
+                          onClick={() => handleAdd(topic.topicId, suggestion.keyword)}
+                          disabled={adding !== null}
+                          className="ml-1 p-0.5 rounded text-gray-500 hover:text-primary-600"
+                          title="Ajouter aux mots-clés du topic"
+                        >
+                          <Plus className="w-3 h-3" />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RunDetails({ run }: { run: EvaluationRunWithResults }) {
+  if (run.status === 'failed') {
+    return (
+      <div className="card px-6 py-4">
+        <p className="text-sm text-red-600">Évaluation interrompue : {run.error}</p>
+      </div>
+    );
+  }
+
+  if (!run.metrics) {
+    return (
+      <div className="card px-6 py-4">
+        <p className="text-sm text-gray-500">
+          Évaluation en cours : {run.scoredCount} article(s) notés sur {run.sampleCount}
+        </p>
+      </div>
+    );
+  }
+
+  const { metrics } = run;
+  const misses = run.results.filter((r) =>
+    r.score === null || (r.score >= run.threshold) !== r.expected
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-semibold text-gray-900">Résultats au seuil {run.threshold.toFixed(2)}</h2>
+          </div>
+          <div className="px-6 py-4 space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{percent(metrics.precision)}</p>
+                <p className="text-xs text-gray-500">Précision</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{percent(metrics.recall)}</p>
+                <p className="text-xs text-gray-500">Rappel</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{percent(metrics.f1)}</p>
+                <p className="text-xs text-gray-500">F1</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="p-2 rounded bg-green-50 text-green-800">Vrais positifs : {metrics.truePositives}</div>
+              <div className="p-2 rounded bg-red-50 text-red-800">Faux positifs : {metrics.falsePositives}</div>
+              <div className="p-2 rounded bg-red-50 text-red-800">Faux négatifs : {metrics.falseNegatives}</div>
+              <div className="p-2 rounded bg-green-50 text-green-800">Vrais négatifs : {metrics.trueNegatives}</div>
+            </div>
+            {metrics.failed > 0 && (
+              <p className="text-xs text-red-600">
+                {metrics.failed} annotation(s) n'ont pas pu être notées et sont exclues des résultats
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <h2 className="text-lg font-semibold text-gray-900">Calibration</h2>
+          </div>
+          <div className="px-6 py-4">
+            <p className="text-xs text-gray-500 mb-3">
+              Part d'articles réellement pertinents par tranche de score, la diagonale étant une calibration parfaite
+            </p>
+            <div className="flex items-end h-40 space-x-1">
+              {metrics.calibration.map((bin) => (
+                <div key={bin.minScore} className="flex-1 h-full flex flex-col justify-end items-center">
+                  <div className="w-full h-full flex flex-col justify-end relative">
+                    <div
+                      className="absolute w-full border-t border-dashed border-gray-400"
+                      style={{ bottom: `${((bin.minScore + bin.maxScore) / 2) * 100}%` }}
+                    />
+                    <div
+                      className={bin.count > 0 ? 'w-full bg-primary-500 rounded-t' : ''}
+                      style={{ height: `${(bin.relevantRate ?? 0) * 100}%` }}
+                      title={`${bin.count} article(s), ${percent(bin.relevantRate)} pertinents`}
+                    />
+                  </div>
+                  <span className="mt-1 text-[10px] text-gray-400">{bin.minScore.toFixed(1)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <BreakdownTable
+          title="Par source"
+          rows={metrics.bySource.map((s) => ({ key: s.sourceId ?? '', name: s.sourceName, metrics: s }))}
+        />
+        <BreakdownTable
+          title="Par topic"
+          rows={metrics.byTopic.map((t) => ({ key: t.topicId, name: t.topicName, metrics: t }))}
+        />
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h2 className="text-lg font-semibold text-gray-900">Erreurs du modèle ({misses.length})</h2>
+        </div>
+        {misses.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">Aucune erreur</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {misses.map((result) => (
+              <li key={`${result.articleId}-${result.topicId}`} className="px-6 py-3">
+                <div className="flex items-center space-x-2">
+                  <span className={result.expected ? 'badge-success' : 'badge-gray'}>
+                    {result.expected ? 'Pertinent' : 'Non pertinent'}
+                  </span>
+                  <span className="text-xs text-gray-500">{result.topicName}</span>
+                  <span className="text-xs text-gray-500">{result.sourceName}</span>
+                  <span className="text-xs font-medium text-gray-700">
+                    {result.score !== null ? `${Math.round(result.score * 100)}%` : 'Non noté'}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm font-medium text-gray-900">{result.articleTitle}</p>
+                {(result.reasoning || result.error) && (
+                  <p className={`mt-1 text-xs ${result.error ? 'text-red-600' : 'text-gray-600 italic'}`}>
+                    {result.error || result.reasoning}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BreakdownTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: Array<{ key: string; name: string; metrics: ClassificationMetrics }>;
+}) {
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      </div>
+      <div className="px-6 py-4 overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="pb-2 pr-4" />
+              <th className="pb-2 pr-4 text-right">Articles</th>
+              <th className="pb-2 pr-4 text-right">Précision</th>
+              <th className="pb-2 pr-4 text-right">Rappel</th>
+              <th className="pb-2 text-right">F1</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="py-2 pr-4 text-gray-900">{row.name}</td>
+                <td className="py-2 pr-4 text-right text-gray-700">{row.metrics.samples}</td>
+                <td className="py-2 pr-4 text-right text-gray-700">{percent(row.metrics.precision)}</td>
+                <td className="py-2 pr-4 text-right text-gray-700">{percent(row.metrics.recall)}</td>
+                <td className="py-2 text-right text-gray-700">{percent(row.metrics.f1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
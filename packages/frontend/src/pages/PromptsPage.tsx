@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { api } from '../api/client';
+import { useAuth } from '../hooks/useAuth';
+import { RefreshCw, FileText, Save, RotateCcw, GitCompare } from 'lucide-react';
+import type { PromptKey, PromptTemplate, PromptVersion } from '@media-scanner/shared';
+
+interface PromptDraft {
+  systemPrompt: string;
+  userTemplate: string;
+  note: string;
+}
+
+interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff of two texts, from the longest common subsequence of their lines
+ */
+function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // common[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error?.message) {
+    return error.response.data.error.message;
+  }
+  return fallback;
+}
+
+export default function PromptsPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState<PromptKey>('multi_topic_relevance');
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const [compared, setCompared] = useState<PromptVersion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const selected = templates.find((t) => t.key === selectedKey) || null;
+  const active = selected?.activeVersion || null;
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    loadVersions(selectedKey);
+  }, [selectedKey]);
+
+  useEffect(() => {
+    if (active) {
+      setDraft({ systemPrompt: active.systemPrompt, userTemplate: active.userTemplate, note: '' });
+      setCompared(null);
+    }
+  }, [active?.id]);
+
+  async function loadTemplates() {
+    setLoading(true);
+    try {
+      const res = await api.get<{ data: PromptTemplate[] }>('/api/prompts');
+      setTemplates(res.data.data);
+    } catch (error) {
+      console.error('Failed to load prompts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadVersions(key: PromptKey) {
+    try {
+      const res = await api.get<{ data: PromptVersion[] }>(`/api/prompts/${key}/versions`);
+      setVersions(res.data.data);
+    } catch (error) {
+      console.error('Failed to load prompt versions:', error);
+    }
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+
+    setSaving(true);
+    try {
+      await api.post(`/api/prompts/${selectedKey}/versions`, draft);
+      await Promise.all([loadTemplates(), loadVersions(selectedKey)]);
+    } catch (error) {
+      console.error('Failed to save prompt:', error);
+      alert(errorMessage(error, 'Erreur lors de l\'enregistrement du prompt'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleActivate(version: PromptVersion) {
+    if (!confirm(`Rétablir la version ${version.version} de ce prompt ?`)) {
+      return;
+    }
+
+    try {
+      await api.post(`/api/prompts/${selectedKey}/versions/${version.id}/activate`);
+      await Promise.all([loadTemplates(), loadVersions(selectedKey)]);
+    } catch (error) {
+      console.error('Failed to activate prompt version:', error);
+      alert('Erreur lors du rétablissement de la version');
+    }
+  }
+
+  const isModified = Boolean(
+    draft && active
+      && (draft.systemPrompt !== active.systemPrompt || draft.userTemplate !== active.userTemplate)
+  );
+
+  // Active version against the edit in progress, or against the version picked in the history
+  const diffBase = compared || active;
+  const diffTarget = compared ? active : draft;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Prompts</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Consignes envoyées au modèle, chaque modification crée une nouvelle version
+          </p>
+        </div>
+        <button onClick={() => loadTemplates()} className="btn-secondary" disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Actualiser
+        </button>
+      </div>
+
+      {loading && templates.length === 0 ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <button
+                key={template.key}
+                onClick={() => setSelectedKey(template.key)}
+                className={`card p-4 w-full text-left ${
+                  template.key === selectedKey ? 'ring-2 ring-primary-500' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center">
+                  <FileText className="w-4 h-4 mr-2 text-gray-400" />
+                  <span className="text-sm font-medium text-gray-900">{template.label}</span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">{template.description}</p>
+                <p className="mt-2 text-xs text-gray-400">
+                  Version {template.activeVersion.version} active · {template.versionCount} version(s)
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {selected && draft && (
+            <div className="lg:col-span-3 space-y-6">
+              <div className="card">
+                <div className="card-header flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {selected.label} · version {selected.activeVersion.version}
+                  </h2>
+                  {isModified && <span className="badge-warning">Modifié</span>}
+                </div>
+                <div className="px-6 py-4 space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Prompt système
+                    </label>
+                    <textarea
+                      value={draft.systemPrompt}
+                      onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                      className="input w-full h-64 font-mono text-xs"
+                      readOnly={!isAdmin}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Message utilisateur
+                    </label>
+                    <textarea
+                      value={draft.userTemplate}
+                      onChange={(e) => setDraft({ ...draft, userTemplate: e.target.value })}
+                      className="input w-full h-64 font-mono text-xs"
+                      readOnly={!isAdmin}
+                    />
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-medium text-gray-700 mb-1">Variables disponibles</p>
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(selected.variables).map(([name, description]) => (
+                        <span
+                          key={name}
+                          title={description}
+                          className="px-2 py-0.5 text-xs bg-gray-100 text-gray-600 rounded font-mono"
+                        >
+                          {`{{${name}}}`}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  {isAdmin && (
+                    <div className="flex items-center gap-3 pt-2 border-t border-gray-100">
+                      <input
+                        type="text"
+                        value={draft.note}
+                        onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                        className="input flex-1"
+                        placeholder="Note de version (facultative)"
+                      />
+                      <button
+                        onClick={() => setDraft({ systemPrompt: active!.systemPrompt, userTemplate: active!.userTemplate, note: '' })}
+                        className="btn-secondary"
+                        disabled={!isModified || saving}
+                      >
+                        Annuler
+                      </button>
+                      <button onClick={handleSave} className="btn-primary" disabled={!isModified || saving}>
+                        <Save className="w-4 h-4 mr-2" />
+                        Enregistrer une nouvelle version
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {diffBase && diffTarget && (compared || isModified) && (
+                <div className="card">
+                  <div className="card-header flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      {compared
+                        ? `Version ${compared.version} → version ${active!.version} (active)`
+                        : `Version ${active!.version} (active) → modification en cours`}
+                    </h2>
+                    {compared && (
+                      <button onClick={() => setCompared(null)} className="btn-secondary text-xs">
+                        Fermer
+                      </button>
+                    )}
+                  </div>
+                  <div className="px-6 py-4 space-y-4">
+                    <PromptDiff title="Prompt système" before={diffBase.systemPrompt} after={diffTarget.systemPrompt} />
+                    <PromptDiff title="Message utilisateur" before={diffBase.userTemplate} after={diffTarget.userTemplate} />
+                  </div>
+                </div>
+              )}
+
+              <div className="card">
+                <div className="card-header">
+                  <h2 className="text-lg font-semibold text-gray-900">Historique</h2>
+                </div>
+                <ul className="divide-y divide-gray-200">
+                  {versions.map((version) => (
+                    <li key={version.id} className="px-6 py-3 flex items-center justify-between">
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-medium text-gray-900">Version {version.version}</span>
+                          {version.isActive && <span className="badge-success">Active</span>}
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">
+                          {new Date(version.createdAt).toLocaleString('fr-FR')}
+                          {version.createdByName && <> · {version.createdByName}</>}
+                          {version.note && <> · {version.note}</>}
+                        </p>
+                      </div>
+                      {!version.isActive && (
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          <button
+                            onClick={() => setCompared(version)}
+                            className="p-1.5 rounded text-gray-400 hover:bg-gray-50 hover:text-gray-600"
+                            title="Comparer avec la version active"
+                          >
+                            <GitCompare className="w-4 h-4" />
+                          </button>
+                          {isAdmin && (
+                            <button
+                              onClick={() => handleActivate(version)}
+                              className="p-1.5 rounded text-gray-400 hover:bg-gray-50 hover:text-primary-600"
+                              title="Rétablir cette version"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PromptDiff({ title, before, after }: { title: string; before: string; after: string }) {
+  if (before === after) {
+    return <p className="text-sm text-gray-500">{title} : inchangé</p>;
+  }
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-700 mb-1">{title}</p>
+      <pre className="text-xs font-mono bg-gray-50 rounded p-3 overflow-x-auto whitespace-pre-wrap">
+        {diffLines(before, after).map((line, i) => (
+          <div
+            key={i}
+            className={
+              line.type === 'added'
+                ? 'bg-green-100 text-green-800'
+                : line.type === 'removed'
+                  ? 'bg-red-100 text-red-800'
+                  : 'text-gray-600'
+            }
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+            {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
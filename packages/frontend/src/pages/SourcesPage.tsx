@@ -1,22 +1,37 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { api } from '../api/client';
-import { RefreshCw, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
-import type { Source } from '@media-scanner/shared';
+import { RefreshCw, CheckCircle, XCircle, AlertCircle, Download, Upload, Activity, Clock } from 'lucide-react';
+import type {
+  Source,
+  OpmlImportReport,
+  OpmlImportStatus,
+  FeedTestResult,
+  SourceTestResult,
+  UpdateSourceScheduleInput,
+} from '@media-scanner/shared';
 
 export default function SourcesPage() {
   const [sources, setSources] = useState<Source[]>([]);
   const [loading, setLoading] = useState(true);
   const [categoryFilter, setCategoryFilter] = useState<string>('');
+  const [healthFilter, setHealthFilter] = useState<string>('');
+  const [importPreview, setImportPreview] = useState<{ opml: string; report: OpmlImportReport } | null>(null);
+  const [importing, setImporting] = useState(false);
+  // null: closed, undefined source: free URL test
+  const [testTarget, setTestTarget] = useState<{ source?: Source } | null>(null);
+  const [scheduleSource, setScheduleSource] = useState<Source | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadSources();
-  }, [categoryFilter]);
+  }, [categoryFilter, healthFilter]);
 
   async function loadSources() {
     setLoading(true);
     try {
       const params = new URLSearchParams();
       if (categoryFilter) params.set('category', categoryFilter);
+      if (healthFilter) params.set('health', healthFilter);
       params.set('active', 'true');
 
       const res = await api.get<{ data: Source[] }>(`/api/sources?${params}`);
@@ -28,6 +43,82 @@ export default function SourcesPage() {
     }
   }
 
+  async function handleExport() {
+    try {
+      const res = await api.get<Blob>('/api/sources/export/opml', { responseType: 'blob' });
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'sources.opml';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export sources:', error);
+      alert("Erreur lors de l'export OPML");
+    }
+  }
+
+  async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const opml = await file.text();
+      const res = await api.post<{ data: OpmlImportReport }>('/api/sources/import/opml', {
+        opml,
+        dryRun: true,
+      });
+      setImportPreview({ opml, report: res.data.data });
+    } catch (error) {
+      console.error('Failed to preview OPML import:', error);
+      alert('Fichier OPML invalide ou trop volumineux');
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function handleConfirmImport() {
+    if (!importPreview) return;
+
+    setImporting(true);
+    try {
+      await api.post('/api/sources/import/opml', { opml: importPreview.opml, dryRun: false });
+      setImportPreview(null);
+      loadSources();
+    } catch (error) {
+      console.error('Failed to import OPML:', error);
+      alert("Erreur lors de l'import");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function handleSaveSchedule(source: Source, schedule: UpdateSourceScheduleInput) {
+    try {
+      await api.patch(`/api/sources/${source.id}/schedule`, schedule);
+      setScheduleSource(null);
+      loadSources();
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+      alert('Erreur lors de la sauvegarde de la planification');
+    }
+  }
+
+  async function handleRestore(source: Source) {
+    try {
+      await api.post(`/api/sources/${source.id}/restore`);
+      loadSources();
+    } catch (error) {
+      console.error('Failed to restore source:', error);
+      alert('Erreur lors de la réactivation');
+    }
+  }
+
+  const degradedCount = sources.filter((s) => s.healthStatus === 'degraded').length;
+  const suspendedCount = sources.filter((s) => s.healthStatus === 'suspended').length;
+
   const nationalSources = sources.filter((s) => s.category === 'national');
   const regionalSources = sources.filter((s) => s.category === 'regional');
   const socialSources = sources.filter((s) => s.category === 'social');
@@ -39,6 +130,11 @@ export default function SourcesPage() {
           <h1 className="text-2xl font-bold text-gray-900">Sources</h1>
           <p className="mt-1 text-sm text-gray-500">
             {sources.length} sources actives configurées
+            {(degradedCount > 0 || suspendedCount > 0) && (
+              <span className="text-yellow-600">
+                {' '}· {degradedCount} en difficulté, {suspendedCount} suspendue(s)
+              </span>
+            )}
           </p>
         </div>
         <div className="flex items-center space-x-4">
@@ -52,10 +148,43 @@ export default function SourcesPage() {
             <option value="regional">Régionales</option>
             <option value="social">Réseaux sociaux</option>
           </select>
+          <select
+            value={healthFilter}
+            onChange={(e) => setHealthFilter(e.target.value)}
+            className="input w-40"
+          >
+            <option value="">Tous états</option>
+            <option value="healthy">Saines</option>
+            <option value="degraded">En difficulté</option>
+            <option value="suspended">Suspendues</option>
+          </select>
           <button onClick={() => loadSources()} className="btn-secondary" disabled={loading}>
             <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
             Actualiser
           </button>
+          <button onClick={() => setTestTarget({})} className="btn-secondary">
+            <Activity className="w-4 h-4 mr-2" />
+            Tester une URL
+          </button>
+          <button onClick={handleExport} className="btn-secondary">
+            <Download className="w-4 h-4 mr-2" />
+            Exporter OPML
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="btn-primary"
+            disabled={importing}
+          >
+            <Upload className={`w-4 h-4 mr-2 ${importing ? 'animate-pulse' : ''}`} />
+            Importer OPML
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".opml,.xml,text/x-opml,text/xml"
+            onChange={handleImportFile}
+            className="hidden"
+          />
         </div>
       </div>
 
@@ -66,35 +195,475 @@ export default function SourcesPage() {
       ) : (
         <div className="space-y-8">
           {nationalSources.length > 0 && (
-            <SourceSection title="Presse Nationale" sources={nationalSources} />
+            <SourceSection
+              title="Presse Nationale"
+              sources={nationalSources}
+              onTest={(source) => setTestTarget({ source })}
+              onRestore={handleRestore}
+              onEditSchedule={setScheduleSource}
+            />
           )}
           {regionalSources.length > 0 && (
-            <SourceSection title="Presse Régionale" sources={regionalSources} />
+            <SourceSection
+              title="Presse Régionale"
+              sources={regionalSources}
+              onTest={(source) => setTestTarget({ source })}
+              onRestore={handleRestore}
+              onEditSchedule={setScheduleSource}
+            />
           )}
           {socialSources.length > 0 && (
-            <SourceSection title="Réseaux Sociaux" sources={socialSources} />
+            <SourceSection
+              title="Réseaux Sociaux"
+              sources={socialSources}
+              onTest={(source) => setTestTarget({ source })}
+              onRestore={handleRestore}
+              onEditSchedule={setScheduleSource}
+            />
+          )}
+        </div>
+      )}
+
+      {importPreview && (
+        <OpmlImportModal
+          report={importPreview.report}
+          importing={importing}
+          onConfirm={handleConfirmImport}
+          onClose={() => setImportPreview(null)}
+        />
+      )}
+
+      {scheduleSource && (
+        <ScheduleModal
+          source={scheduleSource}
+          onSubmit={(schedule) => handleSaveSchedule(scheduleSource, schedule)}
+          onClose={() => setScheduleSource(null)}
+        />
+      )}
+
+      {testTarget && (
+        <FeedTestModal source={testTarget.source} onClose={() => setTestTarget(null)} />
+      )}
+    </div>
+  );
+}
+
+const IMPORT_STATUS_LABELS: Record<OpmlImportStatus, { label: string; className: string }> = {
+  new: { label: 'Nouvelle', className: 'bg-green-100 text-green-800' },
+  created: { label: 'Créée', className: 'bg-green-100 text-green-800' },
+  duplicate: { label: 'Doublon', className: 'bg-gray-100 text-gray-700' },
+  invalid: { label: 'Invalide', className: 'bg-red-100 text-red-800' },
+};
+
+function OpmlImportModal({
+  report,
+  importing,
+  onConfirm,
+  onClose,
+}: {
+  report: OpmlImportReport;
+  importing: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">Aperçu de l'import OPML</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            {report.total} flux : {report.new} nouveau(x), {report.duplicates} doublon(s),{' '}
+            {report.invalid} invalide(s)
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="pb-2 pr-4">Source</th>
+                <th className="pb-2 pr-4">Catégorie</th>
+                <th className="pb-2 pr-4">Statut</th>
+                <th className="pb-2">Détail</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.entries.map((entry) => (
+                <tr key={entry.url}>
+                  <td className="py-2 pr-4">
+                    <div className="font-medium text-gray-900">{entry.title}</div>
+                    {entry.feedOf && <div className="text-xs text-gray-500">Rubrique de {entry.feedOf}</div>}
+                    <div className="text-xs text-gray-400 truncate max-w-xs">{entry.url}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">
+                    {entry.category === 'regional' ? 'Régionale' : 'Nationale'}
+                    {entry.region && <div className="text-xs text-gray-400">{entry.region}</div>}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded text-xs ${IMPORT_STATUS_LABELS[entry.status].className}`}>
+                      {IMPORT_STATUS_LABELS[entry.status].label}
+                    </span>
+                  </td>
+                  <td className="py-2 text-xs text-gray-500">
+                    {entry.reason || (entry.itemCount !== undefined ? `${entry.itemCount} articles` : '')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 border-t flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="btn-secondary">
+            Annuler
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            className="btn-primary"
+            disabled={importing || report.new === 0}
+          >
+            Importer {report.new} source(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const SKIP_REASON_LABELS: Record<string, string> = {
+  missing_link: 'Lien manquant',
+  missing_or_short_title: 'Titre manquant ou trop court',
+  invalid_url: 'URL invalide',
+  insufficient_content: 'Contenu insuffisant',
+  too_old: 'Trop ancien (> 7 jours)',
+};
+
+function FeedTestModal({ source, onClose }: { source?: Source; onClose: () => void }) {
+  const [url, setUrl] = useState('');
+  const [results, setResults] = useState<Array<FeedTestResult & { label?: string | null }>>([]);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (source) {
+      runTest(() =>
+        api
+          .post<{ data: SourceTestResult }>(`/api/sources/${source.id}/test`)
+          .then((res) => res.data.data.feeds)
+      );
+    }
+  }, [source]);
+
+  async function runTest(request: () => Promise<Array<FeedTestResult & { label?: string | null }>>) {
+    setTesting(true);
+    setError(null);
+    try {
+      setResults(await request());
+    } catch (err) {
+      console.error('Failed to test feed:', err);
+      setResults([]);
+      setError('Le test a échoué');
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  function testUrl(target: string) {
+    setUrl(target);
+    runTest(() =>
+      api
+        .post<{ data: FeedTestResult }>('/api/sources/test', { url: target })
+        .then((res) => [res.data.data])
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {source ? `Test des flux : ${source.name}` : 'Tester une URL'}
+          </h2>
+          {!source && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (url.trim()) testUrl(url.trim());
+              }}
+              className="mt-4 flex space-x-3"
+            >
+              <input
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="input flex-1"
+                placeholder="https://www.exemple.fr/rss.xml ou page d'accueil"
+                required
+              />
+              <button type="submit" className="btn-primary" disabled={testing}>
+                Tester
+              </button>
+            </form>
+          )}
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {testing && (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+            </div>
           )}
+          {!testing && error && <p className="text-sm text-red-600">{error}</p>}
+          {!testing &&
+            results.map((result) => (
+              <FeedTestReport key={result.url} result={result} onTestUrl={testUrl} />
+            ))}
+        </div>
+
+        <div className="p-6 border-t flex justify-end">
+          <button type="button" onClick={onClose} className="btn-secondary">
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FeedTestReport({
+  result,
+  onTestUrl,
+}: {
+  result: FeedTestResult & { label?: string | null };
+  onTestUrl: (url: string) => void;
+}) {
+  const skipReasons = Object.entries(result.skipReasons);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        {result.success && result.normalizedCount > 0 ? (
+          <CheckCircle className="w-4 h-4 text-green-500" />
+        ) : result.success ? (
+          <AlertCircle className="w-4 h-4 text-yellow-500" />
+        ) : (
+          <XCircle className="w-4 h-4 text-red-500" />
+        )}
+        <h3 className="text-sm font-medium text-gray-900">
+          {result.label || result.feedTitle || 'Flux'}
+        </h3>
+      </div>
+      <p className="text-xs text-gray-400 break-all">{result.finalUrl || result.url}</p>
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        <div>
+          <dt className="text-gray-500">HTTP</dt>
+          <dd className="text-gray-900">{result.httpStatus ?? '-'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Type</dt>
+          <dd className="text-gray-900 truncate">{result.contentType || '-'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Articles</dt>
+          <dd className="text-gray-900">
+            {result.normalizedCount} / {result.itemCount}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Plus récent</dt>
+          <dd className="text-gray-900">
+            {result.newestItemAt ? getTimeAgo(new Date(result.newestItemAt)) : '-'}
+          </dd>
+        </div>
+      </dl>
+
+      {result.error && <p className="text-xs text-yellow-700">{result.error}</p>}
+
+      {skipReasons.length > 0 && (
+        <div className="text-xs">
+          <span className="text-gray-500">Éléments ignorés : </span>
+          {skipReasons
+            .map(([reason, count]) => `${SKIP_REASON_LABELS[reason] || reason} (${count})`)
+            .join(', ')}
         </div>
       )}
+
+      {result.discoveredFeeds.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">Flux découverts :</p>
+          {result.discoveredFeeds.map((feed) => (
+            <div key={feed.url} className="flex items-center justify-between text-xs">
+              <span className="truncate">
+                {feed.title || feed.url}{' '}
+                <span className="text-gray-400">({feed.format.toUpperCase()})</span>
+              </span>
+              <button onClick={() => onTestUrl(feed.url)} className="text-primary-600 hover:underline ml-2">
+                Tester
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result.samples.length > 0 && (
+        <ul className="space-y-2">
+          {result.samples.map((sample) => (
+            <li key={sample.url} className="text-xs">
+              <a href={sample.url} target="_blank" rel="noopener noreferrer" className="font-medium text-gray-900 hover:underline">
+                {sample.title}
+              </a>
+              {sample.lede && <p className="text-gray-500 line-clamp-2">{sample.lede}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
 
-function SourceSection({ title, sources }: { title: string; sources: Source[] }) {
+function ScheduleModal({
+  source,
+  onSubmit,
+  onClose,
+}: {
+  source: Source;
+  onSubmit: (schedule: UpdateSourceScheduleInput) => void;
+  onClose: () => void;
+}) {
+  const [intervalMinutes, setIntervalMinutes] = useState(String(source.fetchIntervalMinutes));
+  const [quietEnabled, setQuietEnabled] = useState(source.quietHoursStart !== null);
+  const [quietStart, setQuietStart] = useState(String(source.quietHoursStart ?? 23));
+  const [quietEnd, setQuietEnd] = useState(String(source.quietHoursEnd ?? 6));
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (quietEnabled && quietStart === quietEnd) {
+      alert('Le début et la fin de la pause doivent être différents');
+      return;
+    }
+
+    onSubmit({
+      fetchIntervalMinutes: parseInt(intervalMinutes, 10),
+      quietHoursStart: quietEnabled ? parseInt(quietStart, 10) : null,
+      quietHoursEnd: quietEnabled ? parseInt(quietEnd, 10) : null,
+    });
+  }
+
+  const hours = Array.from({ length: 24 }, (_, h) => h);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-6 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">Planification : {source.name}</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Intervalle de scan (minutes)
+            </label>
+            <input
+              type="number"
+              min={5}
+              max={1440}
+              value={intervalMinutes}
+              onChange={(e) => setIntervalMinutes(e.target.value)}
+              className="input w-full"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={quietEnabled}
+                onChange={(e) => setQuietEnabled(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span>Suspendre les scans la nuit (heure de Paris)</span>
+            </label>
+            {quietEnabled && (
+              <div className="mt-2 flex items-center space-x-2 text-sm">
+                <span className="text-gray-500">De</span>
+                <select value={quietStart} onChange={(e) => setQuietStart(e.target.value)} className="input w-24">
+                  {hours.map((h) => (
+                    <option key={h} value={h}>{h}h</option>
+                  ))}
+                </select>
+                <span className="text-gray-500">à</span>
+                <select value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} className="input w-24">
+                  {hours.map((h) => (
+                    <option key={h} value={h}>{h}h</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Annuler
+            </button>
+            <button type="submit" className="btn-primary">
+              Enregistrer
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function SourceSection({
+  title,
+  sources,
+  onTest,
+  onRestore,
+  onEditSchedule,
+}: {
+  title: string;
+  sources: Source[];
+  onTest: (source: Source) => void;
+  onRestore: (source: Source) => void;
+  onEditSchedule: (source: Source) => void;
+}) {
   return (
     <div>
       <h2 className="text-lg font-semibold text-gray-900 mb-4">{title}</h2>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {sources.map((source) => (
-          <SourceCard key={source.id} source={source} />
+          <SourceCard
+            key={source.id}
+            source={source}
+            onTest={() => onTest(source)}
+            onRestore={() => onRestore(source)}
+            onEditSchedule={() => onEditSchedule(source)}
+          />
         ))}
       </div>
     </div>
   );
 }
 
-function SourceCard({ source }: { source: Source }) {
+function SourceCard({
+  source,
+  onTest,
+  onRestore,
+  onEditSchedule,
+}: {
+  source: Source;
+  onTest: () => void;
+  onRestore: () => void;
+  onEditSchedule: () => void;
+}) {
   const hasError = source.errorCount > 0;
+  const suspended = source.healthStatus === 'suspended';
+  const backingOff = source.nextFetchAt !== null && new Date(source.nextFetchAt) > new Date();
   const lastFetchedAgo = source.lastFetchedAt
     ? getTimeAgo(new Date(source.lastFetchedAt))
     : 'Jamais';
@@ -104,14 +673,14 @@ function SourceCard({ source }: { source: Source }) {
       <div className="flex items-start justify-between">
         <div className="flex-1 min-w-0">
           <div className="flex items-center space-x-2">
-            {source.isActive ? (
-              hasError ? (
-                <AlertCircle className="w-4 h-4 text-yellow-500" />
-              ) : (
-                <CheckCircle className="w-4 h-4 text-green-500" />
-              )
-            ) : (
+            {!source.isActive ? (
               <XCircle className="w-4 h-4 text-gray-400" />
+            ) : suspended ? (
+              <XCircle className="w-4 h-4 text-red-500" />
+            ) : source.healthStatus === 'degraded' ? (
+              <AlertCircle className="w-4 h-4 text-yellow-500" />
+            ) : (
+              <CheckCircle className="w-4 h-4 text-green-500" />
             )}
             <h3 className="text-sm font-medium text-gray-900 truncate">{source.name}</h3>
           </div>
@@ -120,6 +689,24 @@ function SourceCard({ source }: { source: Source }) {
             <p className="text-xs text-gray-400">{source.region}</p>
           )}
         </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onEditSchedule}
+            className="text-gray-400 hover:text-primary-600"
+            title="Planification"
+          >
+            <Clock className="w-4 h-4" />
+          </button>
+          {source.type === 'rss' && (
+            <button
+              onClick={onTest}
+              className="text-gray-400 hover:text-primary-600"
+              title="Tester les flux"
+            >
+              <Activity className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="mt-4 pt-4 border-t border-gray-100">
@@ -133,9 +720,30 @@ function SourceCard({ source }: { source: Source }) {
           <span className="text-gray-500">Intervalle:</span>
           <span className="text-gray-700">{source.fetchIntervalMinutes} min</span>
         </div>
+        {source.quietHoursStart !== null && source.quietHoursEnd !== null && (
+          <div className="flex items-center justify-between text-xs mt-1">
+            <span className="text-gray-500">Pause:</span>
+            <span className="text-gray-700">
+              {source.quietHoursStart}h – {source.quietHoursEnd}h
+            </span>
+          </div>
+        )}
         {hasError && (
-          <div className="mt-2 text-xs text-yellow-600">
-            {source.errorCount} erreur(s)
+          <div className={`mt-2 text-xs ${suspended ? 'text-red-600' : 'text-yellow-600'}`}>
+            {source.errorCount} échec(s) consécutif(s)
+            {!suspended && backingOff && (
+              <> · prochain essai dans {getTimeUntil(new Date(source.nextFetchAt!))}</>
+            )}
+          </div>
+        )}
+        {suspended && (
+          <div className="mt-2 flex items-start justify-between text-xs">
+            <span className="text-red-600 mr-2">
+              Suspendue{source.suspendedReason ? ` : ${source.suspendedReason}` : ''}
+            </span>
+            <button onClick={onRestore} className="text-primary-600 hover:underline whitespace-nowrap">
+              Réactiver
+            </button>
           </div>
         )}
       </div>
@@ -155,3 +763,10 @@ function getTimeAgo(date: Date): string {
   if (diffHours < 24) return `${diffHours}h`;
   return `${diffDays} jour(s)`;
 }
+
+function getTimeUntil(date: Date): string {
+  const diffMins = Math.max(1, Math.ceil((date.getTime() - Date.now()) / 60000));
+
+  if (diffMins < 60) return `${diffMins} min`;
+  return `${Math.round(diffMins / 60)}h`;
+}
@@ -0,0 +1,326 @@
+import { useState, useEffect } from 'react';
+import { api } from '../api/client';
+import { ExternalLink, RefreshCw, Merge, Scissors, Pencil, X } from 'lucide-react';
+import type { StorySummary, StoryWithTimeline, PaginatedResponse } from '@media-scanner/shared';
+
+export default function StoriesPage() {
+  const [stories, setStories] = useState<StorySummary[]>([]);
+  const [pagination, setPagination] = useState({ page: 1, totalPages: 1, total: 0 });
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [merging, setMerging] = useState(false);
+  const [openStoryId, setOpenStoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStories();
+  }, [pagination.page]);
+
+  async function loadStories() {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(pagination.page), limit: '20' });
+      if (search) params.set('search', search);
+
+      const res = await api.get<PaginatedResponse<StorySummary>>(`/api/stories?${params}`);
+      setStories(res.data.data);
+      setPagination(res.data.pagination);
+    } catch (error) {
+      console.error('Failed to load stories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((current) =>
+      current.includes(id) ? current.filter((s) => s !== id) : [...current, id]
+    );
+  }
+
+  async function handleMerge() {
+    // The largest story absorbs the others
+    const targets = stories
+      .filter((s) => selected.includes(s.id))
+      .sort((a, b) => b.articleCount - a.articleCount);
+    if (targets.length < 2) return;
+
+    if (!confirm(`Fusionner ${targets.length} dossiers dans « ${targets[0].title} » ?`)) return;
+
+    setMerging(true);
+    try {
+      await api.post(`/api/stories/${targets[0].id}/merge`, {
+        storyIds: targets.slice(1).map((s) => s.id),
+      });
+      setSelected([]);
+      await loadStories();
+    } catch (error) {
+      console.error('Failed to merge stories:', error);
+      alert('Erreur lors de la fusion des dossiers');
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Dossiers</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {pagination.total} affaires suivies sur plusieurs articles
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setPagination((p) => ({ ...p, page: 1 }));
+              loadStories();
+            }}
+          >
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Rechercher un dossier"
+              className="input w-56"
+            />
+          </form>
+          {selected.length >= 2 && (
+            <button onClick={handleMerge} className="btn-primary" disabled={merging}>
+              <Merge className="w-4 h-4 mr-2" />
+              Fusionner ({selected.length})
+            </button>
+          )}
+          <button
+            onClick={() => loadStories()}
+            className="btn-secondary"
+            disabled={loading}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Actualiser
+          </button>
+        </div>
+      </div>
+
+      {/* Stories list */}
+      <div className="card divide-y divide-gray-200">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+          </div>
+        ) : stories.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Aucun dossier trouvé
+          </div>
+        ) : (
+          stories.map((story) => (
+            <div key={story.id} className="px-6 py-4 hover:bg-gray-50 flex items-start">
+              <input
+                type="checkbox"
+                checked={selected.includes(story.id)}
+                onChange={() => toggleSelected(story.id)}
+                className="mt-1 mr-4"
+              />
+              <div className="flex-1 min-w-0">
+                <button
+                  onClick={() => setOpenStoryId(story.id)}
+                  className="text-left text-sm font-medium text-gray-900 hover:text-primary-600"
+                >
+                  {story.title}
+                </button>
+                <p className="mt-1 text-xs text-gray-500">
+                  {story.articleCount} articles · {story.outletCount} médias
+                  {story.relevantCount > 0 && <> · {story.relevantCount} pertinents</>}
+                  {' · '}du {formatDate(story.firstSeenAt)} au {formatDate(story.lastSeenAt)}
+                </p>
+                {story.entities.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {story.entities.slice(0, 6).map((entity) => (
+                      <span key={entity} className="badge-info text-xs">{entity}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setPagination((p) => ({ ...p, page: p.page - 1 }))}
+            disabled={pagination.page === 1}
+            className="btn-secondary"
+          >
+            Précédent
+          </button>
+          <span className="text-sm text-gray-500">
+            Page {pagination.page} sur {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => setPagination((p) => ({ ...p, page: p.page + 1 }))}
+            disabled={pagination.page === pagination.totalPages}
+            className="btn-secondary"
+          >
+            Suivant
+          </button>
+        </div>
+      )}
+
+      {openStoryId && (
+        <StoryModal
+          storyId={openStoryId}
+          onClose={() => setOpenStoryId(null)}
+          onChange={loadStories}
+        />
+      )}
+    </div>
+  );
+}
+
+function StoryModal({
+  storyId,
+  onClose,
+  onChange,
+}: {
+  storyId: string;
+  onClose: () => void;
+  onChange: () => void;
+}) {
+  const [story, setStory] = useState<StoryWithTimeline | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadStory();
+  }, [storyId]);
+
+  async function loadStory() {
+    try {
+      const res = await api.get<{ data: StoryWithTimeline }>(`/api/stories/${storyId}`);
+      setStory(res.data.data);
+    } catch (error) {
+      console.error('Failed to load story:', error);
+    }
+  }
+
+  async function handleRename() {
+    if (!story) return;
+    const title = prompt('Titre du dossier', story.title);
+    if (!title || title.trim() === story.title) return;
+
+    try {
+      await api.patch(`/api/stories/${story.id}`, { title });
+      await loadStory();
+      onChange();
+    } catch (error) {
+      console.error('Failed to rename story:', error);
+      alert('Erreur lors du renommage du dossier');
+    }
+  }
+
+  async function handleSplit() {
+    if (!story || selected.length === 0) return;
+    const title = prompt('Titre du nouveau dossier (laisser vide pour reprendre le premier article)', '');
+    if (title === null) return;
+
+    setSaving(true);
+    try {
+      await api.post(`/api/stories/${story.id}/split`, { articleIds: selected, title });
+      setSelected([]);
+      await loadStory();
+      onChange();
+    } catch (error) {
+      console.error('Failed to split story:', error);
+      alert('Erreur lors de la séparation du dossier');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((current) =>
+      current.includes(id) ? current.filter((s) => s !== id) : [...current, id]
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900">{story?.title || 'Chargement...'}</h2>
+            {story && (
+              <p className="mt-1 text-xs text-gray-500">
+                {story.articleCount} articles · du {formatDate(story.firstSeenAt)} au {formatDate(story.lastSeenAt)}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center space-x-2 ml-4">
+            <button onClick={handleRename} className="text-gray-400 hover:text-gray-600" title="Renommer">
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {story?.timeline.map((entry) => (
+            <div key={entry.articleId} className="flex items-start py-3 border-l-2 border-primary-200 pl-4">
+              <input
+                type="checkbox"
+                checked={selected.includes(entry.articleId)}
+                onChange={() => toggleSelected(entry.articleId)}
+                className="mt-1 mr-3"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-gray-500">
+                  {entry.publishedAt ? formatDate(entry.publishedAt) : 'Date inconnue'}
+                  {entry.sourceName && <> · {entry.sourceName}</>}
+                  {entry.relevanceScore !== null && <> · {Math.round(entry.relevanceScore * 100)}%</>}
+                </p>
+                <a
+                  href={entry.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-sm font-medium text-gray-900 hover:text-primary-600"
+                >
+                  {entry.title}
+                  <ExternalLink className="inline w-3 h-3 ml-1 text-gray-400" />
+                </a>
+                {entry.syndicatedBy.length > 0 && (
+                  <p className="text-xs text-gray-500">Aussi publié par {entry.syndicatedBy.join(', ')}</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={handleSplit}
+            className="btn-secondary"
+            disabled={saving || selected.length === 0 || selected.length === story?.timeline.length}
+          >
+            <Scissors className="w-4 h-4 mr-2" />
+            Séparer la sélection
+          </button>
+          <button onClick={onClose} className="btn-primary">
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' });
+}
@@ -1,13 +1,62 @@
 import { useState, useEffect } from 'react';
 import { api } from '../api/client';
-import { RefreshCw, Plus, Pencil, Trash2, Tag, Check, X } from 'lucide-react';
-import type { Topic, CreateTopicInput, UpdateTopicInput } from '@media-scanner/shared';
+import { RefreshCw, Plus, Pencil, Trash2, Tag, Check, X, History, Sparkles } from 'lucide-react';
+import { DEFAULT_AUTO_GENERATE_SCORE, DEFAULT_BACKFILL_DAYS, MAX_BACKFILL_DAYS } from '@media-scanner/shared';
+import type {
+  Topic,
+  CreateTopicInput,
+  UpdateTopicInput,
+  TopicAgreementStats,
+  TopicBackfill,
+  TopicBackfillEstimate,
+  TopicBackfillStatus,
+  KeywordPreview,
+  KeywordValidationResult,
+  TopicDraft,
+  TopicDryRun,
+} from '@media-scanner/shared';
+
+const BACKFILL_STATUS_LABELS: Record<TopicBackfillStatus, { label: string; className: string }> = {
+  pending: { label: 'En attente', className: 'badge-warning' },
+  scanning: { label: 'Recherche', className: 'badge-info' },
+  analyzing: { label: 'Analyse', className: 'badge-info' },
+  completed: { label: 'Terminé', className: 'badge-success' },
+  failed: { label: 'Échec', className: 'badge-danger' },
+  cancelled: { label: 'Annulé', className: 'badge-warning' },
+};
+
+// Backfills in progress are reloaded at this interval
+const REFRESH_INTERVAL_MS = 5000;
+
+// Keywords are checked once typing pauses for this long
+const VALIDATE_DELAY_MS = 500;
+
+function parseKeywordLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((k) => k.trim())
+    .filter((k) => k.length > 0);
+}
+
+function isInProgress(backfill: TopicBackfill): boolean {
+  return backfill.status === 'pending' || backfill.status === 'scanning' || backfill.status === 'analyzing';
+}
+
+function formatCost(usd: number | null): string {
+  if (usd === null) return 'inconnu';
+  return usd.toLocaleString('fr-FR', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 });
+}
 
 export default function TopicsPage() {
   const [topics, setTopics] = useState<Topic[]>([]);
+  const [agreement, setAgreement] = useState<TopicAgreementStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingTopic, setEditingTopic] = useState<Topic | null>(null);
+  const [backfill, setBackfill] = useState<{ topic: Topic; rescore: boolean } | null>(null);
+  const [showAssistant, setShowAssistant] = useState(false);
+  // Draft from the assistant, prefilling the creation form
+  const [initialTopic, setInitialTopic] = useState<CreateTopicInput | null>(null);
 
   useEffect(() => {
     loadTopics();
@@ -16,8 +65,12 @@ export default function TopicsPage() {
   async function loadTopics() {
     setLoading(true);
     try {
-      const res = await api.get<{ data: Topic[] }>('/api/topics');
-      setTopics(res.data.data);
+      const [topicsRes, agreementRes] = await Promise.all([
+        api.get<{ data: Topic[] }>('/api/topics'),
+        api.get<{ data: TopicAgreementStats[] }>('/api/topics/agreement'),
+      ]);
+      setTopics(topicsRes.data.data);
+      setAgreement(agreementRes.data.data);
     } catch (error) {
       console.error('Failed to load topics:', error);
     } finally {
@@ -62,20 +115,39 @@ export default function TopicsPage() {
     setShowForm(true);
   }
 
+  function handleUseDraft(draft: CreateTopicInput) {
+    setShowAssistant(false);
+    setEditingTopic(null);
+    setInitialTopic(draft);
+    setShowForm(true);
+  }
+
   function handleFormClose() {
     setShowForm(false);
     setEditingTopic(null);
+    setInitialTopic(null);
   }
 
   async function handleFormSubmit(data: CreateTopicInput | UpdateTopicInput) {
     try {
+      let saved: Topic;
       if (editingTopic) {
-        await api.patch(`/api/topics/${editingTopic.id}`, data);
+        saved = (await api.patch<{ data: Topic }>(`/api/topics/${editingTopic.id}`, data)).data.data;
       } else {
-        await api.post('/api/topics', data);
+        saved = (await api.post<{ data: Topic }>('/api/topics', data)).data.data;
       }
+
+      // Only articles ingested from now on would see a new or changed topic, offer to catch up
+      const promptChanged = editingTopic !== null && saved.aiPrompt !== editingTopic.aiPrompt;
+      const keywordsChanged = editingTopic === null
+        || saved.keywords.join(',') !== editingTopic.keywords.join(',');
+
       handleFormClose();
       loadTopics();
+
+      if (saved.isActive && (promptChanged || keywordsChanged)) {
+        setBackfill({ topic: saved, rescore: promptChanged });
+      }
     } catch (error) {
       console.error('Failed to save topic:', error);
       alert('Erreur lors de la sauvegarde');
@@ -99,6 +171,10 @@ export default function TopicsPage() {
             <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
             Actualiser
           </button>
+          <button onClick={() => setShowAssistant(true)} className="btn-secondary">
+            <Sparkles className="w-4 h-4 mr-2" />
+            Assistant
+          </button>
           <button onClick={handleCreate} className="btn-primary">
             <Plus className="w-4 h-4 mr-2" />
             Nouveau Topic
@@ -120,9 +196,11 @@ export default function TopicsPage() {
                   <TopicCard
                     key={topic.id}
                     topic={topic}
+                    agreement={agreement.find((a) => a.topicId === topic.id)}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
                     onToggle={handleToggleActive}
+                    onBackfill={(t) => setBackfill({ topic: t, rescore: false })}
                   />
                 ))}
               </div>
@@ -137,9 +215,11 @@ export default function TopicsPage() {
                   <TopicCard
                     key={topic.id}
                     topic={topic}
+                    agreement={agreement.find((a) => a.topicId === topic.id)}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
                     onToggle={handleToggleActive}
+                    onBackfill={(t) => setBackfill({ topic: t, rescore: false })}
                   />
                 ))}
               </div>
@@ -151,22 +231,40 @@ export default function TopicsPage() {
       {showForm && (
         <TopicFormModal
           topic={editingTopic}
+          initial={initialTopic}
           onClose={handleFormClose}
           onSubmit={handleFormSubmit}
         />
       )}
+
+      {showAssistant && (
+        <TopicAssistantModal
+          onClose={() => setShowAssistant(false)}
+          onUse={handleUseDraft}
+        />
+      )}
+
+      {backfill && (
+        <BackfillModal
+          topic={backfill.topic}
+          suggestRescore={backfill.rescore}
+          onClose={() => setBackfill(null)}
+        />
+      )}
     </div>
   );
 }
 
 interface TopicCardProps {
   topic: Topic;
+  agreement?: TopicAgreementStats;
   onEdit: (topic: Topic) => void;
   onDelete: (topic: Topic) => void;
   onToggle: (topic: Topic) => void;
+  onBackfill: (topic: Topic) => void;
 }
 
-function TopicCard({ topic, onEdit, onDelete, onToggle }: TopicCardProps) {
+function TopicCard({ topic, agreement, onEdit, onDelete, onToggle, onBackfill }: TopicCardProps) {
   return (
     <div className={`card p-4 ${!topic.isActive ? 'opacity-60' : ''}`}>
       <div className="flex items-start justify-between">
@@ -208,6 +306,15 @@ function TopicCard({ topic, onEdit, onDelete, onToggle }: TopicCardProps) {
           >
             <Pencil className="w-4 h-4" />
           </button>
+          {topic.isActive && (
+            <button
+              onClick={() => onBackfill(topic)}
+              className="p-1.5 rounded text-gray-400 hover:bg-gray-50 hover:text-gray-600"
+              title="Rattraper les articles récents"
+            >
+              <History className="w-4 h-4" />
+            </button>
+          )}
           {!topic.isSystem && (
             <button
               onClick={() => onDelete(topic)}
@@ -229,6 +336,29 @@ function TopicCard({ topic, onEdit, onDelete, onToggle }: TopicCardProps) {
           <span className="text-gray-500">Score minimum:</span>
           <span className="text-gray-700">{(topic.minRelevanceScore * 100).toFixed(0)}%</span>
         </div>
+        <div className="flex items-center justify-between text-xs mt-1">
+          <span className="text-gray-500">Génération automatique:</span>
+          <span className="text-gray-700">
+            {topic.autoGenerateScore !== null
+              ? `${(topic.autoGenerateScore * 100).toFixed(0)}%`
+              : `${(DEFAULT_AUTO_GENERATE_SCORE * 100).toFixed(0)}% (par défaut)`}
+          </span>
+        </div>
+        {agreement && (
+          <div
+            className="flex items-center justify-between text-xs mt-1"
+            title={`${agreement.overScored} score(s) jugé(s) trop haut(s), ${agreement.underScored} trop bas`}
+          >
+            <span className="text-gray-500">Accord avec la rédaction:</span>
+            <span className="text-gray-700">
+              {agreement.agreementRate !== null ? `${(agreement.agreementRate * 100).toFixed(0)}%` : '–'}
+              {' '}sur {agreement.feedbackCount} avis
+              {agreement.meanAbsoluteError !== null && agreement.meanAbsoluteError > 0 && (
+                <>, écart moyen {(agreement.meanAbsoluteError * 100).toFixed(0)} pts</>
+              )}
+            </span>
+          </div>
+        )}
         <div className="mt-2 flex flex-wrap gap-1">
           {topic.keywords.slice(0, 5).map((keyword, i) => (
             <span
@@ -251,39 +381,90 @@ function TopicCard({ topic, onEdit, onDelete, onToggle }: TopicCardProps) {
 
 interface TopicFormModalProps {
   topic: Topic | null;
+  initial?: CreateTopicInput | null; // Values of a new topic, e.g. an assistant draft
   onClose: () => void;
   onSubmit: (data: CreateTopicInput | UpdateTopicInput) => void;
 }
 
-function TopicFormModal({ topic, onClose, onSubmit }: TopicFormModalProps) {
-  const [name, setName] = useState(topic?.name || '');
-  const [description, setDescription] = useState(topic?.description || '');
-  const [keywords, setKeywords] = useState(topic?.keywords.join(', ') || '');
-  const [aiPrompt, setAiPrompt] = useState(topic?.aiPrompt || '');
+function TopicFormModal({ topic, initial, onClose, onSubmit }: TopicFormModalProps) {
+  const [name, setName] = useState(topic?.name || initial?.name || '');
+  const [description, setDescription] = useState(topic?.description || initial?.description || '');
+  const [keywords, setKeywords] = useState((topic?.keywords || initial?.keywords || []).join('\n'));
+  const [keywordIssues, setKeywordIssues] = useState<KeywordValidationResult['issues']>([]);
+  const [preview, setPreview] = useState<KeywordPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [aiPrompt, setAiPrompt] = useState(topic?.aiPrompt || initial?.aiPrompt || '');
   const [minRelevanceScore, setMinRelevanceScore] = useState(
-    topic?.minRelevanceScore?.toString() || '0.5'
+    (topic?.minRelevanceScore ?? initial?.minRelevanceScore)?.toString() || '0.5'
+  );
+  // Empty for the default threshold
+  const [autoGenerateScore, setAutoGenerateScore] = useState(
+    topic?.autoGenerateScore?.toString() ?? ''
   );
   const [isActive, setIsActive] = useState(topic?.isActive ?? true);
 
+  useEffect(() => {
+    setPreview(null);
+
+    const keywordList = parseKeywordLines(keywords);
+    if (keywordList.length === 0) {
+      setKeywordIssues([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.post<{ data: KeywordValidationResult }>(
+          '/api/topics/keywords/validate',
+          { keywords: keywordList }
+        );
+        setKeywordIssues(response.data.data.issues);
+      } catch (error) {
+        console.error('Failed to validate keywords:', error);
+      }
+    }, VALIDATE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [keywords]);
+
+  async function handlePreview() {
+    setPreviewing(true);
+    try {
+      const response = await api.post<{ data: KeywordPreview }>(
+        '/api/topics/keywords/preview',
+        { keywords: parseKeywordLines(keywords) }
+      );
+      setPreview(response.data.data);
+    } catch (error) {
+      console.error('Failed to preview keywords:', error);
+      alert('Erreur lors du test des mots-clés');
+    } finally {
+      setPreviewing(false);
+    }
+  }
+
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
 
-    const keywordList = keywords
-      .split(',')
-      .map((k) => k.trim().toLowerCase())
-      .filter((k) => k.length > 0);
+    const keywordList = parseKeywordLines(keywords);
 
     if (keywordList.length === 0) {
       alert('Veuillez entrer au moins un mot-clé');
       return;
     }
 
+    if (keywordIssues.length > 0) {
+      alert('Veuillez corriger les mots-clés invalides');
+      return;
+    }
+
     const data: CreateTopicInput = {
       name,
       description: description || undefined,
       keywords: keywordList,
       aiPrompt,
       minRelevanceScore: parseFloat(minRelevanceScore),
+      autoGenerateScore: autoGenerateScore ? parseFloat(autoGenerateScore) : null,
       isActive,
     };
 
@@ -328,18 +509,67 @@ function TopicFormModal({ topic, onClose, onSubmit }: TopicFormModalProps) {
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Mots-clés * (séparés par des virgules)
+              Mots-clés * (un par ligne)
             </label>
             <textarea
               value={keywords}
               onChange={(e) => setKeywords(e.target.value)}
-              className="input w-full h-24"
-              placeholder="administration, bureaucratie, réglementation, paperasse..."
+              className="input w-full h-32 font-mono text-sm"
+              placeholder={'administration\n"service public"\n(impôt OR taxe) NOT taxi\n-football'}
               required
             />
             <p className="mt-1 text-xs text-gray-500">
-              Ces mots-clés servent à pré-filtrer les articles avant l'analyse AI
+              Ces mots-clés servent à pré-filtrer les articles avant l'analyse AI. Un article est retenu
+              si une ligne correspond et qu'aucune exclusion ne correspond. Mots entiers, sans accents
+              ni pluriels ; "expression exacte", préfixe*, AND, OR, NOT, mot1 NEAR/3 mot2, parenthèses ;
+              une ligne commençant par - ou NOT exclut les articles.
             </p>
+            {keywordIssues.length > 0 && (
+              <ul className="mt-2 space-y-1 text-xs text-red-600">
+                {keywordIssues.map((issue) => (
+                  <li key={issue.index}>
+                    Ligne {issue.index + 1} « {issue.keyword} » : {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="mt-2">
+              <button
+                type="button"
+                onClick={handlePreview}
+                className="btn-secondary text-xs"
+                disabled={previewing || keywordIssues.length > 0 || parseKeywordLines(keywords).length === 0}
+              >
+                {previewing ? 'Test en cours...' : 'Tester sur les 7 derniers jours'}
+              </button>
+            </div>
+            {preview && (
+              <div className="mt-2 rounded-lg bg-gray-50 p-3 text-xs text-gray-700">
+                <div className="font-medium">
+                  {preview.matched} article(s) retenu(s) sur {preview.scanned} des {preview.days} derniers jours
+                  {preview.excluded > 0 && <>, {preview.excluded} écarté(s) par une exclusion</>}
+                </div>
+                {preview.articles.length > 0 && (
+                  <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                    {preview.articles.map((article) => (
+                      <li key={article.id}>
+                        <a
+                          href={article.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary-600 hover:underline"
+                        >
+                          {article.title}
+                        </a>
+                        <span className="text-gray-400">
+                          {' '}– {article.sourceName || 'Source inconnue'} · {article.matchedKeywords.join(', ')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
           </div>
 
           <div>
@@ -373,7 +603,26 @@ function TopicFormModal({ topic, onClose, onSubmit }: TopicFormModalProps) {
                 className="input w-full"
               />
               <p className="mt-1 text-xs text-gray-500">
-                Score de 0.0 à 1.0
+                Score de 0.0 à 1.0 à partir duquel un article est pertinent pour ce topic
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Génération automatique
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.1"
+                value={autoGenerateScore}
+                onChange={(e) => setAutoGenerateScore(e.target.value)}
+                className="input w-full"
+                placeholder={`${DEFAULT_AUTO_GENERATE_SCORE} (par défaut)`}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Score à partir duquel des posts sont rédigés, jamais en dessous du score minimum
               </p>
             </div>
 
@@ -414,3 +663,450 @@ function TopicFormModal({ topic, onClose, onSubmit }: TopicFormModalProps) {
     </div>
   );
 }
+
+interface BackfillModalProps {
+  topic: Topic;
+  suggestRescore: boolean;
+  onClose: () => void;
+}
+
+function BackfillModal({ topic, suggestRescore, onClose }: BackfillModalProps) {
+  const [days, setDays] = useState(DEFAULT_BACKFILL_DAYS.toString());
+  const [rescore, setRescore] = useState(suggestRescore);
+  const [estimate, setEstimate] = useState<TopicBackfillEstimate | null>(null);
+  const [backfills, setBackfills] = useState<TopicBackfill[]>([]);
+  const [estimating, setEstimating] = useState(false);
+  const [starting, setStarting] = useState(false);
+
+  const inProgress = backfills.some(isInProgress);
+  // The estimate must match what is launched
+  const estimateCurrent = estimate !== null && estimate.days === parseInt(days) && estimate.rescore === rescore;
+
+  useEffect(() => {
+    loadBackfills();
+  }, [topic.id]);
+
+  useEffect(() => {
+    if (!inProgress) return;
+
+    const timer = setInterval(loadBackfills, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [inProgress]);
+
+  async function loadBackfills() {
+    try {
+      const response = await api.get<{ data: TopicBackfill[] }>(`/api/topics/${topic.id}/backfills`);
+      setBackfills(response.data.data);
+    } catch (error) {
+      console.error('Failed to load backfills:', error);
+    }
+  }
+
+  async function handleEstimate() {
+    setEstimating(true);
+    try {
+      const response = await api.get<{ data: TopicBackfillEstimate }>(
+        `/api/topics/${topic.id}/backfills/estimate`,
+        { params: { days, rescore } }
+      );
+      setEstimate(response.data.data);
+    } catch (error) {
+      console.error('Failed to estimate backfill:', error);
+      alert("Erreur lors de l'estimation");
+    } finally {
+      setEstimating(false);
+    }
+  }
+
+  async function handleStart() {
+    setStarting(true);
+    try {
+      await api.post(`/api/topics/${topic.id}/backfills`, { days: parseInt(days), rescore });
+      setEstimate(null);
+      loadBackfills();
+    } catch (error) {
+      console.error('Failed to start backfill:', error);
+      alert('Erreur lors du lancement du rattrapage');
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function handleCancel(item: TopicBackfill) {
+    try {
+      await api.post(`/api/topics/${topic.id}/backfills/${item.id}/cancel`);
+      loadBackfills();
+    } catch (error) {
+      console.error('Failed to cancel backfill:', error);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">Rattrapage : {topic.name}</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Applique les mots-clés du topic aux articles déjà collectés et analyse ceux qui correspondent
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Jours</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_BACKFILL_DAYS}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className="input w-full"
+              />
+            </div>
+            <div className="flex items-center pt-6">
+              <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rescore}
+                  onChange={(e) => setRescore(e.target.checked)}
+                  className="mr-2"
+                />
+                Ré-évaluer les articles déjà notés
+              </label>
+            </div>
+          </div>
+
+          {estimate && estimateCurrent && (
+            <div className="rounded-lg bg-gray-50 p-4 text-sm text-gray-700">
+              {estimate.scanned} article(s) sur la période : environ {estimate.matched} nouvelle(s) correspondance(s)
+              {estimate.rescore && <>, {estimate.rescored} à ré-évaluer</>}.
+              <div className="text-xs text-gray-500">
+                Correspondances extrapolées d'un échantillon de {estimate.sampled} article(s)
+              </div>
+              <div className="mt-1 font-medium">
+                {estimate.analyses} analyse(s), coût estimé {formatCost(estimate.estimatedCostUsd)}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button onClick={handleEstimate} className="btn-secondary" disabled={estimating}>
+              {estimating ? 'Estimation...' : 'Estimer'}
+            </button>
+            <button
+              onClick={handleStart}
+              className="btn-primary"
+              disabled={!estimateCurrent || estimate?.analyses === 0 || inProgress || starting}
+            >
+              Lancer
+            </button>
+          </div>
+
+          {backfills.length > 0 && (
+            <div className="pt-4 border-t">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Derniers rattrapages</h3>
+              <ul className="space-y-3">
+                {backfills.map((item) => {
+                  const done = item.analyzedCount + item.failedCount;
+                  return (
+                    <li key={item.id} className="text-xs text-gray-600">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <span className={BACKFILL_STATUS_LABELS[item.status].className}>
+                            {BACKFILL_STATUS_LABELS[item.status].label}
+                          </span>
+                          <span>
+                            {item.days} jour(s){item.rescore && ', ré-évaluation'} –{' '}
+                            {new Date(item.createdAt).toLocaleString('fr-FR')}
+                          </span>
+                        </div>
+                        {isInProgress(item) && (
+                          <button onClick={() => handleCancel(item)} className="text-red-600 hover:underline">
+                            Annuler
+                          </button>
+                        )}
+                      </div>
+                      <div className="mt-1">
+                        {item.status === 'scanning'
+                          ? `${item.scannedCount} article(s) parcouru(s), ${item.matchedCount + item.rescoredCount} à analyser`
+                          : `${done} / ${item.queuedCount} analysé(s)${item.failedCount > 0 ? `, ${item.failedCount} échec(s)` : ''}`}
+                        {' '}· estimé {item.estimatedAnalyses} analyse(s), {formatCost(item.estimatedCostUsd)}
+                      </div>
+                      {item.status === 'analyzing' && item.queuedCount > 0 && (
+                        <div className="mt-1 h-1.5 bg-gray-100 rounded">
+                          <div
+                            className="h-1.5 bg-primary-600 rounded"
+                            style={{ width: `${Math.round((done / item.queuedCount) * 100)}%` }}
+                          />
+                        </div>
+                      )}
+                      {item.error && <div className="mt-1 text-red-600">{item.error}</div>}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end pt-4 border-t">
+            <button onClick={onClose} className="btn-secondary">
+              Fermer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface TopicAssistantModalProps {
+  onClose: () => void;
+  onUse: (draft: CreateTopicInput) => void;
+}
+
+function TopicAssistantModal({ onClose, onUse }: TopicAssistantModalProps) {
+  const [description, setDescription] = useState('');
+  const [examples, setExamples] = useState('');
+  const [draft, setDraft] = useState<TopicDraft | null>(null);
+  const [drafting, setDrafting] = useState(false);
+  // Editable copy of the draft
+  const [name, setName] = useState('');
+  const [aiPrompt, setAiPrompt] = useState('');
+  const [keywords, setKeywords] = useState('');
+  const [minRelevanceScore, setMinRelevanceScore] = useState('0.5');
+  const [dryRun, setDryRun] = useState<TopicDryRun | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  // Scores shown must match the draft as it stands
+  useEffect(() => {
+    setDryRun(null);
+  }, [name, aiPrompt, keywords, minRelevanceScore]);
+
+  async function handleDraft() {
+    setDrafting(true);
+    try {
+      const response = await api.post<{ data: TopicDraft }>('/api/topics/assistant/draft', {
+        description,
+        examples: parseKeywordLines(examples),
+      });
+      const result = response.data.data;
+      setDraft(result);
+      setName(result.name);
+      setAiPrompt(result.aiPrompt);
+      setKeywords([...result.keywords, ...result.exclusions].join('\n'));
+    } catch (error) {
+      console.error('Failed to draft topic:', error);
+      alert('Erreur lors de la rédaction du brouillon');
+    } finally {
+      setDrafting(false);
+    }
+  }
+
+  async function handleDryRun() {
+    setTesting(true);
+    try {
+      const response = await api.post<{ data: TopicDryRun }>('/api/topics/assistant/dry-run', {
+        name,
+        aiPrompt,
+        keywords: parseKeywordLines(keywords),
+        minRelevanceScore: parseFloat(minRelevanceScore),
+        exampleIds: draft?.examples.map((e) => e.id),
+      });
+      setDryRun(response.data.data);
+    } catch (error) {
+      console.error('Failed to dry-run topic draft:', error);
+      alert('Erreur lors du test du brouillon');
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  function handleUse() {
+    onUse({
+      name,
+      description: draft?.description || description,
+      keywords: parseKeywordLines(keywords),
+      aiPrompt,
+      minRelevanceScore: parseFloat(minRelevanceScore),
+    });
+  }
+
+  const exampleCount = parseKeywordLines(examples).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">Assistant de création de topic</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            L'IA propose les critères et les mots-clés, testés sur les articles récents avant tout enregistrement
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description *
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="input w-full h-20"
+              placeholder="Ex: les fermetures de services publics en zone rurale (écoles, maternités, bureaux de poste)"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Articles d'exemple (URL ou identifiant, un par ligne, 5 au plus)
+            </label>
+            <textarea
+              value={examples}
+              onChange={(e) => setExamples(e.target.value)}
+              className="input w-full h-20 font-mono text-sm"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleDraft}
+              className="btn-primary"
+              disabled={drafting || !description.trim() || exampleCount > 5}
+            >
+              <Sparkles className="w-4 h-4 mr-2" />
+              {drafting ? 'Rédaction...' : draft ? 'Proposer à nouveau' : 'Proposer un brouillon'}
+            </button>
+          </div>
+
+          {draft && (
+            <div className="pt-4 border-t space-y-4">
+              {draft.rationale && <p className="text-sm text-gray-600 italic">{draft.rationale}</p>}
+              {draft.unresolvedExamples.length > 0 && (
+                <p className="text-xs text-yellow-700">
+                  Exemples introuvables parmi les articles enregistrés : {draft.unresolvedExamples.join(', ')}
+                </p>
+              )}
+              {draft.issues.length > 0 && (
+                <ul className="space-y-1 text-xs text-yellow-700">
+                  {draft.issues.map((issue) => (
+                    <li key={issue.index}>
+                      Mot-clé proposé écarté « {issue.keyword} » : {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nom</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Score minimum</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.1"
+                    value={minRelevanceScore}
+                    onChange={(e) => setMinRelevanceScore(e.target.value)}
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Prompt AI</label>
+                <textarea
+                  value={aiPrompt}
+                  onChange={(e) => setAiPrompt(e.target.value)}
+                  className="input w-full h-48 text-sm"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Mots-clés et exclusions (un par ligne)
+                </label>
+                <textarea
+                  value={keywords}
+                  onChange={(e) => setKeywords(e.target.value)}
+                  className="input w-full h-32 font-mono text-sm"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleDryRun}
+                  className="btn-secondary"
+                  disabled={testing || !name.trim() || !aiPrompt.trim() || parseKeywordLines(keywords).length === 0}
+                >
+                  {testing ? 'Notation en cours...' : 'Tester sur les articles récents'}
+                </button>
+              </div>
+
+              {dryRun && (
+                <div className="rounded-lg bg-gray-50 p-3 text-xs text-gray-700">
+                  <div className="font-medium">
+                    {dryRun.matched} article(s) retenu(s) sur {dryRun.scanned} des {dryRun.days} derniers jours,{' '}
+                    {dryRun.articles.length} noté(s) comme le serait le topic
+                  </div>
+                  <ul className="mt-2 space-y-2">
+                    {dryRun.articles.map((article) => (
+                      <li key={article.id}>
+                        <div className="flex items-center space-x-2">
+                          <span
+                            className={
+                              article.relevanceScore === null
+                                ? 'badge-danger'
+                                : article.relevanceScore >= dryRun.minRelevanceScore ? 'badge-success' : 'badge-gray'
+                            }
+                          >
+                            {article.relevanceScore === null ? 'Échec' : `${Math.round(article.relevanceScore * 100)}%`}
+                          </span>
+                          {article.isExample && <span className="badge-info">Exemple</span>}
+                          <a
+                            href={article.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary-600 hover:underline"
+                          >
+                            {article.title}
+                          </a>
+                        </div>
+                        <div className="mt-0.5 text-gray-400">
+                          {article.sourceName || 'Source inconnue'} ·{' '}
+                          {article.matchedKeywords.length > 0 ? (
+                            article.matchedKeywords.join(', ')
+                          ) : (
+                            <span className="text-yellow-700">aucun mot-clé ne le retient</span>
+                          )}
+                        </div>
+                        {article.reasoning && <div className="mt-0.5 text-gray-600 italic">{article.reasoning}</div>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <button onClick={onClose} className="btn-secondary">
+              Annuler
+            </button>
+            <button onClick={handleUse} className="btn-primary" disabled={!draft}>
+              Utiliser ce brouillon
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
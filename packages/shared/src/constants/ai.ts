@@ -0,0 +1,23 @@
+import type { AiBudgetLevel, AiPurpose } from '../types/ai.js';
+
+export const AI_PURPOSES: AiPurpose[] = [
+  'relevance',
+  'multi_topic_relevance',
+  'post_generation',
+  'post_regeneration',
+  'daily_summary',
+  'evaluation',
+  'keyword_audit',
+  'topic_authoring',
+  'entity_extraction',
+];
+
+// Mildest first
+export const AI_BUDGET_LEVELS: AiBudgetLevel[] = ['normal', 'no_generation', 'restricted', 'paused'];
+
+// Share of a budget spent from which each step applies
+export const AI_BUDGET_THRESHOLDS: Record<Exclude<AiBudgetLevel, 'normal'>, number> = {
+  no_generation: 0.7,
+  restricted: 0.85,
+  paused: 1,
+};
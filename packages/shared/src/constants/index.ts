@@ -1,2 +1,6 @@
 export * from './prompts.js';
 export * from './sources.js';
+export * from './urls.js';
+export * from './ai.js';
+export * from './topics.js';
+export * from './entities.js';
@@ -1,3 +1,6 @@
+import { renderPromptTemplate } from '../utils/prompt.js';
+import type { PromptKey, PromptTemplateDefinition } from '../types/prompt.js';
+
 export const RELEVANCE_ANALYSIS_SYSTEM_PROMPT = `Tu es un analyste expert en politique publique française, spécialisé dans l'identification des dysfonctionnements administratifs et de l'excès bureaucratique.
 
 Tu travailles pour une organisation qui défend les principes du libéralisme classique :
@@ -31,15 +34,15 @@ PEU PERTINENT (0.0-0.49) :
 - Sport, culture, people
 - International (sauf comparaisons pertinentes)`;
 
-export const RELEVANCE_ANALYSIS_USER_PROMPT = (article: {
-  title: string;
-  lede: string;
-  source: string;
-}) => `Analyse cet article et détermine sa pertinence.
+// Extracted article body, only present when the extraction stage succeeded
+const fullTextSection = (fullText?: string) =>
+  fullText ? `\n\nTEXTE DE L'ARTICLE:\n${fullText}` : '';
+
+export const RELEVANCE_ANALYSIS_USER_TEMPLATE = `Analyse cet article et détermine sa pertinence.
 
-SOURCE: ${article.source}
-TITRE: ${article.title}
-CHAPEAU: ${article.lede}
+SOURCE: {{source}}
+TITRE: {{title}}
+CHAPEAU: {{lede}}{{full_text_section}}
 
 Réponds en JSON avec le format exact suivant :
 {
@@ -52,6 +55,21 @@ Réponds en JSON avec le format exact suivant :
 
 Catégories possibles : bureaucratie, fiscalite, reglementation, depense_publique, simplification, collectivites, sante, education, environnement, economie, social`;
 
+export const relevancePromptVariables = (article: {
+  title: string;
+  lede: string;
+  fullText?: string;
+  source: string;
+}) => ({
+  source: article.source,
+  title: article.title,
+  lede: article.lede,
+  full_text_section: fullTextSection(article.fullText),
+});
+
+export const RELEVANCE_ANALYSIS_USER_PROMPT = (article: Parameters<typeof relevancePromptVariables>[0]) =>
+  renderPromptTemplate(RELEVANCE_ANALYSIS_USER_TEMPLATE, relevancePromptVariables(article));
+
 export const POST_GENERATION_SYSTEM_PROMPT = `Tu es un community manager expert en communication politique, spécialisé dans la création de contenus percutants pour les réseaux sociaux en français.
 
 TON STYLE :
@@ -80,17 +98,20 @@ EXEMPLES DE REGISTRES :
 - "Nouveau record : il aura fallu X mois pour..."
 - "Spoiler : la simplification n'est pas pour demain..."`;
 
-export const POST_GENERATION_USER_PROMPT = (article: {
-  title: string;
-  lede: string;
-  relevanceReasoning: string;
-  potentialAngle: string;
-}) => `Génère des posts pour les réseaux sociaux basés sur cet article.
+// Earlier articles of the same story, so the post can follow the affair
+const storyTimelineSection = (timeline?: Array<{ date: string; title: string; source: string | null }>) =>
+  timeline && timeline.length > 0
+    ? `\n\nHISTORIQUE DU DOSSIER (replace l'article dans la suite de l'affaire):\n${timeline
+        .map((entry) => `- ${entry.date} — ${entry.title}${entry.source ? ` (${entry.source})` : ''}`)
+        .join('\n')}`
+    : '';
+
+export const POST_GENERATION_USER_TEMPLATE = `Génère des posts pour les réseaux sociaux basés sur cet article.
 
-TITRE: ${article.title}
-RÉSUMÉ: ${article.lede}
-ANGLE SUGGÉRÉ: ${article.potentialAngle}
-ANALYSE: ${article.relevanceReasoning}
+TITRE: {{title}}
+RÉSUMÉ: {{lede}}{{full_text_section}}
+ANGLE SUGGÉRÉ: {{potential_angle}}
+ANALYSE: {{relevance_reasoning}}{{story_timeline_section}}
 
 Génère exactement 3 versions :
 1. Version Twitter (280 car. max, avec hashtags)
@@ -114,6 +135,25 @@ Format JSON :
   "quality_score": <0.0-1.0 auto-évaluation>
 }`;
 
+export const postGenerationPromptVariables = (article: {
+  title: string;
+  lede: string;
+  fullText?: string;
+  relevanceReasoning: string;
+  potentialAngle: string;
+  storyTimeline?: Array<{ date: string; title: string; source: string | null }>;
+}) => ({
+  title: article.title,
+  lede: article.lede,
+  full_text_section: fullTextSection(article.fullText),
+  potential_angle: article.potentialAngle,
+  relevance_reasoning: article.relevanceReasoning,
+  story_timeline_section: storyTimelineSection(article.storyTimeline),
+});
+
+export const POST_GENERATION_USER_PROMPT = (article: Parameters<typeof postGenerationPromptVariables>[0]) =>
+  renderPromptTemplate(POST_GENERATION_USER_TEMPLATE, postGenerationPromptVariables(article));
+
 // =========================================
 // MULTI-TOPIC RELEVANCE ANALYSIS
 // =========================================
@@ -130,19 +170,14 @@ Les scores doivent être indépendants - un article peut être très pertinent p
 
 Réponds TOUJOURS en JSON valide.`;
 
-export const MULTI_TOPIC_RELEVANCE_USER_PROMPT = (
-  article: { title: string; lede: string; source: string },
-  topics: Array<{ id: string; name: string; aiPrompt: string }>
-) => `Analyse cet article pour les thèmes suivants.
+export const MULTI_TOPIC_RELEVANCE_USER_TEMPLATE = `Analyse cet article pour les thèmes suivants.
 
-SOURCE: ${article.source}
-TITRE: ${article.title}
-CHAPEAU: ${article.lede}
+SOURCE: {{source}}
+TITRE: {{title}}
+CHAPEAU: {{lede}}{{full_text_section}}
 
 THÈMES À ÉVALUER:
-${topics.map((t, i) => `${i + 1}. ID: "${t.id}"
-   NOM: ${t.name}
-   CRITÈRES: ${t.aiPrompt}`).join('\n\n')}
+{{topics}}
 
 Réponds en JSON avec ce format exact :
 {
@@ -159,6 +194,34 @@ Réponds en JSON avec ce format exact :
 
 IMPORTANT: Inclus un résultat pour CHAQUE thème fourni, même si le score est 0.`;
 
+// Scores reviewers corrected for a topic, so the model does not repeat the same mistakes
+const topicExamplesSection = (examples?: Array<{ title: string; modelScore: number; correctedScore: number; comment: string | null }>) =>
+  examples && examples.length > 0
+    ? `
+   EXEMPLES CORRIGÉS PAR LA RÉDACTION :
+${examples.map((e) => `   - "${e.title}" : score attendu ${e.correctedScore.toFixed(2)} et non ${e.modelScore.toFixed(2)}${e.comment ? ` (${e.comment})` : ''}`).join('\n')}`
+    : '';
+
+export const multiTopicRelevancePromptVariables = (
+  article: { title: string; lede: string; fullText?: string; source: string },
+  topics: Array<{
+    id: string;
+    name: string;
+    aiPrompt: string;
+    examples?: Parameters<typeof topicExamplesSection>[0];
+  }>
+) => ({
+  ...relevancePromptVariables(article),
+  topics: topics.map((t, i) => `${i + 1}. ID: "${t.id}"
+   NOM: ${t.name}
+   CRITÈRES: ${t.aiPrompt}${topicExamplesSection(t.examples)}`).join('\n\n'),
+});
+
+export const MULTI_TOPIC_RELEVANCE_USER_PROMPT = (
+  article: Parameters<typeof multiTopicRelevancePromptVariables>[0],
+  topics: Parameters<typeof multiTopicRelevancePromptVariables>[1]
+) => renderPromptTemplate(MULTI_TOPIC_RELEVANCE_USER_TEMPLATE, multiTopicRelevancePromptVariables(article, topics));
+
 // =========================================
 // DAILY SUMMARY
 // =========================================
@@ -173,16 +236,10 @@ STYLE :
 - Structuré et concis
 - En français soutenu`;
 
-export const DAILY_SUMMARY_USER_PROMPT = (articles: Array<{
-  title: string;
-  source: string;
-  relevanceScore: number;
-  reasoning: string;
-}>) => `Rédige une synthèse quotidienne des ${articles.length} articles les plus pertinents identifiés aujourd'hui.
+export const DAILY_SUMMARY_USER_TEMPLATE = `Rédige une synthèse quotidienne des {{article_count}} articles les plus pertinents identifiés aujourd'hui.
 
 ARTICLES :
-${articles.map((a, i) => `${i + 1}. [${a.source}] ${a.title} (score: ${a.relevanceScore})
-   Analyse: ${a.reasoning}`).join('\n\n')}
+{{articles}}
 
 Format de réponse :
 {
@@ -195,3 +252,231 @@ Format de réponse :
   ],
   "conclusion": "<phrase de conclusion percutante>"
 }`;
+
+export const dailySummaryPromptVariables = (articles: Array<{
+  title: string;
+  source: string;
+  relevanceScore: number;
+  reasoning: string;
+}>) => ({
+  article_count: String(articles.length),
+  articles: articles.map((a, i) => `${i + 1}. [${a.source}] ${a.title} (score: ${a.relevanceScore})
+   Analyse: ${a.reasoning}`).join('\n\n'),
+});
+
+export const DAILY_SUMMARY_USER_PROMPT = (articles: Parameters<typeof dailySummaryPromptVariables>[0]) =>
+  renderPromptTemplate(DAILY_SUMMARY_USER_TEMPLATE, dailySummaryPromptVariables(articles));
+
+// =========================================
+// TOPIC AUTHORING
+// =========================================
+
+export const TOPIC_AUTHORING_SYSTEM_PROMPT = `Tu aides une rédaction à configurer la veille de presse française sur un nouveau thème.
+
+Un thème se compose :
+- d'une consigne de notation, lue par l'IA qui note chaque article de 0.0 à 1.0 pour ce thème
+- de mots-clés, qui pré-filtrent les articles avant toute analyse : un article qu'aucun mot-clé ne retient n'est jamais noté
+- d'exclusions, qui écartent les articles hors sujet malgré un mot-clé
+
+LA CONSIGNE suit toujours cette structure, une phrase de mission puis trois paliers de critères concrets :
+
+Identifie les articles qui mettent en évidence des dysfonctionnements administratifs, des réglementations absurdes, des gaspillages d'argent public, ou des lourdeurs bureaucratiques affectant les citoyens ou entreprises françaises.
+
+Critères de pertinence élevée (0.8-1.0):
+- Exemples concrets d'absurdités réglementaires
+- Gaspillage d'argent public documenté
+
+Critères de pertinence moyenne (0.5-0.79):
+- Discussions générales sur la réforme de l'État
+- Annonces de simplification administrative
+
+Critères de faible pertinence (0.0-0.49):
+- Politique générale sans angle bureaucratique
+- Sport, culture, divertissement
+
+LES MOTS-CLÉS sont des requêtes, une par entrée :
+- mots entiers, comparés sans accents ni pluriels : taxe retient « taxes » mais pas « taxi »
+- "expression exacte" entre guillemets
+- préfixe* d'au moins 3 lettres
+- AND (implicite entre deux mots), OR, NOT et parenthèses : (impôt OR taxe) foncière
+- mot1 NEAR/3 mot2 : deux mots à au plus 3 mots d'écart
+
+Préfère une vingtaine de mots-clés précis, propres au thème, à des mots génériques qui retiendraient la moitié de la presse. Les exclusions sont des mots ou requêtes sans NOT, ajouté ensuite.
+
+Réponds TOUJOURS en JSON valide.`;
+
+export const TOPIC_AUTHORING_USER_TEMPLATE = `Propose un thème de veille à partir de cette description.
+
+DESCRIPTION: {{description}}
+
+ARTICLES REPRÉSENTATIFS DU THÈME:
+{{examples}}
+
+Réponds en JSON avec ce format exact :
+{
+  "name": "<nom court du thème>",
+  "description": "<description du thème en une phrase>",
+  "ai_prompt": "<consigne de notation : mission puis les trois paliers de critères>",
+  "keywords": ["<mot-clé ou requête>", ...],
+  "exclusions": ["<mot ou requête à exclure>", ...],
+  "rationale": "<1-2 phrases sur le choix des mots-clés et des exclusions>"
+}`;
+
+export const topicAuthoringPromptVariables = (input: {
+  description: string;
+  examples: Array<{ title: string; lede: string; source: string | null }>;
+}) => ({
+  description: input.description,
+  examples: input.examples.length > 0
+    ? input.examples.map((e, i) => `${i + 1}. [${e.source || 'Source inconnue'}] ${e.title}
+   ${e.lede}`).join('\n\n')
+    : 'Aucun article fourni.',
+});
+
+// Headings every drafted scoring prompt must keep, in this order
+export const TOPIC_PROMPT_SECTIONS = [
+  'Critères de pertinence élevée (0.8-1.0)',
+  'Critères de pertinence moyenne (0.5-0.79)',
+  'Critères de faible pertinence (0.0-0.49)',
+];
+
+// =========================================
+// ENTITY EXTRACTION
+// =========================================
+
+export const ENTITY_EXTRACTION_SYSTEM_PROMPT = `Tu relèves les entités nommées d'articles de presse française, pour les rattacher à une base de veille.
+
+Quatre types d'entités :
+- politician : personnalités politiques et élus (ministres, parlementaires, maires, présidents de région ou de département)
+- public_body : administrations et organismes publics (préfecture de l'Aisne, URSSAF, CAF, France Travail, ministère de l'Intérieur, Conseil d'État, mairie de Lyon)
+- company : entreprises, y compris les entreprises publiques (SNCF, EDF, La Poste)
+- commune : communes françaises où se déroulent les faits
+
+Règles :
+- uniquement les entités qui jouent un rôle dans l'article, pas celles citées en passant
+- le nom complet et usuel : « Gérald Darmanin » et non « le ministre » ni « Darmanin » seul quand le prénom est connu ; « CAF » pour la caisse d'allocations familiales, avec sa localisation si l'article la précise (« CAF du Nord »)
+- une commune sous son nom officiel (« Saint-Étienne », « Le Puy-en-Velay »), sans arrondissement ni quartier ; indique le code de son département quand l'article permet de le déduire (« 42 », « 2A », « 974 »), sinon laisse-le vide
+- une mairie, une préfecture ou un conseil départemental est une administration ; sa commune ou son département n'est relevé que si les faits s'y déroulent
+- aucune entité inventée : une liste vide vaut mieux qu'une supposition
+
+Réponds TOUJOURS en JSON valide.`;
+
+export const ENTITY_EXTRACTION_USER_TEMPLATE = `Relève les entités nommées de cet article.
+
+SOURCE: {{source}}
+TITRE: {{title}}
+CHAPEAU: {{lede}}{{full_text_section}}
+
+Réponds en JSON avec ce format exact :
+{
+  "entities": [
+    {
+      "type": "<politician | public_body | company | commune>",
+      "name": "<nom complet>",
+      "departement": "<code du département pour une commune, sinon chaîne vide>"
+    }
+  ]
+}`;
+
+export const entityExtractionPromptVariables = (article: {
+  title: string;
+  lede: string;
+  fullText?: string;
+  source: string;
+}) => relevancePromptVariables(article);
+
+// =========================================
+// RESPONSE REPAIR
+// =========================================
+
+export const RESPONSE_REPAIR_PROMPT = (errors: string[]) => `Ta réponse précédente ne respecte pas le format attendu :
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Renvoie la réponse complète corrigée, uniquement en JSON valide, sans aucun texte autour.`;
+
+// =========================================
+// PROMPT REGISTRY
+// =========================================
+
+export const PROMPT_KEYS: PromptKey[] = [
+  'relevance',
+  'multi_topic_relevance',
+  'post_generation',
+  'daily_summary',
+  'topic_authoring',
+  'entity_extraction',
+];
+
+const ARTICLE_VARIABLES = {
+  source: 'Nom de la source',
+  title: 'Titre de l\'article',
+  lede: 'Chapeau de l\'article',
+  full_text_section: 'Texte extrait de l\'article, précédé de son intitulé, vide s\'il n\'a pas été extrait',
+};
+
+export const PROMPT_TEMPLATES: Record<PromptKey, PromptTemplateDefinition> = {
+  relevance: {
+    label: 'Pertinence',
+    description: 'Note un article quand aucun thème n\'est actif',
+    variables: ARTICLE_VARIABLES,
+    requiredVariables: ['title'],
+    defaultSystemPrompt: RELEVANCE_ANALYSIS_SYSTEM_PROMPT,
+    defaultUserTemplate: RELEVANCE_ANALYSIS_USER_TEMPLATE,
+  },
+  multi_topic_relevance: {
+    label: 'Pertinence par thème',
+    description: 'Note un article pour chacun des thèmes actifs en un seul appel',
+    variables: {
+      ...ARTICLE_VARIABLES,
+      topics: 'Liste numérotée des thèmes avec leur ID, leur nom, leurs critères et les scores corrigés par la rédaction',
+    },
+    requiredVariables: ['title', 'topics'],
+    defaultSystemPrompt: MULTI_TOPIC_RELEVANCE_SYSTEM_PROMPT,
+    defaultUserTemplate: MULTI_TOPIC_RELEVANCE_USER_TEMPLATE,
+  },
+  post_generation: {
+    label: 'Génération de posts',
+    description: 'Rédige les posts Twitter, Mastodon et Bluesky d\'un article pertinent',
+    variables: {
+      title: 'Titre de l\'article',
+      lede: 'Chapeau de l\'article',
+      full_text_section: ARTICLE_VARIABLES.full_text_section,
+      potential_angle: 'Angle suggéré par l\'analyse de pertinence',
+      relevance_reasoning: 'Justification de l\'analyse de pertinence',
+      story_timeline_section: 'Articles précédents du dossier, vide si l\'article n\'en a pas',
+    },
+    requiredVariables: ['title'],
+    defaultSystemPrompt: POST_GENERATION_SYSTEM_PROMPT,
+    defaultUserTemplate: POST_GENERATION_USER_TEMPLATE,
+  },
+  daily_summary: {
+    label: 'Synthèse du jour',
+    description: 'Rédige la synthèse quotidienne des articles les plus pertinents',
+    variables: {
+      article_count: 'Nombre d\'articles',
+      articles: 'Liste numérotée des articles avec leur source, leur score et leur analyse',
+    },
+    requiredVariables: ['articles'],
+    defaultSystemPrompt: DAILY_SUMMARY_SYSTEM_PROMPT,
+    defaultUserTemplate: DAILY_SUMMARY_USER_TEMPLATE,
+  },
+  topic_authoring: {
+    label: 'Assistant de topics',
+    description: 'Propose la consigne de notation, les mots-clés et les exclusions d\'un nouveau topic',
+    variables: {
+      description: 'Description du topic saisie par l\'administrateur',
+      examples: 'Liste numérotée des articles d\'exemple avec leur source, leur titre et leur chapeau',
+    },
+    requiredVariables: ['description'],
+    defaultSystemPrompt: TOPIC_AUTHORING_SYSTEM_PROMPT,
+    defaultUserTemplate: TOPIC_AUTHORING_USER_TEMPLATE,
+  },
+  entity_extraction: {
+    label: 'Extraction d\'entités',
+    description: 'Relève les personnalités, administrations, entreprises et communes d\'un article pertinent',
+    variables: ARTICLE_VARIABLES,
+    requiredVariables: ['title'],
+    defaultSystemPrompt: ENTITY_EXTRACTION_SYSTEM_PROMPT,
+    defaultUserTemplate: ENTITY_EXTRACTION_USER_TEMPLATE,
+  },
+};
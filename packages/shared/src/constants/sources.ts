@@ -256,6 +256,28 @@ export const SOCIAL_SOURCES: SocialSourceConfig[] = [
   },
 ];
 
+// Administrative regions, used to infer the region of imported sources
+export const FRENCH_REGIONS = [
+  'Auvergne-Rhône-Alpes',
+  'Bourgogne-Franche-Comté',
+  'Bretagne',
+  'Centre-Val de Loire',
+  'Corse',
+  'Grand Est',
+  'Hauts-de-France',
+  'Île-de-France',
+  'Normandie',
+  'Nouvelle-Aquitaine',
+  'Occitanie',
+  'Pays de la Loire',
+  'Provence-Alpes-Côte d\'Azur',
+  'Guadeloupe',
+  'Martinique',
+  'Guyane',
+  'La Réunion',
+  'Mayotte',
+];
+
 export const MASTODON_INSTANCES = [
   'piaille.fr',
   'framapiaf.org',
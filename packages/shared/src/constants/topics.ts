@@ -0,0 +1,29 @@
+import type { Topic } from '../types/topic.js';
+
+// Threshold of the legacy analysis, used when no topic is active
+export const DEFAULT_MIN_RELEVANCE_SCORE = 0.5;
+
+// Posts are generated from this score when a topic sets no threshold of its own
+export const DEFAULT_AUTO_GENERATE_SCORE = 0.6;
+
+/**
+ * Whether a score makes an article relevant to a topic
+ */
+export function meetsTopicThreshold(topic: Pick<Topic, 'minRelevanceScore'>, score: number): boolean {
+  return score >= topic.minRelevanceScore;
+}
+
+/**
+ * Score from which posts are generated for a topic, never below its relevance threshold
+ */
+export function autoGenerateThreshold(topic: Pick<Topic, 'minRelevanceScore' | 'autoGenerateScore'>): number {
+  return Math.max(topic.minRelevanceScore, topic.autoGenerateScore ?? DEFAULT_AUTO_GENERATE_SCORE);
+}
+
+// Backfills look this far back at most, older articles are rarely worth a post
+export const MAX_BACKFILL_DAYS = 30;
+export const DEFAULT_BACKFILL_DAYS = 7;
+
+// Recall of the keywords is estimated over this many days of sampled misses by default
+export const DEFAULT_KEYWORD_AUDIT_DAYS = 30;
+export const MAX_KEYWORD_AUDIT_DAYS = 90;
@@ -0,0 +1,80 @@
+export interface UrlDomainRule {
+  // Registrable domain the rule applies to (subdomains included), '*' for every host
+  domain: string;
+  description: string;
+  // Matched against `host + pathname`, without scheme nor query
+  pattern: RegExp;
+  replacement: string;
+}
+
+export interface UrlCanonicalizationRules {
+  // Query parameters dropped from article URLs, a trailing '*' matches a prefix
+  trackingParams: string[];
+  domainRules: UrlDomainRule[];
+}
+
+export const TRACKING_PARAMS = [
+  // Campaign tags (Google Analytics, AT Internet / Piano, Webtrekk)
+  'utm_*',
+  'at_*',
+  'xtor',
+  'xts',
+  'xtref',
+  'wt_*',
+  'ns_*',
+  // Click identifiers
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'igshid',
+  'twclid',
+  // Newsletters and social sharing
+  'mc_cid',
+  'mc_eid',
+  'ref_src',
+  'echobox',
+  'cmp',
+  'cmpid',
+  'ocid',
+  '_ga',
+];
+
+export const URL_DOMAIN_RULES: UrlDomainRule[] = [
+  // ========== AMP ==========
+  {
+    domain: 'cdn.ampproject.org',
+    description: 'Cache AMP de Google vers la page de l\'éditeur',
+    pattern: /^[^/]+\/[cv]\/(?:s\/)?(.+)$/,
+    replacement: '$1',
+  },
+  {
+    domain: '*',
+    description: 'Sous-domaine amp. vers www.',
+    pattern: /^amp\.(.+)$/,
+    replacement: 'www.$1',
+  },
+  {
+    domain: '*',
+    description: 'Préfixe /amp/ (Le Monde, 20 Minutes…)',
+    pattern: /^([^/]+)\/amp(\/.+)$/,
+    replacement: '$1$2',
+  },
+  {
+    domain: '*',
+    description: 'Suffixe /amp (WordPress)',
+    pattern: /^([^/]+\/.+?)\/amp\/?$/,
+    replacement: '$1',
+  },
+  {
+    domain: '*',
+    description: 'Extension .amp.html',
+    pattern: /\.amp(\.html?)$/,
+    replacement: '$1',
+  },
+];
+
+export const DEFAULT_URL_RULES: UrlCanonicalizationRules = {
+  trackingParams: TRACKING_PARAMS,
+  domainRules: URL_DOMAIN_RULES,
+};
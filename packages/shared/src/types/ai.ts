@@ -0,0 +1,117 @@
+// What an AI call was made for
+export type AiPurpose =
+  | 'relevance'
+  | 'multi_topic_relevance'
+  | 'post_generation'
+  | 'post_regeneration'
+  | 'daily_summary'
+  | 'evaluation'
+  | 'keyword_audit'
+  | 'topic_authoring'
+  | 'entity_extraction';
+
+export type AiCallOutcome = 'success' | 'error' | 'invalid_response';
+
+export interface AiUsageRecord {
+  id: string;
+  provider: string;
+  model: string;
+  purpose: AiPurpose | null;
+  articleId: string | null;
+  sourceId: string | null;
+  topicIds: string[];
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number | null; // Unknown for models without a price
+  outcome: AiCallOutcome;
+  error: string | null;
+  createdAt: Date;
+}
+
+export interface AiUsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface AiUsageSummary {
+  days: number;
+  totals: AiUsageTotals;
+  byDay: Array<AiUsageTotals & { date: string }>;
+  byPurpose: Array<AiUsageTotals & { purpose: AiPurpose | null }>;
+  byModel: Array<AiUsageTotals & { model: string }>;
+  // A call about several topics is shared evenly between them
+  byTopic: Array<AiUsageTotals & { topicId: string; topicName: string }>;
+  bySource: Array<AiUsageTotals & { sourceId: string; sourceName: string }>;
+}
+
+export type AiBudgetPeriod = 'day' | 'month';
+
+// Degradation steps, from unrestricted to every article held back
+export type AiBudgetLevel = 'normal' | 'no_generation' | 'restricted' | 'paused';
+
+export interface AiBudget {
+  id: string;
+  purpose: AiPurpose | null; // null: every AI call
+  period: AiBudgetPeriod;
+  limitUsd: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AiBudgetUsage extends AiBudget {
+  periodStart: string;
+  spentUsd: number;
+  ratio: number; // Spent share of the limit, above 1 once exceeded
+  level: AiBudgetLevel;
+}
+
+export interface AiBudgetAlert {
+  id: string;
+  budgetId: string;
+  purpose: AiPurpose | null;
+  period: AiBudgetPeriod;
+  periodStart: string;
+  level: AiBudgetLevel;
+  spentUsd: number;
+  limitUsd: number;
+  createdAt: Date;
+}
+
+export interface AiBudgetOverride {
+  id: string;
+  level: AiBudgetLevel; // Enforced whatever the spending
+  reason: string | null;
+  expiresAt: Date;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface AiBudgetStatus {
+  level: AiBudgetLevel; // In force, override included
+  computedLevel: AiBudgetLevel; // From spending alone
+  override: AiBudgetOverride | null;
+  budgets: AiBudgetUsage[];
+  alerts: AiBudgetAlert[]; // Not yet acknowledged
+}
+
+export interface CreateAiBudgetInput {
+  purpose?: AiPurpose | null;
+  period: AiBudgetPeriod;
+  limitUsd: number;
+}
+
+export interface UpdateAiBudgetInput {
+  limitUsd?: number;
+  isActive?: boolean;
+}
+
+export interface CreateAiBudgetOverrideInput {
+  level: AiBudgetLevel;
+  hours: number;
+  reason?: string;
+}
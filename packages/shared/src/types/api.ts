@@ -55,6 +55,7 @@ export interface SourceFilters {
   type?: string;
   category?: string;
   active?: boolean;
+  health?: string;
 }
 
 export interface TriggerScanRequest {
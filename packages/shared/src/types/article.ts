@@ -1,14 +1,22 @@
-export type ArticleStatus = 'pending' | 'analyzing' | 'relevant' | 'irrelevant' | 'error';
+import type { StoryOutlet } from './story.js';
+
+// duplicate: syndicated copy of an article from another outlet, never analyzed
+export type ArticleStatus = 'pending' | 'analyzing' | 'relevant' | 'irrelevant' | 'error' | 'duplicate';
+
+export type ExtractionStatus = 'extracted' | 'paywalled' | 'failed';
 
 export interface Article {
   id: string;
   sourceId: string | null;
   externalId: string | null;
-  url: string;
+  url: string; // Canonical URL, the one hashed into urlHash
+  originalUrl: string | null; // URL as published in the feed, when it differs
   urlHash: string;
   title: string;
   lede: string | null;
   fullText: string | null;
+  extractionStatus: ExtractionStatus | null;
+  extractedAt: Date | null;
   author: string | null;
   publishedAt: Date | null;
   fetchedAt: Date;
@@ -18,18 +26,26 @@ export interface Article {
   keywords: string[];
   categories: string[];
   analyzedAt: Date | null;
+  analysisError: string | null; // Set when status is 'error'
+  storyId: string | null;
+  duplicateOf: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface ArticleWithSource extends Article {
   source: Source | null;
+  // Names of the outlets that republished the article (lists only)
+  syndicatedBy?: string[] | null;
+  // Every outlet of the article's story (detail only)
+  outlets?: StoryOutlet[];
 }
 
 export interface ArticleForAnalysis {
   id: string;
   title: string;
   lede: string;
+  fullText?: string;
   source: string;
   url: string;
 }
@@ -44,6 +60,8 @@ export interface RelevanceResult {
 
 export type SourceType = 'rss' | 'twitter' | 'mastodon' | 'bluesky';
 export type SourceCategory = 'national' | 'regional' | 'social';
+// degraded: failing with backoff, suspended: skipped by scans until a probe succeeds
+export type SourceHealth = 'healthy' | 'degraded' | 'suspended';
 
 export interface Source {
   id: string;
@@ -55,6 +73,35 @@ export interface Source {
   region: string | null;
   isActive: boolean;
   fetchIntervalMinutes: number;
+  // Paris hours without scans, null when the source is scanned around the clock
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  lastFetchedAt: Date | null;
+  lastEnqueuedAt: Date | null;
+  lastError: string | null;
+  errorCount: number;
+  healthStatus: SourceHealth;
+  nextFetchAt: Date | null;
+  suspendedAt: Date | null;
+  suspendedReason: string | null;
+  lastProbeAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpdateSourceScheduleInput {
+  fetchIntervalMinutes?: number;
+  quietHoursStart?: number | null;
+  quietHoursEnd?: number | null;
+}
+
+export interface SourceFeed {
+  id: string;
+  sourceId: string;
+  url: string;
+  label: string | null;
+  isPrimary: boolean;
+  isActive: boolean;
   lastFetchedAt: Date | null;
   lastError: string | null;
   errorCount: number;
@@ -62,10 +109,82 @@ export interface Source {
   updatedAt: Date;
 }
 
+export type OpmlImportStatus = 'new' | 'created' | 'duplicate' | 'invalid';
+
+export interface OpmlImportEntry {
+  title: string;
+  url: string;
+  slug: string;
+  category: SourceCategory;
+  region: string | null;
+  status: OpmlImportStatus;
+  reason?: string;
+  itemCount?: number;
+  feedOf?: string; // Name of the source a section feed is added to
+}
+
+export interface OpmlImportReport {
+  dryRun: boolean;
+  total: number;
+  new: number;
+  created: number;
+  duplicates: number;
+  invalid: number;
+  entries: OpmlImportEntry[];
+}
+
+export interface DiscoveredFeed {
+  url: string;
+  title: string | null;
+  format: 'rss' | 'atom';
+}
+
+export interface FeedTestSample {
+  title: string;
+  url: string;
+  lede: string | null;
+  publishedAt: Date | null;
+}
+
+export interface FeedTestResult {
+  url: string;
+  // URL after redirects
+  finalUrl: string | null;
+  success: boolean;
+  httpStatus: number | null;
+  contentType: string | null;
+  isFeed: boolean;
+  feedTitle: string | null;
+  itemCount: number;
+  newestItemAt: Date | null;
+  normalizedCount: number;
+  // Normalizer skip reasons (missing_link, too_old, insufficient_content...) with counts
+  skipReasons: Record<string, number>;
+  samples: FeedTestSample[];
+  // Feeds advertised by an HTML page through <link rel="alternate">
+  discoveredFeeds: DiscoveredFeed[];
+  error: string | null;
+  duration: number;
+}
+
+export interface SourceTestResult {
+  sourceId: string;
+  success: boolean;
+  feeds: Array<FeedTestResult & { feedId: string; label: string | null }>;
+}
+
+// HTTP cache validators of the last processed feed response
+export interface FeedValidators {
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string | null;
+}
+
 export interface CreateArticleInput {
   sourceId: string;
   externalId?: string;
   url: string;
+  originalUrl?: string;
   title: string;
   lede?: string;
   fullText?: string;
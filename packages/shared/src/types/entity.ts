@@ -0,0 +1,43 @@
+export type EntityType = 'politician' | 'public_body' | 'company' | 'commune';
+
+// A person, body, company or commune named by relevant articles
+export interface Entity {
+  id: string;
+  type: EntityType;
+  name: string;
+  inseeCode: string | null; // Communes found in the INSEE reference only
+  departementCode: string | null;
+  createdAt: Date;
+}
+
+export interface EntitySummary extends Entity {
+  articleCount: number; // Relevant articles of the period
+  lastSeenAt: Date | null;
+}
+
+export interface EntityQueryParams {
+  type?: EntityType;
+  search?: string;
+  days?: number;
+  page?: number;
+  limit?: number;
+}
+
+// A relevant article naming an entity
+export interface EntityArticle {
+  id: string;
+  title: string;
+  url: string;
+  sourceName: string | null;
+  publishedAt: Date | null;
+  relevanceScore: number | null;
+  categories: string[];
+}
+
+// Relevant articles naming a commune of the département
+export interface DepartementActivity {
+  code: string;
+  name: string;
+  articleCount: number;
+  communeCount: number;
+}
@@ -0,0 +1,99 @@
+// Human judgement of an article for a topic, the golden set scoring is checked against
+export interface RelevanceLabel {
+  id: string;
+  articleId: string;
+  topicId: string;
+  isRelevant: boolean;
+  labelledBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RelevanceLabelWithArticle extends RelevanceLabel {
+  articleTitle: string;
+  articleUrl: string;
+  sourceName: string | null;
+  topicName: string;
+  labelledByName: string | null;
+}
+
+export interface GoldenSetTopicSummary {
+  topicId: string;
+  topicName: string;
+  relevant: number;
+  irrelevant: number;
+}
+
+export interface LabelArticleInput {
+  articleId: string;
+  topicId: string;
+  isRelevant: boolean;
+}
+
+export type EvaluationRunStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ClassificationMetrics {
+  samples: number;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  // Null when undefined for the samples, e.g. precision without any predicted positive
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+// Scores in [minScore, maxScore) against how often they were actually relevant
+export interface CalibrationBin {
+  minScore: number;
+  maxScore: number;
+  count: number;
+  meanScore: number | null;
+  relevantRate: number | null;
+}
+
+export interface EvaluationMetrics extends ClassificationMetrics {
+  failed: number; // Samples the model could not score
+  calibration: CalibrationBin[];
+  bySource: Array<ClassificationMetrics & { sourceId: string | null; sourceName: string }>;
+  byTopic: Array<ClassificationMetrics & { topicId: string; topicName: string }>;
+}
+
+export interface EvaluationRun {
+  id: string;
+  topicId: string | null; // Null when the whole golden set is scored
+  topicName: string | null;
+  promptVersionId: string;
+  promptVersion: number | null;
+  model: string;
+  threshold: number;
+  status: EvaluationRunStatus;
+  sampleCount: number;
+  scoredCount: number;
+  error: string | null;
+  metrics: EvaluationMetrics | null;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface EvaluationResult {
+  articleId: string;
+  articleTitle: string;
+  sourceName: string | null;
+  topicId: string;
+  topicName: string;
+  expected: boolean;
+  score: number | null; // Null when the model could not score the article
+  reasoning: string | null;
+  error: string | null;
+}
+
+export interface CreateEvaluationRunInput {
+  topicId?: string;
+  promptVersionId?: string; // Active version of the multi-topic prompt by default
+  model?: string; // Configured model by default
+  threshold: number;
+}
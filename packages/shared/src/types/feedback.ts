@@ -0,0 +1,45 @@
+import type { ArticleTopicWithTopic } from './topic.js';
+
+// A reviewer's verdict on the score the model gave an article for a topic
+export interface RelevanceFeedback {
+  id: string;
+  articleId: string;
+  topicId: string;
+  modelScore: number; // Score judged, as it was when the feedback was given
+  isCorrect: boolean;
+  correctedScore: number | null; // Set when the model was wrong
+  comment: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ArticleTopicWithFeedback extends ArticleTopicWithTopic {
+  feedback: RelevanceFeedback | null;
+}
+
+export interface SubmitRelevanceFeedbackInput {
+  isCorrect: boolean;
+  correctedScore?: number;
+  comment?: string;
+}
+
+// A correction shown to the model as an example when it scores the topic again
+export interface RelevanceExample {
+  topicId: string;
+  title: string;
+  modelScore: number;
+  correctedScore: number;
+  comment: string | null;
+}
+
+export interface TopicAgreementStats {
+  topicId: string;
+  topicName: string;
+  feedbackCount: number;
+  agreedCount: number;
+  agreementRate: number | null;
+  meanAbsoluteError: number | null; // Between model and reviewer scores, 0 when they agreed
+  overScored: number; // Corrections lowering the score
+  underScored: number; // Corrections raising it
+}
@@ -4,3 +4,9 @@ export * from './user.js';
 export * from './scan.js';
 export * from './api.js';
 export * from './topic.js';
+export * from './story.js';
+export * from './ai.js';
+export * from './prompt.js';
+export * from './evaluation.js';
+export * from './feedback.js';
+export * from './entity.js';
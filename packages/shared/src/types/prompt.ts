@@ -0,0 +1,48 @@
+// Prompts stored in the database, one template per AI task
+export type PromptKey =
+  | 'relevance'
+  | 'multi_topic_relevance'
+  | 'post_generation'
+  | 'daily_summary'
+  | 'topic_authoring'
+  | 'entity_extraction';
+
+export interface PromptTemplateDefinition {
+  label: string;
+  description: string;
+  // Variables the templates may use, with what they hold
+  variables: Record<string, string>;
+  // Variables without which the task makes no sense
+  requiredVariables: string[];
+  // Shipped templates, version 1 of every prompt
+  defaultSystemPrompt: string;
+  defaultUserTemplate: string;
+}
+
+export interface PromptVersion {
+  id: string;
+  key: PromptKey;
+  version: number;
+  systemPrompt: string;
+  userTemplate: string;
+  note: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: Date;
+}
+
+export interface PromptTemplate {
+  key: PromptKey;
+  label: string;
+  description: string;
+  variables: Record<string, string>;
+  activeVersion: PromptVersion;
+  versionCount: number;
+}
+
+export interface CreatePromptVersionInput {
+  systemPrompt: string;
+  userTemplate: string;
+  note?: string;
+}
@@ -1,5 +1,5 @@
 export type ScanType = 'scheduled' | 'manual' | 'retry';
-export type ScanStatus = 'running' | 'completed' | 'failed' | 'partial';
+export type ScanStatus = 'running' | 'completed' | 'failed' | 'partial' | 'unchanged';
 
 export interface ScanLog {
   id: string;
@@ -58,4 +58,12 @@ export interface DashboardStats {
     relevant: number;
     postsGenerated: number;
   };
+  // Articles meeting each active topic's own threshold
+  relevantByTopic: Array<{
+    topicId: string;
+    topicName: string;
+    today: number;
+    week: number;
+    month: number;
+  }>;
 }
@@ -24,12 +24,29 @@ export interface SocialPost {
   createdAt: Date;
 }
 
+export interface CreateSocialPostInput {
+  sourceId: string | null;
+  platform: SocialPlatform;
+  externalId: string;
+  authorHandle?: string;
+  authorName?: string;
+  content: string;
+  url?: string;
+  postedAt?: Date;
+  likesCount: number;
+  repostsCount: number;
+  repliesCount: number;
+  linkedArticleId?: string;
+}
+
 export type GeneratedPostStatus = 'draft' | 'approved' | 'edited' | 'posted' | 'rejected';
 
 export interface GeneratedPost {
   id: string;
   articleId: string | null;
   socialPostId: string | null;
+  storyId: string | null; // Set when the post was written with the story timeline as context
+  promptVersionId: string | null; // Prompt version that wrote the post
   contentTwitter: string | null;
   contentMastodon: string | null;
   contentBluesky: string | null;
@@ -72,4 +89,5 @@ export interface GeneratePostsResult {
   };
   tone: string;
   qualityScore: number;
+  promptVersionId: string;
 }
@@ -0,0 +1,61 @@
+import type { ArticleStatus } from './article.js';
+
+export interface Story {
+  id: string;
+  canonicalArticleId: string | null;
+  title: string;
+  articleCount: number;
+  entities: string[];
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  editedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StorySummary extends Story {
+  outletCount: number;
+  relevantCount: number;
+}
+
+// One article of the story, its syndicated copies folded in
+export interface StoryTimelineEntry {
+  articleId: string;
+  title: string;
+  url: string;
+  sourceName: string | null;
+  publishedAt: Date | null;
+  status: ArticleStatus;
+  relevanceScore: number | null;
+  syndicatedBy: string[];
+}
+
+export interface StoryWithTimeline extends Story {
+  timeline: StoryTimelineEntry[];
+}
+
+export interface StoryQueryParams {
+  search?: string;
+  minArticles?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface MergeStoriesInput {
+  storyIds: string[];
+}
+
+export interface SplitStoryInput {
+  articleIds: string[];
+  title?: string;
+}
+
+// One outlet carrying an article of a story
+export interface StoryOutlet {
+  articleId: string;
+  sourceId: string | null;
+  sourceName: string | null;
+  url: string;
+  publishedAt: Date | null;
+  isCanonical: boolean;
+}
@@ -5,7 +5,8 @@ export interface Topic {
   description: string | null;
   keywords: string[];
   aiPrompt: string;
-  minRelevanceScore: number;
+  minRelevanceScore: number; // An article is relevant to the topic from this score
+  autoGenerateScore: number | null; // Posts are generated from this score, the default one when null
   isActive: boolean;
   isSystem: boolean;
   createdBy: string | null;
@@ -20,6 +21,7 @@ export interface ArticleTopic {
   relevanceScore: number;
   reasoning: string | null;
   potentialAngle: string | null;
+  promptVersionId: string | null; // Prompt version that produced the score
   analyzedAt: Date;
 }
 
@@ -33,6 +35,7 @@ export interface TopicRelevanceResult {
   relevanceScore: number;
   reasoning: string;
   potentialAngle: string;
+  promptVersionId: string | null; // Null when the article was scored without calling the model
 }
 
 export interface CreateTopicInput {
@@ -41,6 +44,7 @@ export interface CreateTopicInput {
   keywords: string[];
   aiPrompt: string;
   minRelevanceScore?: number;
+  autoGenerateScore?: number | null;
   isActive?: boolean;
 }
 
@@ -50,9 +54,169 @@ export interface UpdateTopicInput {
   keywords?: string[];
   aiPrompt?: string;
   minRelevanceScore?: number;
+  autoGenerateScore?: number | null;
   isActive?: boolean;
 }
 
 export interface TopicFilters {
   active?: boolean;
 }
+
+export type TopicBackfillStatus = 'pending' | 'scanning' | 'analyzing' | 'completed' | 'failed' | 'cancelled';
+
+// Keyword matching re-run over recent articles, after a topic was created or changed
+export interface TopicBackfill {
+  id: string;
+  topicId: string;
+  days: number;
+  rescore: boolean; // Articles already scored for the topic are scored again
+  status: TopicBackfillStatus;
+  estimatedAnalyses: number;
+  estimatedCostUsd: number | null; // Unknown without priced calls to average
+  scannedCount: number;
+  matchedCount: number; // Articles newly matched by the keywords
+  rescoredCount: number;
+  queuedCount: number;
+  analyzedCount: number;
+  failedCount: number;
+  error: string | null;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+export interface TopicBackfillEstimate {
+  days: number;
+  rescore: boolean;
+  scanned: number;
+  sampled: number; // Unscored articles matched against the keywords, the matches are extrapolated from them
+  matched: number;
+  rescored: number;
+  analyses: number; // One call per article
+  costPerAnalysisUsd: number | null; // Average of recent relevance calls
+  estimatedCostUsd: number | null;
+}
+
+export interface CreateTopicBackfillInput {
+  days: number;
+  rescore?: boolean;
+}
+
+// A keyword that does not parse as a query
+export interface KeywordQueryIssue {
+  index: number; // Position of the keyword in the list
+  keyword: string;
+  message: string;
+  position: number; // Offset in the keyword where parsing failed
+}
+
+export interface KeywordValidationResult {
+  valid: boolean;
+  issues: KeywordQueryIssue[];
+}
+
+// Keywords run over the articles of the last days, as they would have been at insert time
+export interface KeywordPreview {
+  days: number;
+  scanned: number;
+  matched: number;
+  excluded: number; // Matched, but dropped by a negative keyword
+  articles: Array<{
+    id: string;
+    title: string;
+    url: string;
+    sourceName: string | null;
+    publishedAt: Date | null;
+    matchedKeywords: string[];
+  }>;
+}
+
+// A term that would have caught sampled misses judged relevant to a topic
+export interface KeywordSuggestion {
+  keyword: string; // Ready to add to the topic's keywords
+  relevantMisses: number; // Relevant samples it matches
+  otherMisses: number; // Samples it matches that were not relevant to the topic
+}
+
+// How many of a topic's relevant articles its keywords let through, estimated from sampled misses
+export interface TopicKeywordRecall {
+  topicId: string;
+  topicName: string;
+  caught: number; // Relevant articles the keywords matched
+  misses: number; // Articles the keywords let through
+  analyzedSamples: number; // Sampled misses scored for the topic
+  relevantSamples: number;
+  estimatedMissed: number; // Relevant samples, each counted for the misses its run's sampling stands for
+  recall: number | null; // Unknown without scored samples
+  suggestions: KeywordSuggestion[];
+  examples: Array<{
+    articleId: string;
+    title: string;
+    url: string;
+    relevanceScore: number;
+  }>;
+}
+
+// Articles some topic's keywords missed, a share of them analyzed for those topics anyway
+export interface KeywordAuditReport {
+  days: number;
+  sampleRate: number; // 0 when sampling is disabled
+  scanned: number; // Articles checked by the sampling runs
+  misses: number; // Those at least one topic's keywords missed
+  samples: number;
+  topics: TopicKeywordRecall[];
+}
+
+// What the topic assistant starts from
+export interface TopicDraftInput {
+  description: string;
+  examples?: string[]; // Article URLs or IDs
+}
+
+export interface TopicDraftExample {
+  id: string;
+  title: string;
+  url: string;
+  sourceName: string | null;
+}
+
+// Topic proposed by the assistant, nothing is saved until an admin creates it
+export interface TopicDraft {
+  name: string;
+  description: string;
+  aiPrompt: string;
+  keywords: string[];
+  exclusions: string[]; // Written as NOT entries, ready for the keyword list
+  rationale: string;
+  examples: TopicDraftExample[];
+  unresolvedExamples: string[]; // Neither a known article ID nor the URL of a stored article
+  issues: KeywordQueryIssue[]; // Proposed keywords left out as invalid
+}
+
+export interface TopicDryRunInput {
+  name: string;
+  aiPrompt: string;
+  keywords: string[];
+  minRelevanceScore?: number;
+  exampleIds?: string[]; // Scored even when the keywords miss them
+}
+
+// A draft scored over recent articles as if it were an active topic
+export interface TopicDryRun {
+  days: number;
+  scanned: number;
+  matched: number;
+  minRelevanceScore: number;
+  articles: Array<{
+    id: string;
+    title: string;
+    url: string;
+    sourceName: string | null;
+    matchedKeywords: string[];
+    isExample: boolean;
+    relevanceScore: number | null; // Null when the analysis failed
+    reasoning: string | null;
+  }>;
+}
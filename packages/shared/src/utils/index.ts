@@ -1,2 +1,5 @@
 export * from './text.js';
 export * from './date.js';
+export * from './url.js';
+export * from './prompt.js';
+export * from './keyword-query.js';
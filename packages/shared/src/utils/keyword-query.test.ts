@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileKeywords,
+  findMatchingKeywords,
+  KeywordQueryError,
+  matchesKeywordQuery,
+  parseKeywordQuery,
+  prepareText,
+  stemFrenchWord,
+} from './keyword-query.js';
+
+function matches(query: string, text: string): boolean {
+  return matchesKeywordQuery(parseKeywordQuery(query), prepareText(text));
+}
+
+describe('stemFrenchWord', () => {
+  it.each([
+    ['taxes', 'taxe'],
+    ['taxe', 'taxe'],
+    ['normes', 'norm'],
+    ['enorme', 'enorm'],
+    ['taxi', 'taxi'],
+    ['journaux', 'journal'],
+    ['administrative', 'administratif'],
+    ['publique', 'public'],
+    ['officielle', 'officiel'],
+    ['mais', 'mais'],
+    ['mai', 'mai'],
+    ['cours', 'cours'],
+  ])('%s → %s', (word, stem) => {
+    expect(stemFrenchWord(word)).toBe(stem);
+  });
+});
+
+describe('matchesKeywordQuery', () => {
+  it.each([
+    // Whole words, plurals and accents
+    ['taxe', 'Nouvelle taxe sur les carburants', true],
+    ['taxe', 'Les taxes augmentent', true],
+    ['taxe', 'Grève des taxis à Paris', false],
+    ['taxi', 'Nouvelle taxe sur les carburants', false],
+    ['norme', 'Une nouvelle norme européenne', true],
+    ['norme', 'Des normes absurdes', true],
+    ['norme', 'Un chantier énorme', false],
+    ['prefecture', 'La Préfecture du Rhône', true],
+    ['préfecture', 'Les prefectures débordées', true],
+    ['mai', 'Il viendra, mais plus tard', false],
+    ['mai', 'Manifestation du 1er mai', true],
+    ['mais', 'Il viendra, mais plus tard', true],
+
+    // Prefixes
+    ['fonctionn*', 'Les fonctionnaires en grève', true],
+    ['fonctionn*', 'Le fonds de soutien', false],
+
+    // Phrases, quoted or split on apostrophes and dashes
+    ['"taxe d\'habitation"', 'La taxe d\'habitation supprimée', true],
+    ['"taxe d\'habitation"', 'Une taxe pour l\'habitation', false],
+    ['taxe-habitation', 'la taxe habitation', true],
+    ['"service public"', 'Les services publics ferment', true],
+
+    // AND, implicit or explicit
+    ['taxe carburant', 'La taxe sur le carburant', true],
+    ['taxe carburant', 'La taxe foncière', false],
+    ['taxe AND carburant', 'Le carburant et sa taxe', true],
+
+    // OR and parentheses
+    ['taxe OR impot', 'L\'impôt sur le revenu', true],
+    ['taxe OR impot', 'Le budget de l\'État', false],
+    ['(taxe OR impot) foncier', 'L\'impôt foncier', true],
+    ['(taxe OR impot) foncier', 'L\'impôt sur le revenu', false],
+
+    // NOT and -word
+    ['taxe NOT taxi', 'La taxe des taxis', false],
+    ['taxe NOT taxi', 'La taxe foncière', true],
+    ['taxe -taxi', 'La taxe des taxis', false],
+    ['taxe -taxi', 'La taxe foncière', true],
+    ['covid-19', 'Le covid-19 revient', true],
+
+    // NEAR/n: at most n words in between, in either order
+    ['taxe NEAR/3 foncier', 'La taxe sur le bâti foncier', true],
+    ['taxe NEAR/2 foncier', 'La taxe sur le bâti foncier', false],
+    ['foncier NEAR/3 taxe', 'La taxe sur le bâti foncier', true],
+    ['taxe NEAR/0 foncier', 'La taxe foncière', true],
+    ['"taxe foncière" NEAR/2 hausse', 'La taxe foncière en forte hausse', true],
+    ['taxe NEAR/3 taxe', 'Une taxe de plus', false],
+    ['taxe NEAR/3 taxe', 'Une taxe de plus, une taxe de trop', true],
+    ['taxe NEAR/3 taxe', 'Une taxe au-dessus de la taxe', false],
+    ['"taxe foncière" NEAR/3 foncier', 'La taxe foncière augmente', false],
+  ])('%s on "%s" is %s', (query, text, expected) => {
+    expect(matches(query, text)).toBe(expected);
+  });
+});
+
+describe('parseKeywordQuery errors', () => {
+  it.each([
+    ['', 'Requête vide', 0],
+    ['"taxe', 'Guillemet fermant manquant', 0],
+    ['taxe "', 'Guillemet fermant manquant', 5],
+    ['(taxe OR taxi', 'Parenthèse fermante manquante', 13],
+    ['taxe OR', 'Mot attendu en fin de requête', 7],
+    ['OR taxe', 'Mot attendu avant « OR »', 0],
+    ['taxe )', '« ) » inattendu', 5],
+    ['taxe -', '« - » ne contient aucune lettre', 5],
+    ['taxe ""', 'Expression vide entre guillemets', 5],
+    ['ta*', 'Un préfixe* compte au moins 3 lettres, sans espace ni tiret', 0],
+    ['taxe NEAR/30 impot', 'NEAR accepte au plus 20 mots d\'écart', 5],
+    ['taxe NEAR/2 (impot OR taxi)', 'NEAR relie deux mots ou deux expressions entre guillemets', 5],
+  ])('%j fails with "%s" at %i', (query, message, position) => {
+    let error: unknown;
+    try {
+      parseKeywordQuery(query);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(KeywordQueryError);
+    expect((error as KeywordQueryError).message).toBe(message);
+    expect((error as KeywordQueryError).position).toBe(position);
+  });
+});
+
+describe('compileKeywords', () => {
+  it('keeps negated keywords apart as exclusions', () => {
+    const compiled = compileKeywords(['taxe', '-taxi', 'NOT "taxe rose"']);
+
+    expect(compiled.include.map((k) => k.keyword)).toEqual(['taxe']);
+    expect(compiled.exclude.map((k) => k.keyword)).toEqual(['-taxi', 'NOT "taxe rose"']);
+    expect(compiled.issues).toEqual([]);
+  });
+
+  it.each([
+    [['taxe', 'taxe OR'], 1, 'Mot attendu en fin de requête'],
+    [['NOT (NOT taxe)'], 0, 'Exclusion sans aucun mot à exclure'],
+    [['taxe OR NOT taxi'], 0, 'La requête doit contenir au moins un mot qui ne soit pas exclu'],
+    [['-taxi'], 0, 'Au moins un mot-clé doit inclure des articles, pas seulement en exclure'],
+  ])('reports %j', (keywords, index, message) => {
+    expect(compileKeywords(keywords).issues).toEqual([
+      expect.objectContaining({ index, message }),
+    ]);
+  });
+
+  it('matches no keyword once an exclusion matches', () => {
+    const compiled = compileKeywords(['taxe', 'impot', '-taxi']);
+
+    expect(findMatchingKeywords(compiled, prepareText('La taxe et l\'impôt'))).toEqual(['taxe', 'impot']);
+    expect(findMatchingKeywords(compiled, prepareText('La taxe des taxis'))).toEqual([]);
+  });
+});
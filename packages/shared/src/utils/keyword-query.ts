@@ -0,0 +1,420 @@
+import type { KeywordQueryIssue } from '../types/topic.js';
+
+/**
+ * Keyword queries of topics, the pre-filter run before any AI analysis.
+ *
+ * Each keyword of a topic is a query: words match whole words after accent folding
+ * and light French stemming, "quoted phrases" match in sequence, prefix* matches the
+ * beginning of words, and AND (implicit), OR, NOT (or -word), NEAR/n and parentheses
+ * combine them. A keyword that is a negation as a whole excludes the article.
+ */
+
+export type KeywordQueryNode =
+  | { type: 'term'; stem: string }
+  | { type: 'prefix'; prefix: string }
+  | { type: 'phrase'; stems: string[] }
+  | { type: 'near'; left: KeywordQueryNode; right: KeywordQueryNode; distance: number }
+  | { type: 'and'; children: KeywordQueryNode[] }
+  | { type: 'or'; children: KeywordQueryNode[] }
+  | { type: 'not'; child: KeywordQueryNode };
+
+export class KeywordQueryError extends Error {
+  constructor(
+    message: string,
+    public position: number // Offset in the query where parsing failed
+  ) {
+    super(message);
+    this.name = 'KeywordQueryError';
+  }
+}
+
+// Prefixes shorter than this would match most articles
+const MIN_PREFIX_LENGTH = 3;
+const MAX_NEAR_DISTANCE = 20;
+
+// Invariable words that would become another word without their final s: mais → mai, cours → cour
+const INVARIABLE_WORDS = new Set(['mais', 'fois', 'mois', 'cours', 'sous', 'vers', 'apres', 'pres', 'plus']);
+
+/**
+ * Lowercase without accents or ligatures, so "Préfecture" and "prefecture" compare equal
+ */
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/œ/g, 'oe')
+    .replace(/æ/g, 'ae');
+}
+
+/**
+ * Light French stemmer over a folded word: plurals and the usual feminine endings only,
+ * so "taxes" meets "taxe" while "taxi" and "énorme" stay apart from "taxe" and "norme"
+ */
+export function stemFrenchWord(word: string): string {
+  if (INVARIABLE_WORDS.has(word)) return word;
+
+  let stem = word;
+
+  // Plurals: journaux → journal, taxes → taxe
+  if (stem.length > 4 && stem.endsWith('aux')) return `${stem.slice(0, -3)}al`;
+  if (stem.length > 3 && /[sx]$/.test(stem)) stem = stem.slice(0, -1);
+
+  // Feminine forms: administrative → administratif, publique → public, dangereuse → dangereu(x)
+  if (stem.length > 4 && stem.endsWith('ive')) return `${stem.slice(0, -3)}if`;
+  if (stem.length > 5 && stem.endsWith('ique')) return `${stem.slice(0, -3)}c`;
+  if (stem.length > 5 && stem.endsWith('euse')) return stem.slice(0, -2);
+
+  // Final e, with its doubled consonant: officielle → officiel, normes → norm
+  if (stem.length > 4 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1);
+    if (/(ll|nn|tt)$/.test(stem)) stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+function splitWords(text: string): string[] {
+  return foldText(text).split(/[^a-z0-9]+/).filter((word) => word.length > 0);
+}
+
+/**
+ * Text split once into words and stems, to run many queries over it
+ */
+export interface PreparedText {
+  words: string[];
+  stems: string[];
+}
+
+export function prepareText(text: string): PreparedText {
+  const words = splitWords(text);
+  return { words, stems: words.map(stemFrenchWord) };
+}
+
+// =========================================
+// PARSING
+// =========================================
+
+interface Token {
+  kind: 'word' | 'phrase' | 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'near';
+  value: string;
+  position: number;
+  distance?: number;
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new KeywordQueryError('Guillemet fermant manquant', i);
+      }
+      tokens.push({ kind: 'phrase', value: query.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      // A dash in front of a word excludes it, inside a word it is part of it
+      tokens.push({ kind: 'not', value: char, position: i });
+      i++;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+      const value = query.slice(start, i);
+
+      const near = /^NEAR\/(\d+)$/.exec(value);
+      if (near) {
+        tokens.push({ kind: 'near', value, position: start, distance: parseInt(near[1]) });
+      } else if (value === 'AND' || value === 'OR' || value === 'NOT') {
+        tokens.push({ kind: value.toLowerCase() as 'and' | 'or' | 'not', value, position: start });
+      } else {
+        tokens.push({ kind: 'word', value, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private tokens: Token[],
+    private length: number
+  ) {}
+
+  parse(): KeywordQueryNode {
+    if (this.tokens.length === 0) {
+      throw new KeywordQueryError('Requête vide', 0);
+    }
+
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new KeywordQueryError(`« ${extra.value} » inattendu`, extra.position);
+    }
+
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private position(): number {
+    return this.peek()?.position ?? this.length;
+  }
+
+  private parseOr(): KeywordQueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.kind === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  // Juxtaposed operands are combined with AND
+  private parseAnd(): KeywordQueryNode {
+    const children = [this.parseUnary()];
+
+    for (let token = this.peek(); token && token.kind !== 'or' && token.kind !== 'rparen'; token = this.peek()) {
+      if (token.kind === 'and') this.index++;
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): KeywordQueryNode {
+    if (this.peek()?.kind === 'not') {
+      this.index++;
+      return { type: 'not', child: this.parseUnary() };
+    }
+
+    return this.parseNear();
+  }
+
+  private parseNear(): KeywordQueryNode {
+    let node = this.parsePrimary();
+
+    while (this.peek()?.kind === 'near') {
+      const near = this.tokens[this.index++];
+      const right = this.parsePrimary();
+
+      if (!isWordMatch(node) || !isWordMatch(right)) {
+        throw new KeywordQueryError('NEAR relie deux mots ou deux expressions entre guillemets', near.position);
+      }
+      if (near.distance! > MAX_NEAR_DISTANCE) {
+        throw new KeywordQueryError(`NEAR accepte au plus ${MAX_NEAR_DISTANCE} mots d'écart`, near.position);
+      }
+
+      node = { type: 'near', left: node, right, distance: near.distance! };
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): KeywordQueryNode {
+    const token = this.peek();
+
+    if (!token) {
+      throw new KeywordQueryError('Mot attendu en fin de requête', this.length);
+    }
+
+    this.index++;
+
+    switch (token.kind) {
+      case 'lparen': {
+        const node = this.parseOr();
+        if (this.peek()?.kind !== 'rparen') {
+          throw new KeywordQueryError('Parenthèse fermante manquante', this.position());
+        }
+        this.index++;
+        return node;
+      }
+      case 'phrase': {
+        const words = splitWords(token.value);
+        if (words.length === 0) {
+          throw new KeywordQueryError('Expression vide entre guillemets', token.position);
+        }
+        return words.length === 1
+          ? { type: 'term', stem: stemFrenchWord(words[0]) }
+          : { type: 'phrase', stems: words.map(stemFrenchWord) };
+      }
+      case 'word':
+        return this.parseWord(token);
+      default:
+        throw new KeywordQueryError(`Mot attendu avant « ${token.value} »`, token.position);
+    }
+  }
+
+  private parseWord(token: Token): KeywordQueryNode {
+    if (token.value.endsWith('*')) {
+      const words = splitWords(token.value.slice(0, -1));
+      if (words.length !== 1 || words[0].length < MIN_PREFIX_LENGTH) {
+        throw new KeywordQueryError(
+          `Un préfixe* compte au moins ${MIN_PREFIX_LENGTH} lettres, sans espace ni tiret`,
+          token.position
+        );
+      }
+      return { type: 'prefix', prefix: words[0] };
+    }
+
+    // Apostrophes and dashes split a word: d'habitation, covid-19
+    const words = splitWords(token.value);
+    if (words.length === 0) {
+      throw new KeywordQueryError(`« ${token.value} » ne contient aucune lettre`, token.position);
+    }
+
+    return words.length === 1
+      ? { type: 'term', stem: stemFrenchWord(words[0]) }
+      : { type: 'phrase', stems: words.map(stemFrenchWord) };
+  }
+}
+
+function isWordMatch(node: KeywordQueryNode): boolean {
+  return node.type === 'term' || node.type === 'prefix' || node.type === 'phrase';
+}
+
+/**
+ * Whether a node can only match when some word is present, unlike "NOT taxi"
+ */
+function requiresWord(node: KeywordQueryNode): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.some(requiresWord);
+    case 'or':
+      return node.children.every(requiresWord);
+    case 'not':
+      return false;
+    default:
+      return true;
+  }
+}
+
+export function parseKeywordQuery(query: string): KeywordQueryNode {
+  return new Parser(tokenize(query), query.length).parse();
+}
+
+// =========================================
+// MATCHING
+// =========================================
+
+/**
+ * Start and end word index of each occurrence
+ */
+function findOccurrences(node: KeywordQueryNode, text: PreparedText): Array<[number, number]> {
+  const occurrences: Array<[number, number]> = [];
+
+  for (let i = 0; i < text.words.length; i++) {
+    if (node.type === 'term' && text.stems[i] === node.stem) {
+      occurrences.push([i, i]);
+    } else if (node.type === 'prefix' && text.words[i].startsWith(node.prefix)) {
+      occurrences.push([i, i]);
+    } else if (node.type === 'phrase' && node.stems.every((stem, j) => text.stems[i + j] === stem)) {
+      occurrences.push([i, i + node.stems.length - 1]);
+    }
+  }
+
+  return occurrences;
+}
+
+export function matchesKeywordQuery(node: KeywordQueryNode, text: PreparedText): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesKeywordQuery(child, text));
+    case 'or':
+      return node.children.some((child) => matchesKeywordQuery(child, text));
+    case 'not':
+      return !matchesKeywordQuery(node.child, text);
+    case 'near': {
+      const right = findOccurrences(node.right, text);
+      return findOccurrences(node.left, text).some(([leftStart, leftEnd]) =>
+        right.some(([rightStart, rightEnd]) =>
+          // Two distinct occurrences, "taxe NEAR/3 taxe" needs the word twice
+          (leftEnd < rightStart || rightEnd < leftStart)
+          // Words in between, in either order
+          && Math.max(rightStart - leftEnd, leftStart - rightEnd) - 1 <= node.distance
+        )
+      );
+    }
+    default:
+      return findOccurrences(node, text).length > 0;
+  }
+}
+
+// =========================================
+// TOPIC KEYWORDS
+// =========================================
+
+export interface CompiledKeyword {
+  keyword: string;
+  node: KeywordQueryNode;
+}
+
+export interface CompiledKeywords {
+  include: CompiledKeyword[];
+  exclude: CompiledKeyword[]; // Negated keywords, stored without their NOT
+  issues: KeywordQueryIssue[]; // Keywords left out as invalid
+}
+
+/**
+ * Parse the keywords of a topic, leaving out and reporting the invalid ones
+ */
+export function compileKeywords(keywords: string[]): CompiledKeywords {
+  const compiled: CompiledKeywords = { include: [], exclude: [], issues: [] };
+
+  keywords.forEach((keyword, index) => {
+    try {
+      const node = parseKeywordQuery(keyword);
+
+      if (node.type === 'not') {
+        if (!requiresWord(node.child)) {
+          throw new KeywordQueryError('Exclusion sans aucun mot à exclure', 0);
+        }
+        compiled.exclude.push({ keyword, node: node.child });
+      } else if (!requiresWord(node)) {
+        throw new KeywordQueryError('La requête doit contenir au moins un mot qui ne soit pas exclu', 0);
+      } else {
+        compiled.include.push({ keyword, node });
+      }
+    } catch (error) {
+      if (!(error instanceof KeywordQueryError)) throw error;
+      compiled.issues.push({ index, keyword, message: error.message, position: error.position });
+    }
+  });
+
+  if (compiled.issues.length === 0 && keywords.length > 0 && compiled.include.length === 0) {
+    compiled.issues.push({
+      index: 0,
+      keyword: keywords[0],
+      message: 'Au moins un mot-clé doit inclure des articles, pas seulement en exclure',
+      position: 0,
+    });
+  }
+
+  return compiled;
+}
+
+/**
+ * Included keywords the text matches, none when an exclusion matches
+ */
+export function findMatchingKeywords(compiled: CompiledKeywords, text: PreparedText): string[] {
+  if (compiled.exclude.some((k) => matchesKeywordQuery(k.node, text))) return [];
+
+  return compiled.include
+    .filter((k) => matchesKeywordQuery(k.node, text))
+    .map((k) => k.keyword);
+}
@@ -0,0 +1,15 @@
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Fill the {{variables}} of a prompt template. Unknown variables render empty.
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '');
+}
+
+/**
+ * Variables a prompt template refers to, each listed once
+ */
+export function findPromptVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))];
+}
@@ -1,5 +1,6 @@
 import { createHash } from 'crypto';
 
+// Expects a canonical URL (see canonicalizeUrl), the hash is the article identity
 export function hashUrl(url: string): string {
   return createHash('sha256').update(url).digest('hex');
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeUrl } from './url.js';
+import { DEFAULT_URL_RULES } from '../constants/urls.js';
+
+describe('canonicalizeUrl', () => {
+  it.each([
+    // Scheme, host case, fragment and trailing slash
+    ['http://www.lemonde.fr/politique/article.html', 'https://www.lemonde.fr/politique/article.html'],
+    ['https://WWW.LeMonde.fr/politique/', 'https://www.lemonde.fr/politique'],
+    ['https://www.lemonde.fr/a#xtor=RSS-3', 'https://www.lemonde.fr/a'],
+    ['https://www.lemonde.fr', 'https://www.lemonde.fr/'],
+    ['https://www.lemonde.fr/', 'https://www.lemonde.fr/'],
+    ['  https://www.lemonde.fr/a  ', 'https://www.lemonde.fr/a'],
+  ])('normalizes %s', (input, expected) => {
+    expect(canonicalizeUrl(input)).toBe(expected);
+  });
+
+  it.each([
+    ['https://www.lefigaro.fr/a?utm_source=rss&utm_medium=feed', 'https://www.lefigaro.fr/a'],
+    ['https://www.lefigaro.fr/a?UTM_Campaign=x', 'https://www.lefigaro.fr/a'],
+    ['https://www.liberation.fr/a?xtor=RSS-450&at_medium=x', 'https://www.liberation.fr/a'],
+    ['https://www.ouest-france.fr/a?fbclid=abc&gclid=def', 'https://www.ouest-france.fr/a'],
+    ['https://www.20minutes.fr/a?Echobox=123&id=4', 'https://www.20minutes.fr/a?id=4'],
+  ])('drops the tracking parameters of %s', (input, expected) => {
+    expect(canonicalizeUrl(input)).toBe(expected);
+  });
+
+  it.each([
+    // Parameters are sorted, empty values keep their '=' and spaces become '+'
+    ['https://site.fr/a?b=2&a=1', 'https://site.fr/a?a=1&b=2'],
+    ['https://site.fr/a?b=2&a=1&page', 'https://site.fr/a?a=1&b=2&page='],
+    ['https://site.fr/a?q=un%20deux', 'https://site.fr/a?q=un+deux'],
+    ['https://site.fr/search?utm_source=x', 'https://site.fr/search'],
+  ])('rewrites the query of %s', (input, expected) => {
+    expect(canonicalizeUrl(input)).toBe(expected);
+  });
+
+  it.each([
+    ['https://www-lemonde-fr.cdn.ampproject.org/c/s/www.lemonde.fr/a.html', 'https://www.lemonde.fr/a.html'],
+    ['https://www-lemonde-fr.cdn.ampproject.org/v/www.lemonde.fr/a.html', 'https://www.lemonde.fr/a.html'],
+    ['https://amp.lefigaro.fr/politique/a.php', 'https://www.lefigaro.fr/politique/a.php'],
+    ['https://www.lemonde.fr/amp/politique/article/a.html', 'https://www.lemonde.fr/politique/article/a.html'],
+    ['https://blog.exemple.fr/2024/05/billet/amp/', 'https://blog.exemple.fr/2024/05/billet'],
+    ['https://www.site.fr/article.amp.html', 'https://www.site.fr/article.html'],
+  ])('resolves the AMP variant %s', (input, expected) => {
+    expect(canonicalizeUrl(input)).toBe(expected);
+  });
+
+  it('keeps an /amp section that is the whole path', () => {
+    expect(canonicalizeUrl('https://www.site.fr/amp')).toBe('https://www.site.fr/amp');
+  });
+
+  it('leaves non HTTP and unparsable URLs alone', () => {
+    expect(canonicalizeUrl('mailto:redaction@site.fr')).toBe('mailto:redaction@site.fr');
+    expect(canonicalizeUrl('  pas une url ')).toBe('pas une url');
+  });
+
+  it('applies extra tracking parameters, with prefixes', () => {
+    const rules = {
+      ...DEFAULT_URL_RULES,
+      trackingParams: [...DEFAULT_URL_RULES.trackingParams, 'origine', 'sh_*'],
+    };
+
+    expect(canonicalizeUrl('https://site.fr/a?origine=rss&sh_kit=1&id=2', rules)).toBe('https://site.fr/a?id=2');
+    expect(canonicalizeUrl('https://site.fr/a?origine=rss&id=2')).toBe('https://site.fr/a?id=2&origine=rss');
+  });
+});
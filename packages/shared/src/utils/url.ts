@@ -0,0 +1,61 @@
+import { DEFAULT_URL_RULES, type UrlCanonicalizationRules } from '../constants/urls.js';
+
+/**
+ * Canonical form of an article URL, the one that gets hashed:
+ * https, no fragment, no tracking parameters, sorted query,
+ * AMP variants rewritten and no trailing slash.
+ * URLs that do not parse are returned trimmed.
+ */
+export function canonicalizeUrl(
+  url: string,
+  rules: UrlCanonicalizationRules = DEFAULT_URL_RULES
+): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return parsed.href;
+  }
+
+  // Fragments never identify an article (#xtor=RSS-3, #Echobox=…)
+  parsed.hash = '';
+  parsed.protocol = 'https:';
+
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (isTrackingParam(key, rules.trackingParams)) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+
+  let location = `${parsed.host}${parsed.pathname}`;
+  for (const rule of rules.domainRules) {
+    if (rule.domain === '*' || matchesDomain(parsed.hostname, rule.domain)) {
+      location = location.replace(rule.pattern, rule.replacement);
+    }
+  }
+
+  // The site root keeps its slash
+  const path = /^[^/]+\/./.test(location) ? location.replace(/\/+$/, '') : location;
+  const query = parsed.searchParams.toString();
+
+  return `https://${path}${query ? `?${query}` : ''}`;
+}
+
+function isTrackingParam(key: string, trackingParams: string[]): boolean {
+  const name = key.toLowerCase();
+
+  return trackingParams.some((param) =>
+    param.endsWith('*')
+      ? name.startsWith(param.slice(0, -1).toLowerCase())
+      : name === param.toLowerCase()
+  );
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}